@@ -0,0 +1,13 @@
+CREATE TABLE `order_status_history` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`order_id` varchar(26) NOT NULL,
+	`from_status` varchar(20),
+	`to_status` varchar(20) NOT NULL,
+	`actor_type` varchar(20) NOT NULL,
+	`actor_id` varchar(50),
+	`reason` varchar(255),
+	`created_at` timestamp DEFAULT (now()),
+	CONSTRAINT `order_status_history_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `order_status_history` ADD CONSTRAINT `order_status_history_order_id_orders_id_fk` FOREIGN KEY (`order_id`) REFERENCES `orders`(`id`) ON DELETE no action ON UPDATE no action;
\ No newline at end of file
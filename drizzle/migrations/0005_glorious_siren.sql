@@ -0,0 +1,13 @@
+CREATE TABLE `stock_reservations` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`order_id` varchar(26) NOT NULL,
+	`product_id` int NOT NULL,
+	`quantity` int NOT NULL,
+	`status` varchar(20) NOT NULL DEFAULT 'reserved',
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `stock_reservations_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `stock_reservations` ADD CONSTRAINT `stock_reservations_order_id_orders_id_fk` FOREIGN KEY (`order_id`) REFERENCES `orders`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `stock_reservations` ADD CONSTRAINT `stock_reservations_product_id_products_id_fk` FOREIGN KEY (`product_id`) REFERENCES `products`(`id`) ON DELETE no action ON UPDATE no action;
\ No newline at end of file
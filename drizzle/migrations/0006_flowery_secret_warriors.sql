@@ -0,0 +1,22 @@
+CREATE TABLE `cart_items` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`cart_id` int NOT NULL,
+	`product_id` int NOT NULL,
+	`quantity` int NOT NULL,
+	`added_at` timestamp DEFAULT (now()),
+	CONSTRAINT `cart_items_id` PRIMARY KEY(`id`),
+	CONSTRAINT `cart_items_cart_product_unique` UNIQUE(`cart_id`,`product_id`)
+);
+--> statement-breakpoint
+CREATE TABLE `carts` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `carts_id` PRIMARY KEY(`id`),
+	CONSTRAINT `carts_user_id_unique` UNIQUE(`user_id`)
+);
+--> statement-breakpoint
+ALTER TABLE `cart_items` ADD CONSTRAINT `cart_items_cart_id_carts_id_fk` FOREIGN KEY (`cart_id`) REFERENCES `carts`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `cart_items` ADD CONSTRAINT `cart_items_product_id_products_id_fk` FOREIGN KEY (`product_id`) REFERENCES `products`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `carts` ADD CONSTRAINT `carts_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE no action ON UPDATE no action;
\ No newline at end of file
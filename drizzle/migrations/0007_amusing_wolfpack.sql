@@ -0,0 +1,37 @@
+CREATE TABLE `voucher_redemptions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`voucher_id` int NOT NULL,
+	`user_id` int NOT NULL,
+	`order_id` varchar(26) NOT NULL,
+	`discount` decimal(10,2) NOT NULL,
+	`status` varchar(20) NOT NULL DEFAULT 'applied',
+	`created_at` timestamp DEFAULT (now()),
+	CONSTRAINT `voucher_redemptions_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `vouchers` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`code` varchar(32) NOT NULL,
+	`name` varchar(100) NOT NULL,
+	`type` varchar(20) NOT NULL,
+	`value` decimal(10,2) NOT NULL DEFAULT '0.00',
+	`max_discount` decimal(10,2),
+	`min_spend` decimal(10,2) NOT NULL DEFAULT '0.00',
+	`usage_limit` int,
+	`per_user_limit` int,
+	`used_count` int NOT NULL DEFAULT 0,
+	`starts_at` timestamp,
+	`ends_at` timestamp,
+	`is_active` boolean NOT NULL DEFAULT true,
+	`product_ids` text,
+	`category_ids` text,
+	`created_at` timestamp DEFAULT (now()),
+	CONSTRAINT `vouchers_id` PRIMARY KEY(`id`),
+	CONSTRAINT `vouchers_code_unique` UNIQUE(`code`)
+);
+--> statement-breakpoint
+ALTER TABLE `orders` ADD `discount` decimal(10,2) DEFAULT '0.00' NOT NULL;--> statement-breakpoint
+ALTER TABLE `orders` ADD `voucher_code` varchar(32);--> statement-breakpoint
+ALTER TABLE `voucher_redemptions` ADD CONSTRAINT `voucher_redemptions_voucher_id_vouchers_id_fk` FOREIGN KEY (`voucher_id`) REFERENCES `vouchers`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `voucher_redemptions` ADD CONSTRAINT `voucher_redemptions_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `voucher_redemptions` ADD CONSTRAINT `voucher_redemptions_order_id_orders_id_fk` FOREIGN KEY (`order_id`) REFERENCES `orders`(`id`) ON DELETE no action ON UPDATE no action;
\ No newline at end of file
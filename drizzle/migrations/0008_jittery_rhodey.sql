@@ -0,0 +1,59 @@
+CREATE TABLE `product_option_values` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`option_id` int NOT NULL,
+	`value` varchar(50) NOT NULL,
+	`position` int NOT NULL DEFAULT 0,
+	CONSTRAINT `product_option_values_id` PRIMARY KEY(`id`),
+	CONSTRAINT `product_option_values_option_value_unique` UNIQUE(`option_id`,`value`)
+);
+--> statement-breakpoint
+CREATE TABLE `product_options` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`product_id` int NOT NULL,
+	`name` varchar(50) NOT NULL,
+	`position` int NOT NULL DEFAULT 0,
+	CONSTRAINT `product_options_id` PRIMARY KEY(`id`),
+	CONSTRAINT `product_options_product_name_unique` UNIQUE(`product_id`,`name`)
+);
+--> statement-breakpoint
+CREATE TABLE `product_variant_values` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`variant_id` int NOT NULL,
+	`option_value_id` int NOT NULL,
+	CONSTRAINT `product_variant_values_id` PRIMARY KEY(`id`),
+	CONSTRAINT `product_variant_values_unique` UNIQUE(`variant_id`,`option_value_id`)
+);
+--> statement-breakpoint
+CREATE TABLE `product_variants` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`product_id` int NOT NULL,
+	`sku` varchar(64) NOT NULL,
+	`name` varchar(100) NOT NULL,
+	`price` decimal(10,2),
+	`stock` int NOT NULL DEFAULT 0,
+	`height` int,
+	`length` int,
+	`weight` int,
+	`width` int,
+	`is_active` boolean NOT NULL DEFAULT true,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `product_variants_id` PRIMARY KEY(`id`),
+	CONSTRAINT `product_variants_sku_unique` UNIQUE(`sku`)
+);
+--> statement-breakpoint
+ALTER TABLE `order_items` ADD `variant_id` int;--> statement-breakpoint
+ALTER TABLE `order_items` ADD `variant_name` varchar(100);--> statement-breakpoint
+ALTER TABLE `order_items` ADD `sku` varchar(64);--> statement-breakpoint
+ALTER TABLE `stock_reservations` ADD `variant_id` int;--> statement-breakpoint
+ALTER TABLE `cart_items` ADD `variant_id` int;--> statement-breakpoint
+ALTER TABLE `cart_items` ADD CONSTRAINT `cart_items_cart_line_unique` UNIQUE(`cart_id`,`product_id`,`variant_id`);--> statement-breakpoint
+ALTER TABLE `cart_items` DROP INDEX `cart_items_cart_product_unique`;--> statement-breakpoint
+ALTER TABLE `product_option_values` ADD CONSTRAINT `product_option_values_option_id_product_options_id_fk` FOREIGN KEY (`option_id`) REFERENCES `product_options`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `product_options` ADD CONSTRAINT `product_options_product_id_products_id_fk` FOREIGN KEY (`product_id`) REFERENCES `products`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `product_variant_values` ADD CONSTRAINT `product_variant_values_variant_id_product_variants_id_fk` FOREIGN KEY (`variant_id`) REFERENCES `product_variants`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `product_variant_values` ADD CONSTRAINT `product_variant_values_option_value_id_product_option_values_id_fk` FOREIGN KEY (`option_value_id`) REFERENCES `product_option_values`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `product_variants` ADD CONSTRAINT `product_variants_product_id_products_id_fk` FOREIGN KEY (`product_id`) REFERENCES `products`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `order_items` ADD CONSTRAINT `order_items_variant_id_product_variants_id_fk` FOREIGN KEY (`variant_id`) REFERENCES `product_variants`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `stock_reservations` ADD CONSTRAINT `stock_reservations_variant_id_product_variants_id_fk` FOREIGN KEY (`variant_id`) REFERENCES `product_variants`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `cart_items` ADD CONSTRAINT `cart_items_variant_id_product_variants_id_fk` FOREIGN KEY (`variant_id`) REFERENCES `product_variants`(`id`) ON DELETE no action ON UPDATE no action;
\ No newline at end of file
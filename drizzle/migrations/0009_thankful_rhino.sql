@@ -0,0 +1,29 @@
+CREATE TABLE `product_review_images` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`review_id` int NOT NULL,
+	`image` varchar(255) NOT NULL,
+	CONSTRAINT `product_review_images_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `product_reviews` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`product_id` int NOT NULL,
+	`user_id` int NOT NULL,
+	`order_id` varchar(26),
+	`rating` int NOT NULL,
+	`body` text NOT NULL,
+	`status` varchar(20) NOT NULL DEFAULT 'published',
+	`moderated_by` int,
+	`moderation_note` varchar(255),
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `product_reviews_id` PRIMARY KEY(`id`),
+	CONSTRAINT `product_reviews_product_user_unique` UNIQUE(`product_id`,`user_id`)
+);
+--> statement-breakpoint
+ALTER TABLE `product_review_images` ADD CONSTRAINT `product_review_images_review_id_product_reviews_id_fk` FOREIGN KEY (`review_id`) REFERENCES `product_reviews`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `product_reviews` ADD CONSTRAINT `product_reviews_product_id_products_id_fk` FOREIGN KEY (`product_id`) REFERENCES `products`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `product_reviews` ADD CONSTRAINT `product_reviews_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `product_reviews` ADD CONSTRAINT `product_reviews_order_id_orders_id_fk` FOREIGN KEY (`order_id`) REFERENCES `orders`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `product_reviews` ADD CONSTRAINT `product_reviews_moderated_by_users_id_fk` FOREIGN KEY (`moderated_by`) REFERENCES `users`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `product_reviews_product_status_idx` ON `product_reviews` (`product_id`,`status`);
\ No newline at end of file
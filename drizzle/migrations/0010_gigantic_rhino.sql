@@ -0,0 +1,20 @@
+CREATE TABLE `user_addresses` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`label` varchar(50) NOT NULL,
+	`recipient_name` varchar(100) NOT NULL,
+	`phone` varchar(20) NOT NULL,
+	`address` varchar(255) NOT NULL,
+	`postal_code` varchar(10) NOT NULL,
+	`city` varchar(100),
+	`province` varchar(100),
+	`area_id` varchar(100),
+	`area_name` varchar(255),
+	`is_default` boolean NOT NULL DEFAULT false,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `user_addresses_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `user_addresses` ADD CONSTRAINT `user_addresses_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `user_addresses_user_idx` ON `user_addresses` (`user_id`);
\ No newline at end of file
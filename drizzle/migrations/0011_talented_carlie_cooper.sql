@@ -0,0 +1,59 @@
+CREATE TABLE `warehouse_stock` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`warehouse_id` int NOT NULL,
+	`product_id` int NOT NULL,
+	`variant_id` int,
+	`quantity` int NOT NULL DEFAULT 0,
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `warehouse_stock_id` PRIMARY KEY(`id`),
+	CONSTRAINT `warehouse_stock_unique` UNIQUE(`warehouse_id`,`product_id`,`variant_id`)
+);
+--> statement-breakpoint
+CREATE TABLE `warehouses` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`code` varchar(32) NOT NULL,
+	`name` varchar(100) NOT NULL,
+	`contact_name` varchar(100) NOT NULL,
+	`phone` varchar(20) NOT NULL,
+	`email` varchar(100) NOT NULL,
+	`address` varchar(255) NOT NULL,
+	`note` varchar(255),
+	`postal_code` varchar(10) NOT NULL,
+	`city` varchar(100),
+	`province` varchar(100),
+	`priority` int NOT NULL DEFAULT 0,
+	`is_active` boolean NOT NULL DEFAULT true,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `warehouses_id` PRIMARY KEY(`id`),
+	CONSTRAINT `warehouses_code_unique` UNIQUE(`code`)
+);
+--> statement-breakpoint
+CREATE TABLE `order_shipments` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`order_id` varchar(26) NOT NULL,
+	`warehouse_id` int NOT NULL,
+	`origin_postal_code` varchar(10) NOT NULL,
+	`courier_name` varchar(50) NOT NULL,
+	`courier_service` varchar(50) NOT NULL,
+	`shipping_cost` decimal(10,2) NOT NULL,
+	`courier_insurance` decimal(10,2) NOT NULL DEFAULT '0.00',
+	`biteship_order_id` varchar(64),
+	`waybill_id` varchar(64),
+	`metadata` text,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `order_shipments_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `order_items` ADD `shipment_id` int;--> statement-breakpoint
+ALTER TABLE `stock_reservations` ADD `warehouse_id` int;--> statement-breakpoint
+ALTER TABLE `warehouse_stock` ADD CONSTRAINT `warehouse_stock_warehouse_id_warehouses_id_fk` FOREIGN KEY (`warehouse_id`) REFERENCES `warehouses`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `warehouse_stock` ADD CONSTRAINT `warehouse_stock_product_id_products_id_fk` FOREIGN KEY (`product_id`) REFERENCES `products`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `warehouse_stock` ADD CONSTRAINT `warehouse_stock_variant_id_product_variants_id_fk` FOREIGN KEY (`variant_id`) REFERENCES `product_variants`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `order_shipments` ADD CONSTRAINT `order_shipments_order_id_orders_id_fk` FOREIGN KEY (`order_id`) REFERENCES `orders`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `order_shipments` ADD CONSTRAINT `order_shipments_warehouse_id_warehouses_id_fk` FOREIGN KEY (`warehouse_id`) REFERENCES `warehouses`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `warehouse_stock_product_idx` ON `warehouse_stock` (`product_id`);--> statement-breakpoint
+CREATE INDEX `order_shipments_order_idx` ON `order_shipments` (`order_id`);--> statement-breakpoint
+ALTER TABLE `order_items` ADD CONSTRAINT `order_items_shipment_id_order_shipments_id_fk` FOREIGN KEY (`shipment_id`) REFERENCES `order_shipments`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `stock_reservations` ADD CONSTRAINT `stock_reservations_warehouse_id_warehouses_id_fk` FOREIGN KEY (`warehouse_id`) REFERENCES `warehouses`(`id`) ON DELETE no action ON UPDATE no action;
\ No newline at end of file
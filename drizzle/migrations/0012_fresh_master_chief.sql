@@ -0,0 +1 @@
+ALTER TABLE `orders` ADD `payment_method` varchar(20) DEFAULT 'midtrans' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,35 @@
+CREATE TABLE `order_return_items` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`return_id` int NOT NULL,
+	`order_item_id` int NOT NULL,
+	`quantity` int NOT NULL,
+	`reason` varchar(30) NOT NULL,
+	CONSTRAINT `order_return_items_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `order_returns` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`order_id` varchar(26) NOT NULL,
+	`user_id` int NOT NULL,
+	`status` varchar(20) NOT NULL DEFAULT 'requested',
+	`customer_note` varchar(255),
+	`admin_note` varchar(255),
+	`reviewed_by` int,
+	`refund_amount` decimal(10,2),
+	`refund_method` varchar(20),
+	`metadata` text,
+	`reviewed_at` timestamp,
+	`received_at` timestamp,
+	`refunded_at` timestamp,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `order_returns_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `order_return_items` ADD CONSTRAINT `order_return_items_return_id_order_returns_id_fk` FOREIGN KEY (`return_id`) REFERENCES `order_returns`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `order_return_items` ADD CONSTRAINT `order_return_items_order_item_id_order_items_id_fk` FOREIGN KEY (`order_item_id`) REFERENCES `order_items`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `order_returns` ADD CONSTRAINT `order_returns_order_id_orders_id_fk` FOREIGN KEY (`order_id`) REFERENCES `orders`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `order_returns` ADD CONSTRAINT `order_returns_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `order_returns` ADD CONSTRAINT `order_returns_reviewed_by_users_id_fk` FOREIGN KEY (`reviewed_by`) REFERENCES `users`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `order_returns_order_idx` ON `order_returns` (`order_id`);--> statement-breakpoint
+CREATE INDEX `order_returns_status_idx` ON `order_returns` (`status`);
\ No newline at end of file
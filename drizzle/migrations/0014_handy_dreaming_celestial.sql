@@ -0,0 +1,16 @@
+CREATE TABLE `admin_audit_logs` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`admin_id` int NOT NULL,
+	`action` varchar(50) NOT NULL,
+	`target_type` varchar(30) NOT NULL,
+	`target_id` varchar(50) NOT NULL,
+	`details` text,
+	`created_at` timestamp DEFAULT (now()),
+	CONSTRAINT `admin_audit_logs_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `users` ADD `suspended_at` timestamp;--> statement-breakpoint
+ALTER TABLE `users` ADD `suspended_reason` varchar(255);--> statement-breakpoint
+ALTER TABLE `admin_audit_logs` ADD CONSTRAINT `admin_audit_logs_admin_id_users_id_fk` FOREIGN KEY (`admin_id`) REFERENCES `users`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `admin_audit_logs_target_idx` ON `admin_audit_logs` (`target_type`,`target_id`);--> statement-breakpoint
+CREATE INDEX `admin_audit_logs_admin_idx` ON `admin_audit_logs` (`admin_id`);
\ No newline at end of file
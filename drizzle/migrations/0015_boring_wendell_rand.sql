@@ -0,0 +1 @@
+ALTER TABLE `users` MODIFY COLUMN `role` enum('admin','catalog_manager','fulfilment','finance','customer') DEFAULT 'customer';
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE `account_tokens` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`purpose` varchar(30) NOT NULL,
+	`token_hash` varchar(64) NOT NULL,
+	`expires_at` timestamp NOT NULL,
+	`used_at` timestamp,
+	`created_at` timestamp DEFAULT (now()),
+	CONSTRAINT `account_tokens_id` PRIMARY KEY(`id`),
+	CONSTRAINT `account_tokens_token_hash_unique` UNIQUE(`token_hash`)
+);
+--> statement-breakpoint
+ALTER TABLE `users` ADD `email_verified_at` timestamp;--> statement-breakpoint
+ALTER TABLE `users` ADD `password_changed_at` timestamp;--> statement-breakpoint
+ALTER TABLE `account_tokens` ADD CONSTRAINT `account_tokens_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `account_tokens_user_purpose_idx` ON `account_tokens` (`user_id`,`purpose`);--> statement-breakpoint
+-- Accounts created before email verification existed count as verified
+UPDATE `users` SET `email_verified_at` = `created_at` WHERE `email_verified_at` IS NULL;
\ No newline at end of file
@@ -0,0 +1,101 @@
+import { expect, test } from '@playwright/test';
+
+let biteship: typeof import('../src/lib/server/biteship-utils');
+let simulator: typeof import('../src/lib/server/biteship-simulator');
+
+const ITEMS = [{ weight: 500, height: 5, length: 10, width: 10, quantity: 2, value: 50000 }];
+
+const ORDER = {
+	orderNumber: 'ORD-SIM-1',
+	recipientName: 'Budi Santoso',
+	phone: '081234567890',
+	email: 'budi@example.test',
+	address: 'Jl. Asia Afrika No. 8',
+	postalCode: '40115',
+	shipperName: 'Gudang Utama',
+	shipperPhone: '08123456789',
+	originAddress: 'Jl. Raya Utama No. 123',
+	originPostal: '12110',
+	courierName: 'JNE',
+	courierService: 'reg',
+	courierInsurance: '0',
+	items: ITEMS.map(({ value, ...item }) => ({ ...item, price: value }))
+};
+
+test.beforeAll(async () => {
+	process.env.BITESHIP_MODE = 'simulator';
+	biteship = await import('../src/lib/server/biteship-utils');
+	simulator = await import('../src/lib/server/biteship-simulator');
+	simulator.resetSimulator();
+});
+
+test.afterAll(() => {
+	delete process.env.BITESHIP_MODE;
+});
+
+test('looks up fixture areas by postal code and keyword', async () => {
+	const area = await biteship.getAreaByPostalCode('12110');
+	expect(area).toMatchObject({
+		id: 'SIM-12110',
+		postal_code: '12110',
+		administrative_division_level_2_name: 'Jakarta Selatan'
+	});
+
+	const areas = await biteship.searchAreas('surabaya');
+	expect(areas.map((entry) => entry.postal_code)).toEqual(['60271']);
+
+	expect(await biteship.getAreaByPostalCode('99999')).toBeNull();
+});
+
+test('quotes deterministic rates by zone and packed weight', async () => {
+	const rates = await biteship.calculateShippingRates('12110', '40115', ITEMS, { fresh: true });
+	const jneReg = rates.find(
+		(rate) => rate.courier_code === 'jne' && rate.courier_service_code === 'reg'
+	);
+
+	// Two 500 g items pack into a 1.5 kg (volumetric) box, billed as 2 kg across regions
+	expect(jneReg).toMatchObject({ price: 22000, duration: '4 - 5 days' });
+	// Ninja only serves its own region; GOKIL needs 10 kg
+	expect(rates.some((rate) => rate.courier_code === 'ninja')).toBe(false);
+	expect(rates.some((rate) => rate.courier_service_code === 'gokil')).toBe(false);
+	expect(rates.map((rate) => rate.price)).toEqual(
+		[...rates.map((rate) => rate.price)].sort((a, b) => a - b)
+	);
+});
+
+test('creates shipments that can be tracked and advanced to delivery', async () => {
+	const created = await biteship.createBiteshipOrder(ORDER);
+	expect(created).toMatchObject({
+		success: true,
+		id: 'sim-order-000001',
+		reference_id: 'ORD-SIM-1',
+		status: 'confirmed',
+		price: 22000
+	});
+
+	simulator.advanceSimulatedShipment(created.id, 'picked');
+
+	const tracking = await biteship.trackOrder(created.id);
+	expect(tracking).toMatchObject({
+		status: 'picked',
+		waybill_id: 'SIM000001',
+		courier: { company: 'jne', tracking_id: 'sim-tracking-000001' }
+	});
+	expect(tracking!.history.map((event) => event.status)).toEqual([
+		'confirmed',
+		'allocated',
+		'picking_up',
+		'picked'
+	]);
+
+	expect(await biteship.getOrderLabel(created.id)).toBe(
+		'https://biteship-simulator.local/labels/sim-order-000001.pdf'
+	);
+	expect(await biteship.trackOrder('sim-order-unknown')).toBeNull();
+});
+
+test('rejects orders for couriers that do not serve the route', async () => {
+	await expect(
+		biteship.createBiteshipOrder({ ...ORDER, courierName: 'ninja', courierService: 'standard' })
+	).rejects.toThrow('Biteship order creation failed');
+});
@@ -0,0 +1,90 @@
+import { expect, test } from '@playwright/test';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+const ORDER = {
+	success: true,
+	id: 'biteship-order-1',
+	status: 'dropping_off',
+	created_at: '2025-07-01T02:00:00.000Z',
+	updated_at: '2025-07-02T08:00:00.000Z',
+	label_url: 'https://labels.example.test/biteship-order-1.pdf',
+	courier: {
+		company: 'jne',
+		type: 'reg',
+		tracking_id: 'tracking-1',
+		waybill_id: 'WB123',
+		link: 'https://track.example.test/WB123',
+		history: [
+			{ status: 'confirmed', note: 'Order confirmed', updated_at: '2025-07-01T02:00:00.000Z' },
+			{ status: 'picked', note: 'Picked up', updated_at: '2025-07-01T06:00:00.000Z' }
+		]
+	}
+};
+
+const TRACKING = {
+	success: true,
+	id: 'tracking-1',
+	waybill_id: 'WB123',
+	history: [
+		{ status: 'picked', note: 'Picked up', updated_at: '2025-07-01T06:00:00.000Z' },
+		{
+			status: 'dropping_off',
+			note: 'Out for delivery',
+			service_type: 'reg',
+			updated_at: '2025-07-02T08:00:00.000Z'
+		}
+	]
+};
+
+let server: Server;
+let biteship: typeof import('../src/lib/server/biteship-utils');
+
+test.beforeAll(async () => {
+	server = createServer((req, res) => {
+		const routes: Record<string, unknown> = {
+			'/v1/orders/biteship-order-1': ORDER,
+			'/v1/trackings/tracking-1': TRACKING
+		};
+		const body = routes[req.url || ''];
+
+		res.writeHead(body ? 200 : 404, { 'Content-Type': 'application/json' });
+		res.end(JSON.stringify(body || { success: false, error: 'Not found' }));
+	});
+	await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+	const { port } = server.address() as AddressInfo;
+	process.env.BITESHIP_BASE_URL = `http://127.0.0.1:${port}/v1`;
+	biteship = await import('../src/lib/server/biteship-utils');
+});
+
+test.afterAll(async () => {
+	await new Promise((resolve) => server.close(resolve));
+});
+
+test('trackOrder merges order and waybill history into ordered events', async () => {
+	const tracking = await biteship.trackOrder('biteship-order-1');
+
+	expect(tracking).not.toBeNull();
+	expect(tracking!.status).toBe('dropping_off');
+	expect(tracking!.waybill_id).toBe('WB123');
+	expect(tracking!.courier).toMatchObject({ company: 'jne', tracking_id: 'tracking-1' });
+	expect(tracking!.history.map((event) => event.status)).toEqual([
+		'confirmed',
+		'picked',
+		'dropping_off'
+	]);
+	expect(tracking!.pickup_time).toBe('2025-07-01T06:00:00.000Z');
+	expect(tracking!.delivered_time).toBeNull();
+});
+
+test('trackOrder returns null for unknown shipments', async () => {
+	expect(await biteship.trackOrder('missing-order')).toBeNull();
+});
+
+test('getOrderLabel returns the printable label url', async () => {
+	expect(await biteship.getOrderLabel('biteship-order-1')).toBe(
+		'https://labels.example.test/biteship-order-1.pdf'
+	);
+	expect(await biteship.getOrderLabel('missing-order')).toBeNull();
+});
@@ -0,0 +1,102 @@
+import { expect, test, type Page } from '@playwright/test';
+
+// Runs against the preview server started by playwright.config.ts, with Biteship and
+// Midtrans both in simulator mode. Needs a database with at least one product in stock.
+
+test.skip(!process.env.DATABASE_URL, 'Needs DATABASE_URL pointing at a migrated test database');
+
+const PASSWORD = 'rahasia-e2e-123';
+
+async function placeOrder(page: Page) {
+	const api = page.request;
+	const email = `e2e-${Date.now()}-${Math.random().toString(36).substring(2, 8)}@example.test`;
+
+	await api.post('/api/auth/register', {
+		data: { name: 'Pembeli E2E', email, password: PASSWORD }
+	});
+	expect((await api.post('/api/auth/login', { data: { email, password: PASSWORD } })).ok()).toBe(
+		true
+	);
+	const csrfToken = (await page.context().cookies()).find(
+		(cookie) => cookie.name === 'csrf_token'
+	)!.value;
+
+	// Products sold in variants need a variant id; pick a plain one
+	const { data: candidates } = await (await api.get('/api/products?perPage=50')).json();
+	let product: any = null;
+	for (const candidate of candidates.filter((entry: any) => entry.stock > 0)) {
+		const { data } = await (
+			await api.get(`/api/products?slug=${encodeURIComponent(candidate.slug)}`)
+		).json();
+		if (!data.variants?.length) {
+			product = data;
+			break;
+		}
+	}
+	test.skip(!product, 'Needs a product without variants in stock');
+
+	const items = [{ productId: product.id, quantity: 1 }];
+	const rates = await (
+		await api.get(
+			`/api/orders?destinationPostal=40115&items=${encodeURIComponent(JSON.stringify(items))}`
+		)
+	).json();
+	const rate = rates.data[0];
+
+	const response = await api.post('/api/orders', {
+		headers: { 'x-csrf-token': csrfToken },
+		data: {
+			recipientName: 'Pembeli E2E',
+			phone: '081234567890',
+			email,
+			address: 'Jl. Asia Afrika No. 8, Sumur Bandung',
+			city: 'Bandung',
+			province: 'Jawa Barat',
+			postalCode: '40115',
+			courierName: rate.courier_name,
+			courierService: rate.courier_service_code,
+			items
+		}
+	});
+	expect(response.ok()).toBe(true);
+	return (await response.json()).data;
+}
+
+async function orderStatus(page: Page, orderId: string) {
+	const { data } = await (await page.request.get(`/api/orders/${orderId}`)).json();
+	return data.status;
+}
+
+test('paying on the Snap simulator marks the order paid', async ({ page }) => {
+	const order = await placeOrder(page);
+	expect(order.payment.redirect_url).toContain('/payments/simulator/');
+	expect(await orderStatus(page, order.orderId)).toBe('pending');
+
+	await page.goto(order.payment.redirect_url);
+	await expect(page.getByText(`Pesanan ${order.orderNumber}`)).toBeVisible();
+	await page.getByRole('button', { name: 'Bayar' }).click();
+
+	await page.waitForURL(/\/payment-success\?/);
+	expect(new URL(page.url()).searchParams.get('transaction_status')).toBe('settlement');
+	await expect(page.getByText('Pembayaran Berhasil!')).toBeVisible();
+
+	// Paid orders move on to processing once their Biteship shipment is created
+	expect(['paid', 'processing']).toContain(await orderStatus(page, order.orderId));
+});
+
+test('declining on the Snap simulator fails the order', async ({ page }) => {
+	const order = await placeOrder(page);
+
+	await page.goto(order.payment.redirect_url);
+	await page.getByRole('button', { name: 'Tolak' }).click();
+
+	await page.waitForURL(/\/payment-error\?/);
+	expect(await orderStatus(page, order.orderId)).toBe('failed');
+
+	// The simulator page refuses to settle the transaction a second time
+	const token = order.payment.token;
+	const retry = await page.request.post('/api/payments/simulator', {
+		data: { token, outcome: 'pay' }
+	});
+	expect(retry.status()).toBe(409);
+});
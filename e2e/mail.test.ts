@@ -0,0 +1,226 @@
+import { expect, test } from '@playwright/test';
+import net from 'node:net';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { buildMimeMessage, mailAddress } from '../src/lib/server/mail/message';
+import { SmtpError, sendSmtpMail, type SmtpConfig } from '../src/lib/server/mail/smtp';
+import { createOutboxTransport } from '../src/lib/server/mail/outbox';
+
+const message = {
+	to: 'Budi Santoso <budi@example.com>',
+	subject: 'Atur ulang password — Toko',
+	text: 'Halo Budi,\n.\nhttps://toko.test/reset-password?token=abc',
+	html: '<p>Halo Budi</p>'
+};
+
+function decodeParts(mime: string): string[] {
+	return [...mime.matchAll(/base64\r\n\r\n([A-Za-z0-9+/=\r\n]+)/g)].map((match) =>
+		Buffer.from(match[1].replace(/\r\n/g, ''), 'base64').toString('utf8')
+	);
+}
+
+interface FakeSmtpOptions {
+	auth: 'PLAIN' | 'LOGIN';
+	/** Reply to RCPT TO */
+	rcptReply?: string;
+	/** Reply to the password step */
+	authReply?: string;
+}
+
+/** Just enough of an SMTP server to record what a client sends */
+async function startFakeSmtp(options: FakeSmtpOptions) {
+	const commands: string[] = [];
+	let data = '';
+	const server = net.createServer((socket) => {
+		let buffer = '';
+		let inData = false;
+		let loginStep = 0;
+		socket.write('220 fake.test ESMTP\r\n');
+		socket.on('data', (chunk) => {
+			buffer += chunk.toString('utf8');
+			for (;;) {
+				if (inData) {
+					const end = buffer.indexOf('\r\n.\r\n');
+					if (end === -1) return;
+					data = buffer.slice(0, end);
+					buffer = buffer.slice(end + 5);
+					inData = false;
+					socket.write('250 queued\r\n');
+					continue;
+				}
+				const end = buffer.indexOf('\r\n');
+				if (end === -1) return;
+				const line = buffer.slice(0, end);
+				buffer = buffer.slice(end + 2);
+				commands.push(line);
+
+				if (loginStep === 1) {
+					loginStep = 2;
+					socket.write('334 UGFzc3dvcmQ6\r\n');
+				} else if (loginStep === 2) {
+					loginStep = 0;
+					socket.write(`${options.authReply ?? '235 ok'}\r\n`);
+				} else if (line.startsWith('EHLO')) {
+					socket.write(`250-fake.test\r\n250 AUTH ${options.auth}\r\n`);
+				} else if (line.startsWith('AUTH PLAIN')) {
+					socket.write(`${options.authReply ?? '235 ok'}\r\n`);
+				} else if (line === 'AUTH LOGIN') {
+					loginStep = 1;
+					socket.write('334 VXNlcm5hbWU6\r\n');
+				} else if (line.startsWith('RCPT')) {
+					socket.write(`${options.rcptReply ?? '250 ok'}\r\n`);
+				} else if (line === 'DATA') {
+					inData = true;
+					socket.write('354 go ahead\r\n');
+				} else if (line === 'QUIT') {
+					socket.end('221 bye\r\n');
+				} else {
+					socket.write('250 ok\r\n');
+				}
+			}
+		});
+	});
+	await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+	const { port } = server.address() as net.AddressInfo;
+
+	const config: SmtpConfig = {
+		host: '127.0.0.1',
+		port,
+		secure: false,
+		requireTls: false,
+		user: 'mailer',
+		password: 's3cret-password',
+		from: 'Toko <no-reply@toko.test>',
+		timeoutMs: 5000
+	};
+	return {
+		config,
+		commands,
+		data: () => data,
+		close: () => new Promise<void>((resolve) => server.close(() => resolve()))
+	};
+}
+
+test.describe('buildMimeMessage', () => {
+	test('encodes non-ASCII headers and both bodies', () => {
+		const mime = buildMimeMessage(message, {
+			from: 'Toko <no-reply@toko.test>',
+			date: new Date(Date.UTC(2026, 9, 18, 8, 0, 0))
+		});
+
+		expect(mime).toContain('To: "Budi Santoso" <budi@example.com>\r\n');
+		expect(mime).toMatch(/Subject: =\?UTF-8\?B\?[A-Za-z0-9+/=]+\?=\r\n/);
+		expect(mime).toContain('Date: Sun, 18 Oct 2026 08:00:00 GMT');
+		expect(mime).toContain('Content-Type: multipart/alternative;');
+		expect(mime).not.toMatch(/[^\r]\n/);
+
+		const [text, html] = decodeParts(mime);
+		expect(text).toBe(message.text.replace(/\n/g, '\r\n'));
+		expect(html).toBe(message.html);
+	});
+
+	test('keeps line breaks in header values from adding headers', () => {
+		const mime = buildMimeMessage(
+			{ to: 'budi@example.com', subject: 'Halo\r\nBcc: evil@example.com', text: 'x' },
+			{ from: 'no-reply@toko.test' }
+		);
+		expect(mime).toContain('Subject: Halo Bcc: evil@example.com\r\n');
+		expect(mime).not.toContain('\r\nBcc:');
+		expect(mime).toContain('Content-Type: text/plain; charset=utf-8');
+	});
+
+	test('mailAddress takes the address out of a display name', () => {
+		expect(mailAddress('Budi <budi@example.com>')).toBe('budi@example.com');
+		expect(mailAddress(' budi@example.com ')).toBe('budi@example.com');
+	});
+});
+
+test.describe('sendSmtpMail', () => {
+	test('authenticates and delivers the message', async () => {
+		const server = await startFakeSmtp({ auth: 'PLAIN' });
+		try {
+			await sendSmtpMail(server.config, message);
+
+			const plain = Buffer.from('\0mailer\0s3cret-password').toString('base64');
+			expect(server.commands).toEqual([
+				'EHLO localhost',
+				`AUTH PLAIN ${plain}`,
+				'MAIL FROM:<no-reply@toko.test>',
+				'RCPT TO:<budi@example.com>',
+				'DATA',
+				'QUIT'
+			]);
+			expect(server.data()).toContain('To: "Budi Santoso" <budi@example.com>');
+			expect(decodeParts(server.data())[0]).toContain('reset-password?token=abc');
+		} finally {
+			await server.close();
+		}
+	});
+
+	test('reports refused recipients with the reply code', async () => {
+		const server = await startFakeSmtp({ auth: 'PLAIN', rcptReply: '550 no such user' });
+		try {
+			const err = await sendSmtpMail(server.config, message).catch((e) => e);
+			expect(err).toBeInstanceOf(SmtpError);
+			expect(err.code).toBe(550);
+			expect(err.message).toBe('SMTP RCPT failed: 550 no such user');
+		} finally {
+			await server.close();
+		}
+	});
+
+	test('does not put credentials in AUTH LOGIN errors', async () => {
+		const server = await startFakeSmtp({ auth: 'LOGIN', authReply: '535 bad credentials' });
+		try {
+			const err = await sendSmtpMail(server.config, message).catch((e) => e);
+			expect(err).toBeInstanceOf(SmtpError);
+			expect(err.message).toBe('SMTP AUTH failed: 535 bad credentials');
+			expect(server.commands.slice(1, 4)).toEqual([
+				'AUTH LOGIN',
+				Buffer.from('mailer').toString('base64'),
+				Buffer.from('s3cret-password').toString('base64')
+			]);
+		} finally {
+			await server.close();
+		}
+	});
+
+	test('refuses to send in the clear when TLS is required', async () => {
+		const server = await startFakeSmtp({ auth: 'PLAIN' });
+		try {
+			const err = await sendSmtpMail({ ...server.config, requireTls: true }, message).catch(
+				(e) => e
+			);
+			expect(err).toBeInstanceOf(SmtpError);
+			expect(err.message).toBe('SMTP server does not offer STARTTLS');
+			expect(server.commands).toEqual(['EHLO localhost']);
+		} finally {
+			await server.close();
+		}
+	});
+});
+
+test.describe('outbox transport', () => {
+	test('saves an .eml file and logs the message', async () => {
+		const directory = await mkdtemp(path.join(tmpdir(), 'outbox-'));
+		const lines: string[] = [];
+		try {
+			const transport = createOutboxTransport({
+				directory,
+				from: 'Toko <no-reply@toko.test>',
+				log: (line) => lines.push(line)
+			});
+			await transport.send(message);
+
+			const files = await readdir(directory);
+			expect(files).toHaveLength(1);
+			expect(files[0]).toMatch(/^[0-9T-]+Z-Budi_Santoso_budi@example\.com_\.eml$/);
+			const saved = await readFile(path.join(directory, files[0]), 'utf8');
+			expect(saved).toContain('From: "Toko" <no-reply@toko.test>');
+			expect(lines.join('\n')).toContain('reset-password?token=abc');
+		} finally {
+			await rm(directory, { recursive: true, force: true });
+		}
+	});
+});
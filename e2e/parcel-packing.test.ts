@@ -0,0 +1,121 @@
+import { expect, test } from '@playwright/test';
+
+let packing: typeof import('../src/lib/server/parcel-packing');
+
+const FLAT_ITEM = { weight: 100, height: 1, length: 20, width: 15, value: 25000 };
+
+test.beforeAll(async () => {
+	process.env.VOLUMETRIC_DIVISORS = 'jne:5000, bad, rpx:x';
+	packing = await import('../src/lib/server/parcel-packing');
+});
+
+test.afterAll(() => {
+	delete process.env.VOLUMETRIC_DIVISORS;
+});
+
+test('stacks flat items into the smallest box that holds the stack', () => {
+	const result = packing.packItems([{ ...FLAT_ITEM, quantity: 10 }], {
+		boxes: packing.DEFAULT_BOXES,
+		divisor: 6000
+	});
+
+	expect(result.parcels).toHaveLength(1);
+	expect(result.parcels[0]).toEqual({
+		box: 'M',
+		length: 30,
+		width: 20,
+		height: 15,
+		weight: 1000,
+		volumetricWeight: 1500,
+		chargeableWeight: 1500,
+		value: 250000,
+		units: 10
+	});
+	expect(result.chargeableWeight).toBe(1500);
+	expect(result.value).toBe(250000);
+});
+
+test('splits into several parcels when a box would be too heavy', () => {
+	const boxes = [{ name: 'A', length: 30, width: 20, height: 20, maxWeight: 10000 }];
+	const result = packing.packItems(
+		[{ weight: 3000, height: 5, length: 30, width: 20, quantity: 4 }],
+		{ boxes, divisor: 6000 }
+	);
+
+	expect(result.parcels.map((parcel) => [parcel.box, parcel.units, parcel.weight])).toEqual([
+		['A', 3, 9000],
+		['A', 1, 3000]
+	]);
+	expect(result.parcels.map((parcel) => parcel.volumetricWeight)).toEqual([2000, 2000]);
+	expect(result.weight).toBe(12000);
+	expect(result.chargeableWeight).toBe(9000 + 3000);
+});
+
+test('splits into several parcels when the stack outgrows every box', () => {
+	const boxes = [{ name: 'Flat', length: 20, width: 15, height: 4, maxWeight: 5000 }];
+	const result = packing.packItems([{ ...FLAT_ITEM, quantity: 10 }], { boxes, divisor: 6000 });
+
+	expect(result.parcels.map((parcel) => parcel.units)).toEqual([4, 4, 2]);
+	expect(result.parcels.every((parcel) => parcel.box === 'Flat')).toBe(true);
+});
+
+test('ships items larger than every box in their own packaging', () => {
+	const result = packing.packItems(
+		[
+			{ weight: 20000, height: 50, length: 100, width: 50, quantity: 1 },
+			{ ...FLAT_ITEM, quantity: 2 }
+		],
+		{ boxes: packing.DEFAULT_BOXES, divisor: 6000 }
+	);
+
+	expect(result.parcels).toHaveLength(2);
+	expect(result.parcels[0]).toMatchObject({
+		box: null,
+		length: 100,
+		width: 50,
+		height: 50,
+		weight: 20000,
+		volumetricWeight: 41667,
+		chargeableWeight: 41667,
+		units: 1
+	});
+	expect(result.parcels[1]).toMatchObject({ box: 'S', units: 2 });
+});
+
+test('lays items flat before stacking them', () => {
+	const result = packing.packItems(
+		[{ weight: 100, height: 20, length: 1, width: 15, quantity: 3 }],
+		{ boxes: packing.DEFAULT_BOXES, divisor: 6000 }
+	);
+
+	expect(result.parcels).toHaveLength(1);
+	expect(result.parcels[0].box).toBe('S');
+});
+
+test('applies minimum weight and value to incomplete items', () => {
+	const result = packing.packItems([{ weight: 0, height: 0, length: 0, width: 0, quantity: 2 }], {
+		boxes: packing.DEFAULT_BOXES,
+		divisor: 6000
+	});
+
+	expect(result.weight).toBe(200);
+	expect(result.value).toBe(20000);
+	expect(result.parcels[0].box).toBe('S');
+});
+
+test('uses the volumetric divisor configured for the courier', () => {
+	expect(packing.getVolumetricDivisor('JNE')).toBe(5000);
+	expect(packing.getVolumetricDivisor('rpx')).toBe(packing.DEFAULT_VOLUMETRIC_DIVISOR);
+	expect(packing.getVolumetricDivisor(undefined)).toBe(packing.DEFAULT_VOLUMETRIC_DIVISOR);
+
+	const result = packing.packItems([{ ...FLAT_ITEM, quantity: 10 }], {
+		boxes: packing.DEFAULT_BOXES,
+		courier: 'jne'
+	});
+	expect(result.parcels[0].volumetricWeight).toBe(1800);
+});
+
+test('volumetricWeight rounds up to whole grams', () => {
+	expect(packing.volumetricWeight(10, 10, 10, 6000)).toBe(167);
+	expect(packing.volumetricWeight(30, 20, 10, 6000)).toBe(1000);
+});
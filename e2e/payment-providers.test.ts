@@ -0,0 +1,182 @@
+import { expect, test } from '@playwright/test';
+
+let providers: typeof import('../src/lib/server/payment-providers');
+let simulator: typeof import('../src/lib/server/snap-simulator');
+
+const ACCOUNTS = [{ bank: 'BCA', accountNumber: '1234567890', accountName: 'Toko Online' }];
+
+function paymentOrder(orderNumber: string) {
+	return {
+		id: `ID-${orderNumber}`,
+		orderNumber,
+		total: 75000,
+		recipientName: 'Budi Santoso',
+		email: 'budi@example.com',
+		phone: '081234567890',
+		address: 'Jl. Merdeka 1',
+		city: 'Jakarta',
+		postalCode: '10110',
+		items: [{ productId: 1, name: 'Kaos Polos', price: 25000, quantity: 2 }],
+		shippingCost: 25000,
+		courierName: 'jne',
+		courierService: 'reg'
+	};
+}
+
+function storedOrder(orderNumber: string, overrides: Record<string, any> = {}) {
+	return {
+		orderNumber,
+		total: '75000.00',
+		status: 'pending',
+		paymentMethod: 'midtrans',
+		metadata: null,
+		...overrides
+	};
+}
+
+test.beforeAll(async () => {
+	process.env.MIDTRANS_MODE = 'simulator';
+	process.env.MIDTRANS_SERVER_KEY = 'SB-Mid-server-test';
+	process.env.FRONTEND_URL = 'http://localhost:4173';
+	process.env.BANK_TRANSFER_ACCOUNTS = JSON.stringify(ACCOUNTS);
+	providers = await import('../src/lib/server/payment-providers');
+	simulator = await import('../src/lib/server/snap-simulator');
+	simulator.resetSnapSimulator();
+});
+
+test.afterAll(() => {
+	delete process.env.MIDTRANS_MODE;
+	delete process.env.MIDTRANS_SERVER_KEY;
+	delete process.env.FRONTEND_URL;
+	delete process.env.BANK_TRANSFER_ACCOUNTS;
+});
+
+test('midtrans payments are created, looked up and cancelled through the gateway', async () => {
+	const provider = providers.getPaymentProvider('midtrans');
+	const created = await provider.create(paymentOrder('ORD-PAY-1'));
+	expect(created.method).toBe('midtrans');
+	expect(created.redirect_url).toContain('/payments/simulator/');
+
+	const order = storedOrder('ORD-PAY-1');
+	// Unknown to Midtrans until the customer picks a payment method
+	expect(await provider.getStatus(order)).toMatchObject({
+		status: null,
+		providerStatus: 'not_found'
+	});
+	await provider.cancel(order);
+
+	simulator.completeSimulatedTransaction(created.token!, 'pending');
+	expect(await provider.getStatus(order)).toMatchObject({
+		status: 'pending',
+		providerStatus: 'pending'
+	});
+
+	await provider.cancel(order);
+	expect(await provider.getStatus(order)).toMatchObject({
+		status: 'cancelled',
+		providerStatus: 'cancel'
+	});
+});
+
+test('midtrans refunds are partial, then full, and never paid twice', async () => {
+	const provider = providers.midtransProvider;
+	const created = await provider.create(paymentOrder('ORD-PAY-2'));
+	simulator.completeSimulatedTransaction(created.token!, 'pay');
+
+	const order = storedOrder('ORD-PAY-2', { status: 'paid' });
+	expect((await provider.getStatus(order)).status).toBe('paid');
+
+	const partial = await provider.refund(order, { refundKey: 'RF-1', amount: 25000 });
+	expect(partial).toMatchObject({ manual: false, amount: 25000, providerStatus: 'partial_refund' });
+
+	const retried = await provider.refund(order, { refundKey: 'RF-1', amount: 25000 });
+	expect(retried.providerStatus).toBe('partial_refund');
+
+	await expect(provider.refund(order, { refundKey: 'RF-2', amount: 60000 })).rejects.toThrow(
+		'exceeds the refundable amount'
+	);
+
+	const full = await provider.refund(order, { refundKey: 'RF-3', amount: 50000 });
+	expect(full.providerStatus).toBe('refund');
+	expect((full.raw as { refund_amount: string }).refund_amount).toBe('75000.00');
+});
+
+test('bank transfers are paid once an admin approves the proof', async () => {
+	const provider = providers.getPaymentProvider('bank_transfer');
+	const created = await provider.create(paymentOrder('ORD-PAY-3'));
+	expect(created.instructions).toMatchObject({
+		amount: 75000,
+		accounts: ACCOUNTS,
+		reference: 'ORD-PAY-3'
+	});
+	expect(Date.parse(created.instructions!.due_at!)).toBeGreaterThan(Date.now());
+
+	const withVerification = (status: string) =>
+		storedOrder('ORD-PAY-3', {
+			paymentMethod: 'bank_transfer',
+			metadata: JSON.stringify({ payment: { verification: { status } } })
+		});
+
+	expect(await provider.getStatus(storedOrder('ORD-PAY-3'))).toMatchObject({
+		status: 'pending',
+		providerStatus: 'awaiting_payment'
+	});
+	expect((await provider.getStatus(withVerification('awaiting_verification'))).status).toBe(
+		'pending'
+	);
+	expect((await provider.getStatus(withVerification('rejected'))).status).toBeNull();
+	expect((await provider.getStatus(withVerification('approved'))).status).toBe('paid');
+
+	const refund = await provider.refund(withVerification('approved'), {
+		refundKey: 'RF-4',
+		amount: 75000
+	});
+	expect(refund).toMatchObject({ manual: true, amount: 75000, providerStatus: null });
+	expect(provider.verifyNotification({ order_id: 'ORD-PAY-3' })).toBe(false);
+});
+
+test('checkout offers bank transfer when configured and COD only for single COD packages', () => {
+	expect(providers.getAvailablePaymentMethods({})).toEqual(['midtrans', 'bank_transfer']);
+	expect(providers.getAvailablePaymentMethods({ cashOnDelivery: true, packages: 1 })).toEqual([
+		'midtrans',
+		'bank_transfer',
+		'cod'
+	]);
+	expect(providers.getAvailablePaymentMethods({ cashOnDelivery: true, packages: 2 })).toEqual([
+		'midtrans',
+		'bank_transfer'
+	]);
+
+	process.env.BANK_TRANSFER_ACCOUNTS = 'not json';
+	expect(providers.getAvailablePaymentMethods({})).toEqual(['midtrans']);
+	process.env.BANK_TRANSFER_ACCOUNTS = JSON.stringify(ACCOUNTS);
+
+	expect(providers.getPaymentProvider('unknown').method).toBe('midtrans');
+});
+
+test('stale pending payments expire unless the provider saw them settle or staff must check them', () => {
+	const resolve = (method: string, status: any, providerStatus: string) =>
+		providers.resolveStalePayment(method, { status, providerStatus });
+
+	expect(providers.getPaymentWindowHours('midtrans')).toBe(24);
+	expect(providers.getPaymentWindowHours('bank_transfer')).toBe(24);
+	expect(providers.getPaymentWindowHours('cod')).toBeNull();
+
+	expect(resolve('midtrans', null, 'not_found')).toMatchObject({
+		status: 'expired',
+		cancelPayment: false
+	});
+	expect(resolve('midtrans', 'pending', 'pending')).toMatchObject({
+		status: 'expired',
+		cancelPayment: true
+	});
+	expect(resolve('midtrans', 'paid', 'settlement').status).toBe('paid');
+	expect(resolve('midtrans', 'expired', 'expire').status).toBe('expired');
+	expect(resolve('midtrans', 'failed', 'deny').status).toBe('failed');
+	expect(resolve('midtrans', 'cancelled', 'cancel').status).toBe('cancelled');
+
+	expect(resolve('bank_transfer', 'pending', 'awaiting_payment').status).toBe('expired');
+	expect(resolve('bank_transfer', null, 'rejected').status).toBe('expired');
+	expect(resolve('bank_transfer', 'pending', 'awaiting_verification').status).toBeNull();
+	expect(resolve('cod', 'pending', 'awaiting_payment').status).toBeNull();
+});
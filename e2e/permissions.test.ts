@@ -0,0 +1,36 @@
+import { expect, test } from '@playwright/test';
+import {
+	PERMISSIONS,
+	canAccessDashboardPath,
+	hasPermission,
+	isStaffRole,
+	permissionsFor
+} from '../src/lib/utils/permissions';
+
+test('staff roles only get their own permissions', () => {
+	expect(permissionsFor('admin')).toEqual(PERMISSIONS);
+	expect(hasPermission('catalog_manager', 'manage_products')).toBe(true);
+	expect(hasPermission('catalog_manager', 'manage_orders')).toBe(false);
+	expect(hasPermission('fulfilment', 'manage_orders')).toBe(true);
+	expect(hasPermission('fulfilment', 'issue_refunds')).toBe(false);
+	expect(hasPermission('finance', 'issue_refunds')).toBe(true);
+	expect(hasPermission('finance', 'manage_users')).toBe(false);
+	// Any one of several permissions is enough
+	expect(hasPermission('finance', 'manage_orders', 'issue_refunds')).toBe(true);
+
+	expect(isStaffRole('customer')).toBe(false);
+	expect(permissionsFor('customer')).toEqual([]);
+	expect(permissionsFor('superuser')).toEqual([]);
+	expect(permissionsFor(null)).toEqual([]);
+});
+
+test('dashboard sections follow the role permissions', () => {
+	expect(canAccessDashboardPath('admin', '/dashboard/users/12')).toBe(true);
+	expect(canAccessDashboardPath('fulfilment', '/dashboard')).toBe(true);
+	expect(canAccessDashboardPath('fulfilment', '/dashboard/orders/01HX')).toBe(true);
+	expect(canAccessDashboardPath('fulfilment', '/dashboard/products')).toBe(false);
+	expect(canAccessDashboardPath('finance', '/dashboard/returns')).toBe(true);
+	expect(canAccessDashboardPath('finance', '/dashboard/reports')).toBe(true);
+	expect(canAccessDashboardPath('catalog_manager', '/dashboard/users')).toBe(false);
+	expect(canAccessDashboardPath('customer', '/dashboard')).toBe(false);
+});
@@ -0,0 +1,134 @@
+import { expect, test } from '@playwright/test';
+import { crc32, inflateRawSync, inflateSync } from 'node:zlib';
+import { renderCsv } from '../src/lib/server/reports/csv';
+import { renderXlsx } from '../src/lib/server/reports/xlsx';
+import { renderPdf } from '../src/lib/server/reports/pdf';
+import type { ReportTable } from '../src/lib/server/reports/table';
+
+function sampleTable(rowCount = 2): ReportTable {
+	const rows = [
+		{
+			createdAt: new Date(2026, 9, 1, 9, 30, 5),
+			customer: 'Budi, "Toko" Santoso',
+			note: '=HYPERLINK("http://evil")',
+			quantity: 3,
+			total: 150000.5
+		},
+		{
+			createdAt: new Date(2026, 9, 2, 14, 0, 0),
+			customer: 'Siti (Bandung)\nJawa Barat',
+			note: null,
+			quantity: 1,
+			total: -25000
+		}
+	];
+	while (rows.length < rowCount) {
+		rows.push({ ...rows[0], customer: `Pelanggan ${rows.length + 1}` });
+	}
+
+	return {
+		title: 'Penjualan per Hari',
+		subtitle: ['Periode: 2026-10-01 s/d 2026-10-31'],
+		columns: [
+			{ key: 'createdAt', label: 'Tanggal', type: 'date' },
+			{ key: 'customer', label: 'Penerima', type: 'text' },
+			{ key: 'note', label: 'Catatan', type: 'text' },
+			{ key: 'quantity', label: 'Jumlah', type: 'number' },
+			{ key: 'total', label: 'Total (Rp)', type: 'currency' }
+		],
+		rows: rows.slice(0, rowCount),
+		totals: { customer: 'Total', quantity: 4, total: 125000.5 }
+	};
+}
+
+/** Entries of a zip archive, checked against their CRC */
+function unzip(archive: Buffer): Map<string, string> {
+	const end = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+	const count = archive.readUInt16LE(end + 10);
+	let cursor = archive.readUInt32LE(end + 16);
+	const files = new Map<string, string>();
+
+	for (let i = 0; i < count; i++) {
+		expect(archive.readUInt32LE(cursor)).toBe(0x02014b50);
+		const checksum = archive.readUInt32LE(cursor + 16);
+		const compressedSize = archive.readUInt32LE(cursor + 20);
+		const nameLength = archive.readUInt16LE(cursor + 28);
+		const offset = archive.readUInt32LE(cursor + 42);
+		const name = archive.toString('utf8', cursor + 46, cursor + 46 + nameLength);
+
+		const dataStart = offset + 30 + archive.readUInt16LE(offset + 26);
+		const data = inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+		expect(crc32(data)).toBe(checksum);
+		files.set(name, data.toString('utf8'));
+		cursor += 46 + nameLength;
+	}
+	return files;
+}
+
+test('csv exports quote text, neutralise formulas and keep numbers plain', () => {
+	const csv = renderCsv(sampleTable());
+	expect(csv.startsWith('\uFEFF')).toBe(true);
+
+	const lines = csv.slice(1).split('\r\n');
+	expect(lines[0]).toBe('Tanggal,Penerima,Catatan,Jumlah,Total (Rp)');
+	expect(lines[1]).toBe(
+		`2026-10-01 09:30:05,"Budi, ""Toko"" Santoso","'=HYPERLINK(""http://evil"")",3,150000.50`
+	);
+	// Negative amounts stay numbers; the newline stays inside its quoted cell
+	expect(lines[2]).toBe('2026-10-02 14:00:00,"Siti (Bandung)\nJawa Barat",,1,-25000.00');
+	expect(lines[3]).toBe(',Total,,4,125000.50');
+	expect(lines[4]).toBe('');
+});
+
+test('xlsx exports are a valid package with typed cells', () => {
+	const files = unzip(renderXlsx(sampleTable()));
+	expect([...files.keys()]).toEqual([
+		'[Content_Types].xml',
+		'_rels/.rels',
+		'xl/workbook.xml',
+		'xl/_rels/workbook.xml.rels',
+		'xl/styles.xml',
+		'xl/worksheets/sheet1.xml'
+	]);
+	expect(files.get('xl/workbook.xml')).toContain('<sheet name="Penjualan per Hari"');
+
+	const sheet = files.get('xl/worksheets/sheet1.xml')!;
+	// Title, subtitle, blank row, then the header on row 4
+	expect(sheet).toContain('<c r="A4" t="inlineStr" s="1"><is><t xml:space="preserve">Tanggal</t>');
+	expect(sheet).toContain('Budi, &quot;Toko&quot; Santoso');
+	// Formulas can only come from <f>; customer text is always an inline string
+	expect(sheet).not.toContain('<f>');
+	expect(sheet).toContain('<c r="D5"><v>3</v></c>');
+	expect(sheet).toContain('<c r="E5" s="2"><v>150000.5</v></c>');
+	expect(sheet).toContain('<c r="E7" s="4"><v>125000.5</v></c>');
+
+	const dateCell = /<c r="A5" s="3"><v>([\d.]+)<\/v><\/c>/.exec(sheet);
+	expect(Number(dateCell?.[1])).toBeCloseTo(46296.396, 3);
+});
+
+test('pdf exports have a consistent cross-reference table and paginate long tables', () => {
+	const pdf = renderPdf(sampleTable(120), new Date(2026, 9, 18, 8, 0));
+	const source = pdf.toString('latin1');
+	expect(source.startsWith('%PDF-1.4')).toBe(true);
+	expect(source.trimEnd().endsWith('%%EOF')).toBe(true);
+
+	const startxref = Number(/startxref\n(\d+)/.exec(source)?.[1]);
+	expect(source.substring(startxref, startxref + 4)).toBe('xref');
+
+	const offsets = [...source.matchAll(/^(\d{10}) 00000 n $/gm)].map((match) => Number(match[1]));
+	offsets.forEach((offset, index) => {
+		expect(source.substring(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+	});
+
+	const pageCount = Number(/\/Count (\d+)/.exec(source)?.[1]);
+	expect(pageCount).toBeGreaterThan(1);
+	expect(offsets).toHaveLength(4 + pageCount * 2);
+
+	const streamStart = source.indexOf('stream\n') + 'stream\n'.length;
+	const streamEnd = source.indexOf('\nendstream');
+	const firstPage = inflateSync(pdf.subarray(streamStart, streamEnd)).toString('latin1');
+	expect(firstPage).toContain('(Penjualan per Hari) Tj');
+	expect(firstPage).toContain('(Siti \\(Bandung\\)');
+	expect(firstPage).toContain(`(Halaman 1 dari ${pageCount}) Tj`);
+	expect(firstPage).toContain('(150.001) Tj');
+});
@@ -0,0 +1,81 @@
+import { expect, test } from '@playwright/test';
+
+let cache: typeof import('../src/lib/server/shipping-cache');
+
+test.beforeAll(async () => {
+	cache = await import('../src/lib/server/shipping-cache');
+	cache.setShippingCacheStore(new cache.MemoryCacheStore());
+});
+
+test('serves repeated lookups from the cache and counts hits and misses', async () => {
+	const before = cache.getShippingCacheMetrics().rates;
+	let loads = 0;
+	const load = async () => {
+		loads++;
+		return [{ price: 10000 }];
+	};
+	const key = cache.cacheKey('rates', '12110', '64151', cache.fingerprint([{ weight: 100 }]));
+
+	expect(await cache.cached('rates', key, load)).toEqual([{ price: 10000 }]);
+	expect(await cache.cached('rates', key, load)).toEqual([{ price: 10000 }]);
+	expect(loads).toBe(1);
+
+	const after = cache.getShippingCacheMetrics().rates;
+	expect(after.misses - before.misses).toBe(1);
+	expect(after.hits - before.hits).toBe(1);
+});
+
+test('shares one load between concurrent misses', async () => {
+	let loads = 0;
+	const load = () =>
+		new Promise<string>((resolve) => {
+			loads++;
+			setTimeout(() => resolve('area-1'), 10);
+		});
+	const key = cache.cacheKey('area', 'concurrent');
+
+	const results = await Promise.all([
+		cache.cached('area', key, load),
+		cache.cached('area', key, load),
+		cache.cached('area', key, load)
+	]);
+
+	expect(results).toEqual(['area-1', 'area-1', 'area-1']);
+	expect(loads).toBe(1);
+});
+
+test('fresh lookups bypass the cache and store the new value', async () => {
+	const key = cache.cacheKey('rates', 'fresh');
+	await cache.cached('rates', key, async () => 'old');
+
+	expect(await cache.cached('rates', key, async () => 'new', { fresh: true })).toBe('new');
+	expect(await cache.cached('rates', key, async () => 'unused')).toBe('new');
+});
+
+test('does not cache empty results', async () => {
+	const key = cache.cacheKey('area', 'missing');
+	await cache.cached('area', key, async () => null);
+
+	expect(await cache.cached('area', key, async () => 'found')).toBe('found');
+});
+
+test('clears one kind without touching the others', async () => {
+	const areaKey = cache.cacheKey('area', 'keep');
+	const rateKey = cache.cacheKey('rates', 'drop');
+	await cache.cached('area', areaKey, async () => 'area');
+	await cache.cached('rates', rateKey, async () => 'rate');
+
+	await cache.clearShippingCache('rates');
+
+	expect(await cache.cached('area', areaKey, async () => 'reloaded')).toBe('area');
+	expect(await cache.cached('rates', rateKey, async () => 'reloaded')).toBe('reloaded');
+});
+
+test('memory store expires entries after their ttl', async () => {
+	const store = new cache.MemoryCacheStore();
+	await store.set('short', 'value', 5);
+	expect(await store.get('short')).toBe('value');
+
+	await new Promise((resolve) => setTimeout(resolve, 10));
+	expect(await store.get('short')).toBeUndefined();
+});
@@ -0,0 +1,97 @@
+import { expect, test } from '@playwright/test';
+
+let simulator: typeof import('../src/lib/server/snap-simulator');
+let gateway: typeof import('../src/lib/server/payment-gateway');
+let midtrans: typeof import('../src/lib/server/midtrans-utils');
+
+const CALLBACKS = {
+	finish: 'http://localhost:4173/orders/01ORDER/payment-success',
+	error: 'http://localhost:4173/orders/01ORDER/payment-error',
+	pending: 'http://localhost:4173/orders/01ORDER/payment-pending'
+};
+
+function parameter(orderId: string, grossAmount = 75000) {
+	return {
+		transaction_details: { order_id: orderId, gross_amount: grossAmount },
+		item_details: [
+			{ id: '1', price: 25000, quantity: 2, name: 'Kaos Polos' },
+			{ id: 'SHIPPING', price: 25000, quantity: 1, name: 'Shipping via JNE reg' }
+		],
+		callbacks: CALLBACKS
+	};
+}
+
+test.beforeAll(async () => {
+	process.env.MIDTRANS_MODE = 'simulator';
+	process.env.MIDTRANS_SERVER_KEY = 'SB-Mid-server-test';
+	process.env.FRONTEND_URL = 'http://localhost:4173';
+	simulator = await import('../src/lib/server/snap-simulator');
+	gateway = await import('../src/lib/server/payment-gateway');
+	midtrans = await import('../src/lib/server/midtrans-utils');
+	simulator.resetSnapSimulator();
+});
+
+test.afterAll(() => {
+	delete process.env.MIDTRANS_MODE;
+	delete process.env.MIDTRANS_SERVER_KEY;
+	delete process.env.FRONTEND_URL;
+});
+
+test('issues tokens that point at the simulator page', async () => {
+	const payments = gateway.getPaymentGateway();
+	expect(payments.name).toBe('simulator');
+
+	const transaction = await payments.createTransaction(parameter('ORD-SNAP-1'));
+	expect(transaction.redirect_url).toBe(
+		`http://localhost:4173/payments/simulator/${transaction.token}`
+	);
+	expect(simulator.getSimulatedTransaction(transaction.token)).toMatchObject({
+		order_id: 'ORD-SNAP-1',
+		gross_amount: 75000,
+		transaction_status: 'pending'
+	});
+});
+
+test('rejects reused order ids and totals that do not match the items', async () => {
+	await expect(
+		gateway.getPaymentGateway().createTransaction(parameter('ORD-SNAP-1'))
+	).rejects.toThrow('order_id has already been taken');
+	await expect(
+		gateway.getPaymentGateway().createTransaction(parameter('ORD-SNAP-2', 80000))
+	).rejects.toThrow('gross_amount is not equal');
+});
+
+test('paying produces a signed settlement and the finish callback', async () => {
+	const { token } = simulator.createSimulatedTransaction(parameter('ORD-SNAP-3'));
+	const result = simulator.completeSimulatedTransaction(token, 'pay')!;
+
+	expect(result.notification).toMatchObject({
+		order_id: 'ORD-SNAP-3',
+		gross_amount: '75000.00',
+		status_code: '200',
+		transaction_status: 'settlement'
+	});
+	expect(midtrans.verifyNotificationSignature(result.notification)).toBe(true);
+	expect(midtrans.mapTransactionStatus('settlement', result.notification.fraud_status)).toBe(
+		'paid'
+	);
+	expect(result.redirect_url).toBe(
+		`${CALLBACKS.finish}?order_id=ORD-SNAP-3&status_code=200&transaction_status=settlement`
+	);
+
+	// A tampered amount no longer matches the signature
+	expect(
+		midtrans.verifyNotificationSignature({ ...result.notification, gross_amount: '1000.00' })
+	).toBe(false);
+});
+
+test('declining lands on the error callback', async () => {
+	const { token } = simulator.createSimulatedTransaction(parameter('ORD-SNAP-4'));
+	const result = simulator.completeSimulatedTransaction(token, 'decline')!;
+
+	expect(result.notification.transaction_status).toBe('deny');
+	expect(midtrans.verifyNotificationSignature(result.notification)).toBe(true);
+	expect(result.redirect_url).toContain(`${CALLBACKS.error}?`);
+	expect(simulator.getSimulatedTransaction(token)!.transaction_status).toBe('deny');
+	expect(simulator.completeSimulatedTransaction('unknown', 'pay')).toBeNull();
+});
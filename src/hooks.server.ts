@@ -1,19 +1,51 @@
-import type { Handle } from '@sveltejs/kit';
+import type { Handle, ServerInit } from '@sveltejs/kit';
+import { building } from '$app/environment';
+import { startJobScheduler } from '$lib/server/jobs';
+import { getSessionUser } from '$lib/server/users';
 import jwt from 'jsonwebtoken';
 import 'dotenv/config';
 
 const JWT_SECRET = process.env.JWT_SECRET!;
 
+// Background jobs (payment expiry, ...) run inside the server process; not while prerendering
+export const init: ServerInit = () => {
+  if (!building) {
+    startJobScheduler();
+  }
+};
+
 export const handle: Handle = async ({ event, resolve }) => {
   const session = event.cookies.get('session');
 
   if (session) {
+    let decoded: { sub: string; role: string; iat?: number } | null = null;
     try {
-      const decoded = jwt.verify(session, JWT_SECRET) as { sub: string; role: string };
-      event.locals.user = { id: decoded.sub, role: decoded.role };
+      decoded = jwt.verify(session, JWT_SECRET) as { sub: string; role: string; iat?: number };
     } catch {
       event.locals.user = null;
     }
+
+    if (decoded) {
+      // The token keeps the role it was issued with; take the current role from the database
+      // so role changes and suspensions apply right away
+      try {
+        const user = await getSessionUser(Number(decoded.sub));
+        // A password reset signs out every session issued before it
+        const issuedBeforePasswordChange =
+          user?.passwordChangedAt != null &&
+          (decoded.iat ?? 0) < Math.floor(user.passwordChangedAt.getTime() / 1000);
+        if (user && !user.suspended && !issuedBeforePasswordChange) {
+          event.locals.user = { id: decoded.sub, role: user.role };
+        } else {
+          event.locals.user = null;
+          event.cookies.delete('session', { path: '/' });
+          event.cookies.delete('csrf_token', { path: '/' });
+        }
+      } catch (err) {
+        console.error('Session lookup error:', err);
+        event.locals.user = null;
+      }
+    }
   } else {
     event.locals.user = null;
   }
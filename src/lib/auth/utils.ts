@@ -1,5 +1,6 @@
 import { goto } from '$app/navigation';
 import { browser } from '$app/environment';
+import { cartStore } from '$lib/stores/cart';
 
 /**
  * Interface for user data - only what's in JWT token
@@ -183,6 +184,8 @@ export async function logout(): Promise<void> {
   } catch (error) {
     console.error('Logout error:', error);
   } finally {
+    // The stored cart belongs to the account; drop it from the client
+    cartStore.reset();
     // Always redirect to login, even if logout request fails
     goto('/login');
   }
@@ -216,6 +219,8 @@ export async function login(email: string, password: string): Promise<{
     const data = await response.json();
     
     if (response.ok && data.success) {
+      // The guest cart was merged into the account's stored cart on the server
+      await cartStore.load();
       return { success: true, user: data.user };
     } else {
       return { 
@@ -263,6 +268,8 @@ export async function register(userData: {
     const data = await response.json();
     
     if (response.ok && data.success) {
+      // The guest cart was merged into the account's stored cart on the server
+      await cartStore.load();
       return { success: true, user: data.user };
     } else {
       return { 
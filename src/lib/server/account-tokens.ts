@@ -0,0 +1,121 @@
+import 'dotenv/config';
+import { createHmac, randomBytes } from 'node:crypto';
+import { db } from '$lib/server/db';
+import { accountTokens } from '$lib/server/db/schema';
+import { and, desc, eq } from 'drizzle-orm';
+import { error } from '@sveltejs/kit';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | Transaction;
+
+export const ACCOUNT_TOKEN_PURPOSES = ['email_verification', 'password_reset'] as const;
+export type AccountTokenPurpose = (typeof ACCOUNT_TOKEN_PURPOSES)[number];
+
+export const ACCOUNT_TOKEN_TTL_MS: Record<AccountTokenPurpose, number> = {
+	email_verification: 48 * 60 * 60 * 1000,
+	password_reset: 60 * 60 * 1000
+};
+
+// Another email for the same purpose is refused for this long, so nobody can flood an inbox
+const ISSUE_INTERVAL_MS = 60 * 1000;
+const TOKEN_BYTES = 32;
+
+/**
+ * Tokens are random and only travel in the emailed link. The database keeps a keyed hash
+ * (bound to the purpose, so a reset token never verifies an email), which makes a leaked
+ * table useless without the secret.
+ */
+function tokenSecret(): string {
+	const secret = process.env.ACCOUNT_TOKEN_SECRET || process.env.JWT_SECRET;
+	if (!secret) {
+		throw new Error('Environment variable ACCOUNT_TOKEN_SECRET or JWT_SECRET is not defined');
+	}
+	return secret;
+}
+
+function hashToken(token: string, purpose: AccountTokenPurpose): string {
+	return createHmac('sha256', tokenSecret()).update(`${purpose}:${token}`).digest('hex');
+}
+
+// base64url of TOKEN_BYTES; anything else is rejected without a query
+function isWellFormedToken(value: unknown): value is string {
+	return typeof value === 'string' && /^[A-Za-z0-9_-]{43}$/.test(value);
+}
+
+/**
+ * A new single-use token for the user, replacing any earlier one for the same purpose. Throws
+ * 429 when one was issued less than a minute ago.
+ */
+export async function issueAccountToken(userId: number, purpose: AccountTokenPurpose) {
+	return db.transaction(async (tx) => {
+		const [latest] = await tx
+			.select({ createdAt: accountTokens.createdAt })
+			.from(accountTokens)
+			.where(and(eq(accountTokens.userId, userId), eq(accountTokens.purpose, purpose)))
+			.orderBy(desc(accountTokens.createdAt))
+			.limit(1)
+			.for('update');
+		if (latest?.createdAt && Date.now() - latest.createdAt.getTime() < ISSUE_INTERVAL_MS) {
+			throw error(429, 'Please wait a minute before requesting another email');
+		}
+
+		await tx
+			.delete(accountTokens)
+			.where(and(eq(accountTokens.userId, userId), eq(accountTokens.purpose, purpose)));
+
+		const token = randomBytes(TOKEN_BYTES).toString('base64url');
+		const expiresAt = new Date(Date.now() + ACCOUNT_TOKEN_TTL_MS[purpose]);
+		await tx.insert(accountTokens).values({
+			userId,
+			purpose,
+			tokenHash: hashToken(token, purpose),
+			expiresAt
+		});
+
+		return { token, expiresAt };
+	});
+}
+
+/**
+ * Marks the token used and returns its user. Unknown, expired and already used tokens all
+ * get the same 400, so the response says nothing about which tokens exist.
+ */
+export async function consumeAccountToken(
+	tx: Transaction,
+	token: unknown,
+	purpose: AccountTokenPurpose
+): Promise<number> {
+	if (!isWellFormedToken(token)) {
+		throw error(400, 'Invalid or expired token');
+	}
+
+	const [row] = await tx
+		.select()
+		.from(accountTokens)
+		.where(
+			and(
+				eq(accountTokens.tokenHash, hashToken(token, purpose)),
+				eq(accountTokens.purpose, purpose)
+			)
+		)
+		.limit(1)
+		.for('update');
+
+	if (!row || row.usedAt || row.expiresAt.getTime() <= Date.now()) {
+		throw error(400, 'Invalid or expired token');
+	}
+
+	await tx.update(accountTokens).set({ usedAt: new Date() }).where(eq(accountTokens.id, row.id));
+	return row.userId;
+}
+
+/** Drop every token the user holds for a purpose, e.g. all reset links once the password changed */
+export async function revokeAccountTokens(
+	executor: Executor,
+	userId: number,
+	purpose: AccountTokenPurpose
+) {
+	await executor
+		.delete(accountTokens)
+		.where(and(eq(accountTokens.userId, userId), eq(accountTokens.purpose, purpose)));
+}
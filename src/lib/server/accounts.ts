@@ -0,0 +1,164 @@
+import 'dotenv/config';
+import * as bcryptjs from 'bcryptjs';
+import { db } from '$lib/server/db';
+import { users } from '$lib/server/db/schema';
+import {
+	ACCOUNT_TOKEN_TTL_MS,
+	consumeAccountToken,
+	issueAccountToken,
+	revokeAccountTokens
+} from '$lib/server/account-tokens';
+import { forgetSessionUser } from '$lib/server/users';
+import { sendMail } from '$lib/server/mail';
+import { passwordResetEmail, verificationEmail } from '$lib/server/mail/templates';
+import { and, eq, isNull } from 'drizzle-orm';
+import { error } from '@sveltejs/kit';
+
+export const MIN_PASSWORD_LENGTH = 8;
+const MAX_PASSWORD_LENGTH = 72; // bcrypt ignores anything longer
+
+interface AccountUser {
+	id: number;
+	name: string;
+	email: string;
+}
+
+/** EMAIL_VERIFICATION_REQUIRED=false lets unverified accounts log in (e.g. without a mail server) */
+export function isEmailVerificationRequired(): boolean {
+	return process.env.EMAIL_VERIFICATION_REQUIRED !== 'false';
+}
+
+export function parsePassword(value: unknown): string {
+	if (typeof value !== 'string' || value.length < MIN_PASSWORD_LENGTH) {
+		throw error(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+	}
+	if (value.length > MAX_PASSWORD_LENGTH) {
+		throw error(400, `Password must be at most ${MAX_PASSWORD_LENGTH} characters`);
+	}
+	return value;
+}
+
+/**
+ * Links always point at the configured FRONTEND_URL. The request's own origin comes from the
+ * Host header, which a caller controls, so it could send a victim a reset link to another site.
+ */
+function accountLinkBase(): string {
+	const base = process.env.FRONTEND_URL;
+	if (!base) {
+		throw new Error('Environment variable FRONTEND_URL is not defined; account emails need it');
+	}
+	return base.replace(/\/+$/, '');
+}
+
+function accountLink(base: string, path: string, token: string): string {
+	return `${base}${path}?token=${encodeURIComponent(token)}`;
+}
+
+async function findUserByEmail(email: unknown) {
+	if (typeof email !== 'string' || !email.trim()) {
+		throw error(400, 'Email is required');
+	}
+	const [user] = await db
+		.select({
+			id: users.id,
+			name: users.name,
+			email: users.email,
+			emailVerifiedAt: users.emailVerifiedAt,
+			suspendedAt: users.suspendedAt
+		})
+		.from(users)
+		.where(eq(users.email, email.trim()))
+		.limit(1);
+	return user ?? null;
+}
+
+function isThrottled(err: any): boolean {
+	return err?.status === 429;
+}
+
+export async function sendVerificationEmail(user: AccountUser) {
+	const base = accountLinkBase();
+	const { token } = await issueAccountToken(user.id, 'email_verification');
+	const hours = ACCOUNT_TOKEN_TTL_MS.email_verification / (60 * 60 * 1000);
+	await sendMail(verificationEmail(user, accountLink(base, '/verify-email', token), hours));
+}
+
+/**
+ * Send a new verification link. Unknown, suspended and already verified addresses are
+ * skipped without telling the caller, so the endpoint cannot be used to probe for accounts.
+ */
+export async function resendVerificationEmail(email: unknown) {
+	accountLinkBase();
+	const user = await findUserByEmail(email);
+	if (!user || user.emailVerifiedAt || user.suspendedAt) return;
+
+	try {
+		await sendVerificationEmail(user);
+	} catch (err) {
+		if (!isThrottled(err)) throw err;
+	}
+}
+
+export async function verifyEmail(token: unknown) {
+	const userId = await db.transaction(async (tx) => {
+		const userId = await consumeAccountToken(tx, token, 'email_verification');
+		await tx
+			.update(users)
+			.set({ emailVerifiedAt: new Date() })
+			.where(and(eq(users.id, userId), isNull(users.emailVerifiedAt)));
+		return userId;
+	});
+	return { userId };
+}
+
+/** Email a reset link; silent for unknown and suspended addresses like resendVerificationEmail */
+export async function requestPasswordReset(email: unknown) {
+	// Checked first, so a missing setting fails the same way for every address
+	const base = accountLinkBase();
+	const user = await findUserByEmail(email);
+	if (!user || user.suspendedAt) return;
+
+	try {
+		const { token } = await issueAccountToken(user.id, 'password_reset');
+		const minutes = ACCOUNT_TOKEN_TTL_MS.password_reset / (60 * 1000);
+		await sendMail(passwordResetEmail(user, accountLink(base, '/reset-password', token), minutes));
+	} catch (err) {
+		if (!isThrottled(err)) throw err;
+	}
+}
+
+/**
+ * Set a new password from a reset link. Every session issued before the change stops working
+ * (see hooks.server.ts) and other reset links are revoked. Following the link also proves the
+ * user owns the address, so it counts as verified.
+ */
+export async function resetPassword(token: unknown, password: unknown) {
+	const newPassword = parsePassword(password);
+	const hashedPassword = await bcryptjs.hash(newPassword, 10);
+	// Session tokens carry whole seconds in iat; keep the comparison in the same unit
+	const changedAt = new Date(Math.floor(Date.now() / 1000) * 1000);
+
+	const userId = await db.transaction(async (tx) => {
+		const userId = await consumeAccountToken(tx, token, 'password_reset');
+		const [user] = await tx
+			.select({ emailVerifiedAt: users.emailVerifiedAt })
+			.from(users)
+			.where(eq(users.id, userId))
+			.limit(1)
+			.for('update');
+
+		await tx
+			.update(users)
+			.set({
+				password: hashedPassword,
+				passwordChangedAt: changedAt,
+				emailVerifiedAt: user?.emailVerifiedAt ?? changedAt
+			})
+			.where(eq(users.id, userId));
+		await revokeAccountTokens(tx, userId, 'password_reset');
+		return userId;
+	});
+
+	forgetSessionUser(userId);
+	return { userId };
+}
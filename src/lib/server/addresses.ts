@@ -0,0 +1,197 @@
+import { db } from '$lib/server/db';
+import { userAddresses } from '$lib/server/db/schema';
+import {
+	getAreaByPostalCode,
+	formatAreaName,
+	isValidIndonesianPostalCode
+} from '$lib/server/biteship-utils';
+import { eq, and, desc, ne } from 'drizzle-orm';
+import { error } from '@sveltejs/kit';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type UserAddress = typeof userAddresses.$inferSelect;
+
+export const MAX_ADDRESSES_PER_USER = 10;
+
+const PHONE_PATTERN = /^(\+62|62|0)[0-9]{9,13}$/;
+
+export interface AddressInput {
+	label?: string;
+	recipientName?: string;
+	phone?: string;
+	address?: string;
+	postalCode?: string;
+	isDefault?: boolean;
+}
+
+interface ResolvedArea {
+	areaId: string | null;
+	areaName: string;
+	city: string | null;
+	province: string | null;
+}
+
+function parseText(value: unknown, field: string, maxLength: number): string {
+	const text = typeof value === 'string' ? value.trim() : '';
+	if (!text) throw error(400, `${field} is required`);
+	if (text.length > maxLength) throw error(400, `${field} must be at most ${maxLength} characters`);
+	return text;
+}
+
+/**
+ * Validate a create/update payload. `partial` skips required fields for updates.
+ */
+export function parseAddressInput(body: any, partial: boolean): AddressInput {
+	const input: AddressInput = {};
+
+	if (!partial || body.label !== undefined) input.label = parseText(body.label, 'Label', 50);
+	if (!partial || body.recipientName !== undefined) {
+		input.recipientName = parseText(body.recipientName, 'Recipient name', 100);
+	}
+	if (!partial || body.phone !== undefined) {
+		const phone = parseText(body.phone, 'Phone', 20).replace(/\s/g, '');
+		if (!PHONE_PATTERN.test(phone)) throw error(400, 'Invalid phone number');
+		input.phone = phone;
+	}
+	if (!partial || body.address !== undefined) {
+		input.address = parseText(body.address, 'Address', 255);
+	}
+	if (!partial || body.postalCode !== undefined) {
+		const postalCode = parseText(body.postalCode, 'Postal code', 10);
+		if (!isValidIndonesianPostalCode(postalCode)) {
+			throw error(400, 'Postal code must be 5 digits');
+		}
+		input.postalCode = postalCode;
+	}
+	if (body.isDefault !== undefined) input.isDefault = Boolean(body.isDefault);
+
+	return input;
+}
+
+// Look the area up once when the address is saved so checkout can quote shipping straight away
+async function resolveArea(postalCode: string): Promise<ResolvedArea> {
+	const area = await getAreaByPostalCode(postalCode).catch((err) => {
+		console.error('Area lookup failed for address:', err);
+		throw error(502, 'Could not verify postal code, please try again');
+	});
+	if (!area) {
+		throw error(400, 'Postal code not found');
+	}
+
+	return {
+		areaId: area.id || null,
+		areaName: formatAreaName(area),
+		city: area.administrative_division_level_2_name || null,
+		province: area.administrative_division_level_1_name || null
+	};
+}
+
+async function clearOtherDefaults(tx: Transaction, userId: number, addressId: number) {
+	await tx
+		.update(userAddresses)
+		.set({ isDefault: false })
+		.where(and(eq(userAddresses.userId, userId), ne(userAddresses.id, addressId)));
+}
+
+export async function listAddresses(userId: number): Promise<UserAddress[]> {
+	return db
+		.select()
+		.from(userAddresses)
+		.where(eq(userAddresses.userId, userId))
+		.orderBy(desc(userAddresses.isDefault), desc(userAddresses.updatedAt));
+}
+
+export async function getAddress(userId: number, addressId: number): Promise<UserAddress> {
+	const [address] = await db
+		.select()
+		.from(userAddresses)
+		.where(and(eq(userAddresses.id, addressId), eq(userAddresses.userId, userId)))
+		.limit(1);
+
+	if (!address) {
+		throw error(404, 'Address not found');
+	}
+	return address;
+}
+
+export async function createAddress(userId: number, input: AddressInput): Promise<UserAddress> {
+	const existing = await listAddresses(userId);
+	if (existing.length >= MAX_ADDRESSES_PER_USER) {
+		throw error(400, `At most ${MAX_ADDRESSES_PER_USER} addresses can be saved`);
+	}
+
+	const area = await resolveArea(input.postalCode!);
+	// The first address is always the default
+	const isDefault = existing.length === 0 || input.isDefault === true;
+
+	const addressId = await db.transaction(async (tx) => {
+		const [result] = await tx.insert(userAddresses).values({
+			userId,
+			label: input.label!,
+			recipientName: input.recipientName!,
+			phone: input.phone!,
+			address: input.address!,
+			postalCode: input.postalCode!,
+			...area,
+			isDefault
+		});
+
+		if (isDefault) {
+			await clearOtherDefaults(tx, userId, result.insertId);
+		}
+		return result.insertId;
+	});
+
+	return getAddress(userId, addressId);
+}
+
+export async function updateAddress(
+	userId: number,
+	addressId: number,
+	input: AddressInput
+): Promise<UserAddress> {
+	const current = await getAddress(userId, addressId);
+
+	const { isDefault, ...fields } = input;
+	const data: Partial<typeof userAddresses.$inferInsert> = { ...fields };
+	if (input.postalCode && input.postalCode !== current.postalCode) {
+		Object.assign(data, await resolveArea(input.postalCode));
+	}
+	// Unsetting the default is done by making another address the default
+	if (isDefault) data.isDefault = true;
+
+	if (Object.keys(data).length > 0) {
+		await db.transaction(async (tx) => {
+			await tx.update(userAddresses).set(data).where(eq(userAddresses.id, addressId));
+			if (isDefault) {
+				await clearOtherDefaults(tx, userId, addressId);
+			}
+		});
+	}
+
+	return getAddress(userId, addressId);
+}
+
+export async function deleteAddress(userId: number, addressId: number) {
+	const current = await getAddress(userId, addressId);
+
+	await db.transaction(async (tx) => {
+		await tx.delete(userAddresses).where(eq(userAddresses.id, addressId));
+
+		// Hand the default over to the most recently used address
+		if (current.isDefault) {
+			const [next] = await tx
+				.select({ id: userAddresses.id })
+				.from(userAddresses)
+				.where(eq(userAddresses.userId, userId))
+				.orderBy(desc(userAddresses.updatedAt))
+				.limit(1);
+			if (next) {
+				await tx
+					.update(userAddresses)
+					.set({ isDefault: true })
+					.where(eq(userAddresses.id, next.id));
+			}
+		}
+	});
+}
@@ -0,0 +1,387 @@
+import { db } from '$lib/server/db';
+import { orders, orderItems, products, productVariants, users } from '$lib/server/db/schema';
+import { and, asc, eq, gte, inArray, lt, lte, sql, type SQL } from 'drizzle-orm';
+import { error } from '@sveltejs/kit';
+
+export const ANALYTICS_RANGES = ['7d', '30d', '90d', '12m'] as const;
+export type AnalyticsRangeKey = (typeof ANALYTICS_RANGES)[number];
+
+export type AnalyticsGranularity = 'day' | 'month';
+
+export interface AnalyticsRange {
+	/** Inclusive start */
+	from: Date;
+	/** Exclusive end */
+	to: Date;
+	granularity: AnalyticsGranularity;
+}
+
+// Orders that brought in money. Refunded orders are left out; cash on delivery orders count
+// once they ship (processing)
+const REVENUE_STATUSES = ['paid', 'processing', 'shipped', 'delivered'];
+
+// Orders whose items count as sold on product pages
+const SOLD_STATUSES = ['completed', 'shipped', 'delivered'];
+
+// Custom ranges longer than this are charted per month
+const MAX_DAILY_RANGE_DAYS = 92;
+const MAX_RANGE_DAYS = 731;
+const TOP_PRODUCTS_LIMIT = 10;
+const LOW_STOCK_LIMIT = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isAnalyticsRangeKey(value: unknown): value is AnalyticsRangeKey {
+	return typeof value === 'string' && (ANALYTICS_RANGES as readonly string[]).includes(value);
+}
+
+function startOfDay(date: Date): Date {
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function parseDay(value: string): Date | null {
+	const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+	if (!match) return null;
+	const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+	return date.getMonth() === Number(match[2]) - 1 ? date : null;
+}
+
+/**
+ * Read the reporting period from ?range=7d|30d|90d|12m or ?from=YYYY-MM-DD&to=YYYY-MM-DD (both
+ * days included). Defaults to the last 30 days, today included. Throws 400 for bad input.
+ */
+export function parseAnalyticsRange(params: URLSearchParams, now = new Date()): AnalyticsRange {
+	const fromParam = params.get('from');
+	const toParam = params.get('to');
+
+	if (fromParam || toParam) {
+		const from = fromParam ? parseDay(fromParam) : null;
+		const lastDay = toParam ? parseDay(toParam) : null;
+		if (!from || !lastDay) {
+			throw error(400, 'from and to must both be dates in YYYY-MM-DD format');
+		}
+		if (lastDay < from) {
+			throw error(400, 'from must not be after to');
+		}
+
+		const to = addDays(lastDay, 1);
+		const days = Math.round((to.getTime() - from.getTime()) / DAY_MS);
+		if (days > MAX_RANGE_DAYS) {
+			throw error(400, `Date range cannot exceed ${MAX_RANGE_DAYS} days`);
+		}
+		return { from, to, granularity: days > MAX_DAILY_RANGE_DAYS ? 'month' : 'day' };
+	}
+
+	const range = params.get('range') || '30d';
+	if (!isAnalyticsRangeKey(range)) {
+		throw error(400, 'Invalid range parameter');
+	}
+
+	const tomorrow = addDays(startOfDay(now), 1);
+	if (range === '12m') {
+		return {
+			from: new Date(now.getFullYear(), now.getMonth() - 11, 1),
+			to: new Date(now.getFullYear(), now.getMonth() + 1, 1),
+			granularity: 'month'
+		};
+	}
+	return { from: addDays(tomorrow, -parseInt(range, 10)), to: tomorrow, granularity: 'day' };
+}
+
+/** The period of the same length right before the range, for comparisons */
+function previousRange(range: AnalyticsRange): AnalyticsRange {
+	if (range.granularity === 'month' && range.from.getDate() === 1 && range.to.getDate() === 1) {
+		const months =
+			(range.to.getFullYear() - range.from.getFullYear()) * 12 +
+			range.to.getMonth() -
+			range.from.getMonth();
+		return {
+			from: new Date(range.from.getFullYear(), range.from.getMonth() - months, 1),
+			to: range.from,
+			granularity: range.granularity
+		};
+	}
+	return {
+		from: new Date(range.from.getTime() - (range.to.getTime() - range.from.getTime())),
+		to: range.from,
+		granularity: range.granularity
+	};
+}
+
+function pad(value: number): string {
+	return String(value).padStart(2, '0');
+}
+
+function periodKey(date: Date, granularity: AnalyticsGranularity): string {
+	const month = `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+	return granularity === 'month' ? month : `${month}-${pad(date.getDate())}`;
+}
+
+/** Every day or month of the range, so periods without orders still show up as zero */
+function periodKeys(range: AnalyticsRange): string[] {
+	const keys: string[] = [];
+	let cursor = range.from;
+	while (cursor < range.to) {
+		keys.push(periodKey(cursor, range.granularity));
+		cursor =
+			range.granularity === 'month'
+				? new Date(cursor.getFullYear(), cursor.getMonth() + 1, 1)
+				: addDays(cursor, 1);
+	}
+	return keys;
+}
+
+function createdWithin(range: { from: Date; to: Date }): SQL {
+	return and(gte(orders.createdAt, range.from), lt(orders.createdAt, range.to))!;
+}
+
+/**
+ * Quantity sold per product, counting orders that have shipped. Pass null to count every
+ * product, and a range to only count orders placed in it.
+ */
+export async function getSoldCountForProducts(
+	productIds: number[] | null,
+	range?: { from: Date; to: Date }
+): Promise<Map<number, number>> {
+	if (productIds && productIds.length === 0) return new Map();
+
+	try {
+		const conditions: SQL[] = [inArray(orders.status, SOLD_STATUSES)];
+		if (productIds) conditions.push(inArray(orderItems.productId, productIds));
+		if (range) conditions.push(createdWithin(range));
+
+		const soldCountQuery = await db
+			.select({
+				productId: orderItems.productId,
+				totalSold: sql<number>`COALESCE(SUM(${orderItems.quantity}), 0)`.as('totalSold')
+			})
+			.from(orderItems)
+			.innerJoin(orders, eq(orderItems.orderId, orders.id))
+			.where(and(...conditions))
+			.groupBy(orderItems.productId);
+
+		return new Map(soldCountQuery.map((item) => [item.productId, Number(item.totalSold)]));
+	} catch (err) {
+		console.error('Error fetching sold counts:', err);
+		return new Map();
+	}
+}
+
+async function getRevenueSummary(range: AnalyticsRange) {
+	const [row] = await db
+		.select({
+			revenue: sql<string>`COALESCE(SUM(${orders.total}), 0)`,
+			paidOrders: sql<number>`COUNT(*)`
+		})
+		.from(orders)
+		.where(and(inArray(orders.status, REVENUE_STATUSES), createdWithin(range)));
+
+	const revenue = Number(row?.revenue) || 0;
+	const paidOrders = Number(row?.paidOrders) || 0;
+	return {
+		revenue,
+		paidOrders,
+		averageOrderValue: paidOrders > 0 ? Math.round(revenue / paidOrders) : 0
+	};
+}
+
+async function getOrdersByStatus(range: AnalyticsRange) {
+	const rows = await db
+		.select({ status: orders.status, count: sql<number>`COUNT(*)` })
+		.from(orders)
+		.where(createdWithin(range))
+		.groupBy(orders.status);
+
+	return rows
+		.map((row) => ({ status: row.status || 'pending', count: Number(row.count) }))
+		.sort((a, b) => b.count - a.count);
+}
+
+async function getTimeSeries(range: AnalyticsRange) {
+	// Inlined rather than bound, so MySQL sees the same expression in SELECT and GROUP BY
+	const format = sql.raw(range.granularity === 'month' ? "'%Y-%m'" : "'%Y-%m-%d'");
+	const period = sql<string>`DATE_FORMAT(${orders.createdAt}, ${format})`;
+	const rows = await db
+		.select({
+			period,
+			orders: sql<number>`COUNT(*)`,
+			revenue: sql<string>`COALESCE(SUM(CASE WHEN ${inArray(orders.status, REVENUE_STATUSES)} THEN ${orders.total} ELSE 0 END), 0)`
+		})
+		.from(orders)
+		.where(createdWithin(range))
+		.groupBy(period);
+
+	const byPeriod = new Map(rows.map((row) => [row.period, row]));
+	return periodKeys(range).map((key) => ({
+		period: key,
+		orders: Number(byPeriod.get(key)?.orders) || 0,
+		revenue: Number(byPeriod.get(key)?.revenue) || 0
+	}));
+}
+
+/**
+ * Customers who paid for an order in the range. New customers had no paid order before it;
+ * returning customers did.
+ */
+async function getCustomerBreakdown(range: AnalyticsRange) {
+	const rows = await db
+		.select({
+			userId: orders.userId,
+			earlierOrders: sql<number>`SUM(CASE WHEN ${orders.createdAt} < ${range.from} THEN 1 ELSE 0 END)`
+		})
+		.from(orders)
+		.where(and(inArray(orders.status, REVENUE_STATUSES), lt(orders.createdAt, range.to)))
+		.groupBy(orders.userId)
+		.having(sql`SUM(CASE WHEN ${orders.createdAt} >= ${range.from} THEN 1 ELSE 0 END) > 0`);
+
+	const returning = rows.filter((row) => Number(row.earlierOrders) > 0).length;
+	return { total: rows.length, new: rows.length - returning, returning };
+}
+
+async function getTopProducts(range: AnalyticsRange) {
+	const sold = await getSoldCountForProducts(null, range);
+	const top = [...sold.entries()].sort((a, b) => b[1] - a[1]).slice(0, TOP_PRODUCTS_LIMIT);
+	if (top.length === 0) return [];
+
+	const rows = await db
+		.select({ id: products.id, name: products.name, slug: products.slug, stock: products.stock })
+		.from(products)
+		.where(
+			inArray(
+				products.id,
+				top.map(([productId]) => productId)
+			)
+		);
+	const byId = new Map(rows.map((row) => [row.id, row]));
+
+	return top
+		.filter(([productId]) => byId.has(productId))
+		.map(([productId, soldCount]) => ({ ...byId.get(productId)!, soldCount }));
+}
+
+function lowStockThreshold(): number {
+	const value = Number(process.env.LOW_STOCK_THRESHOLD);
+	return Number.isFinite(value) && value >= 0 ? value : 5;
+}
+
+/**
+ * Active variants, and products sold without variants, at or below LOW_STOCK_THRESHOLD
+ * (default 5), emptiest first.
+ */
+export async function getLowStockItems(limit = LOW_STOCK_LIMIT) {
+	const threshold = lowStockThreshold();
+
+	const [variantRows, productRows] = await Promise.all([
+		db
+			.select({
+				productId: products.id,
+				variantId: productVariants.id,
+				name: products.name,
+				slug: products.slug,
+				variantName: productVariants.name,
+				sku: productVariants.sku,
+				stock: productVariants.stock
+			})
+			.from(productVariants)
+			.innerJoin(products, eq(products.id, productVariants.productId))
+			.where(and(eq(productVariants.isActive, true), lte(productVariants.stock, threshold)))
+			.orderBy(asc(productVariants.stock))
+			.limit(limit),
+		db
+			.select({
+				productId: products.id,
+				name: products.name,
+				slug: products.slug,
+				stock: products.stock
+			})
+			.from(products)
+			.where(
+				and(
+					lte(products.stock, threshold),
+					sql`NOT EXISTS (SELECT 1 FROM ${productVariants} WHERE ${productVariants.productId} = ${products.id} AND ${productVariants.isActive} = true)`
+				)
+			)
+			.orderBy(asc(products.stock))
+			.limit(limit)
+	]);
+
+	const items = [
+		...variantRows.map((row) => ({ ...row, stock: Number(row.stock) })),
+		...productRows.map((row) => ({
+			...row,
+			variantId: null,
+			variantName: null,
+			sku: null,
+			stock: Number(row.stock) || 0
+		}))
+	]
+		.sort((a, b) => a.stock - b.stock)
+		.slice(0, limit);
+
+	return { threshold, items };
+}
+
+function percentChange(current: number, previous: number): number | null {
+	if (previous === 0) return null;
+	return Math.round(((current - previous) / previous) * 1000) / 10;
+}
+
+/** Everything the dashboard home shows for a period */
+export async function getDashboardAnalytics(range: AnalyticsRange) {
+	const previous = previousRange(range);
+
+	const [
+		summary,
+		previousSummary,
+		ordersByStatus,
+		timeSeries,
+		customers,
+		topProducts,
+		lowStock,
+		[productCount],
+		[customerCount]
+	] = await Promise.all([
+		getRevenueSummary(range),
+		getRevenueSummary(previous),
+		getOrdersByStatus(range),
+		getTimeSeries(range),
+		getCustomerBreakdown(range),
+		getTopProducts(range),
+		getLowStockItems(),
+		db.select({ count: sql<number>`COUNT(*)` }).from(products),
+		db
+			.select({ count: sql<number>`COUNT(*)` })
+			.from(users)
+			.where(eq(users.role, 'customer'))
+	]);
+
+	const orderCount = ordersByStatus.reduce((sum, row) => sum + row.count, 0);
+
+	return {
+		range: {
+			from: periodKey(range.from, 'day'),
+			// Last day included, matching the ?to= parameter
+			to: periodKey(addDays(range.to, -1), 'day'),
+			granularity: range.granularity
+		},
+		summary: {
+			...summary,
+			orderCount,
+			revenueChange: percentChange(summary.revenue, previousSummary.revenue),
+			paidOrdersChange: percentChange(summary.paidOrders, previousSummary.paidOrders)
+		},
+		totals: {
+			products: Number(productCount?.count) || 0,
+			customers: Number(customerCount?.count) || 0
+		},
+		ordersByStatus,
+		timeSeries,
+		customers,
+		topProducts,
+		lowStock
+	};
+}
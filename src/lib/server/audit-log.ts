@@ -0,0 +1,98 @@
+import { db } from '$lib/server/db';
+import { adminAuditLogs, users } from '$lib/server/db/schema';
+import { and, desc, eq, sql } from 'drizzle-orm';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | Transaction;
+
+export const AUDIT_ACTIONS = ['user.role_changed', 'user.suspended', 'user.unsuspended'] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const AUDIT_TARGET_TYPES = ['user'] as const;
+export type AuditTargetType = (typeof AUDIT_TARGET_TYPES)[number];
+
+export interface AuditEntry {
+	adminId: number;
+	action: AuditAction;
+	targetType: AuditTargetType;
+	targetId: string | number;
+	/** Before/after values, reasons; stored as JSON */
+	details?: Record<string, unknown> | null;
+}
+
+export function isAuditAction(value: unknown): value is AuditAction {
+	return typeof value === 'string' && (AUDIT_ACTIONS as readonly string[]).includes(value);
+}
+
+export function isAuditTargetType(value: unknown): value is AuditTargetType {
+	return typeof value === 'string' && (AUDIT_TARGET_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Record an admin action. Pass the transaction that made the change so the entry is only
+ * kept when the change is.
+ */
+export async function recordAdminAction(executor: Executor, entry: AuditEntry) {
+	await executor.insert(adminAuditLogs).values({
+		adminId: entry.adminId,
+		action: entry.action,
+		targetType: entry.targetType,
+		targetId: String(entry.targetId),
+		details: entry.details ? JSON.stringify(entry.details) : null
+	});
+}
+
+function parseDetails(details: string | null): Record<string, unknown> | null {
+	if (!details) return null;
+	try {
+		return JSON.parse(details);
+	} catch {
+		return null;
+	}
+}
+
+/** Newest first, with the acting admin's name and email */
+export async function listAuditLogs(options: {
+	targetType?: AuditTargetType | null;
+	targetId?: string | number | null;
+	adminId?: number | null;
+	action?: AuditAction | null;
+	page: number;
+	perPage: number;
+}) {
+	const conditions = [];
+	if (options.targetType) conditions.push(eq(adminAuditLogs.targetType, options.targetType));
+	if (options.targetId !== null && options.targetId !== undefined) {
+		conditions.push(eq(adminAuditLogs.targetId, String(options.targetId)));
+	}
+	if (options.adminId) conditions.push(eq(adminAuditLogs.adminId, options.adminId));
+	if (options.action) conditions.push(eq(adminAuditLogs.action, options.action));
+	const where = conditions.length ? and(...conditions) : undefined;
+
+	const [{ count }] = await db
+		.select({ count: sql<number>`COUNT(*)` })
+		.from(adminAuditLogs)
+		.where(where);
+
+	const rows = await db
+		.select({
+			log: adminAuditLogs,
+			adminName: users.name,
+			adminEmail: users.email
+		})
+		.from(adminAuditLogs)
+		.innerJoin(users, eq(users.id, adminAuditLogs.adminId))
+		.where(where)
+		.orderBy(desc(adminAuditLogs.createdAt), desc(adminAuditLogs.id))
+		.limit(options.perPage)
+		.offset((options.page - 1) * options.perPage);
+
+	return {
+		data: rows.map(({ log, ...admin }) => ({
+			...log,
+			...admin,
+			details: parseDetails(log.details)
+		})),
+		total: Number(count)
+	};
+}
@@ -0,0 +1,34 @@
+import { error, type RequestEvent } from '@sveltejs/kit';
+import { hasPermission, isStaffRole, type Permission } from '$lib/utils/permissions';
+
+export type { Permission } from '$lib/utils/permissions';
+
+/** The logged-in user, or 401 */
+export function requireUser(event: RequestEvent) {
+	const user = event.locals?.user;
+	if (!user) {
+		throw error(401, 'Unauthorized');
+	}
+	return user;
+}
+
+/** Any staff member (see STAFF_ROLES); 403 for customers */
+export function requireStaff(event: RequestEvent) {
+	const user = requireUser(event);
+	if (!isStaffRole(user.role)) {
+		throw error(403, 'Forbidden');
+	}
+	return user;
+}
+
+/**
+ * A staff member whose role grants at least one of the permissions. Throws 401 when nobody
+ * is logged in and 403 when the role lacks them.
+ */
+export function requirePermission(event: RequestEvent, ...permissions: Permission[]) {
+	const user = requireUser(event);
+	if (!hasPermission(user.role, ...permissions)) {
+		throw error(403, 'Forbidden');
+	}
+	return user;
+}
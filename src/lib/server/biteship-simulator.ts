@@ -0,0 +1,379 @@
+import fs from 'fs';
+import path from 'path';
+import defaultAreas from './fixtures/biteship/areas.json' with { type: 'json' };
+import defaultCouriers from './fixtures/biteship/couriers.json' with { type: 'json' };
+
+/**
+ * Offline stand-in for the Biteship API, used when BITESHIP_MODE=simulator. It answers the
+ * same endpoints biteship-utils calls (areas, rates, orders, trackings, coverage) with
+ * deterministic data seeded from fixture files, so checkout works without network access.
+ *
+ * Fixtures default to src/lib/server/fixtures/biteship; BITESHIP_SIMULATOR_FIXTURES can point
+ * to another directory with an areas.json and/or couriers.json.
+ */
+
+interface AreaFixture {
+	postal_code: string;
+	province: string;
+	city: string;
+	district: string;
+	village: string;
+}
+
+interface CourierFixture {
+	courier_name: string;
+	courier_code: string;
+	courier_service_name: string;
+	courier_service_code: string;
+	description: string;
+	base_price: number;
+	price_per_kg: number;
+	min_day: number;
+	max_day: number;
+	/** Farthest zone served (0 same city, 1 same region, 2 anywhere) */
+	max_zone?: number;
+	min_weight?: number;
+	/** Collects cash from the recipient */
+	cod?: boolean;
+}
+
+interface SimulatedOrder {
+	id: string;
+	reference_id: string | null;
+	status: string;
+	price: number;
+	created_at: string;
+	updated_at: string;
+	origin: Record<string, unknown>;
+	destination: Record<string, unknown>;
+	courier: {
+		company: string;
+		type: string;
+		tracking_id: string;
+		waybill_id: string;
+		link: string;
+		history: { status: string; note: string; service_type: string; updated_at: string }[];
+	};
+	items: unknown[];
+}
+
+// Order in which a simulated shipment moves towards delivery
+export const SIMULATED_STATUSES = [
+	'confirmed',
+	'allocated',
+	'picking_up',
+	'picked',
+	'dropping_off',
+	'delivered'
+] as const;
+
+export type SimulatedStatus = (typeof SIMULATED_STATUSES)[number];
+
+const STATUS_NOTES: Record<SimulatedStatus, string> = {
+	confirmed: 'Order has been confirmed',
+	allocated: 'Courier has been allocated',
+	picking_up: 'Courier is on the way to pick up the package',
+	picked: 'Package has been picked up',
+	dropping_off: 'Package is on the way to the recipient',
+	delivered: 'Package has been delivered'
+};
+
+const SIMULATOR_HOST = 'https://biteship-simulator.local';
+
+const orders = new Map<string, SimulatedOrder>();
+let orderSequence = 0;
+
+export function isSimulatorMode(): boolean {
+	return (process.env.BITESHIP_MODE || '').toLowerCase() === 'simulator';
+}
+
+function loadFixture<T>(file: string, fallback: T): T {
+	const dir = process.env.BITESHIP_SIMULATOR_FIXTURES;
+	if (!dir) return fallback;
+
+	const fixturePath = path.resolve(dir, file);
+	if (!fs.existsSync(fixturePath)) return fallback;
+	return JSON.parse(fs.readFileSync(fixturePath, 'utf8')) as T;
+}
+
+function getAreas(): AreaFixture[] {
+	return loadFixture('areas.json', defaultAreas as AreaFixture[]);
+}
+
+function getCouriers(): CourierFixture[] {
+	return loadFixture('couriers.json', defaultCouriers as CourierFixture[]);
+}
+
+function toBiteshipArea(area: AreaFixture) {
+	return {
+		id: `SIM-${area.postal_code}`,
+		name: `${area.village}, ${area.district}, ${area.city}, ${area.province}. ${area.postal_code}`,
+		country_code: 'ID',
+		country_name: 'Indonesia',
+		postal_code: area.postal_code,
+		administrative_division_level_1_name: area.province,
+		administrative_division_level_1_type: 'province',
+		administrative_division_level_2_name: area.city,
+		administrative_division_level_2_type: 'city',
+		administrative_division_level_3_name: area.district,
+		administrative_division_level_3_type: 'district',
+		administrative_division_level_4_name: area.village,
+		administrative_division_level_4_type: 'village'
+	};
+}
+
+function searchAreas(input: string, limit: number) {
+	const keyword = input.trim().toLowerCase();
+	const matches = getAreas().filter((area) =>
+		/^\d+$/.test(keyword)
+			? area.postal_code.startsWith(keyword)
+			: [area.village, area.district, area.city, area.province].some((name) =>
+					name.toLowerCase().includes(keyword)
+				)
+	);
+	return { success: true, areas: matches.slice(0, limit).map(toBiteshipArea) };
+}
+
+/**
+ * 0 = same city (first 3 postal digits), 1 = same region (first digit), 2 = elsewhere
+ */
+function zoneBetween(origin: string, destination: string): number {
+	if (origin.substring(0, 3) === destination.substring(0, 3)) return 0;
+	if (origin[0] === destination[0]) return 1;
+	return 2;
+}
+
+function quoteRates(body: any) {
+	const origin = String(body.origin_postal_code || '');
+	const destination = String(body.destination_postal_code || '');
+	const postalCodes = getAreas().map((area) => area.postal_code);
+	if (!postalCodes.includes(origin) || !postalCodes.includes(destination)) {
+		return { success: false, error: 'Area not found', code: 40001001 };
+	}
+
+	const items: any[] = Array.isArray(body.items) ? body.items : [];
+	const weight = items.reduce(
+		(sum, item) => sum + Number(item.weight || 0) * Number(item.quantity || 1),
+		0
+	);
+	const value = items.reduce(
+		(sum, item) => sum + Number(item.value || 0) * Number(item.quantity || 1),
+		0
+	);
+	const kilograms = Math.max(Math.ceil(weight / 1000), 1);
+	const zone = zoneBetween(origin, destination);
+	const requested = body.couriers
+		? String(body.couriers)
+				.split(',')
+				.map((code) => code.trim().toLowerCase())
+		: null;
+
+	const pricing = getCouriers()
+		.filter((courier) => !requested || requested.includes(courier.courier_code))
+		.filter((courier) => zone <= (courier.max_zone ?? 2))
+		.filter((courier) => weight >= (courier.min_weight ?? 0))
+		.map((courier) => {
+			const price = courier.base_price * (1 + zone * 0.5) + courier.price_per_kg * (kilograms - 1);
+			return {
+				company: courier.courier_code,
+				courier_name: courier.courier_name,
+				courier_code: courier.courier_code,
+				courier_service_name: courier.courier_service_name,
+				courier_service_code: courier.courier_service_code,
+				type: courier.courier_service_code,
+				description: courier.description,
+				duration: `${courier.min_day + zone} - ${courier.max_day + zone} days`,
+				shipment_duration_range: `${courier.min_day + zone} - ${courier.max_day + zone}`,
+				shipment_duration_unit: 'days',
+				// Rounded up to Rp 500 like courier tariffs
+				price: Math.ceil(price / 500) * 500,
+				insurance_fee: Math.ceil(value * 0.002),
+				available_for_cash_on_delivery: !!courier.cod
+			};
+		});
+
+	return {
+		success: true,
+		origin: { postal_code: origin },
+		destination: { postal_code: destination },
+		pricing
+	};
+}
+
+function historyEntry(status: SimulatedStatus, serviceType: string) {
+	return {
+		status,
+		note: STATUS_NOTES[status],
+		service_type: serviceType,
+		updated_at: new Date().toISOString()
+	};
+}
+
+function createOrder(body: any) {
+	const courierCode = String(body.courier_company || '').toLowerCase();
+	const serviceCode = String(body.courier_type || '');
+	const courier = getCouriers().find(
+		(entry) =>
+			(entry.courier_code === courierCode || entry.courier_name.toLowerCase() === courierCode) &&
+			entry.courier_service_code === serviceCode
+	);
+	if (!courier) {
+		return { success: false, error: `Courier ${courierCode} ${serviceCode} is not available` };
+	}
+	if (body.destination_cash_on_delivery && !courier.cod) {
+		return { success: false, error: `Courier ${courierCode} ${serviceCode} does not support COD` };
+	}
+
+	const quote = quoteRates({
+		origin_postal_code: body.origin_postal_code,
+		destination_postal_code: body.destination_postal_code,
+		couriers: courier.courier_code,
+		items: body.items
+	});
+	const rate = quote.success
+		? quote.pricing!.find((entry) => entry.courier_service_code === serviceCode)
+		: null;
+	if (!rate) {
+		return { success: false, error: quote.error || 'Courier does not serve this route' };
+	}
+
+	orderSequence++;
+	const sequence = String(orderSequence).padStart(6, '0');
+	const id = `sim-order-${sequence}`;
+	const now = new Date().toISOString();
+	const order: SimulatedOrder = {
+		id,
+		reference_id: body.reference_id || null,
+		status: 'confirmed',
+		price: rate.price,
+		created_at: now,
+		updated_at: now,
+		origin: {
+			contact_name: body.origin_contact_name,
+			contact_phone: body.origin_contact_phone,
+			address: body.origin_address,
+			postal_code: body.origin_postal_code
+		},
+		destination: {
+			contact_name: body.destination_contact_name,
+			contact_phone: body.destination_contact_phone,
+			address: body.destination_address,
+			postal_code: body.destination_postal_code
+		},
+		courier: {
+			company: courier.courier_code,
+			type: serviceCode,
+			tracking_id: `sim-tracking-${sequence}`,
+			waybill_id: `SIM${sequence}`,
+			link: `${SIMULATOR_HOST}/track/SIM${sequence}`,
+			history: [historyEntry('confirmed', serviceCode)]
+		},
+		items: body.items || []
+	};
+	orders.set(id, order);
+
+	return serializeOrder(order);
+}
+
+function serializeOrder(order: SimulatedOrder) {
+	return {
+		success: true,
+		message: 'Order successfully retrieved',
+		object: 'order',
+		...order,
+		label_url: `${SIMULATOR_HOST}/labels/${order.id}.pdf`
+	};
+}
+
+function findOrder(predicate: (order: SimulatedOrder) => boolean) {
+	return [...orders.values()].find(predicate) || null;
+}
+
+/**
+ * Move a simulated shipment forward to `status`, recording every step in between.
+ * Used by tests and dev tooling to play out delivery without a courier.
+ */
+export function advanceSimulatedShipment(biteshipOrderId: string, status: SimulatedStatus) {
+	const order = orders.get(biteshipOrderId);
+	if (!order) return null;
+
+	const current = SIMULATED_STATUSES.indexOf(order.status as SimulatedStatus);
+	const target = SIMULATED_STATUSES.indexOf(status);
+	for (let i = current + 1; i <= target; i++) {
+		order.courier.history.push(historyEntry(SIMULATED_STATUSES[i], order.courier.type));
+	}
+	if (target > current) {
+		order.status = status;
+		order.updated_at = new Date().toISOString();
+	}
+	return serializeOrder(order);
+}
+
+/**
+ * Forget all simulated orders (between test runs).
+ */
+export function resetSimulator() {
+	orders.clear();
+	orderSequence = 0;
+}
+
+/**
+ * Answer a Biteship API request. Takes the same arguments as the fetch in
+ * makeBiteshipRequest and returns the parsed JSON body Biteship would send.
+ */
+export async function simulateBiteshipRequest(url: string, options: RequestInit = {}) {
+	const { pathname, searchParams } = new URL(url);
+	// Strip the version prefix of BITESHIP_BASE_URL, e.g. /v1/orders -> /orders
+	const route = pathname.replace(/^\/v\d+/, '');
+	const method = (options.method || 'GET').toUpperCase();
+	const body = typeof options.body === 'string' ? JSON.parse(options.body) : {};
+
+	if (method === 'GET' && route === '/maps/areas') {
+		return searchAreas(searchParams.get('input') || '', Number(searchParams.get('limit')) || 10);
+	}
+
+	if (method === 'POST' && (route === '/rates/couriers' || route === '/rates')) {
+		return quoteRates(body);
+	}
+
+	if (method === 'POST' && route === '/couriers/check-coverage') {
+		const couriers = getCouriers().map((courier) => ({
+			company: courier.courier_code,
+			type: courier.courier_service_code,
+			name: `${courier.courier_name} ${courier.courier_service_name}`,
+			logo: '',
+			available_for_cash_on_delivery: !!courier.cod,
+			available_for_proof_of_delivery: false,
+			available_for_instant_waybill_id: true,
+			available_for_insurance: true
+		}));
+		return { success: true, couriers };
+	}
+
+	if (method === 'POST' && route === '/orders') {
+		return createOrder(body);
+	}
+
+	const orderMatch = route.match(/^\/orders\/([^/]+)$/);
+	if (method === 'GET' && orderMatch) {
+		const order = orders.get(decodeURIComponent(orderMatch[1]));
+		return order ? serializeOrder(order) : { success: false, error: 'Order not found' };
+	}
+
+	const trackingMatch = route.match(/^\/trackings\/([^/]+)$/);
+	if (method === 'GET' && trackingMatch) {
+		const trackingId = decodeURIComponent(trackingMatch[1]);
+		const order = findOrder((entry) => entry.courier.tracking_id === trackingId);
+		if (!order) return { success: false, error: 'Tracking not found' };
+		return {
+			success: true,
+			id: trackingId,
+			waybill_id: order.courier.waybill_id,
+			status: order.status,
+			courier: { company: order.courier.company, link: order.courier.link },
+			history: order.courier.history
+		};
+	}
+
+	return { success: false, error: `Simulator does not support ${method} ${route}` };
+}
@@ -1,7 +1,15 @@
 import 'dotenv/config';
+// Relative imports: this module is also loaded by the Playwright tests, outside Vite
+import { packItems, type PackingResult } from './parcel-packing';
+import { cached, cacheKey, fingerprint } from './shipping-cache';
+import { isSimulatorMode, simulateBiteshipRequest } from './biteship-simulator';
 
 const BITESHIP_API_KEY = process.env.BITESHIP_API_KEY!;
-const BITESHIP_BASE_URL = 'https://api.biteship.com/v1';
+
+// Read per request so tests can point the module at a local server after it was loaded
+function biteshipBaseUrl() {
+  return process.env.BITESHIP_BASE_URL || 'https://api.biteship.com/v1';
+}
 
 export interface BiteshipArea {
   id: string;
@@ -39,17 +47,37 @@ export interface ShippingRate {
   duration: string;
   description: string;
   insurance_fee?: number;
+  // Courier can collect payment from the recipient
+  cash_on_delivery?: boolean;
 }
 
-// Cache systems
-const AREA_CACHE = new Map<string, { data: any; timestamp: number }>();
-const SHIPPING_CACHE = new Map<string, { data: any; timestamp: number }>();
-const AREA_REQUESTS = new Map<string, Promise<any>>();
-const SHIPPING_REQUESTS = new Map<string, Promise<any>>();
+export interface TrackingEvent {
+  status: string;
+  note: string;
+  service_type: string | null;
+  updated_at: string;
+}
 
-// Cache durations
-const AREA_CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours
-const SHIPPING_CACHE_DURATION = 5 * 60 * 1000;   // 5 minutes for real data
+export interface BiteshipTracking {
+  id: string;
+  status: string;
+  waybill_id: string | null;
+  courier: {
+    company: string;
+    type: string;
+    tracking_id: string | null;
+    waybill_id: string | null;
+    link: string | null;
+  };
+  created_at: string | null;
+  updated_at: string | null;
+  pickup_time: string | null;
+  delivered_time: string | null;
+  history: TrackingEvent[];
+}
+
+// Tracking is never cached (it changes by the minute), only deduplicated while in flight
+const TRACKING_REQUESTS = new Map<string, Promise<BiteshipTracking | null>>();
 
 /**
  * Extract postal code from area name or use fallback
@@ -73,6 +101,12 @@ function extractPostalCode(area: any): string {
  * Create Biteship request with proper error handling
  */
 async function makeBiteshipRequest(url: string, options: RequestInit = {}) {
+  // BITESHIP_MODE=simulator answers from local fixtures instead of the live API
+  if (isSimulatorMode()) {
+    console.log('🧪 Simulated Biteship request:', url);
+    return simulateBiteshipRequest(url, options);
+  }
+
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), 30000);
 
@@ -115,73 +149,52 @@ async function makeBiteshipRequest(url: string, options: RequestInit = {}) {
 /**
  * Get area information by postal code
  */
-export async function getAreaByPostalCode(postalCode: string): Promise<BiteshipArea | null> {
-  const cacheKey = `postal_${postalCode}`;
-  
-  const cached = AREA_CACHE.get(cacheKey);
-  if (cached && (Date.now() - cached.timestamp) < AREA_CACHE_DURATION) {
-    console.log('Using cached postal code lookup');
-    return cached.data;
-  }
-
-  if (AREA_REQUESTS.has(cacheKey)) {
-    console.log('Waiting for existing postal code request');
-    return await AREA_REQUESTS.get(cacheKey);
-  }
-
-  const requestPromise = (async () => {
-    try {
-      console.log('Getting area by postal code:', postalCode);
-      
-      const url = `${BITESHIP_BASE_URL}/maps/areas?countries=ID&input=${encodeURIComponent(postalCode)}`;
-      const data = await makeBiteshipRequest(url);
-
-      if (data.success && data.areas && data.areas.length > 0) {
-        let matchedArea = data.areas.find((area: any) => {
-          const areaPostalCode = extractPostalCode(area);
-          return areaPostalCode === postalCode;
-        });
-
-        if (!matchedArea) {
-          matchedArea = data.areas[0];
-        }
-        
-        const result = {
-          id: matchedArea.id || '',
-          name: matchedArea.name || '',
-          country_code: matchedArea.country_code || 'ID',
-          country_name: matchedArea.country_name || 'Indonesia',
-          postal_code: postalCode,
-          administrative_division_level_1_name: matchedArea.administrative_division_level_1_name || '',
-          administrative_division_level_2_name: matchedArea.administrative_division_level_2_name || '',
-          administrative_division_level_3_name: matchedArea.administrative_division_level_3_name || '',
-          administrative_division_level_4_name: matchedArea.administrative_division_level_4_name || '',
-          administrative_division_level_1_type: matchedArea.administrative_division_level_1_type || 'province',
-          administrative_division_level_2_type: matchedArea.administrative_division_level_2_type || 'city',
-          administrative_division_level_3_type: matchedArea.administrative_division_level_3_type || 'district',
-          administrative_division_level_4_type: matchedArea.administrative_division_level_4_type || 'village'
-        } as BiteshipArea;
+export async function getAreaByPostalCode(
+  postalCode: string,
+  options: { fresh?: boolean } = {}
+): Promise<BiteshipArea | null> {
+  return cached('area', cacheKey('area', postalCode), async () => {
+    console.log('Getting area by postal code:', postalCode);
+    
+    const url = `${biteshipBaseUrl()}/maps/areas?countries=ID&input=${encodeURIComponent(postalCode)}`;
+    const data = await makeBiteshipRequest(url);
 
-        AREA_CACHE.set(cacheKey, {
-          data: result,
-          timestamp: Date.now()
-        });
+    if (data.success && data.areas && data.areas.length > 0) {
+      let matchedArea = data.areas.find((area: any) => {
+        const areaPostalCode = extractPostalCode(area);
+        return areaPostalCode === postalCode;
+      });
 
-        return result;
+      if (!matchedArea) {
+        matchedArea = data.areas[0];
       }
-
-      return null;
-    } finally {
-      AREA_REQUESTS.delete(cacheKey);
+      
+      const result = {
+        id: matchedArea.id || '',
+        name: matchedArea.name || '',
+        country_code: matchedArea.country_code || 'ID',
+        country_name: matchedArea.country_name || 'Indonesia',
+        postal_code: postalCode,
+        administrative_division_level_1_name: matchedArea.administrative_division_level_1_name || '',
+        administrative_division_level_2_name: matchedArea.administrative_division_level_2_name || '',
+        administrative_division_level_3_name: matchedArea.administrative_division_level_3_name || '',
+        administrative_division_level_4_name: matchedArea.administrative_division_level_4_name || '',
+        administrative_division_level_1_type: matchedArea.administrative_division_level_1_type || 'province',
+        administrative_division_level_2_type: matchedArea.administrative_division_level_2_type || 'city',
+        administrative_division_level_3_type: matchedArea.administrative_division_level_3_type || 'district',
+        administrative_division_level_4_type: matchedArea.administrative_division_level_4_type || 'village'
+      } as BiteshipArea;
+
+      return result;
     }
-  })();
 
-  AREA_REQUESTS.set(cacheKey, requestPromise);
-  return await requestPromise;
+    return null;
+  }, options);
 }
 
 /**
- * Calculate package dimensions from items
+ * Pack items into parcels (see parcel-packing.ts). Without a courier the default
+ * volumetric divisor is used, which is what rate quotes across couriers go by.
  */
 export function calculatePackageDimensions(items: Array<{
   weight: number;
@@ -190,42 +203,30 @@ export function calculatePackageDimensions(items: Array<{
   width: number;
   quantity: number;
   value?: number;
-}>) {
-  console.log('📦 Calculating package dimensions for items:', items);
-  
-  let totalWeight = 0;
-  let totalValue = 0;
-  let maxHeight = 0;
-  let maxLength = 0;
-  let maxWidth = 0;
-  
-  items.forEach((item, index) => {
-    const itemWeight = Math.max(item.weight || 100, 100) * item.quantity;
-    const itemValue = Math.max(item.value || 10000, 10000) * item.quantity;
-    const itemHeight = Math.max(item.height || 1, 1);
-    const itemLength = Math.max(item.length || 1, 1);
-    const itemWidth = Math.max(item.width || 1, 1);
-    
-    console.log(`📦 Item ${index + 1}: ${itemWeight}g, ${itemHeight}x${itemLength}x${itemWidth}cm, Rp${itemValue}`);
-    
-    totalWeight += itemWeight;
-    totalValue += itemValue;
-    
-    maxHeight = Math.max(maxHeight, itemHeight);
-    maxLength = Math.max(maxLength, itemLength);
-    maxWidth = Math.max(maxWidth, itemWidth);
-  });
-  
-  const finalDimensions = {
-    weight: Math.max(totalWeight, 100),
-    height: Math.max(maxHeight, 1),
-    length: Math.max(maxLength, 1),
-    width: Math.max(maxWidth, 1),
-    value: Math.max(totalValue, 10000)
-  };
-  
-  console.log('📦 Final package dimensions:', finalDimensions);
-  return finalDimensions;
+}>, courier?: string): PackingResult {
+  const packing = packItems(items, { courier });
+
+  console.log(
+    `📦 Packed ${items.length} items into ${packing.parcels.length} parcel(s):`,
+    packing.parcels.map(parcel => `${parcel.box || 'own box'} ${parcel.length}x${parcel.width}x${parcel.height}cm ${parcel.chargeableWeight}g`)
+  );
+  return packing;
+}
+
+/**
+ * Biteship item entries for packed parcels; each parcel is billed at its chargeable weight
+ */
+function toBiteshipItems(packing: PackingResult, description?: string) {
+  return packing.parcels.map((parcel, index) => ({
+    name: packing.parcels.length > 1 ? `Package ${index + 1}` : 'Package',
+    ...(description && { description }),
+    value: parcel.value,
+    weight: parcel.chargeableWeight,
+    height: parcel.height,
+    length: parcel.length,
+    width: parcel.width,
+    quantity: 1
+  }));
 }
 
 /**
@@ -241,25 +242,15 @@ export async function calculateShippingRates(
     width: number;
     quantity: number;
     value: number;
-  }>
+  }>,
+  options: { fresh?: boolean } = {}
 ): Promise<ShippingRate[]> {
   const packageData = calculatePackageDimensions(items);
-  
-  const timestamp = Math.floor(Date.now() / (5 * 60 * 1000)); // Update every 5 minutes
-  const cacheKey = `rates_${originPostalCode}_${destinationPostalCode}_${JSON.stringify(packageData)}_${timestamp}`;
-  
-  const cached = SHIPPING_CACHE.get(cacheKey);
-  if (cached && (Date.now() - cached.timestamp) < SHIPPING_CACHE_DURATION) {
-    console.log('✅ Using cached shipping rates');
-    return cached.data;
-  }
 
-  if (SHIPPING_REQUESTS.has(cacheKey)) {
-    console.log('⏳ Waiting for existing shipping rates calculation');
-    return await SHIPPING_REQUESTS.get(cacheKey);
-  }
+  // Identical packages on the same route share a quote
+  const key = cacheKey('rates', originPostalCode, destinationPostalCode, fingerprint(packageData.parcels));
 
-  const requestPromise = (async () => {
+  return cached('rates', key, async () => {
     try {
       console.log('🚚 REAL BITESHIP API: Starting shipping calculation...');
       console.log('📦 Package data:', packageData);
@@ -269,8 +260,8 @@ export async function calculateShippingRates(
       console.log('🔄 Strategy 1: Get area IDs first...');
       
       const [originArea, destinationArea] = await Promise.all([
-        getAreaByPostalCode(originPostalCode),
-        getAreaByPostalCode(destinationPostalCode)
+        getAreaByPostalCode(originPostalCode, options),
+        getAreaByPostalCode(destinationPostalCode, options)
       ]);
 
       if (!originArea || !destinationArea) {
@@ -293,29 +284,13 @@ export async function calculateShippingRates(
           origin_postal_code: originPostalCode,
           destination_postal_code: destinationPostalCode,
           couriers: "jne,jnt,sicepat,pos,ninja,rpx",
-          items: [{
-            name: "Package",
-            value: packageData.value,
-            weight: packageData.weight,
-            height: packageData.height,
-            length: packageData.length,
-            width: packageData.width,
-            quantity: 1
-          }]
+          items: toBiteshipItems(packageData)
         },
         // Format 3: Simple fallback format
         {
           origin_postal_code: originPostalCode,
           destination_postal_code: destinationPostalCode,
-          items: [{
-            name: "Package",
-            value: packageData.value,
-            weight: packageData.weight,
-            height: packageData.height,
-            length: packageData.length,
-            width: packageData.width,
-            quantity: 1
-          }]
+          items: toBiteshipItems(packageData)
         }
       ];
 
@@ -337,7 +312,7 @@ export async function calculateShippingRates(
         console.log(`🚀 Trying ${formatName} (Format ${i + 1})...`);
         
         try {
-          const data = await makeBiteshipRequest(`${BITESHIP_BASE_URL}/rates/couriers`, {
+          const data = await makeBiteshipRequest(`${biteshipBaseUrl()}/rates/couriers`, {
             method: 'POST',
             body: JSON.stringify(requestBody)
           });
@@ -376,20 +351,13 @@ export async function calculateShippingRates(
             origin_postal_code: originPostalCode,
             destination_postal_code: destinationPostalCode,
             type: "delivery",
-            items: [{
-              name: "Package",
-              description: "Order package",
-              category: "general", 
-              value: packageData.value,
-              weight: packageData.weight,
-              height: packageData.height,
-              length: packageData.length,
-              width: packageData.width,
-              quantity: 1
-            }]
+            items: toBiteshipItems(packageData, "Order package").map(item => ({
+              ...item,
+              category: "general"
+            }))
           };
 
-          const data = await makeBiteshipRequest(`${BITESHIP_BASE_URL}/rates`, {
+          const data = await makeBiteshipRequest(`${biteshipBaseUrl()}/rates`, {
             method: 'POST',
             body: JSON.stringify(fallbackBody)
           });
@@ -418,25 +386,13 @@ export async function calculateShippingRates(
         console.log(`${index + 1}. ${rate.courier_name} ${rate.courier_service_name}: Rp ${rate.price.toLocaleString()} (${rate.duration})`);
       });
 
-      // Cache the real results
-      SHIPPING_CACHE.set(cacheKey, {
-        data: validRates,
-        timestamp: Date.now()
-      });
-
       return validRates;
 
     } catch (error) {
       console.error('❌ Real Biteship API failed:', error);
       throw error;
-    } finally {
-      SHIPPING_REQUESTS.delete(cacheKey);
-      console.log('🧹 Cleaning up requests and timers...');
     }
-  })();
-
-  SHIPPING_REQUESTS.set(cacheKey, requestPromise);
-  return await requestPromise;
+  }, options);
 }
 
 /**
@@ -584,7 +540,8 @@ async function processRealBiteshipResponse(data: any): Promise<ShippingRate[]> {
       price: Math.round(Number(price)),
       duration: String(duration),
       description: item.description || `${courierName} ${serviceName}`,
-      insurance_fee: item.insurance_fee || item.insurance_cost || item.insurance || 0
+      insurance_fee: item.insurance_fee || item.insurance_cost || item.insurance || 0,
+      cash_on_delivery: item.available_for_cash_on_delivery === true
     };
 
     validRates.push(shippingRate);
@@ -596,12 +553,254 @@ async function processRealBiteshipResponse(data: any): Promise<ShippingRate[]> {
   return validRates;
 }
 
+/**
+ * Convert a DB/string value to a number with fallback
+ */
+function toNumber(value: any, defaultValue: number = 0): number {
+  const num = typeof value === 'number' ? value : parseFloat(value);
+  return isNaN(num) ? defaultValue : num;
+}
+
+/**
+ * Create a Biteship shipping order for a stored order, shipping from the origin saved on it
+ */
+export async function createBiteshipOrder(orderData: any) {
+  console.log('🚚 Creating Biteship order for', orderData.orderNumber);
+
+  if (!orderData.recipientName || !orderData.phone || !orderData.address) {
+    throw new Error('Missing required recipient information');
+  }
+
+  const packageData = calculatePackageDimensions(
+    orderData.items.map((item: any) => ({
+      weight: toNumber(item.weight, 100),
+      height: toNumber(item.height, 5),
+      length: toNumber(item.length, 10),
+      width: toNumber(item.width, 10),
+      quantity: toNumber(item.quantity, 1),
+      value: toNumber(item.price)
+    })),
+    orderData.courierName
+  );
+
+  const courierInsurance = toNumber(orderData.courierInsurance);
+  const storeName = process.env.STORE_NAME || 'Toko Online Anda';
+
+  const requestBody = {
+    origin_contact_name: String(orderData.shipperName).substring(0, 100),
+    origin_contact_phone: String(orderData.shipperPhone).substring(0, 20),
+    origin_address: String(orderData.originAddress).substring(0, 500),
+    origin_note: String(orderData.originNote || '').substring(0, 200),
+    origin_postal_code: orderData.originPostal,
+
+    destination_contact_name: String(orderData.recipientName).substring(0, 100),
+    destination_contact_phone: String(orderData.phone).substring(0, 20),
+    destination_contact_email: String(orderData.email || '').substring(0, 100),
+    destination_address: String(orderData.address).substring(0, 500),
+    destination_postal_code: orderData.postalCode,
+    destination_note: String(orderData.orderNote || '').substring(0, 200),
+
+    courier_company: String(orderData.courierName).toLowerCase(),
+    courier_type: orderData.courierService,
+    delivery_type: orderData.deliveryType || 'now',
+
+    items: toBiteshipItems(packageData, `Order ${orderData.orderNumber} from ${storeName}`).map(item => ({
+      ...item,
+      category: 'fashion'
+    })),
+
+    // Orders shipped from several warehouses get one reference per package
+    reference_id: orderData.referenceId || orderData.orderNumber,
+
+    ...(courierInsurance > 0 && {
+      courier_insurance: Math.round(courierInsurance)
+    }),
+
+    // Cash on delivery: the courier collects the order total from the recipient
+    ...(orderData.paymentMethod === 'cod' && {
+      destination_cash_on_delivery: Math.round(toNumber(orderData.total)),
+      destination_cash_on_delivery_type: '7_days'
+    })
+  };
+
+  const data = await makeBiteshipRequest(`${biteshipBaseUrl()}/orders`, {
+    method: 'POST',
+    body: JSON.stringify(requestBody)
+  });
+
+  if (!data.success) {
+    throw new Error('Biteship order creation failed: ' + JSON.stringify(data));
+  }
+
+  return data;
+}
+
+/**
+ * Normalize a raw Biteship history entry into a tracking event
+ */
+function normalizeTrackingEvent(entry: any): TrackingEvent | null {
+  if (!entry || typeof entry !== 'object') return null;
+
+  const updatedAt = entry.updated_at || entry.updatedAt || entry.date || entry.created_at;
+  if (!updatedAt) return null;
+
+  return {
+    status: String(entry.status || 'unknown').toLowerCase(),
+    note: String(entry.note || entry.description || entry.message || ''),
+    service_type: entry.service_type || null,
+    updated_at: new Date(updatedAt).toISOString()
+  };
+}
+
+/**
+ * Merge history arrays, dropping duplicates and sorting oldest first
+ */
+function mergeTrackingHistory(...histories: any[][]): TrackingEvent[] {
+  const seen = new Set<string>();
+  const events: TrackingEvent[] = [];
+
+  for (const history of histories) {
+    if (!Array.isArray(history)) continue;
+
+    for (const entry of history) {
+      const event = normalizeTrackingEvent(entry);
+      if (!event) continue;
+
+      const key = `${event.status}|${event.updated_at}|${event.note}`;
+      if (seen.has(key)) continue;
+
+      seen.add(key);
+      events.push(event);
+    }
+  }
+
+  return events.sort((a, b) => Date.parse(a.updated_at) - Date.parse(b.updated_at));
+}
+
+/**
+ * Find the first time a shipment reached one of the given statuses
+ */
+function findEventTime(history: TrackingEvent[], statuses: string[]): string | null {
+  const event = history.find((item) => statuses.includes(item.status));
+  return event ? event.updated_at : null;
+}
+
+/**
+ * Get a Biteship shipping order by its Biteship order ID
+ */
+async function getBiteshipOrder(biteshipOrderId: string): Promise<any | null> {
+  const data = await makeBiteshipRequest(
+    `${biteshipBaseUrl()}/orders/${encodeURIComponent(biteshipOrderId)}`
+  );
+
+  if (!data.success) {
+    console.log('⚠️ Biteship order lookup failed:', data.error || data.message);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Get courier waybill history by Biteship tracking ID
+ */
+export async function getTrackingHistory(trackingId: string): Promise<TrackingEvent[]> {
+  try {
+    const data = await makeBiteshipRequest(
+      `${biteshipBaseUrl()}/trackings/${encodeURIComponent(trackingId)}`
+    );
+
+    if (!data.success) {
+      console.log('⚠️ Biteship tracking not available:', data.error || data.message);
+      return [];
+    }
+
+    return mergeTrackingHistory(data.history);
+  } catch (err: any) {
+    console.error('Error fetching tracking history:', err);
+    return [];
+  }
+}
+
+/**
+ * Track a shipment by Biteship order ID, combining order status and courier waybill history
+ */
+export async function trackOrder(biteshipOrderId: string): Promise<BiteshipTracking | null> {
+  if (TRACKING_REQUESTS.has(biteshipOrderId)) {
+    console.log('⏳ Waiting for existing tracking request');
+    return await TRACKING_REQUESTS.get(biteshipOrderId)!;
+  }
+
+  const requestPromise = (async () => {
+    try {
+      console.log('🔎 Tracking Biteship order:', biteshipOrderId);
+
+      const order = await getBiteshipOrder(biteshipOrderId);
+      if (!order) return null;
+
+      const courier = order.courier || {};
+      const trackingId = courier.tracking_id || null;
+      const waybillId = courier.waybill_id || order.waybill_id || null;
+
+      // The order endpoint only carries a summary; the tracking endpoint has the full waybill history
+      const waybillHistory = trackingId ? await getTrackingHistory(trackingId) : [];
+      const history = mergeTrackingHistory(courier.history, waybillHistory);
+
+      const latest = history[history.length - 1];
+      const status = String(order.status || latest?.status || 'unknown').toLowerCase();
+
+      return {
+        id: order.id || biteshipOrderId,
+        status,
+        waybill_id: waybillId,
+        courier: {
+          company: courier.company || '',
+          type: courier.type || '',
+          tracking_id: trackingId,
+          waybill_id: waybillId,
+          link: courier.link || null
+        },
+        created_at: order.created_at || history[0]?.updated_at || null,
+        updated_at: order.updated_at || latest?.updated_at || null,
+        pickup_time: findEventTime(history, ['picked']),
+        delivered_time: findEventTime(history, ['delivered']),
+        history
+      } as BiteshipTracking;
+    } catch (err: any) {
+      console.error('Error tracking Biteship order:', err);
+      return null;
+    } finally {
+      TRACKING_REQUESTS.delete(biteshipOrderId);
+    }
+  })();
+
+  TRACKING_REQUESTS.set(biteshipOrderId, requestPromise);
+  return await requestPromise;
+}
+
+/**
+ * Get the printable shipping label URL for a Biteship order
+ */
+export async function getOrderLabel(biteshipOrderId: string): Promise<string | null> {
+  try {
+    const order = await getBiteshipOrder(biteshipOrderId);
+    if (!order) return null;
+
+    const labelUrl = order.label_url || order.courier?.label_url || order.label?.url || order.shipment_label;
+
+    return typeof labelUrl === 'string' && labelUrl.startsWith('http') ? labelUrl : null;
+  } catch (err: any) {
+    console.error('Error fetching shipping label:', err);
+    return null;
+  }
+}
+
 /**
  * Get available couriers between two areas
  */
 export async function getAvailableCouriers(originAreaId: string, destinationAreaId: string): Promise<CourierAvailability[]> {
   try {
-    const data = await makeBiteshipRequest(`${BITESHIP_BASE_URL}/couriers/check-coverage`, {
+    const data = await makeBiteshipRequest(`${biteshipBaseUrl()}/couriers/check-coverage`, {
       method: 'POST', 
       body: JSON.stringify({
         origin_area_id: originAreaId,
@@ -624,65 +823,42 @@ export async function getAvailableCouriers(originAreaId: string, destinationArea
  * Search areas by keyword (city name, postal code, etc.)
  */
 export async function searchAreas(keyword: string, limit: number = 10): Promise<BiteshipArea[]> {
-  const cacheKey = `search_${keyword}_${limit}`;
-  
-  const cached = AREA_CACHE.get(cacheKey);
-  if (cached && (Date.now() - cached.timestamp) < AREA_CACHE_DURATION) {
-    console.log('Using cached area search results');
-    return cached.data;
-  }
-
-  if (AREA_REQUESTS.has(cacheKey)) {
-    console.log('Waiting for existing area search request');
-    return await AREA_REQUESTS.get(cacheKey);
-  }
+  const key = cacheKey('area_search', keyword.trim().toLowerCase(), limit);
 
-  const requestPromise = (async () => {
-    try {
-      console.log('Searching areas with keyword:', keyword);
-      
-      const url = `${BITESHIP_BASE_URL}/maps/areas?countries=ID&input=${encodeURIComponent(keyword)}&limit=${limit}`;
-      const data = await makeBiteshipRequest(url);
+  return cached('area_search', key, async () => {
+    console.log('Searching areas with keyword:', keyword);
+    
+    const url = `${biteshipBaseUrl()}/maps/areas?countries=ID&input=${encodeURIComponent(keyword)}&limit=${limit}`;
+    const data = await makeBiteshipRequest(url);
 
-      if (data.success && data.areas && Array.isArray(data.areas)) {
-        const processedAreas = data.areas.map((area: any) => {
-          const postalCode = extractPostalCode(area);
-          
-          return {
-            id: area.id || '',
-            name: area.name || '',
-            country_code: area.country_code || 'ID',
-            country_name: area.country_name || 'Indonesia',
-            postal_code: postalCode,
-            administrative_division_level_1_name: area.administrative_division_level_1_name || '',
-            administrative_division_level_2_name: area.administrative_division_level_2_name || '',
-            administrative_division_level_3_name: area.administrative_division_level_3_name || '',
-            administrative_division_level_4_name: area.administrative_division_level_4_name || '',
-            administrative_division_level_1_type: area.administrative_division_level_1_type || 'province',
-            administrative_division_level_2_type: area.administrative_division_level_2_type || 'city',
-            administrative_division_level_3_type: area.administrative_division_level_3_type || 'district',
-            administrative_division_level_4_type: area.administrative_division_level_4_type || 'village'
-          } as BiteshipArea;
-        });
-
-        AREA_CACHE.set(cacheKey, {
-          data: processedAreas,
-          timestamp: Date.now()
-        });
-
-        console.log(`Found ${processedAreas.length} areas`);
-        return processedAreas;
-      }
+    if (data.success && data.areas && Array.isArray(data.areas)) {
+      const processedAreas = data.areas.map((area: any) => {
+        const postalCode = extractPostalCode(area);
+        
+        return {
+          id: area.id || '',
+          name: area.name || '',
+          country_code: area.country_code || 'ID',
+          country_name: area.country_name || 'Indonesia',
+          postal_code: postalCode,
+          administrative_division_level_1_name: area.administrative_division_level_1_name || '',
+          administrative_division_level_2_name: area.administrative_division_level_2_name || '',
+          administrative_division_level_3_name: area.administrative_division_level_3_name || '',
+          administrative_division_level_4_name: area.administrative_division_level_4_name || '',
+          administrative_division_level_1_type: area.administrative_division_level_1_type || 'province',
+          administrative_division_level_2_type: area.administrative_division_level_2_type || 'city',
+          administrative_division_level_3_type: area.administrative_division_level_3_type || 'district',
+          administrative_division_level_4_type: area.administrative_division_level_4_type || 'village'
+        } as BiteshipArea;
+      });
 
-      console.log('No areas found or invalid response structure');
-      return [];
-    } finally {
-      AREA_REQUESTS.delete(cacheKey);
+      console.log(`Found ${processedAreas.length} areas`);
+      return processedAreas;
     }
-  })();
 
-  AREA_REQUESTS.set(cacheKey, requestPromise);
-  return await requestPromise;
+    console.log('No areas found or invalid response structure');
+    return [];
+  });
 }
 
 /**
@@ -718,28 +894,3 @@ export function formatAreaName(area: BiteshipArea): string {
   
   return parts.join(', ');
 }
-
-// Cache cleanup - Enhanced with better logging
-setInterval(() => {
-  const now = Date.now();
-  let cleanedArea = 0;
-  let cleanedShipping = 0;
-  
-  for (const [key, value] of AREA_CACHE.entries()) {
-    if (now - value.timestamp > AREA_CACHE_DURATION) {
-      AREA_CACHE.delete(key);
-      cleanedArea++;
-    }
-  }
-  
-  for (const [key, value] of SHIPPING_CACHE.entries()) {
-    if (now - value.timestamp > SHIPPING_CACHE_DURATION) {
-      SHIPPING_CACHE.delete(key);
-      cleanedShipping++;
-    }
-  }
-  
-  if (cleanedArea > 0 || cleanedShipping > 0) {
-    console.log(`🧹 Biteship cache cleanup: Areas(${cleanedArea}), Shipping Rates(${cleanedShipping})`);
-  }
-}, 2 * 60 * 1000); // Every 2 minutes
\ No newline at end of file
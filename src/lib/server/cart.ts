@@ -0,0 +1,289 @@
+import { db } from '$lib/server/db';
+import { carts, cartItems } from '$lib/server/db/schema';
+import { eq } from 'drizzle-orm';
+import type { RequestEvent } from '@sveltejs/kit';
+import crypto from 'crypto';
+import 'dotenv/config';
+
+const JWT_SECRET = process.env.JWT_SECRET!;
+
+export interface CartItem {
+	productId: number;
+	/** Set for products sold in variants; each variant is its own cart line */
+	variantId?: number | null;
+	quantity: number;
+	addedAt: number;
+}
+
+export interface SecureCartSession {
+	items: CartItem[];
+	signature: string;
+	sessionId: string;
+	createdAt: number;
+	updatedAt: number;
+}
+
+export const CART_COOKIE_NAME = 'cart_session';
+const COOKIE_MAX_AGE = 60 * 60 * 24; // 24 hours
+const SESSION_EXPIRY_MS = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
+
+export const MAX_QUANTITY_PER_PRODUCT = 10;
+export const MAX_CART_ITEMS = 50;
+
+/**
+ * Whether two entries are the same cart line (same product and same variant).
+ */
+export function isSameCartLine(
+	a: Pick<CartItem, 'productId' | 'variantId'>,
+	b: Pick<CartItem, 'productId' | 'variantId'>
+): boolean {
+	return a.productId === b.productId && (a.variantId ?? null) === (b.variantId ?? null);
+}
+
+// --- Guest carts: signed cookie ---
+
+function generateSessionId(): string {
+	return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * Creates the data string to be signed. This schema must be consistent for signing and verification.
+ */
+function createDataToSign(items: CartItem[], timestamp: number): string {
+	return JSON.stringify({ items, timestamp });
+}
+
+/**
+ * Creates a secure HMAC signature for the cart data.
+ */
+function createSignature(items: CartItem[], timestamp: number, sessionId: string): string {
+	const dataToSign = createDataToSign(items, timestamp);
+	return crypto.createHmac('sha256', JWT_SECRET).update(`${dataToSign}:${sessionId}`).digest('hex');
+}
+
+/**
+ * Verifies the integrity of the cart session signature.
+ */
+function verifySignature(cartSession: SecureCartSession): boolean {
+	const expectedSignature = createSignature(
+		cartSession.items,
+		cartSession.updatedAt,
+		cartSession.sessionId
+	);
+
+	const signature = Buffer.from(cartSession.signature, 'hex');
+	const expected = Buffer.from(expectedSignature, 'hex');
+
+	// Use timingSafeEqual to prevent timing attacks
+	return signature.length === expected.length && crypto.timingSafeEqual(signature, expected);
+}
+
+/**
+ * Creates a new secure cart session.
+ */
+export function createSecureCart(items: CartItem[]): SecureCartSession {
+	const sessionId = generateSessionId();
+	const timestamp = Date.now();
+	const signature = createSignature(items, timestamp, sessionId);
+
+	return {
+		items,
+		signature,
+		sessionId,
+		createdAt: timestamp,
+		updatedAt: timestamp
+	};
+}
+
+/**
+ * Updates an existing secure cart session.
+ */
+export function updateSecureCart(
+	existingCart: SecureCartSession,
+	newItems: CartItem[]
+): SecureCartSession {
+	const timestamp = Date.now();
+	const signature = createSignature(newItems, timestamp, existingCart.sessionId);
+
+	return {
+		...existingCart,
+		items: newItems,
+		signature,
+		updatedAt: timestamp
+	};
+}
+
+/**
+ * Validates the entire cart session, including its signature and expiry.
+ */
+function validateCartSession(cartSession: SecureCartSession): boolean {
+	if (!cartSession.items || !cartSession.signature || !cartSession.sessionId) {
+		return false;
+	}
+
+	// Check if session is not too old (24 hours)
+	if (Date.now() - cartSession.createdAt > SESSION_EXPIRY_MS) {
+		return false;
+	}
+
+	// Verify the signature
+	return verifySignature(cartSession);
+}
+
+/**
+ * Safely parses the cart cookie, returning a validated SecureCartSession or null.
+ */
+export function getValidatedCartSession(
+	cookies: RequestEvent['cookies']
+): SecureCartSession | null {
+	const cartData = cookies.get(CART_COOKIE_NAME);
+	if (!cartData) {
+		return null;
+	}
+
+	try {
+		const cartSession = JSON.parse(decodeURIComponent(cartData));
+		if (validateCartSession(cartSession)) {
+			return cartSession;
+		}
+	} catch {
+		// Invalid cart data, will be treated as non-existent
+	}
+
+	// If parsing or validation fails, clear the invalid cookie
+	cookies.delete(CART_COOKIE_NAME, { path: '/' });
+	return null;
+}
+
+/**
+ * Sets the cart session cookie with all necessary security flags.
+ */
+export function setCartCookie(
+	cookies: RequestEvent['cookies'],
+	cartSession: SecureCartSession | null
+) {
+	if (cartSession === null || cartSession.items.length === 0) {
+		cookies.delete(CART_COOKIE_NAME, { path: '/' });
+		return;
+	}
+
+	cookies.set(CART_COOKIE_NAME, encodeURIComponent(JSON.stringify(cartSession)), {
+		path: '/',
+		httpOnly: true,
+		secure: process.env.NODE_ENV === 'production',
+		sameSite: 'strict',
+		maxAge: COOKIE_MAX_AGE
+	});
+}
+
+// --- Logged-in carts: carts/cart_items tables ---
+
+/**
+ * Items of the user's stored cart, oldest first. Returns an empty list when the user has no cart yet.
+ */
+export async function getStoredCartItems(userId: number): Promise<CartItem[]> {
+	const rows = await db
+		.select({
+			productId: cartItems.productId,
+			variantId: cartItems.variantId,
+			quantity: cartItems.quantity,
+			addedAt: cartItems.addedAt
+		})
+		.from(cartItems)
+		.innerJoin(carts, eq(carts.id, cartItems.cartId))
+		.where(eq(carts.userId, userId));
+
+	return rows
+		.map((row) => ({
+			productId: row.productId,
+			variantId: row.variantId,
+			quantity: row.quantity,
+			addedAt: row.addedAt ? row.addedAt.getTime() : Date.now()
+		}))
+		.sort((a, b) => a.addedAt - b.addedAt);
+}
+
+/**
+ * Replace the user's stored cart with the given items, creating the cart row on first use.
+ */
+export async function saveStoredCartItems(userId: number, items: CartItem[]) {
+	await db.transaction(async (tx) => {
+		let [cart] = await tx
+			.select({ id: carts.id })
+			.from(carts)
+			.where(eq(carts.userId, userId))
+			.limit(1)
+			.for('update');
+
+		if (!cart) {
+			await tx.insert(carts).values({ userId });
+			[cart] = await tx
+				.select({ id: carts.id })
+				.from(carts)
+				.where(eq(carts.userId, userId))
+				.limit(1);
+		}
+
+		await tx.delete(cartItems).where(eq(cartItems.cartId, cart.id));
+
+		if (items.length > 0) {
+			await tx.insert(cartItems).values(
+				items.map((item) => ({
+					cartId: cart.id,
+					productId: item.productId,
+					variantId: item.variantId ?? null,
+					quantity: item.quantity,
+					addedAt: new Date(item.addedAt)
+				}))
+			);
+		}
+	});
+}
+
+export async function clearStoredCart(userId: number) {
+	await saveStoredCartItems(userId, []);
+}
+
+/**
+ * Combine two carts: quantities of the same line are added up (capped per line),
+ * and products beyond the cart limit are dropped, keeping the stored cart's items first.
+ */
+export function mergeCartItems(stored: CartItem[], incoming: CartItem[]): CartItem[] {
+	const merged = stored.map((item) => ({ ...item }));
+
+	for (const item of incoming) {
+		const existing = merged.find((entry) => isSameCartLine(entry, item));
+		if (existing) {
+			existing.quantity = Math.min(existing.quantity + item.quantity, MAX_QUANTITY_PER_PRODUCT);
+			existing.addedAt = Math.max(existing.addedAt, item.addedAt);
+		} else {
+			merged.push({ ...item, quantity: Math.min(item.quantity, MAX_QUANTITY_PER_PRODUCT) });
+		}
+	}
+
+	const result: CartItem[] = [];
+	let totalItems = 0;
+	for (const item of merged) {
+		const quantity = Math.min(item.quantity, MAX_CART_ITEMS - totalItems);
+		if (quantity <= 0) break;
+		result.push({ ...item, quantity });
+		totalItems += quantity;
+	}
+
+	return result;
+}
+
+/**
+ * Move the guest cookie cart into the user's stored cart and clear the cookie.
+ * Called right after login; a missing or invalid cookie is a no-op.
+ */
+export async function mergeGuestCart(cookies: RequestEvent['cookies'], userId: number) {
+	const guestCart = getValidatedCartSession(cookies);
+	if (!guestCart || guestCart.items.length === 0) {
+		return;
+	}
+
+	const stored = await getStoredCartItems(userId);
+	await saveStoredCartItems(userId, mergeCartItems(stored, guestCart.items));
+	setCartCookie(cookies, null);
+}
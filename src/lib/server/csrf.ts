@@ -0,0 +1,46 @@
+import jwt from 'jsonwebtoken';
+import { error } from '@sveltejs/kit';
+import 'dotenv/config';
+
+/**
+ * Validates the CSRF token using the double submit cookie pattern: the x-csrf-token header
+ * must equal the csrf claim of the signed session cookie (both set at login).
+ * @param {Request} request - The incoming request object.
+ * @returns {boolean} - True if the CSRF token is valid, otherwise false.
+ */
+export function validateCSRFToken(request: Request): boolean {
+	try {
+		const csrfHeaderToken = request.headers.get('x-csrf-token');
+		const sessionCookie = request.headers
+			.get('cookie')
+			?.split('; ')
+			.find((row) => row.startsWith('session='));
+
+		if (!csrfHeaderToken || !sessionCookie) {
+			console.warn('CSRF validation failed: Missing token or session cookie');
+			return false;
+		}
+
+		const tokenFromCookie = sessionCookie.split('=')[1];
+		const decoded = jwt.verify(tokenFromCookie, process.env.JWT_SECRET!, {
+			algorithms: ['HS256']
+		});
+
+		if (typeof decoded === 'object' && decoded !== null && 'csrf' in decoded) {
+			return csrfHeaderToken === decoded.csrf;
+		}
+
+		console.warn('CSRF validation failed: Invalid JWT payload');
+		return false;
+	} catch (err) {
+		console.error('CSRF token validation error:', err);
+		return false;
+	}
+}
+
+/** 403 unless the request carries the session's CSRF token; call it before any change */
+export function requireCSRFToken(request: Request) {
+	if (!validateCSRFToken(request)) {
+		throw error(403, 'Invalid CSRF token');
+	}
+}
@@ -1,10 +1,11 @@
 import { drizzle } from 'drizzle-orm/mysql2';
 import mysql from 'mysql2/promise';
 import * as schema from './schema';
-import { env } from '$env/dynamic/private';
+import 'dotenv/config';
 
-if (!env.DATABASE_URL) throw new Error('DATABASE_URL is not set');
+// Read from process.env rather than $env so scripts run with tsx (jobs:run) can use the same pool
+if (!process.env.DATABASE_URL) throw new Error('DATABASE_URL is not set');
 
-const client = mysql.createPool(env.DATABASE_URL);
+const client = mysql.createPool(process.env.DATABASE_URL);
 
 export const db = drizzle(client, { schema, mode: 'default' });
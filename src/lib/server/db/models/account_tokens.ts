@@ -0,0 +1,33 @@
+import {
+  mysqlTable,
+  int,
+  varchar,
+  timestamp,
+  index
+} from "drizzle-orm/mysql-core";
+import {
+  users
+} from "./users";
+
+// Token sekali pakai untuk verifikasi email dan reset password
+export const accountTokens = mysqlTable("account_tokens", {
+  id: int("id").primaryKey().autoincrement(),
+
+  userId: int("user_id").notNull().references(() => users.id, {
+    onDelete: "cascade"
+  }),
+  // email_verification atau password_reset
+  purpose: varchar("purpose", {
+    length: 30
+  }).notNull(),
+  // HMAC dari token; token aslinya hanya ada di link yang dikirim ke email
+  tokenHash: varchar("token_hash", {
+    length: 64
+  }).notNull().unique(),
+
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => [
+  index("account_tokens_user_purpose_idx").on(table.userId, table.purpose)
+]);
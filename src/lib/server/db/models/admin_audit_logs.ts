@@ -0,0 +1,38 @@
+import {
+  mysqlTable,
+  int,
+  varchar,
+  text,
+  timestamp,
+  index
+} from "drizzle-orm/mysql-core";
+import {
+  users
+} from "./users";
+
+// Jejak tindakan admin (ubah role, tangguhkan akun, ...)
+export const adminAuditLogs = mysqlTable("admin_audit_logs", {
+  id: int("id").primaryKey().autoincrement(),
+
+  adminId: int("admin_id").notNull().references(() => users.id),
+  // mis. user.role_changed, user.suspended
+  action: varchar("action", {
+    length: 50
+  }).notNull(),
+
+  // Objek yang terkena tindakan, mis. user + id user
+  targetType: varchar("target_type", {
+    length: 30
+  }).notNull(),
+  targetId: varchar("target_id", {
+    length: 50
+  }).notNull(),
+
+  // JSON: nilai sebelum/sesudah, alasan
+  details: text("details"),
+
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => [
+  index("admin_audit_logs_target_idx").on(table.targetType, table.targetId),
+  index("admin_audit_logs_admin_idx").on(table.adminId)
+]);
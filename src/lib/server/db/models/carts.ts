@@ -0,0 +1,34 @@
+import {
+  mysqlTable,
+  int,
+  timestamp,
+  uniqueIndex
+} from "drizzle-orm/mysql-core";
+import {
+  users
+} from "./users";
+import {
+  products
+} from "./products";
+import {
+  productVariants
+} from "./product_variants";
+
+// Satu keranjang tersimpan per user; tamu tetap memakai cookie cart_session
+export const carts = mysqlTable("carts", {
+  id: int("id").primaryKey().autoincrement(),
+  userId: int("user_id").notNull().unique().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow()
+});
+
+export const cartItems = mysqlTable("cart_items", {
+  id: int("id").primaryKey().autoincrement(),
+  cartId: int("cart_id").notNull().references(() => carts.id, { onDelete: "cascade" }),
+  productId: int("product_id").notNull().references(() => products.id),
+  variantId: int("variant_id").references(() => productVariants.id),
+  quantity: int("quantity").notNull(),
+  addedAt: timestamp("added_at").defaultNow()
+}, (table) => [
+  uniqueIndex("cart_items_cart_line_unique").on(table.cartId, table.productId, table.variantId)
+]);
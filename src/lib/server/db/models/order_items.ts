@@ -10,6 +10,12 @@ import {
 import {
   products
 } from "./products";
+import {
+  productVariants
+} from "./product_variants";
+import {
+  orderShipments
+} from "./order_shipments";
 
 export const orderItems = mysqlTable("order_items", {
   id: int("id").primaryKey().autoincrement(),
@@ -18,6 +24,9 @@ export const orderItems = mysqlTable("order_items", {
     length: 26
   }).notNull().references(() => orders.id),
   productId: int("product_id").notNull().references(() => products.id),
+  variantId: int("variant_id").references(() => productVariants.id),
+  // Pengiriman (gudang asal) yang membawa item ini; kosong untuk pesanan lama
+  shipmentId: int("shipment_id").references(() => orderShipments.id),
 
   name: varchar("name", {
     length: 100
@@ -28,6 +37,13 @@ export const orderItems = mysqlTable("order_items", {
   category: varchar("category", {
     length: 100
   }),
+  // Salinan nama varian dan SKU saat dipesan
+  variantName: varchar("variant_name", {
+    length: 100
+  }),
+  sku: varchar("sku", {
+    length: 64
+  }),
 
   price: decimal("price", {
     precision: 10, scale: 2
@@ -0,0 +1,71 @@
+import {
+  mysqlTable,
+  int,
+  varchar,
+  decimal,
+  text,
+  timestamp,
+  index
+} from "drizzle-orm/mysql-core";
+import {
+  orders
+} from "./orders";
+import {
+  orderItems
+} from "./order_items";
+import {
+  users
+} from "./users";
+
+// Permintaan retur dari pelanggan untuk pesanan yang sudah diterima
+export const orderReturns = mysqlTable("order_returns", {
+  id: int("id").primaryKey().autoincrement(),
+
+  orderId: varchar("order_id", {
+    length: 26
+  }).notNull().references(() => orders.id),
+  userId: int("user_id").notNull().references(() => users.id),
+
+  // requested -> approved -> received -> refunded, atau rejected / cancelled
+  status: varchar("status", {
+    length: 20
+  }).notNull().default("requested"),
+  customerNote: varchar("customer_note", {
+    length: 255
+  }),
+  adminNote: varchar("admin_note", {
+    length: 255
+  }),
+  reviewedBy: int("reviewed_by").references(() => users.id),
+
+  refundAmount: decimal("refund_amount", {
+    precision: 10, scale: 2
+  }),
+  // provider (lewat payment gateway) atau manual (ditransfer staf)
+  refundMethod: varchar("refund_method", {
+    length: 20
+  }),
+  // Respons payment provider saat refund
+  metadata: text("metadata"),
+
+  reviewedAt: timestamp("reviewed_at"),
+  receivedAt: timestamp("received_at"),
+  refundedAt: timestamp("refunded_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow()
+}, (table) => [
+  index("order_returns_order_idx").on(table.orderId),
+  index("order_returns_status_idx").on(table.status)
+]);
+
+export const orderReturnItems = mysqlTable("order_return_items", {
+  id: int("id").primaryKey().autoincrement(),
+  returnId: int("return_id").notNull().references(() => orderReturns.id, { onDelete: "cascade" }),
+  orderItemId: int("order_item_id").notNull().references(() => orderItems.id),
+
+  quantity: int("quantity").notNull(),
+  // damaged, wrong_item, not_as_described, changed_mind, other
+  reason: varchar("reason", {
+    length: 30
+  }).notNull(),
+});
@@ -0,0 +1,56 @@
+import {
+  mysqlTable,
+  int,
+  varchar,
+  decimal,
+  timestamp,
+  text,
+  index
+} from "drizzle-orm/mysql-core";
+import {
+  orders
+} from "./orders";
+import {
+  warehouses
+} from "./warehouses";
+
+// Satu pengiriman Biteship per gudang asal dalam satu pesanan
+export const orderShipments = mysqlTable("order_shipments", {
+  id: int("id").primaryKey().autoincrement(),
+  orderId: varchar("order_id", {
+    length: 26
+  }).notNull().references(() => orders.id),
+  warehouseId: int("warehouse_id").notNull().references(() => warehouses.id),
+  // Salinan alamat asal saat dipesan, supaya perubahan gudang tidak mengubah pesanan lama
+  originPostal: varchar("origin_postal_code", {
+    length: 10
+  }).notNull(),
+
+  courierName: varchar("courier_name", {
+    length: 50
+  }).notNull(),
+  courierService: varchar("courier_service", {
+    length: 50
+  }).notNull(),
+  shippingCost: decimal("shipping_cost", {
+    precision: 10, scale: 2
+  }).notNull(),
+  courierInsurance: decimal("courier_insurance", {
+    precision: 10, scale: 2
+  }).notNull().default("0.00"),
+
+  // Diisi setelah order Biteship dibuat (pesanan dibayar)
+  biteshipOrderId: varchar("biteship_order_id", {
+    length: 64
+  }),
+  waybillId: varchar("waybill_id", {
+    length: 64
+  }),
+  // Rate yang dipilih dan respons Biteship
+  metadata: text("metadata"),
+
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow()
+}, (table) => [
+  index("order_shipments_order_idx").on(table.orderId)
+]);
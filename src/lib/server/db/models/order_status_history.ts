@@ -0,0 +1,38 @@
+import {
+  mysqlTable,
+  int,
+  varchar,
+  timestamp
+} from "drizzle-orm/mysql-core";
+import {
+  orders
+} from "./orders";
+
+export const orderStatusHistory = mysqlTable("order_status_history", {
+  id: int("id").primaryKey().autoincrement(),
+
+  orderId: varchar("order_id", {
+    length: 26
+  }).notNull().references(() => orders.id),
+
+  // null untuk entri pertama saat order dibuat
+  fromStatus: varchar("from_status", {
+    length: 20
+  }),
+  toStatus: varchar("to_status", {
+    length: 20
+  }).notNull(),
+
+  // customer, admin, system, midtrans, biteship
+  actorType: varchar("actor_type", {
+    length: 20
+  }).notNull(),
+  actorId: varchar("actor_id", {
+    length: 50
+  }),
+  reason: varchar("reason", {
+    length: 255
+  }),
+
+  createdAt: timestamp("created_at").defaultNow()
+});
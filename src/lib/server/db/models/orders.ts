@@ -26,6 +26,12 @@ export const orders = mysqlTable("orders", {
   shippingCost: decimal("shipping_cost", {
     precision: 10, scale: 2
   }).notNull(),
+  discount: decimal("discount", {
+    precision: 10, scale: 2
+  }).notNull().default("0.00"),
+  voucherCode: varchar("voucher_code", {
+    length: 32
+  }),
   total: decimal("total", {
     precision: 10, scale: 2
   }).notNull(),
@@ -81,6 +87,10 @@ export const orders = mysqlTable("orders", {
   orderNote: varchar("order_note", {
     length: 255
   }),
+  // midtrans, bank_transfer, cod
+  paymentMethod: varchar("payment_method", {
+    length: 20
+  }).notNull().default("midtrans"),
   metadata: text("metadata"),
   status: varchar("status", {
     length: 20
@@ -0,0 +1,55 @@
+import {
+  mysqlTable,
+  int,
+  varchar,
+  text,
+  timestamp,
+  index,
+  uniqueIndex
+} from "drizzle-orm/mysql-core";
+import {
+  products
+} from "./products";
+import {
+  users
+} from "./users";
+import {
+  orders
+} from "./orders";
+
+// Satu ulasan per user per produk, hanya dari pesanan yang sudah delivered
+export const productReviews = mysqlTable("product_reviews", {
+  id: int("id").primaryKey().autoincrement(),
+  productId: int("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  userId: int("user_id").notNull().references(() => users.id),
+  // Pesanan yang membuktikan pembelian (badge "Pembelian Terverifikasi")
+  orderId: varchar("order_id", {
+    length: 26
+  }).references(() => orders.id),
+
+  rating: int("rating").notNull(),
+  body: text("body").notNull(),
+
+  // published, hidden (disembunyikan admin)
+  status: varchar("status", {
+    length: 20
+  }).notNull().default("published"),
+  moderatedBy: int("moderated_by").references(() => users.id),
+  moderationNote: varchar("moderation_note", {
+    length: 255
+  }),
+
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow()
+}, (table) => [
+  uniqueIndex("product_reviews_product_user_unique").on(table.productId, table.userId),
+  index("product_reviews_product_status_idx").on(table.productId, table.status)
+]);
+
+export const productReviewImages = mysqlTable("product_review_images", {
+  id: int("id").primaryKey().autoincrement(),
+  reviewId: int("review_id").notNull().references(() => productReviews.id, { onDelete: "cascade" }),
+  image: varchar("image", {
+    length: 255
+  }).notNull(),
+});
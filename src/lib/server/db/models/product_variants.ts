@@ -0,0 +1,73 @@
+import {
+  mysqlTable,
+  int,
+  varchar,
+  decimal,
+  boolean,
+  timestamp,
+  uniqueIndex
+} from "drizzle-orm/mysql-core";
+import {
+  products
+} from "./products";
+
+// Jenis opsi per produk, mis. "Ukuran" atau "Warna"
+export const productOptions = mysqlTable("product_options", {
+  id: int("id").primaryKey().autoincrement(),
+  productId: int("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  name: varchar("name", {
+    length: 50
+  }).notNull(),
+  position: int("position").notNull().default(0)
+}, (table) => [
+  uniqueIndex("product_options_product_name_unique").on(table.productId, table.name)
+]);
+
+export const productOptionValues = mysqlTable("product_option_values", {
+  id: int("id").primaryKey().autoincrement(),
+  optionId: int("option_id").notNull().references(() => productOptions.id, { onDelete: "cascade" }),
+  value: varchar("value", {
+    length: 50
+  }).notNull(),
+  position: int("position").notNull().default(0)
+}, (table) => [
+  uniqueIndex("product_option_values_option_value_unique").on(table.optionId, table.value)
+]);
+
+// Satu baris per kombinasi opsi yang dijual. Varian yang dihapus dari produk cuma dinonaktifkan
+// karena masih dirujuk keranjang dan pesanan lama
+export const productVariants = mysqlTable("product_variants", {
+  id: int("id").primaryKey().autoincrement(),
+  productId: int("product_id").notNull().references(() => products.id),
+  sku: varchar("sku", {
+    length: 64
+  }).notNull().unique(),
+  // Gabungan nilai opsi, mis. "M / Merah"
+  name: varchar("name", {
+    length: 100
+  }).notNull(),
+
+  // Kosong berarti ikut harga produk
+  price: decimal("price", {
+    precision: 10, scale: 2
+  }),
+  stock: int("stock").notNull().default(0),
+
+  // Dimensi opsional buat Biteship; kosong berarti ikut dimensi produk
+  height: int("height"),
+  length: int("length"),
+  weight: int("weight"),
+  width: int("width"),
+
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow()
+});
+
+export const productVariantValues = mysqlTable("product_variant_values", {
+  id: int("id").primaryKey().autoincrement(),
+  variantId: int("variant_id").notNull().references(() => productVariants.id, { onDelete: "cascade" }),
+  optionValueId: int("option_value_id").notNull().references(() => productOptionValues.id, { onDelete: "cascade" })
+}, (table) => [
+  uniqueIndex("product_variant_values_unique").on(table.variantId, table.optionValueId)
+]);
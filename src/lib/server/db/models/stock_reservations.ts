@@ -0,0 +1,39 @@
+import {
+  mysqlTable,
+  int,
+  varchar,
+  timestamp
+} from "drizzle-orm/mysql-core";
+import {
+  orders
+} from "./orders";
+import {
+  products
+} from "./products";
+import {
+  productVariants
+} from "./product_variants";
+import {
+  warehouses
+} from "./warehouses";
+
+export const stockReservations = mysqlTable("stock_reservations", {
+  id: int("id").primaryKey().autoincrement(),
+
+  orderId: varchar("order_id", {
+    length: 26
+  }).notNull().references(() => orders.id),
+  productId: int("product_id").notNull().references(() => products.id),
+  variantId: int("variant_id").references(() => productVariants.id),
+  // Gudang yang stoknya dipotong; kosong untuk reservasi lama
+  warehouseId: int("warehouse_id").references(() => warehouses.id),
+  quantity: int("quantity").notNull(),
+
+  // reserved -> committed (dibayar) atau reserved/committed -> released (stok dikembalikan)
+  status: varchar("status", {
+    length: 20
+  }).notNull().default("reserved"),
+
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow()
+});
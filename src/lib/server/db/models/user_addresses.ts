@@ -0,0 +1,54 @@
+import {
+  mysqlTable,
+  int,
+  varchar,
+  boolean,
+  timestamp,
+  index
+} from "drizzle-orm/mysql-core";
+import {
+  users
+} from "./users";
+
+// Buku alamat pelanggan; pesanan tetap menyalin alamat ke kolom orders
+export const userAddresses = mysqlTable("user_addresses", {
+  id: int("id").primaryKey().autoincrement(),
+  userId: int("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  // mis. "Rumah", "Kantor"
+  label: varchar("label", {
+    length: 50
+  }).notNull(),
+
+  recipientName: varchar("recipient_name", {
+    length: 100
+  }).notNull(),
+  phone: varchar("phone", {
+    length: 20
+  }).notNull(),
+  address: varchar("address", {
+    length: 255
+  }).notNull(),
+  postalCode: varchar("postal_code", {
+    length: 10
+  }).notNull(),
+  city: varchar("city", {
+    length: 100
+  }),
+  province: varchar("province", {
+    length: 100
+  }),
+
+  // Area Biteship hasil getAreaByPostalCode, disimpan supaya checkout tidak perlu lookup ulang
+  areaId: varchar("area_id", {
+    length: 100
+  }),
+  areaName: varchar("area_name", {
+    length: 255
+  }),
+
+  isDefault: boolean("is_default").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow()
+}, (table) => [
+  index("user_addresses_user_idx").on(table.userId)
+]);
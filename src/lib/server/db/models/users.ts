@@ -17,6 +17,20 @@ export const users = mysqlTable("users", {
   password: varchar("password", {
     length: 255
   }).notNull(),
-  role: mysqlEnum("role", ["admin", "customer"]).default("customer"),
+  // admin punya semua izin; catalog_manager, fulfilment dan finance adalah staf dengan izin
+  // terbatas (lihat src/lib/utils/permissions.ts)
+  role: mysqlEnum("role", ["admin", "catalog_manager", "fulfilment", "finance", "customer"]).default("customer"),
+
+  // Diisi saat admin menangguhkan akun; akun yang ditangguhkan tidak bisa login
+  suspendedAt: timestamp("suspended_at"),
+  suspendedReason: varchar("suspended_reason", {
+    length: 255
+  }),
+
+  // null sampai pengguna membuka link verifikasi di email
+  emailVerifiedAt: timestamp("email_verified_at"),
+  // Sesi yang dibuat sebelum waktu ini tidak berlaku lagi (mis. setelah reset password)
+  passwordChangedAt: timestamp("password_changed_at"),
+
   createdAt: timestamp("created_at").defaultNow(),
-});
\ No newline at end of file
+});
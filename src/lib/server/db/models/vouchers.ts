@@ -0,0 +1,75 @@
+import {
+  mysqlTable,
+  int,
+  varchar,
+  decimal,
+  timestamp,
+  text,
+  boolean
+} from "drizzle-orm/mysql-core";
+import {
+  users
+} from "./users";
+import {
+  orders
+} from "./orders";
+
+export const vouchers = mysqlTable("vouchers", {
+  id: int("id").primaryKey().autoincrement(),
+  code: varchar("code", {
+    length: 32
+  }).notNull().unique(),
+  name: varchar("name", {
+    length: 100
+  }).notNull(),
+
+  // percentage, fixed, free_shipping
+  type: varchar("type", {
+    length: 20
+  }).notNull(),
+  // Persen untuk percentage, rupiah untuk fixed; diabaikan untuk free_shipping
+  value: decimal("value", {
+    precision: 10, scale: 2
+  }).notNull().default("0.00"),
+  // Batas potongan maksimal (percentage dan free_shipping)
+  maxDiscount: decimal("max_discount", {
+    precision: 10, scale: 2
+  }),
+  minSpend: decimal("min_spend", {
+    precision: 10, scale: 2
+  }).notNull().default("0.00"),
+
+  // null = tanpa batas
+  usageLimit: int("usage_limit"),
+  perUserLimit: int("per_user_limit"),
+  usedCount: int("used_count").notNull().default(0),
+
+  startsAt: timestamp("starts_at"),
+  endsAt: timestamp("ends_at"),
+  isActive: boolean("is_active").notNull().default(true),
+
+  // JSON array id produk/kategori; null = berlaku untuk semua
+  productIds: text("product_ids"),
+  categoryIds: text("category_ids"),
+
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const voucherRedemptions = mysqlTable("voucher_redemptions", {
+  id: int("id").primaryKey().autoincrement(),
+  voucherId: int("voucher_id").notNull().references(() => vouchers.id),
+  userId: int("user_id").notNull().references(() => users.id),
+  orderId: varchar("order_id", {
+    length: 26
+  }).notNull().references(() => orders.id),
+  discount: decimal("discount", {
+    precision: 10, scale: 2
+  }).notNull(),
+
+  // applied -> released (pesanan batal sebelum dikirim)
+  status: varchar("status", {
+    length: 20
+  }).notNull().default("applied"),
+
+  createdAt: timestamp("created_at").defaultNow(),
+});
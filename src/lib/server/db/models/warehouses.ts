@@ -0,0 +1,72 @@
+import {
+  mysqlTable,
+  int,
+  varchar,
+  boolean,
+  timestamp,
+  uniqueIndex,
+  index
+} from "drizzle-orm/mysql-core";
+import {
+  products
+} from "./products";
+import {
+  productVariants
+} from "./product_variants";
+
+// Gudang asal pengiriman; menggantikan satu STORE_CONFIG di env
+export const warehouses = mysqlTable("warehouses", {
+  id: int("id").primaryKey().autoincrement(),
+  code: varchar("code", {
+    length: 32
+  }).notNull().unique(),
+  name: varchar("name", {
+    length: 100
+  }).notNull(),
+
+  // Kontak pengirim di label Biteship
+  contactName: varchar("contact_name", {
+    length: 100
+  }).notNull(),
+  phone: varchar("phone", {
+    length: 20
+  }).notNull(),
+  email: varchar("email", {
+    length: 100
+  }).notNull(),
+  address: varchar("address", {
+    length: 255
+  }).notNull(),
+  note: varchar("note", {
+    length: 255
+  }),
+  postalCode: varchar("postal_code", {
+    length: 10
+  }).notNull(),
+  city: varchar("city", {
+    length: 100
+  }),
+  province: varchar("province", {
+    length: 100
+  }),
+
+  // Angka kecil didahulukan kalau jaraknya sama
+  priority: int("priority").notNull().default(0),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow()
+});
+
+// Stok per gudang. products.stock dan product_variants.stock tetap menyimpan totalnya
+export const warehouseStock = mysqlTable("warehouse_stock", {
+  id: int("id").primaryKey().autoincrement(),
+  warehouseId: int("warehouse_id").notNull().references(() => warehouses.id, { onDelete: "cascade" }),
+  productId: int("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  // Kosong untuk produk tanpa varian
+  variantId: int("variant_id").references(() => productVariants.id, { onDelete: "cascade" }),
+  quantity: int("quantity").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow()
+}, (table) => [
+  uniqueIndex("warehouse_stock_unique").on(table.warehouseId, table.productId, table.variantId),
+  index("warehouse_stock_product_idx").on(table.productId)
+]);
@@ -2,5 +2,17 @@ export * from './models/users';
 export * from './models/categories';
 export * from './models/products';
 export * from './models/product_images';
+export * from './models/product_variants';
+export * from './models/product_reviews';
+export * from './models/warehouses';
 export * from './models/orders';
-export * from './models/order_items';
\ No newline at end of file
+export * from './models/order_shipments';
+export * from './models/order_items';
+export * from './models/order_status_history';
+export * from './models/stock_reservations';
+export * from './models/carts';
+export * from './models/vouchers';
+export * from './models/user_addresses';
+export * from './models/order_returns';
+export * from './models/admin_audit_logs';
+export * from './models/account_tokens';
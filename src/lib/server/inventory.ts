@@ -0,0 +1,276 @@
+import { db } from '$lib/server/db';
+import {
+	products,
+	productVariants,
+	stockReservations,
+	warehouses,
+	warehouseStock
+} from '$lib/server/db/schema';
+import { adjustWarehouseStock } from '$lib/server/warehouses';
+import { eq, and, asc, inArray, isNull, sql } from 'drizzle-orm';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | Transaction;
+
+export interface StockRequest {
+	productId: number;
+	variantId?: number | null;
+	/** Warehouse the units ship from; its own stock is decremented too */
+	warehouseId?: number | null;
+	quantity: number;
+	name?: string;
+}
+
+export interface OutOfStockItem {
+	productId: number;
+	variantId?: number | null;
+	name: string | null;
+	requested: number;
+	available: number;
+}
+
+/**
+ * Thrown by reserveStock when one or more products cannot cover the requested quantity.
+ * Lists every product that ran out, not just the first one.
+ */
+export class OutOfStockError extends Error {
+	items: OutOfStockItem[];
+
+	constructor(items: OutOfStockItem[]) {
+		super(`Insufficient stock for ${items.map((item) => item.name || item.productId).join(', ')}`);
+		this.name = 'OutOfStockError';
+		this.items = items;
+	}
+}
+
+/**
+ * Decrement one warehouse's stock if it still covers the quantity.
+ * Returns null on success, otherwise the quantity the warehouse has left.
+ */
+async function takeWarehouseStock(tx: Transaction, item: StockRequest): Promise<number | null> {
+	const where = and(
+		eq(warehouseStock.warehouseId, item.warehouseId!),
+		eq(warehouseStock.productId, item.productId),
+		item.variantId ? eq(warehouseStock.variantId, item.variantId) : isNull(warehouseStock.variantId)
+	);
+
+	const [result] = await tx
+		.update(warehouseStock)
+		.set({ quantity: sql`${warehouseStock.quantity} - ${item.quantity}` })
+		.where(and(where, sql`${warehouseStock.quantity} >= ${item.quantity}`));
+	if (result.affectedRows > 0) return null;
+
+	const [row] = await tx
+		.select({ quantity: warehouseStock.quantity })
+		.from(warehouseStock)
+		.where(where)
+		.limit(1);
+	return Math.max(row?.quantity || 0, 0);
+}
+
+/**
+ * Reserve stock for a new order. Each decrement is conditional on enough stock being left,
+ * so concurrent orders cannot both take the last unit. Must run inside the order's transaction:
+ * when anything runs out, OutOfStockError is thrown and the transaction rolls back every decrement.
+ */
+export async function reserveStock(tx: Transaction, orderId: string, items: StockRequest[]) {
+	// Merge duplicate lines so one product (or variant) is decremented once per warehouse
+	const quantities = new Map<string, StockRequest>();
+	for (const item of items) {
+		const key = `${item.productId}:${item.variantId ?? ''}:${item.warehouseId ?? ''}`;
+		const existing = quantities.get(key);
+		quantities.set(key, {
+			...item,
+			quantity: (existing?.quantity || 0) + item.quantity
+		});
+	}
+
+	const outOfStock: OutOfStockItem[] = [];
+
+	for (const item of quantities.values()) {
+		if (item.warehouseId) {
+			const available = await takeWarehouseStock(tx, item);
+			if (available !== null) {
+				outOfStock.push({
+					productId: item.productId,
+					variantId: item.variantId ?? null,
+					name: item.name || null,
+					requested: item.quantity,
+					available
+				});
+				continue;
+			}
+		}
+
+		if (item.variantId) {
+			const [result] = await tx
+				.update(productVariants)
+				.set({ stock: sql`${productVariants.stock} - ${item.quantity}` })
+				.where(
+					and(
+						eq(productVariants.id, item.variantId),
+						eq(productVariants.productId, item.productId),
+						eq(productVariants.isActive, true),
+						sql`${productVariants.stock} >= ${item.quantity}`
+					)
+				);
+
+			if (result.affectedRows === 0) {
+				const [variant] = await tx
+					.select({ stock: productVariants.stock, isActive: productVariants.isActive })
+					.from(productVariants)
+					.where(eq(productVariants.id, item.variantId))
+					.limit(1);
+
+				outOfStock.push({
+					productId: item.productId,
+					variantId: item.variantId,
+					name: item.name || null,
+					requested: item.quantity,
+					available: variant?.isActive ? Math.max(variant.stock, 0) : 0
+				});
+				continue;
+			}
+
+			// The product row carries the sum of its variants' stock
+			await tx
+				.update(products)
+				.set({ stock: sql`${products.stock} - ${item.quantity}` })
+				.where(eq(products.id, item.productId));
+		} else {
+			const [result] = await tx
+				.update(products)
+				.set({ stock: sql`${products.stock} - ${item.quantity}` })
+				.where(and(eq(products.id, item.productId), sql`${products.stock} >= ${item.quantity}`));
+
+			if (result.affectedRows === 0) {
+				const [product] = await tx
+					.select({ name: products.name, stock: products.stock })
+					.from(products)
+					.where(eq(products.id, item.productId))
+					.limit(1);
+
+				outOfStock.push({
+					productId: item.productId,
+					name: product?.name || item.name || null,
+					requested: item.quantity,
+					available: Math.max(product?.stock || 0, 0)
+				});
+				continue;
+			}
+		}
+
+		await tx.insert(stockReservations).values({
+			orderId,
+			productId: item.productId,
+			variantId: item.variantId ?? null,
+			warehouseId: item.warehouseId ?? null,
+			quantity: item.quantity,
+			status: 'reserved'
+		});
+	}
+
+	if (outOfStock.length > 0) {
+		throw new OutOfStockError(outOfStock);
+	}
+}
+
+// Stock without a warehouse (reservations made before warehouses existed) goes back to the
+// primary warehouse
+async function getPrimaryWarehouseId(executor: Executor): Promise<number | null> {
+	const [primary] = await executor
+		.select({ id: warehouses.id })
+		.from(warehouses)
+		.where(eq(warehouses.isActive, true))
+		.orderBy(asc(warehouses.priority), asc(warehouses.id))
+		.limit(1);
+	return primary?.id ?? null;
+}
+
+/**
+ * Put units back on the shelf: the warehouse row plus the variant and product totals.
+ */
+async function restock(executor: Executor, item: StockRequest, primaryWarehouseId: number | null) {
+	const warehouseId = item.warehouseId ?? primaryWarehouseId;
+	if (warehouseId) {
+		await adjustWarehouseStock(
+			executor,
+			warehouseId,
+			item.productId,
+			item.variantId ?? null,
+			item.quantity
+		);
+	}
+	if (item.variantId) {
+		await executor
+			.update(productVariants)
+			.set({ stock: sql`${productVariants.stock} + ${item.quantity}` })
+			.where(eq(productVariants.id, item.variantId));
+	}
+	await executor
+		.update(products)
+		.set({ stock: sql`${products.stock} + ${item.quantity}` })
+		.where(eq(products.id, item.productId));
+}
+
+/**
+ * Return reserved (or committed but not yet shipped) stock to the shelf.
+ * Idempotent: released reservations are skipped, so repeated cancellations restore stock once.
+ */
+export async function releaseStock(executor: Executor, orderId: string) {
+	const reservations = await executor
+		.select()
+		.from(stockReservations)
+		.where(
+			and(
+				eq(stockReservations.orderId, orderId),
+				inArray(stockReservations.status, ['reserved', 'committed'])
+			)
+		);
+
+	const primaryWarehouseId = reservations.some((reservation) => !reservation.warehouseId)
+		? await getPrimaryWarehouseId(executor)
+		: null;
+
+	for (const reservation of reservations) {
+		await restock(executor, reservation, primaryWarehouseId);
+	}
+
+	if (reservations.length > 0) {
+		await executor
+			.update(stockReservations)
+			.set({ status: 'released' })
+			.where(
+				inArray(
+					stockReservations.id,
+					reservations.map((reservation) => reservation.id)
+				)
+			);
+	}
+
+	return reservations.length;
+}
+
+/**
+ * Put returned goods back into stock, into the warehouse they shipped from. The caller makes
+ * sure each return is restocked once.
+ */
+export async function restockReturnedItems(executor: Executor, items: StockRequest[]) {
+	const primaryWarehouseId = items.some((item) => !item.warehouseId)
+		? await getPrimaryWarehouseId(executor)
+		: null;
+
+	for (const item of items) {
+		await restock(executor, item, primaryWarehouseId);
+	}
+}
+
+/**
+ * Mark an order's reservations as committed once it is paid; the stock stays decremented.
+ */
+export async function commitStock(executor: Executor, orderId: string) {
+	await executor
+		.update(stockReservations)
+		.set({ status: 'committed' })
+		.where(and(eq(stockReservations.orderId, orderId), eq(stockReservations.status, 'reserved')));
+}
@@ -0,0 +1,128 @@
+import 'dotenv/config';
+import { expirePaymentsJob } from './payment-expiry';
+
+/**
+ * Background jobs run on a timer inside the app (see init in hooks.server.ts) and on demand
+ * with `pnpm jobs:run <name>`. A job never overlaps itself within one process; jobs that
+ * touch orders lock the rows they change, so a CLI run next to the app is safe too.
+ */
+export interface JobContext {
+	/** Report what would change without changing anything */
+	dryRun: boolean;
+	log: (message: string, details?: Record<string, unknown>) => void;
+}
+
+export interface Job {
+	name: string;
+	description: string;
+	/** Minutes between scheduled runs */
+	intervalMinutes: () => number;
+	run: (context: JobContext) => Promise<Record<string, unknown>>;
+}
+
+export interface JobRunResult {
+	name: string;
+	startedAt: string;
+	durationMs: number;
+	/** Another run of the same job was still going */
+	skipped: boolean;
+	summary: Record<string, unknown> | null;
+	error: string | null;
+}
+
+const JOBS: Job[] = [expirePaymentsJob];
+
+const running = new Set<string>();
+const timers = new Map<string, ReturnType<typeof setInterval>>();
+
+export function listJobs(): Job[] {
+	return JOBS;
+}
+
+export function getJob(name: string): Job | null {
+	return JOBS.find((job) => job.name === name) || null;
+}
+
+function createLogger(name: string): JobContext['log'] {
+	return (message, details) => {
+		if (details) {
+			console.log(`[job:${name}] ${message}`, JSON.stringify(details));
+		} else {
+			console.log(`[job:${name}] ${message}`);
+		}
+	};
+}
+
+/**
+ * Run a job once. Errors are logged and returned rather than thrown so a failing job cannot
+ * take the scheduler (or the server) down with it.
+ */
+export async function runJob(
+	name: string,
+	options: { dryRun?: boolean } = {}
+): Promise<JobRunResult> {
+	const job = getJob(name);
+	if (!job) {
+		throw new Error(`Unknown job '${name}'`);
+	}
+
+	const log = createLogger(name);
+	const startedAt = new Date();
+	const result: JobRunResult = {
+		name,
+		startedAt: startedAt.toISOString(),
+		durationMs: 0,
+		skipped: false,
+		summary: null,
+		error: null
+	};
+
+	if (running.has(name)) {
+		log('Previous run still in progress, skipping');
+		return { ...result, skipped: true };
+	}
+
+	running.add(name);
+	log(options.dryRun ? 'Started (dry run)' : 'Started');
+	try {
+		result.summary = await job.run({ dryRun: !!options.dryRun, log });
+		log('Finished', result.summary);
+	} catch (err: any) {
+		result.error = err?.message || String(err);
+		console.error(`[job:${name}] Failed:`, err);
+	} finally {
+		running.delete(name);
+		result.durationMs = Date.now() - startedAt.getTime();
+	}
+
+	return result;
+}
+
+/**
+ * Schedule every job on its interval. JOBS_ENABLED=false turns the scheduler off, e.g. when
+ * several app instances run and the jobs are driven by an external cron calling jobs:run.
+ */
+export function startJobScheduler() {
+	if (process.env.JOBS_ENABLED === 'false') {
+		console.log('[jobs] Scheduler disabled (JOBS_ENABLED=false)');
+		return;
+	}
+
+	for (const job of JOBS) {
+		if (timers.has(job.name)) continue;
+
+		const minutes = job.intervalMinutes();
+		const timer = setInterval(() => void runJob(job.name), minutes * 60 * 1000);
+		// Do not keep the process alive just for the jobs
+		timer.unref?.();
+		timers.set(job.name, timer);
+		console.log(`[jobs] Scheduled ${job.name} every ${minutes} minute(s)`);
+	}
+}
+
+export function stopJobScheduler() {
+	for (const timer of timers.values()) {
+		clearInterval(timer);
+	}
+	timers.clear();
+}
@@ -0,0 +1,186 @@
+import { db } from '$lib/server/db';
+import { orders } from '$lib/server/db/schema';
+import {
+	transitionOrderStatus,
+	createShipmentForPaidOrder,
+	type OrderActor
+} from '$lib/server/order-lifecycle';
+import {
+	getPaymentProvider,
+	getPaymentWindowHours,
+	resolveStalePayment
+} from '$lib/server/payment-providers';
+import { and, asc, eq, gt, lt, or } from 'drizzle-orm';
+import type { Job, JobContext } from './index';
+
+const SWEEPER_ACTOR: OrderActor = { type: 'system', id: 'payment-expiry' };
+
+// Methods whose payment window can run out; cash on delivery is paid when the parcel arrives
+const EXPIRING_METHODS = ['midtrans', 'bank_transfer'];
+
+// Extra wait past the payment window, so a payment made at the last minute can still be
+// reported by its notification before the order is expired
+function graceMinutes(): number {
+	return Number(process.env.PAYMENT_EXPIRY_GRACE_MINUTES) || 15;
+}
+
+// Orders fetched per query; a run keeps paging until every stale order has been looked at
+function batchSize(): number {
+	return Number(process.env.PAYMENT_EXPIRY_BATCH_SIZE) || 100;
+}
+
+export interface PaymentExpirySummary {
+	checked: number;
+	expired: number;
+	failed: number;
+	cancelled: number;
+	paid: number;
+	skipped: number;
+	errors: number;
+}
+
+interface StaleOrderCursor {
+	createdAt: Date;
+	id: string;
+}
+
+/** Pending orders whose payment window (plus grace) has run out, oldest first, after the cursor */
+async function findStaleOrders(after: StaleOrderCursor | null) {
+	const now = Date.now();
+	const windows = EXPIRING_METHODS.map((method) => {
+		const hours = getPaymentWindowHours(method) ?? 0;
+		const cutoff = new Date(now - hours * 60 * 60 * 1000 - graceMinutes() * 60 * 1000);
+		return and(eq(orders.paymentMethod, method), lt(orders.createdAt, cutoff));
+	});
+
+	return db
+		.select({
+			id: orders.id,
+			orderNumber: orders.orderNumber,
+			total: orders.total,
+			status: orders.status,
+			paymentMethod: orders.paymentMethod,
+			metadata: orders.metadata,
+			createdAt: orders.createdAt
+		})
+		.from(orders)
+		.where(
+			and(
+				eq(orders.status, 'pending'),
+				or(...windows),
+				after
+					? or(
+							gt(orders.createdAt, after.createdAt),
+							and(eq(orders.createdAt, after.createdAt), gt(orders.id, after.id))
+						)
+					: undefined
+			)
+		)
+		.orderBy(asc(orders.createdAt), asc(orders.id))
+		.limit(batchSize());
+}
+
+/**
+ * Every stale order, one batch at a time. Orders left pending (transfer proofs awaiting
+ * verification, Midtrans payments still settling) stay stale, so paging past them keeps them
+ * from filling every batch and starving newer orders.
+ */
+async function* staleOrders() {
+	let cursor: StaleOrderCursor | null = null;
+	for (;;) {
+		const batch = await findStaleOrders(cursor);
+		yield* batch;
+
+		const last = batch[batch.length - 1];
+		if (batch.length < batchSize() || !last?.createdAt) return;
+		cursor = { createdAt: last.createdAt, id: last.id };
+	}
+}
+
+/**
+ * Ask the payment provider about every stale pending order and settle it: expired, failed or
+ * cancelled payments end the order (releasing its stock reservation and voucher use), payments
+ * that did settle are marked paid and shipped, and Midtrans transactions still pending are
+ * cancelled at Midtrans first so they can no longer be paid.
+ */
+export async function expireStalePayments(context: JobContext): Promise<PaymentExpirySummary> {
+	const summary: PaymentExpirySummary = {
+		checked: 0,
+		expired: 0,
+		failed: 0,
+		cancelled: 0,
+		paid: 0,
+		skipped: 0,
+		errors: 0
+	};
+
+	for await (const order of staleOrders()) {
+		summary.checked++;
+		const provider = getPaymentProvider(order.paymentMethod);
+
+		try {
+			const payment = await provider.getStatus(order);
+			const resolution = resolveStalePayment(order.paymentMethod, payment);
+			const details = {
+				order: order.orderNumber,
+				method: order.paymentMethod,
+				providerStatus: payment.providerStatus,
+				reason: resolution.reason
+			};
+
+			if (!resolution.status) {
+				summary.skipped++;
+				context.log('Left pending', details);
+				continue;
+			}
+
+			if (context.dryRun) {
+				summary[resolution.status]++;
+				context.log(`Would mark ${resolution.status}`, details);
+				continue;
+			}
+
+			if (resolution.cancelPayment) {
+				await provider.cancel(order);
+			}
+
+			await transitionOrderStatus(order.id, resolution.status, {
+				actor: SWEEPER_ACTOR,
+				reason: resolution.reason,
+				// Built from the locked row: a notification may have updated it since the lookup
+				metadata: (current) => ({
+					payment: {
+						...current.payment,
+						provider_status: payment.providerStatus,
+						updated_at: new Date().toISOString(),
+						updated_by: SWEEPER_ACTOR.id
+					}
+				})
+			});
+			summary[resolution.status]++;
+			context.log(`Marked ${resolution.status}`, details);
+
+			if (resolution.status === 'paid') {
+				await createShipmentForPaidOrder(order.id, SWEEPER_ACTOR);
+			}
+		} catch (err: any) {
+			// A notification or admin changed the order between the lookup and the transition
+			if (err?.status === 409) {
+				summary.skipped++;
+				context.log('Changed by someone else, skipped', { order: order.orderNumber });
+				continue;
+			}
+			summary.errors++;
+			console.error(`[job:expire-payments] Failed to settle ${order.orderNumber}:`, err);
+		}
+	}
+
+	return summary;
+}
+
+export const expirePaymentsJob: Job = {
+	name: 'expire-payments',
+	description: 'Expire pending orders whose payment window has run out',
+	intervalMinutes: () => Number(process.env.PAYMENT_EXPIRY_INTERVAL_MINUTES) || 15,
+	run: async (context) => ({ ...(await expireStalePayments(context)) })
+};
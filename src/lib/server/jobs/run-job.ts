@@ -0,0 +1,27 @@
+// Run a background job once from the command line, e.g. from cron or while debugging:
+//   pnpm jobs:run expire-payments [--dry-run]
+//   pnpm jobs:run --list
+import { listJobs, runJob } from './index';
+
+async function main() {
+	const args = process.argv.slice(2);
+	const name = args.find((arg) => !arg.startsWith('--'));
+
+	if (!name || args.includes('--list')) {
+		console.log('Available jobs:');
+		for (const job of listJobs()) {
+			console.log(`  ${job.name} - ${job.description}`);
+		}
+		return args.includes('--list') ? 0 : 1;
+	}
+
+	const result = await runJob(name, { dryRun: args.includes('--dry-run') });
+	return result.error ? 1 : 0;
+}
+
+main()
+	.then((code) => process.exit(code))
+	.catch((err) => {
+		console.error(err.message || err);
+		process.exit(1);
+	});
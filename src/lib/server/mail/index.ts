@@ -0,0 +1,60 @@
+import 'dotenv/config';
+import { createOutboxTransport } from './outbox';
+import { createSmtpTransport } from './smtp';
+import type { MailMessage, MailTransport } from './message';
+
+export type { MailMessage, MailTransport } from './message';
+export { SmtpError } from './smtp';
+
+/**
+ * Outgoing mail. MAIL_TRANSPORT=smtp sends through SMTP_HOST; the default "outbox" keeps mail
+ * local (console and MAIL_OUTBOX_DIR) so development and tests never reach real inboxes.
+ */
+export const MAIL_TRANSPORTS = ['outbox', 'smtp'] as const;
+export type MailTransportName = (typeof MAIL_TRANSPORTS)[number];
+
+const DEFAULT_FROM = 'Toko Online <no-reply@localhost>';
+const DEFAULT_OUTBOX_DIR = '.mail-outbox';
+
+function isMailTransportName(value: unknown): value is MailTransportName {
+	return typeof value === 'string' && (MAIL_TRANSPORTS as readonly string[]).includes(value);
+}
+
+export function createMailTransportFromEnv(env: NodeJS.ProcessEnv = process.env): MailTransport {
+	const name = (env.MAIL_TRANSPORT || 'outbox').toLowerCase();
+	if (!isMailTransportName(name)) {
+		throw new Error(`Unknown MAIL_TRANSPORT "${name}"; use one of ${MAIL_TRANSPORTS.join(', ')}`);
+	}
+	const from = env.MAIL_FROM || DEFAULT_FROM;
+
+	if (name === 'smtp') {
+		if (!env.SMTP_HOST) {
+			throw new Error('MAIL_TRANSPORT=smtp needs SMTP_HOST');
+		}
+		const secure = env.SMTP_SECURE === 'true';
+		return createSmtpTransport({
+			host: env.SMTP_HOST,
+			port: Number(env.SMTP_PORT) || (secure ? 465 : 587),
+			secure,
+			requireTls: env.SMTP_REQUIRE_TLS !== 'false',
+			user: env.SMTP_USER || null,
+			password: env.SMTP_PASSWORD || null,
+			from
+		});
+	}
+
+	// An empty MAIL_OUTBOX_DIR turns file output off
+	const directory = env.MAIL_OUTBOX_DIR ?? DEFAULT_OUTBOX_DIR;
+	return createOutboxTransport({ directory: directory || null, from });
+}
+
+let transport: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+	transport ??= createMailTransportFromEnv();
+	return transport;
+}
+
+export function sendMail(message: MailMessage): Promise<void> {
+	return getMailTransport().send(message);
+}
@@ -0,0 +1,99 @@
+import { randomBytes } from 'node:crypto';
+
+export interface MailMessage {
+	to: string;
+	subject: string;
+	text: string;
+	/** Optional HTML alternative; mail clients fall back to text */
+	html?: string;
+}
+
+export interface MailTransport {
+	readonly name: string;
+	/** Resolves once the message is handed over; rejects when it could not be */
+	send(message: MailMessage): Promise<void>;
+}
+
+export interface MimeOptions {
+	from: string;
+	date?: Date;
+	messageId?: string;
+}
+
+// Header values must stay on one line, or a crafted name could add headers
+function headerValue(value: string): string {
+	return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+/** RFC 2047 encoded-word for headers that are not plain ASCII */
+function encodeHeader(value: string): string {
+	const clean = headerValue(value);
+	if (/^[\x20-\x7e]*$/.test(clean)) return clean;
+	return `=?UTF-8?B?${Buffer.from(clean, 'utf8').toString('base64')}?=`;
+}
+
+/** Display names may need encoding; the address itself stays as is */
+function encodeAddress(value: string): string {
+	const match = /^(.*?)\s*<([^>]+)>$/.exec(headerValue(value));
+	if (!match || !match[1]) return headerValue(value);
+	const name = match[1].replace(/^"|"$/g, '');
+	const encoded = encodeHeader(name);
+	return `${encoded === name ? `"${name.replace(/"/g, '')}"` : encoded} <${match[2]}>`;
+}
+
+/** The bare address from "Name <address>" */
+export function mailAddress(value: string): string {
+	const match = /<([^>]+)>/.exec(value);
+	return (match ? match[1] : value).trim();
+}
+
+function base64Body(content: string): string {
+	const encoded = Buffer.from(content.replace(/\r?\n/g, '\r\n'), 'utf8').toString('base64');
+	return encoded.replace(/.{1,76}/g, '$&\r\n');
+}
+
+function textPart(content: string, subtype: 'plain' | 'html'): string[] {
+	return [
+		`Content-Type: text/${subtype}; charset=utf-8`,
+		'Content-Transfer-Encoding: base64',
+		'',
+		base64Body(content)
+	];
+}
+
+/**
+ * An RFC 5322 message with CRLF line endings. Bodies are base64 encoded so any text, line
+ * length or leading dot survives every transport unchanged.
+ */
+export function buildMimeMessage(message: MailMessage, options: MimeOptions): string {
+	const from = mailAddress(options.from);
+	const domain = from.includes('@') ? from.split('@')[1] : 'localhost';
+	const headers = [
+		`From: ${encodeAddress(options.from)}`,
+		`To: ${encodeAddress(message.to)}`,
+		`Subject: ${encodeHeader(message.subject)}`,
+		`Date: ${(options.date ?? new Date()).toUTCString()}`,
+		`Message-ID: ${options.messageId ?? `<${randomBytes(12).toString('hex')}@${domain}>`}`,
+		'MIME-Version: 1.0'
+	];
+
+	let body: string[];
+	if (message.html) {
+		const boundary = `=_${randomBytes(12).toString('hex')}`;
+		headers.push(`Content-Type: multipart/alternative; boundary="${boundary}"`);
+		body = [
+			`--${boundary}`,
+			...textPart(message.text, 'plain'),
+			`--${boundary}`,
+			...textPart(message.html, 'html'),
+			`--${boundary}--`,
+			''
+		];
+	} else {
+		const [contentType, encoding, , content] = textPart(message.text, 'plain');
+		headers.push(contentType, encoding);
+		body = [content];
+	}
+
+	return [...headers, '', ...body].join('\r\n');
+}
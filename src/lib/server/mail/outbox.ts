@@ -0,0 +1,46 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { buildMimeMessage, type MailMessage, type MailTransport } from './message';
+
+/**
+ * Development transport: nothing leaves the machine. Each message is printed to the console
+ * (so links can be clicked from the server log) and, when a directory is set, saved there as
+ * an .eml file that any mail client opens.
+ */
+export interface OutboxConfig {
+	/** Where .eml files go; null prints to the console only */
+	directory: string | null;
+	from: string;
+	log?: (line: string) => void;
+}
+
+function fileName(message: MailMessage, date: Date): string {
+	const stamp = date.toISOString().replace(/[:.]/g, '-');
+	const recipient = message.to.replace(/[^a-z0-9@._-]+/gi, '_').slice(0, 60);
+	return `${stamp}-${recipient}.eml`;
+}
+
+export function createOutboxTransport(config: OutboxConfig): MailTransport {
+	const log = config.log ?? ((line: string) => console.log(line));
+
+	return {
+		name: 'outbox',
+		async send(message) {
+			const date = new Date();
+			let saved = '';
+			if (config.directory) {
+				await mkdir(config.directory, { recursive: true });
+				const file = path.join(config.directory, fileName(message, date));
+				await writeFile(file, buildMimeMessage(message, { from: config.from, date }));
+				saved = ` (saved to ${file})`;
+			}
+			log(
+				[
+					`[mail] To: ${message.to}${saved}`,
+					`[mail] Subject: ${message.subject}`,
+					message.text
+				].join('\n')
+			);
+		}
+	};
+}
@@ -0,0 +1,243 @@
+import net from 'node:net';
+import tls from 'node:tls';
+import { buildMimeMessage, mailAddress, type MailMessage, type MailTransport } from './message';
+
+/**
+ * A small SMTP client (RFC 5321) for sending one message per connection: implicit TLS or
+ * STARTTLS, AUTH PLAIN/LOGIN, no third-party library. Enough for a transactional relay such
+ * as a mail provider's SMTP endpoint; there is no pooling or retry.
+ */
+
+export interface SmtpConfig {
+	host: string;
+	port: number;
+	/** TLS from the first byte (usually port 465); otherwise STARTTLS when offered */
+	secure: boolean;
+	/** Refuse to send over a connection that could not be upgraded to TLS */
+	requireTls?: boolean;
+	user?: string | null;
+	password?: string | null;
+	from: string;
+	/** Name sent with EHLO */
+	clientName?: string;
+	timeoutMs?: number;
+	/** Passed to tls.connect, e.g. to accept a self-signed certificate in development */
+	tlsOptions?: tls.ConnectionOptions;
+}
+
+interface SmtpResponse {
+	code: number;
+	lines: string[];
+}
+
+export class SmtpError extends Error {
+	constructor(
+		message: string,
+		public readonly code: number | null = null
+	) {
+		super(message);
+		this.name = 'SmtpError';
+	}
+}
+
+const DEFAULT_TIMEOUT_MS = 15 * 1000;
+
+/** Reads whole (possibly multi-line) replies off a socket that may be swapped for TLS */
+class ReplyReader {
+	private buffer = '';
+	private waiting: { resolve: (reply: SmtpResponse) => void; reject: (err: Error) => void } | null =
+		null;
+	private failure: Error | null = null;
+	private socket: net.Socket | null = null;
+
+	private readonly onData = (chunk: Buffer) => {
+		this.buffer += chunk.toString('utf8');
+		this.flush();
+	};
+
+	private readonly onError = (err: Error) => this.fail(err);
+
+	private readonly onClose = () => this.fail(new SmtpError('Connection closed by server'));
+
+	attach(socket: net.Socket) {
+		this.detach();
+		this.socket = socket;
+		socket.on('data', this.onData);
+		socket.on('error', this.onError);
+		socket.on('close', this.onClose);
+	}
+
+	detach() {
+		if (!this.socket) return;
+		this.socket.off('data', this.onData);
+		this.socket.off('error', this.onError);
+		this.socket.off('close', this.onClose);
+		this.socket = null;
+	}
+
+	read(): Promise<SmtpResponse> {
+		if (this.failure) return Promise.reject(this.failure);
+		return new Promise((resolve, reject) => {
+			this.waiting = { resolve, reject };
+			this.flush();
+		});
+	}
+
+	fail(err: Error) {
+		this.failure ??= err;
+		const waiting = this.waiting;
+		this.waiting = null;
+		waiting?.reject(this.failure);
+	}
+
+	private flush() {
+		if (!this.waiting) return;
+		const lines: string[] = [];
+		let offset = 0;
+		for (;;) {
+			const end = this.buffer.indexOf('\r\n', offset);
+			if (end === -1) return;
+			const line = this.buffer.slice(offset, end);
+			lines.push(line);
+			offset = end + 2;
+			// "250-..." continues the reply, "250 ..." ends it
+			if (/^\d{3}(?: |$)/.test(line)) break;
+		}
+		this.buffer = this.buffer.slice(offset);
+		const waiting = this.waiting;
+		this.waiting = null;
+		waiting.resolve({
+			code: Number(lines[lines.length - 1].slice(0, 3)),
+			lines: lines.map((line) => line.slice(4))
+		});
+	}
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+	return new Promise((resolve, reject) => {
+		const socket = config.secure
+			? tls.connect({
+					host: config.host,
+					port: config.port,
+					servername: config.host,
+					...config.tlsOptions
+				})
+			: net.connect({ host: config.host, port: config.port });
+		const ready = config.secure ? 'secureConnect' : 'connect';
+		socket.once(ready, () => {
+			socket.off('error', reject);
+			resolve(socket);
+		});
+		socket.once('error', reject);
+	});
+}
+
+function upgradeToTls(socket: net.Socket, config: SmtpConfig): Promise<tls.TLSSocket> {
+	return new Promise((resolve, reject) => {
+		const secured = tls.connect({
+			socket,
+			servername: config.host,
+			...config.tlsOptions
+		});
+		secured.once('secureConnect', () => {
+			secured.off('error', reject);
+			resolve(secured);
+		});
+		secured.once('error', reject);
+	});
+}
+
+// Lines starting with a dot get another one, so the message cannot end the DATA section early
+function dotStuff(message: string): string {
+	return message.replace(/(^|\r\n)\./g, '$1..');
+}
+
+/** Deliver one message; throws SmtpError with the server's reply code when it is refused */
+export async function sendSmtpMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+	const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+	const reader = new ReplyReader();
+	let socket = await connect(config);
+	let secure = config.secure;
+
+	const onTimeout = () => {
+		reader.fail(new SmtpError(`SMTP server did not answer within ${timeoutMs}ms`));
+		socket.destroy();
+	};
+	const watch = (target: net.Socket) => {
+		target.setTimeout(timeoutMs, onTimeout);
+		reader.attach(target);
+	};
+	watch(socket);
+
+	// label names the step in errors, so credentials and message data are never echoed
+	const expect = async (
+		accepted: number[],
+		command: string | null,
+		label = command?.split(' ')[0] || 'greeting'
+	) => {
+		if (command !== null) socket.write(`${command}\r\n`);
+		const reply = await reader.read();
+		if (!accepted.includes(reply.code)) {
+			throw new SmtpError(
+				`SMTP ${label} failed: ${reply.code} ${reply.lines.join(' ')}`,
+				reply.code
+			);
+		}
+		return reply;
+	};
+
+	const hello = async () => {
+		const reply = await expect([250], `EHLO ${config.clientName || 'localhost'}`);
+		return reply.lines.slice(1).map((line) => line.toUpperCase());
+	};
+
+	try {
+		await expect([220], null);
+		let extensions = await hello();
+
+		if (!secure && extensions.includes('STARTTLS')) {
+			await expect([220], 'STARTTLS');
+			reader.detach();
+			socket.setTimeout(0);
+			// Errors on the raw socket resurface on the TLS socket wrapping it
+			socket.on('error', () => {});
+			socket = await upgradeToTls(socket, config);
+			secure = true;
+			watch(socket);
+			extensions = await hello();
+		}
+		if (!secure && config.requireTls) {
+			throw new SmtpError('SMTP server does not offer STARTTLS');
+		}
+
+		if (config.user) {
+			const auth = extensions.find((line) => line.startsWith('AUTH')) || '';
+			const password = config.password || '';
+			if (auth.includes('PLAIN') || !auth.includes('LOGIN')) {
+				const credentials = Buffer.from(`\0${config.user}\0${password}`).toString('base64');
+				await expect([235], `AUTH PLAIN ${credentials}`, 'AUTH');
+			} else {
+				await expect([334], 'AUTH LOGIN');
+				await expect([334], Buffer.from(config.user).toString('base64'), 'AUTH');
+				await expect([235], Buffer.from(password).toString('base64'), 'AUTH');
+			}
+		}
+
+		await expect([250], `MAIL FROM:<${mailAddress(config.from)}>`);
+		await expect([250, 251], `RCPT TO:<${mailAddress(message.to)}>`);
+		await expect([354], 'DATA');
+		const data = dotStuff(buildMimeMessage(message, { from: config.from })).replace(/(\r\n)+$/, '');
+		await expect([250], `${data}\r\n.`, 'DATA');
+		await expect([221], 'QUIT').catch(() => {});
+	} finally {
+		reader.detach();
+		socket.destroy();
+	}
+}
+
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+	return {
+		name: 'smtp',
+		send: (message) => sendSmtpMail(config, message)
+	};
+}
@@ -0,0 +1,91 @@
+import 'dotenv/config';
+import type { MailMessage } from './message';
+
+// Account emails. Every message has a plain-text body; the HTML part is the same content
+
+function storeName(): string {
+	return process.env.STORE_NAME || 'Toko Online Anda';
+}
+
+function escapeHtml(value: string): string {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
+
+interface ActionEmail {
+	to: string;
+	subject: string;
+	greetingName: string;
+	intro: string;
+	actionLabel: string;
+	link: string;
+	outro: string;
+}
+
+function actionEmail(email: ActionEmail): MailMessage {
+	const store = storeName();
+	const text = [
+		`Halo ${email.greetingName},`,
+		'',
+		email.intro,
+		'',
+		email.link,
+		'',
+		email.outro,
+		'',
+		'Salam,',
+		store
+	].join('\n');
+
+	const html = `<!doctype html>
+<html lang="id">
+<body style="font-family: Arial, sans-serif; color: #1f2937; line-height: 1.5">
+<p>Halo ${escapeHtml(email.greetingName)},</p>
+<p>${escapeHtml(email.intro)}</p>
+<p><a href="${escapeHtml(email.link)}" style="display: inline-block; padding: 10px 18px; background: #2563eb; color: #ffffff; border-radius: 6px; text-decoration: none">${escapeHtml(email.actionLabel)}</a></p>
+<p style="font-size: 13px; color: #6b7280">Jika tombol tidak bisa diklik, salin tautan ini ke browser:<br>${escapeHtml(email.link)}</p>
+<p>${escapeHtml(email.outro)}</p>
+<p>Salam,<br>${escapeHtml(store)}</p>
+</body>
+</html>`;
+
+	return { to: email.to, subject: email.subject, text, html };
+}
+
+export function verificationEmail(
+	user: { name: string; email: string },
+	link: string,
+	ttlHours: number
+) {
+	return actionEmail({
+		to: `${user.name} <${user.email}>`,
+		subject: `Verifikasi email Anda di ${storeName()}`,
+		greetingName: user.name,
+		intro:
+			'Terima kasih sudah mendaftar. Klik tautan di bawah ini untuk memverifikasi alamat email Anda:',
+		actionLabel: 'Verifikasi Email',
+		link,
+		outro: `Tautan berlaku ${ttlHours} jam. Abaikan email ini jika Anda tidak merasa mendaftar.`
+	});
+}
+
+export function passwordResetEmail(
+	user: { name: string; email: string },
+	link: string,
+	ttlMinutes: number
+) {
+	return actionEmail({
+		to: `${user.name} <${user.email}>`,
+		subject: `Atur ulang password ${storeName()}`,
+		greetingName: user.name,
+		intro:
+			'Kami menerima permintaan untuk mengatur ulang password akun Anda. Klik tautan di bawah ini untuk membuat password baru:',
+		actionLabel: 'Atur Ulang Password',
+		link,
+		outro: `Tautan berlaku ${ttlMinutes} menit dan hanya bisa dipakai sekali. Abaikan email ini jika Anda tidak memintanya; password Anda tidak berubah.`
+	});
+}
@@ -0,0 +1,101 @@
+import crypto from 'crypto';
+import 'dotenv/config';
+
+export interface MidtransNotification {
+	transaction_id: string;
+	transaction_status: string;
+	transaction_time?: string;
+	fraud_status?: string;
+	status_code: string;
+	status_message?: string;
+	signature_key: string;
+	order_id: string;
+	gross_amount: string;
+	payment_type?: string;
+	settlement_time?: string;
+	[key: string]: any;
+}
+
+export type MidtransOrderStatus =
+	| 'pending'
+	| 'paid'
+	| 'cancelled'
+	| 'failed'
+	| 'expired'
+	| 'refunded';
+
+/**
+ * The signature_key Midtrans attaches to every HTTP notification:
+ * SHA512(order_id + status_code + gross_amount + server key)
+ */
+export function signNotification(orderId: string, statusCode: string, grossAmount: string): string {
+	// Read per call so tests and the Snap simulator can set the key after this module loaded
+	const serverKey = process.env.MIDTRANS_SERVER_KEY!;
+	return crypto
+		.createHash('sha512')
+		.update(`${orderId}${statusCode}${grossAmount}${serverKey}`)
+		.digest('hex');
+}
+
+/**
+ * Verify the signature_key of an HTTP notification
+ */
+export function verifyNotificationSignature(notification: MidtransNotification): boolean {
+	const { order_id, status_code, gross_amount, signature_key } = notification;
+
+	if (!order_id || !status_code || !gross_amount || typeof signature_key !== 'string') {
+		return false;
+	}
+
+	const expectedSignature = signNotification(order_id, status_code, gross_amount);
+
+	if (signature_key.length !== expectedSignature.length) {
+		return false;
+	}
+
+	return crypto.timingSafeEqual(Buffer.from(signature_key), Buffer.from(expectedSignature));
+}
+
+/**
+ * Map Midtrans transaction_status/fraud_status to an order status.
+ * Returns null for notifications that should be recorded without changing the order status.
+ */
+export function mapTransactionStatus(
+	transactionStatus: string,
+	fraudStatus?: string
+): MidtransOrderStatus | null {
+	switch (transactionStatus) {
+		case 'capture':
+			// Card payments: "challenge" waits for manual review in the Midtrans dashboard
+			if (fraudStatus === 'challenge') return 'pending';
+			if (fraudStatus === 'deny') return 'failed';
+			return 'paid';
+		case 'settlement':
+			return 'paid';
+		case 'pending':
+			return 'pending';
+		case 'deny':
+		case 'failure':
+			return 'failed';
+		case 'expire':
+			return 'expired';
+		case 'cancel':
+			return 'cancelled';
+		case 'refund':
+			return 'refunded';
+		default:
+			// partial_refund, chargeback, authorize, ...
+			return null;
+	}
+}
+
+/**
+ * Unique key for a notification, used to skip duplicate deliveries
+ */
+export function getNotificationKey(notification: MidtransNotification): string {
+	return [
+		notification.transaction_id,
+		notification.transaction_status,
+		notification.fraud_status || '-'
+	].join(':');
+}
@@ -0,0 +1,329 @@
+import { db } from '$lib/server/db';
+import {
+	orders,
+	orderItems,
+	orderShipments,
+	orderStatusHistory,
+	warehouses
+} from '$lib/server/db/schema';
+import { createBiteshipOrder } from '$lib/server/biteship-utils';
+import { releaseStock, commitStock } from '$lib/server/inventory';
+import { releaseVoucher } from '$lib/server/vouchers';
+import { eq, asc } from 'drizzle-orm';
+import { error } from '@sveltejs/kit';
+
+export const ORDER_STATUSES = [
+	'pending',
+	'paid',
+	'processing',
+	'shipped',
+	'delivered',
+	'cancelled',
+	'failed',
+	'expired',
+	'refunded'
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+export type OrderActorType = 'customer' | 'admin' | 'system' | 'midtrans' | 'biteship';
+
+export interface OrderActor {
+	type: OrderActorType;
+	id?: string | number | null;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | Transaction;
+
+/**
+ * Legal order status transitions.
+ * pending -> paid -> processing -> shipped -> delivered is the happy path;
+ * refunds are only reachable once money has been taken.
+ */
+const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+	pending: ['paid', 'cancelled', 'failed', 'expired'],
+	paid: ['processing', 'cancelled', 'refunded'],
+	processing: ['shipped', 'cancelled', 'refunded'],
+	shipped: ['delivered', 'failed'],
+	delivered: ['refunded'],
+	cancelled: ['refunded'],
+	failed: ['refunded'],
+	expired: [],
+	refunded: []
+};
+
+// Cash on delivery orders ship before they are paid; the courier collects the money on delivery
+const CASH_ON_DELIVERY_TRANSITIONS: Partial<Record<OrderStatus, OrderStatus[]>> = {
+	pending: ['processing', 'cancelled', 'failed', 'expired']
+};
+
+// Goods have not left the warehouse in these statuses, so ending the order returns its stock
+// and voucher use
+const STOCK_HOLDING_STATUSES: OrderStatus[] = ['pending', 'paid', 'processing'];
+const STOCK_RELEASING_STATUSES: OrderStatus[] = ['cancelled', 'failed', 'expired', 'refunded'];
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+	return typeof value === 'string' && (ORDER_STATUSES as readonly string[]).includes(value);
+}
+
+export function getAllowedTransitions(
+	from: string | null | undefined,
+	paymentMethod?: string | null
+): OrderStatus[] {
+	if (!isOrderStatus(from)) return [];
+	return (paymentMethod === 'cod' && CASH_ON_DELIVERY_TRANSITIONS[from]) || ORDER_TRANSITIONS[from];
+}
+
+export function canTransition(
+	from: string | null | undefined,
+	to: string,
+	paymentMethod?: string | null
+): boolean {
+	return isOrderStatus(to) && getAllowedTransitions(from, paymentMethod).includes(to);
+}
+
+/**
+ * Orders whose shipment can be booked: paid ones, and cash on delivery ones straight away
+ */
+export function isReadyToShip(order: { status: string | null; paymentMethod: string }): boolean {
+	return order.status === 'paid' || (order.paymentMethod === 'cod' && order.status === 'pending');
+}
+
+/**
+ * Insert a status history row. Used directly only for the initial status of a new order;
+ * every later change goes through transitionOrderStatus.
+ */
+export async function recordStatusChange(
+	executor: Executor,
+	entry: {
+		orderId: string;
+		from: string | null;
+		to: OrderStatus;
+		actor: OrderActor;
+		reason?: string | null;
+	}
+) {
+	await executor.insert(orderStatusHistory).values({
+		orderId: entry.orderId,
+		fromStatus: entry.from,
+		toStatus: entry.to,
+		actorType: entry.actor.type,
+		actorId: entry.actor.id != null ? String(entry.actor.id) : null,
+		reason: entry.reason ? entry.reason.substring(0, 255) : null
+	});
+}
+
+/**
+ * Move an order to a new status, enforcing ORDER_TRANSITIONS and recording the change.
+ * The order row is locked for the duration of the transaction so concurrent callers
+ * (webhooks, admin actions, tracking refreshes) are serialized.
+ * Stock reservations and voucher uses follow the order: committed when it is paid, released
+ * when it ends before shipping. Throws 404 for unknown orders and 409 for illegal transitions.
+ * `metadata` is merged into the order's metadata; pass a function to build it from the
+ * metadata read under the lock, so concurrent payment notifications are not overwritten.
+ */
+export async function transitionOrderStatus(
+	orderId: string,
+	to: OrderStatus,
+	options: {
+		actor: OrderActor;
+		reason?: string | null;
+		metadata?: Record<string, any> | ((metadata: Record<string, any>) => Record<string, any>);
+		tx?: Transaction;
+	}
+) {
+	const run = async (tx: Executor) => {
+		const [order] = await tx
+			.select()
+			.from(orders)
+			.where(eq(orders.id, orderId))
+			.limit(1)
+			.for('update');
+
+		if (!order) {
+			throw error(404, 'Order not found');
+		}
+
+		const from = order.status;
+		if (!canTransition(from, to, order.paymentMethod)) {
+			throw error(409, `Cannot change order status from '${from}' to '${to}'`);
+		}
+
+		const updateData: any = { status: to };
+		if (options.metadata) {
+			const metadata = JSON.parse(order.metadata || '{}');
+			const patch =
+				typeof options.metadata === 'function' ? options.metadata(metadata) : options.metadata;
+			updateData.metadata = JSON.stringify({ ...metadata, ...patch });
+		}
+
+		await tx.update(orders).set(updateData).where(eq(orders.id, orderId));
+
+		// Cash on delivery orders commit their stock when they ship instead
+		if (to === 'paid' || (from === 'pending' && to === 'processing')) {
+			await commitStock(tx, orderId);
+		} else if (
+			STOCK_RELEASING_STATUSES.includes(to) &&
+			STOCK_HOLDING_STATUSES.includes(from as OrderStatus)
+		) {
+			await releaseStock(tx, orderId);
+			await releaseVoucher(tx, orderId);
+		}
+
+		await recordStatusChange(tx, {
+			orderId,
+			from,
+			to,
+			actor: options.actor,
+			reason: options.reason
+		});
+
+		return { order: { ...order, ...updateData }, from, to };
+	};
+
+	return options.tx ? run(options.tx) : db.transaction(run);
+}
+
+/**
+ * Rewrite metadata.payment with the order row locked, for payment changes that leave the
+ * status alone (proof uploads, rejected transfers). `update` may throw to abort.
+ */
+export async function updatePaymentMetadata(
+	orderId: string,
+	update: (payment: Record<string, any>, order: typeof orders.$inferSelect) => Record<string, any>
+) {
+	return db.transaction(async (tx) => {
+		const [order] = await tx
+			.select()
+			.from(orders)
+			.where(eq(orders.id, orderId))
+			.limit(1)
+			.for('update');
+
+		if (!order) {
+			throw error(404, 'Order not found');
+		}
+
+		const metadata = JSON.parse(order.metadata || '{}');
+		const payment = update(metadata.payment || {}, order);
+		await tx
+			.update(orders)
+			.set({ metadata: JSON.stringify({ ...metadata, payment }) })
+			.where(eq(orders.id, orderId));
+		return payment;
+	});
+}
+
+/**
+ * Create the Biteship shipment(s) for a paid (or cash on delivery) order and move it to
+ * processing.
+ * Orders split over several warehouses get one Biteship order per warehouse; packages that
+ * already have one are skipped, so a partial failure can be retried.
+ * Failures are logged and leave the order where it was so the shipment can be retried.
+ */
+export async function createShipmentForPaidOrder(orderId: string, actor: OrderActor) {
+	try {
+		const [order] = await db.select().from(orders).where(eq(orders.id, orderId)).limit(1);
+		if (!order || !isReadyToShip(order)) return null;
+
+		const items = await db.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+		const shipments = await db
+			.select({ shipment: orderShipments, warehouse: warehouses })
+			.from(orderShipments)
+			.innerJoin(warehouses, eq(warehouses.id, orderShipments.warehouseId))
+			.where(eq(orderShipments.orderId, orderId))
+			.orderBy(asc(orderShipments.id));
+
+		// Orders placed before warehouses existed ship from the order's own origin
+		if (shipments.length === 0) {
+			const biteshipData = await createBiteshipOrder({ ...order, items });
+			await markOrderProcessing(orderId, actor, biteshipData, []);
+			return biteshipData;
+		}
+
+		const created: any[] = [];
+		for (const [index, { shipment, warehouse }] of shipments.entries()) {
+			if (shipment.biteshipOrderId) {
+				created.push(
+					JSON.parse(shipment.metadata || '{}').biteship_order || { id: shipment.biteshipOrderId }
+				);
+				continue;
+			}
+
+			const biteshipData = await createBiteshipOrder({
+				...order,
+				items: items.filter((item) => item.shipmentId === shipment.id),
+				referenceId: shipments.length > 1 ? `${order.orderNumber}-${index + 1}` : order.orderNumber,
+				shipperName: warehouse.contactName,
+				shipperPhone: warehouse.phone,
+				originAddress: warehouse.address,
+				originNote: warehouse.note,
+				originPostal: shipment.originPostal,
+				courierInsurance: shipment.courierInsurance
+			});
+
+			await db
+				.update(orderShipments)
+				.set({
+					biteshipOrderId: biteshipData.id,
+					waybillId: biteshipData.courier?.waybill_id || null,
+					metadata: JSON.stringify({
+						...JSON.parse(shipment.metadata || '{}'),
+						biteship_order: biteshipData
+					})
+				})
+				.where(eq(orderShipments.id, shipment.id));
+			created.push(biteshipData);
+		}
+
+		const summary = shipments.map(({ shipment, warehouse }, index) => ({
+			shipment_id: shipment.id,
+			warehouse: warehouse.code,
+			biteship_order_id: created[index].id,
+			waybill_id: created[index].courier?.waybill_id || null
+		}));
+		await markOrderProcessing(orderId, actor, created[0], summary);
+
+		console.log(
+			'Shipping orders created successfully:',
+			summary.map((entry) => entry.biteship_order_id)
+		);
+		return created[0];
+	} catch (shippingErr) {
+		console.error('Error creating shipping order:', shippingErr);
+		return null;
+	}
+}
+
+// metadata.shipping keeps the first package's Biteship order for tracking and order pages
+async function markOrderProcessing(
+	orderId: string,
+	actor: OrderActor,
+	biteshipData: any,
+	shipments: Record<string, unknown>[]
+) {
+	await transitionOrderStatus(orderId, 'processing', {
+		actor,
+		reason:
+			shipments.length > 1
+				? `Shipping orders created (${shipments.length} packages)`
+				: 'Shipping order created',
+		metadata: {
+			shipping: {
+				...biteshipData,
+				...(shipments.length > 0 && { shipments }),
+				created_at: new Date().toISOString(),
+				created_by: actor.id ?? actor.type
+			}
+		}
+	});
+}
+
+export async function getOrderStatusHistory(orderId: string) {
+	return db
+		.select()
+		.from(orderStatusHistory)
+		.where(eq(orderStatusHistory.orderId, orderId))
+		.orderBy(asc(orderStatusHistory.createdAt), asc(orderStatusHistory.id));
+}
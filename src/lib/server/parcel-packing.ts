@@ -0,0 +1,256 @@
+import 'dotenv/config';
+
+/**
+ * Parcel packing for shipping quotes: stacks cart items into boxes from a catalogue,
+ * splits into several parcels when a box would be too full or too heavy, and reports the
+ * volumetric weight couriers charge for.
+ *
+ * Dimensions are in cm, weights in grams, values in rupiah.
+ */
+
+export interface PackingItem {
+	weight: number;
+	height: number;
+	length: number;
+	width: number;
+	quantity: number;
+	value?: number;
+}
+
+export interface Box {
+	name: string;
+	length: number;
+	width: number;
+	height: number;
+	/** Heaviest content the box may carry */
+	maxWeight: number;
+}
+
+export interface Parcel {
+	/** Box used, or null for an item too large for every box (shipped in its own packaging) */
+	box: string | null;
+	length: number;
+	width: number;
+	height: number;
+	weight: number;
+	volumetricWeight: number;
+	/** What the courier bills: the larger of actual and volumetric weight */
+	chargeableWeight: number;
+	value: number;
+	units: number;
+}
+
+export interface PackingResult {
+	parcels: Parcel[];
+	weight: number;
+	chargeableWeight: number;
+	value: number;
+}
+
+export interface PackingOptions {
+	boxes?: Box[];
+	/** Volumetric divisor (cm³ per kg); defaults to the divisor of `courier` */
+	divisor?: number;
+	courier?: string;
+}
+
+export const DEFAULT_BOXES: Box[] = [
+	{ name: 'S', length: 20, width: 15, height: 8, maxWeight: 3000 },
+	{ name: 'M', length: 30, width: 20, height: 15, maxWeight: 10000 },
+	{ name: 'L', length: 40, width: 30, height: 20, maxWeight: 20000 },
+	{ name: 'XL', length: 60, width: 40, height: 40, maxWeight: 30000 }
+];
+
+export const DEFAULT_VOLUMETRIC_DIVISOR = 6000;
+
+interface Unit {
+	// Sorted so that height is the smallest side: items are laid flat before stacking
+	length: number;
+	width: number;
+	height: number;
+	weight: number;
+	value: number;
+}
+
+interface OpenParcel {
+	length: number;
+	width: number;
+	height: number;
+	weight: number;
+	value: number;
+	units: number;
+}
+
+function parseBoxes(raw: string | undefined): Box[] {
+	if (!raw) return DEFAULT_BOXES;
+
+	try {
+		const boxes = JSON.parse(raw);
+		const valid =
+			Array.isArray(boxes) &&
+			boxes.length > 0 &&
+			boxes.every(
+				(box) =>
+					typeof box?.name === 'string' &&
+					['length', 'width', 'height', 'maxWeight'].every(
+						(field) => Number.isFinite(box[field]) && box[field] > 0
+					)
+			);
+		if (valid) return boxes;
+	} catch {
+		// fall through to the defaults
+	}
+	console.warn('PACKING_BOXES is not a valid box list, using the default boxes');
+	return DEFAULT_BOXES;
+}
+
+/**
+ * Parse "jne:6000,rpx:5000" into a courier -> divisor map.
+ */
+function parseDivisors(raw: string | undefined): Record<string, number> {
+	const divisors: Record<string, number> = {};
+	(raw || '').split(',').forEach((entry) => {
+		const [courier, value] = entry.split(':').map((part) => part.trim());
+		const divisor = Number(value);
+		if (courier && Number.isFinite(divisor) && divisor > 0) {
+			divisors[courier.toLowerCase()] = divisor;
+		}
+	});
+	return divisors;
+}
+
+/**
+ * Box catalogue from PACKING_BOXES (a JSON array of boxes), or the default boxes.
+ */
+export function getBoxCatalogue(): Box[] {
+	return parseBoxes(process.env.PACKING_BOXES);
+}
+
+/**
+ * Divisor for a courier from VOLUMETRIC_DIVISORS ("jne:6000,rpx:5000"), or the default.
+ */
+export function getVolumetricDivisor(courier?: string | null): number {
+	const divisors = parseDivisors(process.env.VOLUMETRIC_DIVISORS);
+	return (courier && divisors[courier.toLowerCase()]) || DEFAULT_VOLUMETRIC_DIVISOR;
+}
+
+/**
+ * Volumetric weight in grams, rounded up to the next gram.
+ */
+export function volumetricWeight(
+	length: number,
+	width: number,
+	height: number,
+	divisor: number
+): number {
+	return Math.ceil(((length * width * height) / divisor) * 1000);
+}
+
+function sortedSides(length: number, width: number, height: number) {
+	return [length, width, height].sort((a, b) => b - a);
+}
+
+function fitsBox(parcel: OpenParcel, box: Box): boolean {
+	const content = sortedSides(parcel.length, parcel.width, parcel.height);
+	const space = sortedSides(box.length, box.width, box.height);
+	return content.every((side, index) => side <= space[index]) && parcel.weight <= box.maxWeight;
+}
+
+// Smallest box by volume that holds the parcel
+function chooseBox(parcel: OpenParcel, boxes: Box[]): Box | null {
+	return boxes
+		.filter((box) => fitsBox(parcel, box))
+		.reduce<Box | null>(
+			(best, box) =>
+				!best || box.length * box.width * box.height < best.length * best.width * best.height
+					? box
+					: best,
+			null
+		);
+}
+
+function toUnits(items: PackingItem[]): Unit[] {
+	const units: Unit[] = [];
+	items.forEach((item) => {
+		const [length, width, height] = sortedSides(
+			Math.max(item.length || 1, 1),
+			Math.max(item.width || 1, 1),
+			Math.max(item.height || 1, 1)
+		);
+		const unit = {
+			length,
+			width,
+			height,
+			weight: Math.max(item.weight || 100, 100),
+			value: Math.max(item.value || 10000, 10000)
+		};
+		for (let i = 0; i < Math.max(Math.floor(item.quantity || 1), 1); i++) {
+			units.push(unit);
+		}
+	});
+
+	// Largest footprint at the bottom of the stack
+	return units.sort((a, b) => b.length * b.width - a.length * a.width || b.weight - a.weight);
+}
+
+/**
+ * Stack items into parcels. Units are laid flat and stacked; a parcel is closed when no box
+ * in the catalogue can hold the next unit on top, and the smallest fitting box is used for
+ * each parcel.
+ */
+export function packItems(items: PackingItem[], options: PackingOptions = {}): PackingResult {
+	const boxes = options.boxes || getBoxCatalogue();
+	const divisor = options.divisor || getVolumetricDivisor(options.courier);
+
+	const open: OpenParcel[] = [];
+	let current: OpenParcel | null = null;
+
+	toUnits(items).forEach((unit) => {
+		if (current) {
+			const stacked: OpenParcel = {
+				length: Math.max(current.length, unit.length),
+				width: Math.max(current.width, unit.width),
+				height: current.height + unit.height,
+				weight: current.weight + unit.weight,
+				value: current.value + unit.value,
+				units: current.units + 1
+			};
+			if (boxes.some((box) => fitsBox(stacked, box))) {
+				current = stacked;
+				open[open.length - 1] = stacked;
+				return;
+			}
+		}
+
+		// First unit, or the stack is full: start a new parcel (oversized units ship alone)
+		current = { ...unit, units: 1 };
+		open.push(current);
+	});
+
+	const parcels = open.map((parcel): Parcel => {
+		const box = chooseBox(parcel, boxes);
+		const length = box ? box.length : parcel.length;
+		const width = box ? box.width : parcel.width;
+		const height = box ? box.height : parcel.height;
+		const volumetric = volumetricWeight(length, width, height, divisor);
+
+		return {
+			box: box ? box.name : null,
+			length,
+			width,
+			height,
+			weight: parcel.weight,
+			volumetricWeight: volumetric,
+			chargeableWeight: Math.max(parcel.weight, volumetric),
+			value: parcel.value,
+			units: parcel.units
+		};
+	});
+
+	return {
+		parcels,
+		weight: parcels.reduce((sum, parcel) => sum + parcel.weight, 0),
+		chargeableWeight: parcels.reduce((sum, parcel) => sum + parcel.chargeableWeight, 0),
+		value: parcels.reduce((sum, parcel) => sum + parcel.value, 0)
+	};
+}
@@ -0,0 +1,118 @@
+import midtransClient from 'midtrans-client';
+import 'dotenv/config';
+import {
+	isSnapSimulatorMode,
+	createSimulatedTransaction,
+	getSimulatedStatus,
+	cancelSimulatedTransaction,
+	refundSimulatedTransaction
+} from './snap-simulator';
+
+export interface SnapItemDetail {
+	id: string;
+	price: number;
+	quantity: number;
+	name: string;
+	category?: string;
+}
+
+export interface SnapTransactionParameter {
+	transaction_details: { order_id: string; gross_amount: number };
+	customer_details?: Record<string, any>;
+	item_details?: SnapItemDetail[];
+	callbacks?: { finish?: string; error?: string; pending?: string };
+	[key: string]: any;
+}
+
+export interface SnapTransaction {
+	token: string;
+	redirect_url: string;
+}
+
+/**
+ * Midtrans transaction status (GET /v2/<order_id>/status), also the shape of cancel and
+ * refund responses
+ */
+export interface GatewayTransactionStatus {
+	order_id: string;
+	transaction_id?: string;
+	transaction_status: string;
+	fraud_status?: string;
+	status_code: string;
+	gross_amount: string;
+	refund_amount?: string;
+	[key: string]: any;
+}
+
+export interface GatewayRefundParameter {
+	refund_key: string;
+	amount: number;
+	reason?: string;
+}
+
+/**
+ * Where checkout sends customers to pay. Midtrans Snap in production and sandbox;
+ * MIDTRANS_MODE=simulator swaps in a local stand-in so the order -> payment -> status
+ * flow runs without network access.
+ */
+export interface PaymentGateway {
+	name: 'midtrans' | 'simulator';
+	createTransaction(parameter: SnapTransactionParameter): Promise<SnapTransaction>;
+	/** null while Midtrans does not know the transaction (the customer has not picked a method) */
+	getStatus(orderId: string): Promise<GatewayTransactionStatus | null>;
+	cancel(orderId: string): Promise<GatewayTransactionStatus>;
+	refund(orderId: string, parameter: GatewayRefundParameter): Promise<GatewayTransactionStatus>;
+}
+
+let snap: any = null;
+
+// Created on first use so the simulator never needs Midtrans keys
+function getSnap() {
+	snap ??= new midtransClient.Snap({
+		isProduction: process.env.MIDTRANS_IS_PRODUCTION === 'true',
+		serverKey: process.env.MIDTRANS_SERVER_KEY!,
+		clientKey: process.env.MIDTRANS_CLIENT_KEY!
+	});
+	return snap;
+}
+
+const midtransGateway: PaymentGateway = {
+	name: 'midtrans',
+	createTransaction(parameter) {
+		return getSnap().createTransaction(parameter);
+	},
+	async getStatus(orderId) {
+		try {
+			return await getSnap().transaction.status(orderId);
+		} catch (err: any) {
+			if (String(err.httpStatusCode) === '404') return null;
+			throw err;
+		}
+	},
+	cancel(orderId) {
+		return getSnap().transaction.cancel(orderId);
+	},
+	refund(orderId, parameter) {
+		return getSnap().transaction.refund(orderId, parameter);
+	}
+};
+
+const simulatorGateway: PaymentGateway = {
+	name: 'simulator',
+	async createTransaction(parameter) {
+		return createSimulatedTransaction(parameter);
+	},
+	async getStatus(orderId) {
+		return getSimulatedStatus(orderId);
+	},
+	async cancel(orderId) {
+		return cancelSimulatedTransaction(orderId);
+	},
+	async refund(orderId, parameter) {
+		return refundSimulatedTransaction(orderId, parameter);
+	}
+};
+
+export function getPaymentGateway(): PaymentGateway {
+	return isSnapSimulatorMode() ? simulatorGateway : midtransGateway;
+}
@@ -0,0 +1,501 @@
+import 'dotenv/config';
+import {
+	getPaymentGateway,
+	type SnapTransactionParameter,
+	type GatewayTransactionStatus
+} from './payment-gateway';
+import {
+	verifyNotificationSignature,
+	mapTransactionStatus,
+	type MidtransNotification,
+	type MidtransOrderStatus
+} from './midtrans-utils';
+
+/**
+ * How a customer pays for an order, chosen at checkout and stored on orders.payment_method.
+ * Each method has a PaymentProvider; routes go through getPaymentProvider instead of talking
+ * to Midtrans directly.
+ */
+export const PAYMENT_METHODS = ['midtrans', 'bank_transfer', 'cod'] as const;
+
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+	midtrans: 'Pembayaran online (Midtrans)',
+	bank_transfer: 'Transfer bank manual',
+	cod: 'Bayar di tempat (COD)'
+};
+
+/** A new order, as payment creation sees it */
+export interface PaymentOrder {
+	id: string;
+	orderNumber: string;
+	total: number;
+	recipientName: string;
+	email: string;
+	phone: string;
+	address: string;
+	city?: string;
+	postalCode: string;
+	items: {
+		productId: number;
+		variantId?: number | null;
+		name: string;
+		variantName?: string | null;
+		price: number;
+		quantity: number;
+		category?: string;
+	}[];
+	shippingCost: number;
+	courierName: string;
+	courierService: string;
+	courierInsurance?: number;
+	discount?: number;
+	voucherCode?: string | null;
+}
+
+/** A stored order row, as status, cancel and refund see it */
+export interface StoredPaymentOrder {
+	orderNumber: string;
+	total: string;
+	status: string | null;
+	paymentMethod: string;
+	metadata: string | null;
+}
+
+export interface BankAccount {
+	bank: string;
+	accountNumber: string;
+	accountName: string;
+}
+
+export interface CreatedPayment {
+	method: PaymentMethod;
+	/** Snap token and page, for methods paid on a gateway page */
+	token?: string;
+	redirect_url?: string;
+	/** What the customer has to do, for methods paid outside the shop */
+	instructions?: {
+		amount: number;
+		due_at?: string;
+		accounts?: BankAccount[];
+		reference?: string;
+		note: string;
+	};
+}
+
+export interface PaymentStatus {
+	/** Order status the payment implies; null when it does not imply a change */
+	status: MidtransOrderStatus | null;
+	/** The provider's own status, e.g. Midtrans transaction_status */
+	providerStatus: string;
+	raw?: unknown;
+}
+
+export interface RefundRequest {
+	/** Unique per refund so retries are not paid out twice */
+	refundKey: string;
+	amount: number;
+	reason?: string;
+}
+
+export interface RefundResult {
+	/** Manual refunds are paid out by staff; the provider only records them */
+	manual: boolean;
+	amount: number;
+	providerStatus: string | null;
+	raw?: unknown;
+}
+
+export interface PaymentProvider {
+	method: PaymentMethod;
+	create(order: PaymentOrder): Promise<CreatedPayment>;
+	getStatus(order: StoredPaymentOrder): Promise<PaymentStatus>;
+	/** Stop a payment that has not been made, so it can no longer be paid */
+	cancel(order: StoredPaymentOrder): Promise<void>;
+	refund(order: StoredPaymentOrder, request: RefundRequest): Promise<RefundResult>;
+	verifyNotification(payload: unknown): boolean;
+}
+
+export function isPaymentMethod(value: unknown): value is PaymentMethod {
+	return typeof value === 'string' && (PAYMENT_METHODS as readonly string[]).includes(value);
+}
+
+function storedPayment(order: StoredPaymentOrder): Record<string, any> {
+	return JSON.parse(order.metadata || '{}').payment || {};
+}
+
+// How long a Snap payment page stays payable
+const SNAP_EXPIRY_HOURS = 24;
+
+// Snap rejects fractional rupiah
+function toRupiah(value: number | undefined): number {
+	return Math.round(Number(value) || 0);
+}
+
+// Snap expects "yyyy-MM-dd HH:mm:ss +0700"
+function formatSnapTime(date: Date): string {
+	const pad = (value: number) => String(value).padStart(2, '0');
+	return (
+		`${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+		`${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())} +0700`
+	);
+}
+
+function buildSnapParameter(order: PaymentOrder): SnapTransactionParameter {
+	const grossAmount = toRupiah(order.total);
+	if (grossAmount < 1000 || grossAmount > 999999999) {
+		throw new Error('Invalid payment amount');
+	}
+
+	const [firstName, ...lastNames] = order.recipientName.split(' ');
+	const customer = {
+		first_name: firstName.substring(0, 50),
+		last_name: lastNames.join(' ').substring(0, 50),
+		email: order.email.substring(0, 100),
+		phone: order.phone.substring(0, 20)
+	};
+	const frontendUrl = process.env.FRONTEND_URL;
+
+	return {
+		transaction_details: { order_id: order.orderNumber, gross_amount: grossAmount },
+		customer_details: {
+			...customer,
+			shipping_address: {
+				...customer,
+				address: order.address.substring(0, 500),
+				city: (order.city || '').substring(0, 100),
+				postal_code: order.postalCode
+			}
+		},
+		item_details: [
+			...order.items.map((item) => ({
+				id: item.variantId ? `${item.productId}-${item.variantId}` : String(item.productId),
+				price: toRupiah(item.price),
+				quantity: item.quantity,
+				name: (item.variantName ? `${item.name} (${item.variantName})` : item.name).substring(
+					0,
+					50
+				),
+				category: (item.category || 'general').substring(0, 50)
+			})),
+			{
+				id: 'SHIPPING',
+				price: toRupiah(order.shippingCost),
+				quantity: 1,
+				name: `Shipping via ${order.courierName} ${order.courierService}`.substring(0, 50),
+				category: 'shipping'
+			},
+			// Item details must add up to gross_amount, so fees and discounts are listed as items too
+			...(toRupiah(order.courierInsurance) > 0
+				? [
+						{
+							id: 'INSURANCE',
+							price: toRupiah(order.courierInsurance),
+							quantity: 1,
+							name: 'Shipping insurance',
+							category: 'shipping'
+						}
+					]
+				: []),
+			...(toRupiah(order.discount) > 0
+				? [
+						{
+							id: 'DISCOUNT',
+							price: -toRupiah(order.discount),
+							quantity: 1,
+							name: `Voucher ${order.voucherCode || ''}`.trim().substring(0, 50),
+							category: 'discount'
+						}
+					]
+				: [])
+		],
+		enabled_payments: [
+			'credit_card',
+			'bca_va',
+			'bni_va',
+			'bri_va',
+			'echannel',
+			'permata_va',
+			'other_va',
+			'gopay',
+			'shopeepay',
+			'qris',
+			'cstore',
+			'akulaku'
+		],
+		credit_card: { secure: true },
+		expiry: {
+			start_time: formatSnapTime(new Date()),
+			unit: 'hours',
+			duration: SNAP_EXPIRY_HOURS
+		},
+		callbacks: {
+			finish: `${frontendUrl}/orders/${order.id}/payment-success`,
+			error: `${frontendUrl}/orders/${order.id}/payment-error`,
+			pending: `${frontendUrl}/orders/${order.id}/payment-pending`
+		}
+	};
+}
+
+function toPaymentStatus(response: GatewayTransactionStatus): PaymentStatus {
+	return {
+		status: mapTransactionStatus(response.transaction_status, response.fraud_status),
+		providerStatus: response.transaction_status,
+		raw: response
+	};
+}
+
+export const midtransProvider: PaymentProvider = {
+	method: 'midtrans',
+
+	async create(order) {
+		const gateway = getPaymentGateway();
+		console.log(`Creating ${gateway.name} transaction for ${order.orderNumber}`);
+		const transaction = await gateway.createTransaction(buildSnapParameter(order));
+		return { method: 'midtrans', token: transaction.token, redirect_url: transaction.redirect_url };
+	},
+
+	async getStatus(order) {
+		const response = await getPaymentGateway().getStatus(order.orderNumber);
+		// Midtrans only knows the transaction once the customer picked a payment method
+		if (!response) return { status: null, providerStatus: 'not_found' };
+		return toPaymentStatus(response);
+	},
+
+	async cancel(order) {
+		const current = await midtransProvider.getStatus(order);
+		if (current.providerStatus !== 'pending') return;
+		await getPaymentGateway().cancel(order.orderNumber);
+	},
+
+	async refund(order, request) {
+		const response = await getPaymentGateway().refund(order.orderNumber, {
+			refund_key: request.refundKey,
+			amount: toRupiah(request.amount),
+			reason: request.reason
+		});
+		return {
+			manual: false,
+			amount: toRupiah(request.amount),
+			providerStatus: response.transaction_status,
+			raw: response
+		};
+	},
+
+	verifyNotification(payload) {
+		return (
+			!!payload &&
+			typeof payload === 'object' &&
+			verifyNotificationSignature(payload as MidtransNotification)
+		);
+	}
+};
+
+/**
+ * Accounts customers transfer to, from BANK_TRANSFER_ACCOUNTS, e.g.
+ * [{"bank":"BCA","accountNumber":"1234567890","accountName":"Toko Online"}].
+ * Read per call so configuration changes apply without a restart.
+ */
+export function getBankAccounts(): BankAccount[] {
+	const raw = process.env.BANK_TRANSFER_ACCOUNTS;
+	if (!raw) return [];
+
+	try {
+		const parsed = JSON.parse(raw);
+		return (Array.isArray(parsed) ? parsed : []).filter(
+			(account) => account?.bank && account?.accountNumber && account?.accountName
+		);
+	} catch {
+		console.warn('Ignoring invalid BANK_TRANSFER_ACCOUNTS');
+		return [];
+	}
+}
+
+function bankTransferDueHours(): number {
+	return Number(process.env.BANK_TRANSFER_DUE_HOURS) || 24;
+}
+
+// Bank transfer and COD are settled outside any gateway; staff record the outcome in
+// metadata.payment and the provider reads it back
+function manualStatus(order: StoredPaymentOrder, paidWhen: () => boolean): PaymentStatus {
+	const payment = storedPayment(order);
+	const providerStatus = payment.verification?.status || 'awaiting_payment';
+	if (paidWhen()) return { status: 'paid', providerStatus, raw: payment };
+	if (providerStatus === 'rejected') return { status: null, providerStatus, raw: payment };
+	return { status: 'pending', providerStatus, raw: payment };
+}
+
+function manualRefund(request: RefundRequest): RefundResult {
+	return { manual: true, amount: toRupiah(request.amount), providerStatus: null };
+}
+
+export const bankTransferProvider: PaymentProvider = {
+	method: 'bank_transfer',
+
+	async create(order) {
+		const accounts = getBankAccounts();
+		if (accounts.length === 0) {
+			throw new Error('Bank transfer is not configured');
+		}
+
+		const dueAt = new Date(Date.now() + bankTransferDueHours() * 60 * 60 * 1000);
+		return {
+			method: 'bank_transfer',
+			instructions: {
+				amount: toRupiah(order.total),
+				due_at: dueAt.toISOString(),
+				accounts,
+				reference: order.orderNumber,
+				note: 'Transfer tepat sesuai jumlah, lalu unggah bukti transfer di halaman pesanan.'
+			}
+		};
+	},
+
+	async getStatus(order) {
+		return manualStatus(order, () => storedPayment(order).verification?.status === 'approved');
+	},
+
+	async cancel() {
+		// Nothing to stop: an unverified transfer simply never gets approved
+	},
+
+	async refund(_order, request) {
+		return manualRefund(request);
+	},
+
+	verifyNotification() {
+		return false;
+	}
+};
+
+export const cashOnDeliveryProvider: PaymentProvider = {
+	method: 'cod',
+
+	async create(order) {
+		return {
+			method: 'cod',
+			instructions: {
+				amount: toRupiah(order.total),
+				note: 'Siapkan uang pas untuk dibayarkan kepada kurir saat paket diterima.'
+			}
+		};
+	},
+
+	async getStatus(order) {
+		// The courier collects the money on delivery
+		return manualStatus(order, () => order.status === 'delivered');
+	},
+
+	async cancel() {
+		// Nothing has been paid before delivery
+	},
+
+	async refund(_order, request) {
+		return manualRefund(request);
+	},
+
+	verifyNotification() {
+		return false;
+	}
+};
+
+/**
+ * Hours a customer has to pay a new order before it may be expired, or null for methods that
+ * are paid on delivery.
+ */
+export function getPaymentWindowHours(method: string): number | null {
+	if (method === 'midtrans') return SNAP_EXPIRY_HOURS;
+	if (method === 'bank_transfer') return bankTransferDueHours();
+	return null;
+}
+
+export interface StalePaymentResolution {
+	/** Order status to move to; null leaves the order pending */
+	status: 'paid' | 'expired' | 'failed' | 'cancelled' | null;
+	/** Stop the provider transaction first so it can no longer be paid */
+	cancelPayment: boolean;
+	reason: string;
+}
+
+/**
+ * What to do with an order still pending after its payment window, given what its provider
+ * reports. Payments the provider saw settle (a missed notification) are marked paid; transfers
+ * waiting for staff to check the proof are left alone.
+ */
+export function resolveStalePayment(
+	method: string,
+	payment: PaymentStatus
+): StalePaymentResolution {
+	if (method === 'midtrans') {
+		if (payment.providerStatus === 'not_found') {
+			return {
+				status: 'expired',
+				cancelPayment: false,
+				reason: 'No payment method chosen before the payment window closed'
+			};
+		}
+		if (payment.status === 'pending') {
+			return {
+				status: 'expired',
+				cancelPayment: true,
+				reason: 'Payment still pending after the payment window closed'
+			};
+		}
+		if (
+			payment.status === 'paid' ||
+			payment.status === 'expired' ||
+			payment.status === 'failed' ||
+			payment.status === 'cancelled'
+		) {
+			return {
+				status: payment.status,
+				cancelPayment: false,
+				reason: `Midtrans ${payment.providerStatus}`
+			};
+		}
+		return { status: null, cancelPayment: false, reason: `Midtrans ${payment.providerStatus}` };
+	}
+
+	if (method === 'bank_transfer') {
+		if (payment.providerStatus === 'awaiting_verification' || payment.status === 'paid') {
+			return {
+				status: null,
+				cancelPayment: false,
+				reason: 'Transfer proof is waiting for verification'
+			};
+		}
+		return {
+			status: 'expired',
+			cancelPayment: false,
+			reason: 'No verified transfer before the due time'
+		};
+	}
+
+	return { status: null, cancelPayment: false, reason: 'Paid on delivery' };
+}
+
+const PROVIDERS: Record<PaymentMethod, PaymentProvider> = {
+	midtrans: midtransProvider,
+	bank_transfer: bankTransferProvider,
+	cod: cashOnDeliveryProvider
+};
+
+export function getPaymentProvider(method: string | null | undefined): PaymentProvider {
+	return PROVIDERS[isPaymentMethod(method) ? method : 'midtrans'];
+}
+
+/**
+ * Methods offered at checkout. Cash on delivery needs a courier that collects cash and a
+ * single package, so the courier hands over the whole order total at once.
+ */
+export function getAvailablePaymentMethods(options: {
+	cashOnDelivery?: boolean;
+	packages?: number;
+}): PaymentMethod[] {
+	return PAYMENT_METHODS.filter((method) => {
+		if (method === 'bank_transfer') return getBankAccounts().length > 0;
+		if (method === 'cod') return !!options.cashOnDelivery && (options.packages ?? 1) === 1;
+		return true;
+	});
+}
@@ -0,0 +1,261 @@
+import { db } from '$lib/server/db';
+import { products, categories } from '$lib/server/db/schema';
+import { searchProducts } from '$lib/server/product-search';
+import { and, gte, lte, lt, gt, inArray, sql, type SQL } from 'drizzle-orm';
+import { error } from '@sveltejs/kit';
+
+/**
+ * Buckets offered by the storefront filter sidebar. `min` is inclusive and `max` exclusive, so
+ * a price on a boundary (e.g. exactly 100 000) belongs to one bucket only.
+ */
+export const PRICE_BUCKETS = [
+	{ id: 'under-100k', min: 0, max: 100000 },
+	{ id: '100k-500k', min: 100000, max: 500000 },
+	{ id: '500k-1m', min: 500000, max: 1000000 },
+	{ id: '1m-5m', min: 1000000, max: 5000000 },
+	{ id: 'above-5m', min: 5000000, max: null }
+] as const;
+
+export type PriceBucket = (typeof PRICE_BUCKETS)[number];
+
+const MAX_CATEGORY_IDS = 50;
+
+export interface ProductFilters {
+	q: string;
+	/** Full-text matches for `q`, most relevant first; null when there is no query */
+	searchIds: number[] | null;
+	/** "Did you mean" correction for `q` */
+	suggestion: string | null;
+	/** Requested categories plus all their descendants; null when not filtering by category */
+	categoryIds: number[] | null;
+	/** Custom range from the sidebar inputs; both bounds are inclusive */
+	minPrice: number | null;
+	maxPrice: number | null;
+	/** Bucket picked in the sidebar, matched exactly like its facet count */
+	priceRange: PriceBucket | null;
+	inStock: boolean;
+}
+
+export interface CategoryFacet {
+	id: number;
+	name: string;
+	slug: string;
+	parentId: number | null;
+	/** Matching products in this category and its descendants */
+	count: number;
+}
+
+export interface PriceFacet {
+	id: string;
+	min: number;
+	max: number | null;
+	count: number;
+}
+
+export interface ProductFacets {
+	categories: CategoryFacet[];
+	priceRanges: PriceFacet[];
+}
+
+function parsePriceRange(value: string | null): PriceBucket | null {
+	if (!value) return null;
+	const bucket = PRICE_BUCKETS.find((entry) => entry.id === value);
+	if (!bucket) {
+		throw error(400, 'Invalid priceRange');
+	}
+	return bucket;
+}
+
+function priceBucketCondition(bucket: PriceBucket): SQL {
+	return and(
+		gte(products.price, bucket.min.toFixed(2)),
+		bucket.max === null ? undefined : lt(products.price, bucket.max.toFixed(2))
+	)!;
+}
+
+function parsePrice(value: string | null, field: string): number | null {
+	if (value === null || value.trim() === '') return null;
+	const price = Number(value);
+	if (!Number.isFinite(price) || price < 0) {
+		throw error(400, `Invalid ${field}`);
+	}
+	return price;
+}
+
+function parseCategoryIds(params: URLSearchParams): number[] {
+	const raw = [
+		...params.getAll('categoryId'),
+		...params.getAll('categoryIds').flatMap((value) => value.split(','))
+	]
+		.map((value) => value.trim())
+		.filter(Boolean);
+
+	const ids = raw.map(Number);
+	if (ids.some((id) => !Number.isInteger(id) || id <= 0)) {
+		throw error(400, 'Invalid category id');
+	}
+	if (ids.length > MAX_CATEGORY_IDS) {
+		throw error(400, `At most ${MAX_CATEGORY_IDS} categories can be selected`);
+	}
+	return [...new Set(ids)];
+}
+
+async function loadCategoryTree() {
+	return db
+		.select({
+			id: categories.id,
+			name: categories.name,
+			slug: categories.slug,
+			parentId: categories.parentId
+		})
+		.from(categories);
+}
+
+function collectDescendants(
+	rootIds: number[],
+	childrenByParent: Map<number, number[]>
+): Set<number> {
+	const result = new Set<number>();
+	const queue = [...rootIds];
+	while (queue.length > 0) {
+		const id = queue.pop()!;
+		if (result.has(id)) continue;
+		result.add(id);
+		queue.push(...(childrenByParent.get(id) || []));
+	}
+	return result;
+}
+
+function groupChildren(tree: { id: number; parentId: number | null }[]) {
+	const childrenByParent = new Map<number, number[]>();
+	tree.forEach((category) => {
+		if (category.parentId === null) return;
+		if (!childrenByParent.has(category.parentId)) {
+			childrenByParent.set(category.parentId, []);
+		}
+		childrenByParent.get(category.parentId)!.push(category.id);
+	});
+	return childrenByParent;
+}
+
+/**
+ * Read the list filters from the query string: q (full-text, see product-search),
+ * categoryId / categoryIds (comma separated, repeatable), minPrice, maxPrice, priceRange
+ * (a PRICE_BUCKETS id) and inStock.
+ * Selecting a parent category includes its whole subtree.
+ */
+export async function parseProductFilters(params: URLSearchParams): Promise<ProductFilters> {
+	const minPrice = parsePrice(params.get('minPrice'), 'minPrice');
+	const maxPrice = parsePrice(params.get('maxPrice'), 'maxPrice');
+	if (minPrice !== null && maxPrice !== null && minPrice > maxPrice) {
+		throw error(400, 'minPrice must not be greater than maxPrice');
+	}
+
+	const requested = parseCategoryIds(params);
+	let categoryIds: number[] | null = null;
+	if (requested.length > 0) {
+		const childrenByParent = groupChildren(await loadCategoryTree());
+		categoryIds = [...collectDescendants(requested, childrenByParent)];
+	}
+
+	const q = (params.get('q') || '').trim().substring(0, 100);
+	const search = q ? await searchProducts(q) : null;
+
+	return {
+		q,
+		searchIds: search ? search.ids : null,
+		suggestion: search ? search.suggestion : null,
+		categoryIds,
+		minPrice,
+		maxPrice,
+		priceRange: parsePriceRange(params.get('priceRange')),
+		inStock: params.get('inStock') === 'true'
+	};
+}
+
+/**
+ * WHERE clause for the filters. Facets pass `omit` so a facet's own filter does not
+ * narrow its counts (picking one category still shows counts for the others).
+ */
+export function buildProductConditions(
+	filters: ProductFilters,
+	omit?: 'category' | 'price'
+): SQL | undefined {
+	const conditions: (SQL | undefined)[] = [];
+
+	if (filters.searchIds) {
+		conditions.push(inArray(products.id, filters.searchIds));
+	}
+	if (filters.categoryIds && omit !== 'category') {
+		conditions.push(inArray(products.categoryId, filters.categoryIds));
+	}
+	if (omit !== 'price') {
+		if (filters.minPrice !== null) {
+			conditions.push(gte(products.price, filters.minPrice.toFixed(2)));
+		}
+		if (filters.maxPrice !== null) {
+			conditions.push(lte(products.price, filters.maxPrice.toFixed(2)));
+		}
+		if (filters.priceRange) {
+			conditions.push(priceBucketCondition(filters.priceRange));
+		}
+	}
+	if (filters.inStock) conditions.push(gt(products.stock, 0));
+
+	return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+async function getCategoryFacets(filters: ProductFilters): Promise<CategoryFacet[]> {
+	const tree = await loadCategoryTree();
+
+	const rows = await db
+		.select({
+			categoryId: products.categoryId,
+			count: sql<number>`COUNT(*)`
+		})
+		.from(products)
+		.where(buildProductConditions(filters, 'category'))
+		.groupBy(products.categoryId);
+	const directCounts = new Map(rows.map((row) => [row.categoryId, Number(row.count)]));
+
+	const childrenByParent = groupChildren(tree);
+	return tree.map((category) => {
+		let count = 0;
+		collectDescendants([category.id], childrenByParent).forEach((id) => {
+			count += directCounts.get(id) || 0;
+		});
+		return { ...category, count };
+	});
+}
+
+async function getPriceFacets(filters: ProductFilters): Promise<PriceFacet[]> {
+	const columns = Object.fromEntries(
+		PRICE_BUCKETS.map((bucket) => [
+			bucket.id,
+			sql<string>`COALESCE(SUM(CASE WHEN ${priceBucketCondition(bucket)} THEN 1 ELSE 0 END), 0)`
+		])
+	);
+
+	const [row] = await db
+		.select(columns)
+		.from(products)
+		.where(buildProductConditions(filters, 'price'));
+
+	return PRICE_BUCKETS.map((bucket) => ({
+		id: bucket.id,
+		min: bucket.min,
+		max: bucket.max,
+		count: Number(row?.[bucket.id] ?? 0)
+	}));
+}
+
+/**
+ * Counts per category and per price bucket for the current filters.
+ */
+export async function getProductFacets(filters: ProductFilters): Promise<ProductFacets> {
+	const [categoryFacets, priceFacets] = await Promise.all([
+		getCategoryFacets(filters),
+		getPriceFacets(filters)
+	]);
+	return { categories: categoryFacets, priceRanges: priceFacets };
+}
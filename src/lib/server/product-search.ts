@@ -0,0 +1,403 @@
+import { db } from '$lib/server/db';
+import { products, productImages, categories } from '$lib/server/db/schema';
+import { inArray, asc } from 'drizzle-orm';
+
+/** Upper bound on ids handed to the list query; results past this are dropped */
+export const MAX_SEARCH_RESULTS = 500;
+export const MIN_AUTOCOMPLETE_LENGTH = 2;
+
+// Writes that bypass the API (seeders, manual SQL) are picked up after this
+const MAX_INDEX_AGE_MS = 10 * 60 * 1000;
+
+// How much a term counts depending on the field it came from
+const FIELD_WEIGHTS = { name: 3, category: 2, description: 1 } as const;
+
+// Score multipliers per kind of term match
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.7;
+const FUZZY_MATCH = 0.45;
+
+interface IndexedProduct {
+	id: number;
+	name: string;
+	slug: string;
+	normalizedName: string;
+}
+
+interface IndexedCategory {
+	id: number;
+	name: string;
+	slug: string;
+	normalizedName: string;
+}
+
+interface SearchIndex {
+	products: Map<number, IndexedProduct>;
+	categories: IndexedCategory[];
+	/** term -> productId -> weighted term frequency */
+	postings: Map<string, Map<number, number>>;
+	builtAt: number;
+}
+
+interface TermMatch {
+	term: string;
+	factor: number;
+}
+
+export interface SearchResult {
+	/** Matching product ids, best match first */
+	ids: number[];
+	/** Corrected query when some words look misspelled, e.g. "sepatu" for "sepatuu" */
+	suggestion: string | null;
+}
+
+export interface AutocompleteResult {
+	products: { id: number; name: string; slug: string; price: string; image: string | null }[];
+	categories: { id: number; name: string; slug: string }[];
+	suggestion: string | null;
+}
+
+let index: SearchIndex | null = null;
+let building: Promise<SearchIndex> | null = null;
+let stale = true;
+
+/** Lowercase, strip accents and punctuation so "Kaos-Polos" and "kaos polos" index the same */
+export function normalizeText(value: string): string {
+	return value
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, ' ')
+		.trim();
+}
+
+export function tokenize(value: string): string[] {
+	const normalized = normalizeText(value);
+	return normalized ? normalized.split(' ') : [];
+}
+
+/** Typos allowed for a word: none for short words, one from 4 letters, two from 8 */
+function maxEdits(term: string): number {
+	if (term.length >= 8) return 2;
+	if (term.length >= 4) return 1;
+	return 0;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent swaps), giving up once
+ * the distance is known to exceed `limit`.
+ */
+export function editDistance(a: string, b: string, limit: number): number {
+	if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+	let previousPrevious: number[] = [];
+	let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		let rowMin = i;
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+			if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+				value = Math.min(value, previousPrevious[j - 2] + 1);
+			}
+			current[j] = value;
+			rowMin = Math.min(rowMin, value);
+		}
+		if (rowMin > limit) return limit + 1;
+		previousPrevious = previous;
+		previous = current;
+	}
+
+	return previous[b.length];
+}
+
+function addPostings(
+	postings: Map<string, Map<number, number>>,
+	productId: number,
+	text: string,
+	weight: number
+) {
+	tokenize(text).forEach((term) => {
+		if (!postings.has(term)) postings.set(term, new Map());
+		const entries = postings.get(term)!;
+		entries.set(productId, (entries.get(productId) || 0) + weight);
+	});
+}
+
+async function buildIndex(): Promise<SearchIndex> {
+	const [productRows, categoryRows] = await Promise.all([
+		db
+			.select({
+				id: products.id,
+				name: products.name,
+				slug: products.slug,
+				description: products.description,
+				categoryId: products.categoryId
+			})
+			.from(products),
+		db
+			.select({
+				id: categories.id,
+				name: categories.name,
+				slug: categories.slug,
+				parentId: categories.parentId
+			})
+			.from(categories)
+	]);
+
+	// A product matches its own category name and every ancestor's
+	const categoriesById = new Map(categoryRows.map((category) => [category.id, category]));
+	const categoryPath = (categoryId: number) => {
+		const names: string[] = [];
+		const seen = new Set<number>();
+		let current = categoriesById.get(categoryId);
+		while (current && !seen.has(current.id)) {
+			seen.add(current.id);
+			names.push(current.name);
+			current = current.parentId === null ? undefined : categoriesById.get(current.parentId);
+		}
+		return names.join(' ');
+	};
+
+	const postings = new Map<string, Map<number, number>>();
+	const indexedProducts = new Map<number, IndexedProduct>();
+
+	productRows.forEach((product) => {
+		indexedProducts.set(product.id, {
+			id: product.id,
+			name: product.name,
+			slug: product.slug,
+			normalizedName: normalizeText(product.name)
+		});
+		addPostings(postings, product.id, product.name, FIELD_WEIGHTS.name);
+		addPostings(postings, product.id, categoryPath(product.categoryId), FIELD_WEIGHTS.category);
+		if (product.description) {
+			addPostings(postings, product.id, product.description, FIELD_WEIGHTS.description);
+		}
+	});
+
+	return {
+		products: indexedProducts,
+		categories: categoryRows.map((category) => ({
+			id: category.id,
+			name: category.name,
+			slug: category.slug,
+			normalizedName: normalizeText(category.name)
+		})),
+		postings,
+		builtAt: Date.now()
+	};
+}
+
+async function getIndex(): Promise<SearchIndex> {
+	if (index && !stale && Date.now() - index.builtAt < MAX_INDEX_AGE_MS) {
+		return index;
+	}
+	if (!building) {
+		// Cleared before building so a write that lands mid-build triggers another rebuild
+		stale = false;
+		building = buildIndex()
+			.then((built) => {
+				index = built;
+				return built;
+			})
+			.catch((err) => {
+				stale = true;
+				throw err;
+			})
+			.finally(() => {
+				building = null;
+			});
+	}
+	return building;
+}
+
+/**
+ * Mark the index out of date; the next search rebuilds it. Call after writing
+ * products or categories.
+ */
+export function invalidateSearchIndex() {
+	stale = true;
+}
+
+function findTermMatches(searchIndex: SearchIndex, queryTerm: string, allowPrefix: boolean) {
+	const matches: TermMatch[] = [];
+	const edits = maxEdits(queryTerm);
+
+	searchIndex.postings.forEach((_, term) => {
+		if (term === queryTerm) {
+			matches.push({ term, factor: EXACT_MATCH });
+		} else if (allowPrefix && queryTerm.length >= 2 && term.startsWith(queryTerm)) {
+			matches.push({ term, factor: PREFIX_MATCH });
+		} else if (edits > 0) {
+			const distance = editDistance(queryTerm, term, edits);
+			if (distance <= edits) {
+				matches.push({ term, factor: FUZZY_MATCH / distance });
+			}
+		}
+	});
+
+	return matches;
+}
+
+// Closest known word for a query word that is not in the index itself
+function correctTerm(searchIndex: SearchIndex, queryTerm: string): string {
+	if (searchIndex.postings.has(queryTerm)) return queryTerm;
+
+	const edits = maxEdits(queryTerm);
+	let best = queryTerm;
+	let bestDistance = edits + 1;
+	let bestFrequency = 0;
+
+	searchIndex.postings.forEach((entries, term) => {
+		const distance = editDistance(queryTerm, term, edits);
+		if (
+			distance < bestDistance ||
+			(distance === bestDistance && distance <= edits && entries.size > bestFrequency)
+		) {
+			best = term;
+			bestDistance = distance;
+			bestFrequency = entries.size;
+		}
+	});
+
+	return bestDistance <= edits ? best : queryTerm;
+}
+
+function suggestQuery(searchIndex: SearchIndex, queryTerms: string[]): string | null {
+	const corrected = queryTerms.map((term) => correctTerm(searchIndex, term));
+	return corrected.some((term, i) => term !== queryTerms[i]) ? corrected.join(' ') : null;
+}
+
+/**
+ * Rank products for `terms`. Every word has to match (exactly, as a prefix when
+ * `prefixLast` covers it, or within the typo budget); when nothing matches all of them,
+ * products matching the most words are returned instead.
+ */
+function rankProducts(searchIndex: SearchIndex, terms: string[], prefixLast: boolean): number[] {
+	const totalProducts = Math.max(searchIndex.products.size, 1);
+	const scores = new Map<number, { score: number; matchedTerms: number }>();
+
+	terms.forEach((queryTerm, position) => {
+		const allowPrefix = prefixLast ? position === terms.length - 1 : queryTerm.length >= 3;
+		const bestPerProduct = new Map<number, number>();
+
+		findTermMatches(searchIndex, queryTerm, allowPrefix).forEach(({ term, factor }) => {
+			const entries = searchIndex.postings.get(term)!;
+			const idf = Math.log(1 + totalProducts / entries.size);
+			entries.forEach((frequency, productId) => {
+				const score = idf * factor * (1 + Math.log(frequency));
+				if (score > (bestPerProduct.get(productId) || 0)) {
+					bestPerProduct.set(productId, score);
+				}
+			});
+		});
+
+		bestPerProduct.forEach((score, productId) => {
+			const current = scores.get(productId) || { score: 0, matchedTerms: 0 };
+			scores.set(productId, {
+				score: current.score + score,
+				matchedTerms: current.matchedTerms + 1
+			});
+		});
+	});
+
+	// Names that contain the whole query, or start with it, go first
+	const phrase = terms.join(' ');
+	scores.forEach((entry, productId) => {
+		const name = searchIndex.products.get(productId)?.normalizedName || '';
+		if (name.startsWith(phrase)) entry.score *= 2;
+		else if (name.includes(phrase)) entry.score *= 1.5;
+	});
+
+	const ranked = [...scores.entries()];
+	const mostMatched = Math.max(0, ...ranked.map(([, entry]) => entry.matchedTerms));
+
+	return ranked
+		.filter(([, entry]) => entry.matchedTerms === mostMatched)
+		.sort(([idA, a], [idB, b]) => b.score - a.score || idB - idA)
+		.slice(0, MAX_SEARCH_RESULTS)
+		.map(([productId]) => productId);
+}
+
+/**
+ * Full-text search over product name, description and category (including parent
+ * categories), ranked by relevance and tolerant of small typos.
+ */
+export async function searchProducts(query: string): Promise<SearchResult> {
+	const terms = tokenize(query);
+	if (terms.length === 0) return { ids: [], suggestion: null };
+
+	const searchIndex = await getIndex();
+	return {
+		ids: rankProducts(searchIndex, terms, false),
+		suggestion: suggestQuery(searchIndex, terms)
+	};
+}
+
+/**
+ * Suggestions for the search box while the customer is typing; the last word is
+ * treated as a prefix.
+ */
+export async function autocompleteProducts(
+	query: string,
+	limit: number
+): Promise<AutocompleteResult> {
+	const terms = tokenize(query);
+	if (normalizeText(query).length < MIN_AUTOCOMPLETE_LENGTH) {
+		return { products: [], categories: [], suggestion: null };
+	}
+
+	const searchIndex = await getIndex();
+	const ids = rankProducts(searchIndex, terms, true).slice(0, limit);
+
+	const phrase = terms.join(' ');
+	const matchedCategories = searchIndex.categories
+		.filter(
+			(category) =>
+				category.normalizedName.startsWith(phrase) || category.normalizedName.includes(` ${phrase}`)
+		)
+		.slice(0, limit)
+		.map(({ id, name, slug }) => ({ id, name, slug }));
+
+	let productRows: AutocompleteResult['products'] = [];
+	if (ids.length > 0) {
+		const [rows, images] = await Promise.all([
+			db
+				.select({
+					id: products.id,
+					name: products.name,
+					slug: products.slug,
+					price: products.price
+				})
+				.from(products)
+				.where(inArray(products.id, ids)),
+			db
+				.select({ productId: productImages.productId, image: productImages.image })
+				.from(productImages)
+				.where(inArray(productImages.productId, ids))
+				.orderBy(asc(productImages.id))
+		]);
+
+		const firstImage = new Map<number, string>();
+		images.forEach((row) => {
+			if (!firstImage.has(row.productId)) firstImage.set(row.productId, row.image);
+		});
+
+		// Keep the ranking order from the index
+		const rowsById = new Map(rows.map((row) => [row.id, row]));
+		productRows = ids
+			.filter((id) => rowsById.has(id))
+			.map((id) => ({ ...rowsById.get(id)!, image: firstImage.get(id) || null }));
+	}
+
+	// Only offer a correction when the prefix search came up empty
+	const suggestion =
+		productRows.length === 0 && matchedCategories.length === 0
+			? suggestQuery(searchIndex, terms)
+			: null;
+
+	return { products: productRows, categories: matchedCategories, suggestion };
+}
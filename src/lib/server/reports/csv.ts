@@ -0,0 +1,33 @@
+import { formatCell, type ReportTable } from './table';
+
+// Spreadsheet apps run text starting with these as a formula; customer-entered names and
+// addresses must never be able to do that
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCsv(text: string): string {
+	const safe = FORMULA_PREFIX.test(text) ? `'${text}` : text;
+	return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Comma separated, one header row, numbers unformatted. Starts with a byte order mark so
+ * Excel opens it as UTF-8.
+ */
+export function renderCsv(table: ReportTable): string {
+	const lines = [table.columns.map((column) => escapeCsv(column.label)).join(',')];
+
+	const rows = table.totals ? [...table.rows, table.totals] : table.rows;
+	for (const row of rows) {
+		lines.push(
+			table.columns
+				.map((column) => {
+					const text = formatCell(row[column.key], column.type, 'plain');
+					// Typed numbers are safe as they are; a negative amount is not a formula
+					return column.type === 'text' ? escapeCsv(text) : text;
+				})
+				.join(',')
+		);
+	}
+
+	return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
@@ -0,0 +1,124 @@
+import { error } from '@sveltejs/kit';
+import { isOrderStatus } from '$lib/server/order-lifecycle';
+import { formatReportDate } from './table';
+
+export const REPORT_PERIODS = ['today', 'week', 'month', 'year', 'all'] as const;
+export type ReportPeriod = (typeof REPORT_PERIODS)[number];
+
+// Orders that count as sales when no status is picked
+export const SALES_STATUSES = ['paid', 'processing', 'shipped', 'delivered'];
+
+export interface ReportFilters {
+	/** Inclusive bounds on orders.created_at; null for all time */
+	start: Date | null;
+	end: Date | null;
+	statuses: string[] | null;
+	/** Human readable summary for the report header */
+	description: string;
+}
+
+export function isReportPeriod(value: unknown): value is ReportPeriod {
+	return typeof value === 'string' && (REPORT_PERIODS as readonly string[]).includes(value);
+}
+
+/**
+ * Calendar period bounds, as the transaction list filters them: today, this week (from
+ * Sunday), this month, this year, or the last 30 days for anything else.
+ */
+export function getPeriodRange(period: string, now = new Date()) {
+	const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+	switch (period) {
+		case 'today':
+			return {
+				start: today,
+				end: new Date(today.getTime() + 24 * 60 * 60 * 1000 - 1)
+			};
+		case 'week': {
+			const weekStart = new Date(today);
+			weekStart.setDate(today.getDate() - today.getDay());
+			const weekEnd = new Date(weekStart);
+			weekEnd.setDate(weekStart.getDate() + 6);
+			weekEnd.setHours(23, 59, 59, 999);
+			return { start: weekStart, end: weekEnd };
+		}
+		case 'month': {
+			const monthStart = new Date(today.getFullYear(), today.getMonth(), 1);
+			const monthEnd = new Date(today.getFullYear(), today.getMonth() + 1, 0);
+			monthEnd.setHours(23, 59, 59, 999);
+			return { start: monthStart, end: monthEnd };
+		}
+		case 'year': {
+			const yearStart = new Date(today.getFullYear(), 0, 1);
+			const yearEnd = new Date(today.getFullYear(), 11, 31);
+			yearEnd.setHours(23, 59, 59, 999);
+			return { start: yearStart, end: yearEnd };
+		}
+		default: {
+			const thirtyDaysAgo = new Date(today);
+			thirtyDaysAgo.setDate(today.getDate() - 30);
+			return { start: thirtyDaysAgo, end: now };
+		}
+	}
+}
+
+function parseDay(value: string | null): Date | null {
+	if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+	const date = new Date(`${value}T00:00:00`);
+	return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Date and status filters for a report, named like GET /api/transactions: period
+ * (today|week|month|year|all, default month) and status (any order status, or all). Without a
+ * status, only paid orders count. dateFrom/dateTo (YYYY-MM-DD, both included) override the
+ * period, e.g. for last month's figures. Throws 400 for bad input.
+ */
+export function parseReportFilters(params: URLSearchParams, now = new Date()): ReportFilters {
+	const period = params.get('period') || 'month';
+	if (!isReportPeriod(period)) {
+		throw error(400, 'Invalid period parameter');
+	}
+
+	const status = params.get('status') || '';
+	if (status && status !== 'all' && !isOrderStatus(status)) {
+		throw error(400, 'Invalid status parameter');
+	}
+
+	let start: Date | null = null;
+	let end: Date | null = null;
+	const dateFrom = params.get('dateFrom');
+	const dateTo = params.get('dateTo');
+
+	if (dateFrom || dateTo) {
+		start = parseDay(dateFrom);
+		const lastDay = parseDay(dateTo);
+		if ((dateFrom && !start) || (dateTo && !lastDay)) {
+			throw error(400, 'dateFrom and dateTo must be dates in YYYY-MM-DD format');
+		}
+		if (lastDay) {
+			end = new Date(lastDay);
+			end.setHours(23, 59, 59, 999);
+		}
+		if (start && end && end < start) {
+			throw error(400, 'dateFrom must not be after dateTo');
+		}
+	} else if (period !== 'all') {
+		({ start, end } = getPeriodRange(period, now));
+	}
+
+	const statuses = status === 'all' ? null : status ? [status] : SALES_STATUSES;
+
+	const range =
+		start || end
+			? `${start ? formatReportDate(start).substring(0, 10) : '...'} s/d ${end ? formatReportDate(end).substring(0, 10) : '...'}`
+			: 'Semua waktu';
+	const statusText = statuses ? statuses.join(', ') : 'semua status';
+
+	return {
+		start,
+		end,
+		statuses,
+		description: `Periode: ${range} · Status: ${statusText}`
+	};
+}
@@ -0,0 +1,459 @@
+import { db } from '$lib/server/db';
+import { orders, orderItems, products, productVariants, categories } from '$lib/server/db/schema';
+import { and, asc, eq, gte, inArray, lte, sql, type SQL } from 'drizzle-orm';
+import { REPORT_TYPE_LABELS, type ReportFormat, type ReportType } from '$lib/utils/reports';
+import { formatReportDate, type ReportColumn, type ReportRow, type ReportTable } from './table';
+import type { ReportFilters } from './filters';
+import { renderCsv } from './csv';
+import { renderXlsx } from './xlsx';
+import { renderPdf } from './pdf';
+
+// Keeps a single export within memory; narrow the dates for more
+const MAX_LEDGER_ROWS = 20000;
+
+interface ReportContent {
+	columns: ReportColumn[];
+	rows: ReportRow[];
+	totals?: ReportRow;
+	notes?: string[];
+}
+
+function orderConditions(filters: ReportFilters): SQL[] {
+	const conditions: SQL[] = [];
+	if (filters.start) conditions.push(gte(orders.createdAt, filters.start));
+	if (filters.end) conditions.push(lte(orders.createdAt, filters.end));
+	if (filters.statuses) conditions.push(inArray(orders.status, filters.statuses));
+	return conditions;
+}
+
+function sum(rows: ReportRow[], key: string): number {
+	return rows.reduce((total, row) => total + (Number(row[key]) || 0), 0);
+}
+
+function round2(value: number): number {
+	return Math.round(value * 100) / 100;
+}
+
+/** PPN percentage included in product prices, from REPORT_TAX_RATE (default 11) */
+function taxRate(): number {
+	const rate = Number(process.env.REPORT_TAX_RATE);
+	return Number.isFinite(rate) && rate >= 0 ? rate : 11;
+}
+
+async function salesByDay(filters: ReportFilters): Promise<ReportContent> {
+	const day = sql<string>`DATE_FORMAT(${orders.createdAt}, '%Y-%m-%d')`;
+	const conditions = orderConditions(filters);
+
+	const [orderRows, itemRows] = await Promise.all([
+		db
+			.select({
+				day,
+				orders: sql<number>`COUNT(*)`,
+				subtotal: sql<string>`SUM(${orders.subtotal})`,
+				discount: sql<string>`SUM(${orders.discount})`,
+				shipping: sql<string>`SUM(${orders.shippingCost})`,
+				total: sql<string>`SUM(${orders.total})`
+			})
+			.from(orders)
+			.where(and(...conditions))
+			.groupBy(day)
+			.orderBy(day),
+		db
+			.select({ day, quantity: sql<number>`SUM(${orderItems.quantity})` })
+			.from(orderItems)
+			.innerJoin(orders, eq(orderItems.orderId, orders.id))
+			.where(and(...conditions))
+			.groupBy(day)
+	]);
+
+	const quantities = new Map(itemRows.map((row) => [row.day, Number(row.quantity)]));
+	const rows = orderRows.map((row) => ({
+		day: row.day,
+		orders: Number(row.orders),
+		quantity: quantities.get(row.day) || 0,
+		subtotal: Number(row.subtotal),
+		discount: Number(row.discount),
+		shipping: Number(row.shipping),
+		total: Number(row.total)
+	}));
+
+	return {
+		columns: [
+			{ key: 'day', label: 'Tanggal', type: 'text' },
+			{ key: 'orders', label: 'Pesanan', type: 'number' },
+			{ key: 'quantity', label: 'Barang Terjual', type: 'number' },
+			{ key: 'subtotal', label: 'Subtotal (Rp)', type: 'currency' },
+			{ key: 'discount', label: 'Diskon (Rp)', type: 'currency' },
+			{ key: 'shipping', label: 'Ongkir (Rp)', type: 'currency' },
+			{ key: 'total', label: 'Total (Rp)', type: 'currency' }
+		],
+		rows,
+		totals: {
+			day: 'Total',
+			orders: sum(rows, 'orders'),
+			quantity: sum(rows, 'quantity'),
+			subtotal: sum(rows, 'subtotal'),
+			discount: sum(rows, 'discount'),
+			shipping: sum(rows, 'shipping'),
+			total: sum(rows, 'total')
+		}
+	};
+}
+
+async function salesByProduct(filters: ReportFilters): Promise<ReportContent> {
+	const result = await db
+		.select({
+			name: sql<string>`MAX(${orderItems.name})`,
+			variantName: sql<string | null>`MAX(${orderItems.variantName})`,
+			sku: sql<string | null>`MAX(${orderItems.sku})`,
+			category: sql<string | null>`MAX(${orderItems.category})`,
+			orders: sql<number>`COUNT(DISTINCT ${orderItems.orderId})`,
+			quantity: sql<number>`SUM(${orderItems.quantity})`,
+			gross: sql<string>`SUM(${orderItems.price} * ${orderItems.quantity})`
+		})
+		.from(orderItems)
+		.innerJoin(orders, eq(orderItems.orderId, orders.id))
+		.where(and(...orderConditions(filters)))
+		.groupBy(orderItems.productId, orderItems.variantId);
+
+	const rows = result
+		.map((row) => ({
+			name: row.name,
+			variantName: row.variantName,
+			sku: row.sku,
+			category: row.category,
+			orders: Number(row.orders),
+			quantity: Number(row.quantity),
+			gross: Number(row.gross)
+		}))
+		.sort((a, b) => b.gross - a.gross);
+
+	return {
+		columns: [
+			{ key: 'name', label: 'Produk', type: 'text' },
+			{ key: 'variantName', label: 'Varian', type: 'text' },
+			{ key: 'sku', label: 'SKU', type: 'text' },
+			{ key: 'category', label: 'Kategori', type: 'text' },
+			{ key: 'orders', label: 'Pesanan', type: 'number' },
+			{ key: 'quantity', label: 'Terjual', type: 'number' },
+			{ key: 'gross', label: 'Penjualan Kotor (Rp)', type: 'currency' }
+		],
+		rows,
+		totals: {
+			name: 'Total',
+			quantity: sum(rows, 'quantity'),
+			gross: sum(rows, 'gross')
+		},
+		notes: ['Penjualan kotor dihitung dari harga barang sebelum diskon voucher dan ongkir.']
+	};
+}
+
+async function salesByCategory(filters: ReportFilters): Promise<ReportContent> {
+	// order_items keeps the category name as it was when the order was placed
+	const category = sql<string>`COALESCE(${orderItems.category}, '')`;
+	const result = await db
+		.select({
+			category,
+			products: sql<number>`COUNT(DISTINCT ${orderItems.productId})`,
+			orders: sql<number>`COUNT(DISTINCT ${orderItems.orderId})`,
+			quantity: sql<number>`SUM(${orderItems.quantity})`,
+			gross: sql<string>`SUM(${orderItems.price} * ${orderItems.quantity})`
+		})
+		.from(orderItems)
+		.innerJoin(orders, eq(orderItems.orderId, orders.id))
+		.where(and(...orderConditions(filters)))
+		.groupBy(category);
+
+	const rows = result
+		.map((row) => ({
+			category: row.category || 'Tanpa kategori',
+			products: Number(row.products),
+			orders: Number(row.orders),
+			quantity: Number(row.quantity),
+			gross: Number(row.gross)
+		}))
+		.sort((a, b) => b.gross - a.gross);
+
+	return {
+		columns: [
+			{ key: 'category', label: 'Kategori', type: 'text' },
+			{ key: 'products', label: 'Produk', type: 'number' },
+			{ key: 'orders', label: 'Pesanan', type: 'number' },
+			{ key: 'quantity', label: 'Terjual', type: 'number' },
+			{ key: 'gross', label: 'Penjualan Kotor (Rp)', type: 'currency' }
+		],
+		rows,
+		totals: {
+			category: 'Total',
+			quantity: sum(rows, 'quantity'),
+			gross: sum(rows, 'gross')
+		},
+		notes: ['Penjualan kotor dihitung dari harga barang sebelum diskon voucher dan ongkir.']
+	};
+}
+
+/**
+ * One line per order with the amounts a tax return needs. Product prices include PPN, so the
+ * tax base (DPP) and PPN are split out of the goods value after discount; shipping and
+ * insurance are passed through as they are.
+ */
+async function orderLedger(filters: ReportFilters): Promise<ReportContent> {
+	const result = await db
+		.select({
+			createdAt: orders.createdAt,
+			orderNumber: orders.orderNumber,
+			customer: orders.recipientName,
+			email: orders.email,
+			status: orders.status,
+			paymentMethod: orders.paymentMethod,
+			voucherCode: orders.voucherCode,
+			subtotal: orders.subtotal,
+			discount: orders.discount,
+			shipping: orders.shippingCost,
+			insurance: orders.courierInsurance,
+			total: orders.total
+		})
+		.from(orders)
+		.where(and(...orderConditions(filters)))
+		.orderBy(asc(orders.createdAt))
+		.limit(MAX_LEDGER_ROWS + 1);
+
+	const rate = taxRate();
+	const rows = result.slice(0, MAX_LEDGER_ROWS).map((row) => {
+		const goods = Number(row.subtotal) - Number(row.discount);
+		const taxBase = round2((goods * 100) / (100 + rate));
+		return {
+			...row,
+			subtotal: Number(row.subtotal),
+			discount: Number(row.discount),
+			shipping: Number(row.shipping),
+			insurance: Number(row.insurance) || 0,
+			total: Number(row.total),
+			taxBase,
+			tax: round2(goods - taxBase)
+		};
+	});
+
+	const notes = [
+		`DPP dan PPN ${rate}% dihitung dari nilai barang setelah diskon (harga termasuk PPN).`
+	];
+	if (result.length > MAX_LEDGER_ROWS) {
+		notes.push(
+			`Dibatasi ${MAX_LEDGER_ROWS} pesanan pertama; persempit rentang tanggal untuk sisanya.`
+		);
+	}
+
+	return {
+		columns: [
+			{ key: 'createdAt', label: 'Tanggal', type: 'date' },
+			{ key: 'orderNumber', label: 'No. Pesanan', type: 'text' },
+			{ key: 'customer', label: 'Penerima', type: 'text' },
+			{ key: 'email', label: 'Email', type: 'text' },
+			{ key: 'status', label: 'Status', type: 'text' },
+			{ key: 'paymentMethod', label: 'Pembayaran', type: 'text' },
+			{ key: 'voucherCode', label: 'Voucher', type: 'text' },
+			{ key: 'subtotal', label: 'Subtotal (Rp)', type: 'currency' },
+			{ key: 'discount', label: 'Diskon (Rp)', type: 'currency' },
+			{ key: 'taxBase', label: 'DPP (Rp)', type: 'currency' },
+			{ key: 'tax', label: 'PPN (Rp)', type: 'currency' },
+			{ key: 'shipping', label: 'Ongkir (Rp)', type: 'currency' },
+			{ key: 'insurance', label: 'Asuransi (Rp)', type: 'currency' },
+			{ key: 'total', label: 'Total (Rp)', type: 'currency' }
+		],
+		rows,
+		totals: {
+			orderNumber: `${rows.length} pesanan`,
+			subtotal: sum(rows, 'subtotal'),
+			discount: sum(rows, 'discount'),
+			taxBase: round2(sum(rows, 'taxBase')),
+			tax: round2(sum(rows, 'tax')),
+			shipping: sum(rows, 'shipping'),
+			insurance: sum(rows, 'insurance'),
+			total: sum(rows, 'total')
+		},
+		notes
+	};
+}
+
+async function shippingByCourier(filters: ReportFilters): Promise<ReportContent> {
+	const result = await db
+		.select({
+			courier: orders.courierName,
+			service: orders.courierService,
+			orders: sql<number>`COUNT(*)`,
+			shipping: sql<string>`SUM(${orders.shippingCost})`,
+			insurance: sql<string>`COALESCE(SUM(${orders.courierInsurance}), 0)`
+		})
+		.from(orders)
+		.where(and(...orderConditions(filters)))
+		.groupBy(orders.courierName, orders.courierService);
+
+	const rows = result
+		.map((row) => {
+			const count = Number(row.orders);
+			const shipping = Number(row.shipping);
+			return {
+				courier: (row.courier || '-').toUpperCase(),
+				service: row.service || '-',
+				orders: count,
+				shipping,
+				average: count > 0 ? Math.round(shipping / count) : 0,
+				insurance: Number(row.insurance)
+			};
+		})
+		.sort((a, b) => b.shipping - a.shipping);
+
+	const orderCount = sum(rows, 'orders');
+	const shippingTotal = sum(rows, 'shipping');
+	return {
+		columns: [
+			{ key: 'courier', label: 'Kurir', type: 'text' },
+			{ key: 'service', label: 'Layanan', type: 'text' },
+			{ key: 'orders', label: 'Pesanan', type: 'number' },
+			{ key: 'shipping', label: 'Total Ongkir (Rp)', type: 'currency' },
+			{ key: 'average', label: 'Rata-rata (Rp)', type: 'currency' },
+			{ key: 'insurance', label: 'Asuransi (Rp)', type: 'currency' }
+		],
+		rows,
+		totals: {
+			courier: 'Total',
+			orders: orderCount,
+			shipping: shippingTotal,
+			average: orderCount > 0 ? Math.round(shippingTotal / orderCount) : 0,
+			insurance: sum(rows, 'insurance')
+		}
+	};
+}
+
+/**
+ * Stock on hand valued at selling price, per active variant and per product sold without
+ * variants. A snapshot of now: date and status filters do not apply.
+ */
+async function stockValuation(): Promise<ReportContent> {
+	const [variantRows, productRows] = await Promise.all([
+		db
+			.select({
+				name: products.name,
+				variantName: productVariants.name,
+				sku: productVariants.sku,
+				category: categories.name,
+				stock: productVariants.stock,
+				price: sql<string>`COALESCE(${productVariants.price}, ${products.price})`
+			})
+			.from(productVariants)
+			.innerJoin(products, eq(products.id, productVariants.productId))
+			.leftJoin(categories, eq(categories.id, products.categoryId))
+			.where(eq(productVariants.isActive, true)),
+		db
+			.select({
+				name: products.name,
+				category: categories.name,
+				stock: products.stock,
+				price: products.price
+			})
+			.from(products)
+			.leftJoin(categories, eq(categories.id, products.categoryId))
+			.where(
+				sql`NOT EXISTS (SELECT 1 FROM ${productVariants} WHERE ${productVariants.productId} = ${products.id} AND ${productVariants.isActive} = true)`
+			)
+	]);
+
+	const rows = [
+		...variantRows,
+		...productRows.map((row) => ({ ...row, variantName: null, sku: null }))
+	]
+		.map((row) => {
+			const stock = Math.max(Number(row.stock) || 0, 0);
+			const price = Number(row.price) || 0;
+			return {
+				category: row.category || 'Tanpa kategori',
+				name: row.name,
+				variantName: row.variantName,
+				sku: row.sku,
+				stock,
+				price,
+				value: stock * price
+			};
+		})
+		.sort(
+			(a, b) =>
+				a.category.localeCompare(b.category) ||
+				a.name.localeCompare(b.name) ||
+				(a.variantName || '').localeCompare(b.variantName || '')
+		);
+
+	return {
+		columns: [
+			{ key: 'category', label: 'Kategori', type: 'text' },
+			{ key: 'name', label: 'Produk', type: 'text' },
+			{ key: 'variantName', label: 'Varian', type: 'text' },
+			{ key: 'sku', label: 'SKU', type: 'text' },
+			{ key: 'stock', label: 'Stok', type: 'number' },
+			{ key: 'price', label: 'Harga Jual (Rp)', type: 'currency' },
+			{ key: 'value', label: 'Nilai Persediaan (Rp)', type: 'currency' }
+		],
+		rows,
+		totals: {
+			category: 'Total',
+			stock: sum(rows, 'stock'),
+			value: sum(rows, 'value')
+		},
+		notes: [
+			'Stok saat laporan dibuat, dinilai dengan harga jual; filter tanggal dan status tidak berlaku.'
+		]
+	};
+}
+
+const BUILDERS: Record<ReportType, (filters: ReportFilters) => Promise<ReportContent>> = {
+	'sales-by-day': salesByDay,
+	'sales-by-product': salesByProduct,
+	'sales-by-category': salesByCategory,
+	'order-ledger': orderLedger,
+	'shipping-by-courier': shippingByCourier,
+	'stock-valuation': stockValuation
+};
+
+export async function buildReport(type: ReportType, filters: ReportFilters): Promise<ReportTable> {
+	const content = await BUILDERS[type](filters);
+	const subtitle =
+		type === 'stock-valuation' ? [`Per ${formatReportDate(new Date())}`] : [filters.description];
+
+	return {
+		title: REPORT_TYPE_LABELS[type],
+		subtitle: [...subtitle, ...(content.notes || [])],
+		columns: content.columns,
+		rows: content.rows,
+		totals: content.totals
+	};
+}
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+	csv: 'text/csv; charset=utf-8',
+	xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+	pdf: 'application/pdf'
+};
+
+export function renderReport(table: ReportTable, format: ReportFormat) {
+	const body =
+		format === 'csv'
+			? Buffer.from(renderCsv(table), 'utf8')
+			: format === 'xlsx'
+				? renderXlsx(table)
+				: renderPdf(table);
+	return { body, contentType: CONTENT_TYPES[format] };
+}
+
+/** e.g. sales-by-day_2026-10-01_2026-10-31.xlsx */
+export function reportFilename(type: ReportType, filters: ReportFilters, format: ReportFormat) {
+	const day = (date: Date) => formatReportDate(date).substring(0, 10);
+	const parts: string[] = [type];
+	if (type === 'stock-valuation') {
+		parts.push(day(new Date()));
+	} else if (filters.start || filters.end) {
+		parts.push(
+			filters.start ? day(filters.start) : 'awal',
+			filters.end ? day(filters.end) : 'kini'
+		);
+	}
+	return `${parts.join('_')}.${format}`;
+}
@@ -0,0 +1,250 @@
+import { deflateSync } from 'node:zlib';
+import { formatCell, formatReportDate, type ReportColumn, type ReportTable } from './table';
+
+/**
+ * A printable landscape A4 table using the PDF standard fonts, so no font files or
+ * third-party library are needed. Long tables continue over as many pages as needed, each
+ * repeating the column headers.
+ */
+
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 36;
+const FONT_SIZE = 8;
+const ROW_HEIGHT = 12;
+const CELL_PADDING = 3;
+
+// Helvetica advance widths (per 1000 units) for the characters reports mostly contain;
+// anything else is estimated
+const CHAR_WIDTHS: Record<string, number> = {
+	' ': 278,
+	'.': 278,
+	',': 278,
+	':': 278,
+	'-': 333,
+	'/': 278,
+	'(': 333,
+	')': 333,
+	'%': 889,
+	i: 222,
+	l: 222,
+	j: 222,
+	f: 278,
+	t: 278,
+	r: 333,
+	I: 278,
+	m: 833,
+	w: 722,
+	M: 833,
+	W: 944
+};
+
+function charWidth(char: string, bold: boolean): number {
+	if (/[0-9]/.test(char)) return 556;
+	const width = CHAR_WIDTHS[char] ?? (/[A-Z]/.test(char) ? 667 : 556);
+	return bold ? width * 1.05 : width;
+}
+
+function textWidth(text: string, size: number, bold = false): number {
+	let width = 0;
+	for (const char of text) width += charWidth(char, bold);
+	return (width * size) / 1000;
+}
+
+// The standard fonts use WinAnsiEncoding, which is Latin-1 plus a few typographic marks
+function toWinAnsi(text: string): string {
+	return text
+		.replace(/[–—]/g, '-')
+		.replace(/[‘’]/g, "'")
+		.replace(/[“”]/g, '"')
+		.replace(/…/g, '...')
+		.replace(/[^ -ÿ]/g, '?');
+}
+
+function escapePdf(text: string): string {
+	return toWinAnsi(text).replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+}
+
+function fitText(text: string, width: number, bold: boolean): string {
+	if (textWidth(text, FONT_SIZE, bold) <= width) return text;
+	let fitted = text;
+	while (fitted.length > 0 && textWidth(`${fitted}...`, FONT_SIZE, bold) > width) {
+		fitted = fitted.slice(0, -1);
+	}
+	return `${fitted}...`;
+}
+
+function isNumeric(column: ReportColumn): boolean {
+	return column.type === 'number' || column.type === 'currency';
+}
+
+/** Share the printable width by how much each column needs, within sensible bounds */
+function columnWidths(table: ReportTable): number[] {
+	const available = PAGE_WIDTH - MARGIN * 2;
+	const sample = table.rows.slice(0, 200);
+	const needs = table.columns.map((column) => {
+		const longest = Math.max(
+			column.label.length,
+			...sample.map((row) => formatCell(row[column.key], column.type, 'printed').length)
+		);
+		return Math.min(Math.max(longest, 6), 40);
+	});
+	const total = needs.reduce((sum, need) => sum + need, 0);
+	return needs.map((need) => (need / total) * available);
+}
+
+function text(x: number, y: number, value: string, bold = false, size = FONT_SIZE): string {
+	return `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${escapePdf(value)}) Tj ET`;
+}
+
+function line(y: number): string {
+	return `${MARGIN} ${y.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${y.toFixed(2)} l S`;
+}
+
+function rowCommands(
+	table: ReportTable,
+	widths: number[],
+	values: string[],
+	y: number,
+	bold: boolean
+): string[] {
+	let x = MARGIN;
+	return table.columns.map((column, index) => {
+		const width = widths[index] - CELL_PADDING * 2;
+		const cell = fitText(values[index], width, bold);
+		const offset = isNumeric(column) ? width - textWidth(cell, FONT_SIZE, bold) : 0;
+		const command = text(x + CELL_PADDING + offset, y, cell, bold);
+		x += widths[index];
+		return command;
+	});
+}
+
+/** Content streams, one per page */
+function layoutPages(table: ReportTable, generatedAt: Date): string[] {
+	const widths = columnWidths(table);
+	const headers = table.columns.map((column) => column.label);
+	const body = table.rows.map((row) =>
+		table.columns.map((column) => formatCell(row[column.key], column.type, 'printed'))
+	);
+	const totals = table.totals
+		? table.columns.map((column) => formatCell(table.totals![column.key], column.type, 'printed'))
+		: null;
+
+	const pages: string[][] = [];
+	let commands: string[] = [];
+	let y = 0;
+
+	const startPage = () => {
+		commands = ['0.8 G 0.5 w'];
+		y = PAGE_HEIGHT - MARGIN;
+		if (pages.length === 0) {
+			commands.push(text(MARGIN, y - 14, table.title, true, 14));
+			y -= 22;
+			for (const subtitle of table.subtitle) {
+				y -= 12;
+				commands.push(text(MARGIN, y, subtitle, false, 9));
+			}
+			y -= 10;
+		}
+		y -= ROW_HEIGHT;
+		commands.push(...rowCommands(table, widths, headers, y, true));
+		commands.push(line(y - 4));
+		pages.push(commands);
+	};
+
+	const bottom = MARGIN + 20;
+	startPage();
+	for (const values of body) {
+		if (y - ROW_HEIGHT < bottom) startPage();
+		y -= ROW_HEIGHT;
+		commands.push(...rowCommands(table, widths, values, y, false));
+	}
+	if (totals) {
+		if (y - ROW_HEIGHT - 4 < bottom) startPage();
+		commands.push(line(y - 4));
+		y -= ROW_HEIGHT + 2;
+		commands.push(...rowCommands(table, widths, totals, y, true));
+	}
+
+	const footer = `Dibuat ${formatReportDate(generatedAt)}`;
+	return pages.map((page, index) => {
+		const pageLabel = `Halaman ${index + 1} dari ${pages.length}`;
+		page.push(text(MARGIN, MARGIN - 12, footer, false, 7));
+		page.push(
+			text(PAGE_WIDTH - MARGIN - textWidth(pageLabel, 7), MARGIN - 12, pageLabel, false, 7)
+		);
+		return page.join('\n');
+	});
+}
+
+export function renderPdf(table: ReportTable, generatedAt = new Date()): Buffer {
+	const pages = layoutPages(table, generatedAt);
+
+	// 1 catalog, 2 page tree, 3-4 fonts, then a page and its content stream per page
+	const objects: Buffer[] = [];
+	const pageIds = pages.map((_, index) => 5 + index * 2);
+
+	objects.push(Buffer.from('<< /Type /Catalog /Pages 2 0 R >>', 'latin1'));
+	objects.push(
+		Buffer.from(
+			`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+			'latin1'
+		)
+	);
+	for (const font of ['Helvetica', 'Helvetica-Bold']) {
+		objects.push(
+			Buffer.from(
+				`<< /Type /Font /Subtype /Type1 /BaseFont /${font} /Encoding /WinAnsiEncoding >>`,
+				'latin1'
+			)
+		);
+	}
+
+	pages.forEach((content, index) => {
+		const contentId = pageIds[index] + 1;
+		objects.push(
+			Buffer.from(
+				`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+					`/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`,
+				'latin1'
+			)
+		);
+		const stream = deflateSync(Buffer.from(content, 'latin1'));
+		objects.push(
+			Buffer.concat([
+				Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+				stream,
+				Buffer.from('\nendstream', 'latin1')
+			])
+		);
+	});
+
+	const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n', 'latin1')];
+	let offset = chunks[0].length;
+	const offsets: number[] = [];
+	objects.forEach((object, index) => {
+		offsets.push(offset);
+		const wrapped = Buffer.concat([
+			Buffer.from(`${index + 1} 0 obj\n`, 'latin1'),
+			object,
+			Buffer.from('\nendobj\n', 'latin1')
+		]);
+		chunks.push(wrapped);
+		offset += wrapped.length;
+	});
+
+	const xref = [
+		'xref',
+		`0 ${objects.length + 1}`,
+		'0000000000 65535 f ',
+		...offsets.map((value) => `${String(value).padStart(10, '0')} 00000 n `),
+		'trailer',
+		`<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+		'startxref',
+		String(offset),
+		'%%EOF'
+	].join('\n');
+	chunks.push(Buffer.from(`${xref}\n`, 'latin1'));
+
+	return Buffer.concat(chunks);
+}
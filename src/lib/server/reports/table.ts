@@ -0,0 +1,67 @@
+/**
+ * A report as the export formats see it: a titled table with typed columns and an optional
+ * totals row. Values stay raw (numbers, dates) so spreadsheets can keep calculating with them;
+ * each writer formats them for its own output.
+ */
+export type ReportColumnType = 'text' | 'number' | 'currency' | 'date';
+
+export interface ReportColumn {
+	key: string;
+	label: string;
+	type: ReportColumnType;
+}
+
+export type ReportValue = string | number | Date | null | undefined;
+
+export type ReportRow = Record<string, ReportValue>;
+
+export interface ReportTable {
+	title: string;
+	/** Lines under the title: period, filters, notes */
+	subtitle: string[];
+	columns: ReportColumn[];
+	rows: ReportRow[];
+	totals?: ReportRow;
+}
+
+function pad(value: number): string {
+	return String(value).padStart(2, '0');
+}
+
+export function formatReportDate(date: Date, withSeconds = false): string {
+	const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+	const time = `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+	return `${day} ${time}${withSeconds ? `:${pad(date.getSeconds())}` : ''}`;
+}
+
+const groupedNumber = new Intl.NumberFormat('id-ID', { maximumFractionDigits: 2 });
+const groupedRupiah = new Intl.NumberFormat('id-ID', { maximumFractionDigits: 0 });
+
+/**
+ * A cell as text. Machine-readable output (CSV) keeps plain numbers and ISO-like dates;
+ * printed output (PDF) groups digits the Indonesian way.
+ */
+export function formatCell(
+	value: ReportValue,
+	type: ReportColumnType,
+	style: 'plain' | 'printed'
+): string {
+	if (value === null || value === undefined || value === '') return '';
+
+	if (type === 'date') {
+		const date = value instanceof Date ? value : new Date(value);
+		if (isNaN(date.getTime())) return String(value);
+		return formatReportDate(date, style === 'plain');
+	}
+
+	if (type === 'number' || type === 'currency') {
+		const number = Number(value);
+		if (!Number.isFinite(number)) return String(value);
+		if (style === 'plain') {
+			return type === 'currency' ? number.toFixed(2) : String(number);
+		}
+		return (type === 'currency' ? groupedRupiah : groupedNumber).format(number);
+	}
+
+	return String(value);
+}
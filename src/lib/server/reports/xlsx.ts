@@ -0,0 +1,222 @@
+import { crc32, deflateRawSync } from 'node:zlib';
+import type { ReportColumnType, ReportTable, ReportValue } from './table';
+
+/**
+ * A single-sheet .xlsx workbook: the smallest set of SpreadsheetML parts Excel, LibreOffice
+ * and Google Sheets accept, zipped without any third-party library. Text is written as inline
+ * strings, so nothing a customer typed can turn into a formula.
+ */
+
+// Indexes into cellXfs in STYLES
+const STYLE = { default: 0, bold: 1, amount: 2, date: 3, boldAmount: 4, boldDate: 5 };
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="2"><numFmt numFmtId="164" formatCode="#,##0"/><numFmt numFmtId="165" formatCode="yyyy-mm-dd hh:mm"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="6">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="164" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1" applyNumberFormat="1"/>
+<xf numFmtId="165" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1" applyNumberFormat="1"/>
+</cellXfs>
+</styleSheet>`;
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+function escapeXml(text: string): string {
+	return (
+		text
+			.replace(/&/g, '&amp;')
+			.replace(/</g, '&lt;')
+			.replace(/>/g, '&gt;')
+			.replace(/"/g, '&quot;')
+			// Control characters are not allowed in XML 1.0
+			.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+	);
+}
+
+function columnName(index: number): string {
+	let name = '';
+	for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+		name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+	}
+	return name;
+}
+
+// Excel counts days since 1899-12-30 in local time
+function toExcelDate(date: Date): number {
+	return (date.getTime() - date.getTimezoneOffset() * 60 * 1000) / 86400000 + 25569;
+}
+
+function textCell(ref: string, text: string, style = STYLE.default): string {
+	const styleAttr = style ? ` s="${style}"` : '';
+	return `<c r="${ref}" t="inlineStr"${styleAttr}><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+}
+
+function valueCell(ref: string, value: ReportValue, type: ReportColumnType, bold: boolean): string {
+	if (value === null || value === undefined || value === '') return '';
+
+	if (type === 'date') {
+		const date = value instanceof Date ? value : new Date(value);
+		if (!isNaN(date.getTime())) {
+			return `<c r="${ref}" s="${bold ? STYLE.boldDate : STYLE.date}"><v>${toExcelDate(date)}</v></c>`;
+		}
+	} else if (type === 'number' || type === 'currency') {
+		const number = Number(value);
+		if (Number.isFinite(number)) {
+			const style = type === 'currency' ? (bold ? STYLE.boldAmount : STYLE.amount) : 0;
+			const styleAttr = style ? ` s="${style}"` : bold ? ` s="${STYLE.bold}"` : '';
+			return `<c r="${ref}"${styleAttr}><v>${number}</v></c>`;
+		}
+	}
+
+	return textCell(ref, String(value), bold ? STYLE.bold : STYLE.default);
+}
+
+function renderSheet(table: ReportTable): string {
+	const rows: string[] = [];
+	const addRow = (cells: string[]) => {
+		rows.push(`<row r="${rows.length + 1}">${cells.join('')}</row>`);
+	};
+
+	addRow([textCell('A1', table.title, STYLE.bold)]);
+	for (const line of table.subtitle) {
+		addRow([textCell(`A${rows.length + 1}`, line)]);
+	}
+	addRow([]);
+
+	const headerRow = rows.length + 1;
+	addRow(
+		table.columns.map((column, index) =>
+			textCell(`${columnName(index)}${headerRow}`, column.label, STYLE.bold)
+		)
+	);
+
+	const dataRows = table.totals ? [...table.rows, table.totals] : table.rows;
+	dataRows.forEach((row, rowIndex) => {
+		const bold = !!table.totals && rowIndex === dataRows.length - 1;
+		const rowNumber = rows.length + 1;
+		addRow(
+			table.columns.map((column, index) =>
+				valueCell(`${columnName(index)}${rowNumber}`, row[column.key], column.type, bold)
+			)
+		);
+	});
+
+	const widths = table.columns
+		.map((column, index) => {
+			const width = column.type === 'text' ? Math.max(column.label.length + 2, 18) : 16;
+			return `<col min="${index + 1}" max="${index + 1}" width="${Math.min(width, 40)}" customWidth="1"/>`;
+		})
+		.join('');
+
+	return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="${headerRow}" topLeftCell="A${headerRow + 1}" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<cols>${widths}</cols>
+<sheetData>${rows.join('')}</sheetData>
+</worksheet>`;
+}
+
+function renderWorkbook(title: string): string {
+	// Sheet names are limited to 31 characters and may not contain []:*?/\
+	const sheetName = escapeXml(title.replace(/[[\]:*?/\\]/g, ' ').substring(0, 31));
+	return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${sheetName}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`;
+}
+
+// DOS date for 1980-01-01 00:00; entry timestamps do not matter for a generated file
+const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+const DOS_TIME = 0;
+
+/** A zip archive of deflated entries, as the Office Open XML package format needs */
+export function createZip(files: { name: string; data: string | Buffer }[]): Buffer {
+	const chunks: Buffer[] = [];
+	const central: Buffer[] = [];
+	let offset = 0;
+
+	for (const file of files) {
+		const name = Buffer.from(file.name, 'utf8');
+		const data = typeof file.data === 'string' ? Buffer.from(file.data, 'utf8') : file.data;
+		const compressed = deflateRawSync(data);
+		const checksum = crc32(data);
+
+		const local = Buffer.alloc(30);
+		local.writeUInt32LE(0x04034b50, 0);
+		local.writeUInt16LE(20, 4);
+		local.writeUInt16LE(0x0800, 6); // UTF-8 names
+		local.writeUInt16LE(8, 8); // deflate
+		local.writeUInt16LE(DOS_TIME, 10);
+		local.writeUInt16LE(DOS_DATE, 12);
+		local.writeUInt32LE(checksum, 14);
+		local.writeUInt32LE(compressed.length, 18);
+		local.writeUInt32LE(data.length, 22);
+		local.writeUInt16LE(name.length, 26);
+		local.writeUInt16LE(0, 28);
+
+		const header = Buffer.alloc(46);
+		header.writeUInt32LE(0x02014b50, 0);
+		header.writeUInt16LE(20, 4);
+		header.writeUInt16LE(20, 6);
+		header.writeUInt16LE(0x0800, 8);
+		header.writeUInt16LE(8, 10);
+		header.writeUInt16LE(DOS_TIME, 12);
+		header.writeUInt16LE(DOS_DATE, 14);
+		header.writeUInt32LE(checksum, 16);
+		header.writeUInt32LE(compressed.length, 20);
+		header.writeUInt32LE(data.length, 24);
+		header.writeUInt16LE(name.length, 28);
+		header.writeUInt32LE(offset, 42);
+
+		chunks.push(local, name, compressed);
+		central.push(header, name);
+		offset += local.length + name.length + compressed.length;
+	}
+
+	const centralSize = central.reduce((sum, chunk) => sum + chunk.length, 0);
+	const end = Buffer.alloc(22);
+	end.writeUInt32LE(0x06054b50, 0);
+	end.writeUInt16LE(files.length, 8);
+	end.writeUInt16LE(files.length, 10);
+	end.writeUInt32LE(centralSize, 12);
+	end.writeUInt32LE(offset, 16);
+
+	return Buffer.concat([...chunks, ...central, end]);
+}
+
+export function renderXlsx(table: ReportTable): Buffer {
+	return createZip([
+		{ name: '[Content_Types].xml', data: CONTENT_TYPES },
+		{ name: '_rels/.rels', data: ROOT_RELS },
+		{ name: 'xl/workbook.xml', data: renderWorkbook(table.title) },
+		{ name: 'xl/_rels/workbook.xml.rels', data: WORKBOOK_RELS },
+		{ name: 'xl/styles.xml', data: STYLES },
+		{ name: 'xl/worksheets/sheet1.xml', data: renderSheet(table) }
+	]);
+}
@@ -0,0 +1,580 @@
+import { db } from '$lib/server/db';
+import {
+	orders,
+	orderItems,
+	orderShipments,
+	orderStatusHistory,
+	orderReturns,
+	orderReturnItems,
+	users
+} from '$lib/server/db/schema';
+import { restockReturnedItems } from '$lib/server/inventory';
+import { transitionOrderStatus } from '$lib/server/order-lifecycle';
+import { getPaymentProvider, type RefundResult } from '$lib/server/payment-providers';
+import { eq, and, asc, desc, inArray, notInArray, sql } from 'drizzle-orm';
+import { error } from '@sveltejs/kit';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | Transaction;
+
+export const RETURN_STATUSES = [
+	'requested',
+	'approved',
+	'rejected',
+	'received',
+	'refunded',
+	'cancelled'
+] as const;
+export type ReturnStatus = (typeof RETURN_STATUSES)[number];
+
+export const RETURN_REASONS = [
+	'damaged',
+	'wrong_item',
+	'not_as_described',
+	'changed_mind',
+	'other'
+] as const;
+export type ReturnReason = (typeof RETURN_REASONS)[number];
+
+/** Days after delivery during which customers can ask for a return */
+export const RETURN_WINDOW_DAYS = 14;
+const MAX_NOTE_LENGTH = 255;
+
+/**
+ * requested -> approved -> received -> refunded is the happy path. Admins reject requests,
+ * customers withdraw them, both only before approval.
+ */
+const RETURN_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+	requested: ['approved', 'rejected', 'cancelled'],
+	approved: ['received'],
+	received: ['refunded'],
+	rejected: [],
+	refunded: [],
+	cancelled: []
+};
+
+// Items in these returns can be asked for again
+const CLOSED_UNFULFILLED: ReturnStatus[] = ['rejected', 'cancelled'];
+
+export interface ReturnItemInput {
+	orderItemId: number;
+	quantity: number;
+	reason: ReturnReason;
+}
+
+export interface ReturnableItem {
+	orderItemId: number;
+	productId: number;
+	variantId: number | null;
+	name: string;
+	variantName: string | null;
+	price: number;
+	ordered: number;
+	/** Ordered quantity minus what open or completed returns already claim */
+	returnable: number;
+}
+
+export interface ReturnItem {
+	orderItemId: number;
+	quantity: number;
+	reason: string;
+	productId: number;
+	variantId: number | null;
+	name: string;
+	variantName: string | null;
+	price: number;
+	/** Warehouse the item shipped from; restocking puts it back there */
+	warehouseId: number | null;
+}
+
+export interface ReturnEligibility {
+	canReturn: boolean;
+	/** End of the return window; null when the delivery date is unknown */
+	deadline: Date | null;
+	reason: string | null;
+}
+
+export interface RefundOptions {
+	/** Defaults to the value of the returned items, capped at what is left to refund */
+	amount?: number | null;
+	/** Record a refund staff paid out themselves instead of going through the provider */
+	manual?: boolean;
+	note?: string | null;
+}
+
+export function isReturnStatus(value: unknown): value is ReturnStatus {
+	return typeof value === 'string' && (RETURN_STATUSES as readonly string[]).includes(value);
+}
+
+export function isReturnReason(value: unknown): value is ReturnReason {
+	return typeof value === 'string' && (RETURN_REASONS as readonly string[]).includes(value);
+}
+
+export function canTransitionReturn(from: string, to: ReturnStatus): boolean {
+	return isReturnStatus(from) && RETURN_TRANSITIONS[from].includes(to);
+}
+
+export function parseReturnNote(value: unknown): string | null {
+	return typeof value === 'string' && value.trim()
+		? value.trim().substring(0, MAX_NOTE_LENGTH)
+		: null;
+}
+
+export function parseReturnItems(value: unknown): ReturnItemInput[] {
+	if (!Array.isArray(value) || value.length === 0) {
+		throw error(400, 'Pick at least one item to return');
+	}
+
+	const items = value.map((item) => {
+		const orderItemId = Number(item?.orderItemId);
+		const quantity = Number(item?.quantity);
+		if (!Number.isInteger(orderItemId) || orderItemId <= 0) {
+			throw error(400, 'Valid order item id is required');
+		}
+		if (!Number.isInteger(quantity) || quantity <= 0) {
+			throw error(400, 'Quantity must be a positive whole number');
+		}
+		if (!isReturnReason(item?.reason)) {
+			throw error(400, 'Invalid return reason');
+		}
+		return { orderItemId, quantity, reason: item.reason };
+	});
+
+	if (new Set(items.map((item) => item.orderItemId)).size !== items.length) {
+		throw error(400, 'Each item can only be listed once');
+	}
+	return items;
+}
+
+// Midtrans and manual refunds work in whole rupiah
+function toRupiah(value: number): number {
+	return Math.round(value);
+}
+
+async function getDeliveredAt(executor: Executor, orderId: string): Promise<Date | null> {
+	const [entry] = await executor
+		.select({ createdAt: orderStatusHistory.createdAt })
+		.from(orderStatusHistory)
+		.where(
+			and(eq(orderStatusHistory.orderId, orderId), eq(orderStatusHistory.toStatus, 'delivered'))
+		)
+		.orderBy(desc(orderStatusHistory.createdAt))
+		.limit(1);
+	return entry?.createdAt ?? null;
+}
+
+/**
+ * Delivered orders can be returned within RETURN_WINDOW_DAYS of delivery. Orders delivered
+ * before status history was recorded have no delivery date and are not time limited.
+ */
+export async function getReturnEligibility(
+	order: { id: string; status: string | null },
+	executor: Executor = db
+): Promise<ReturnEligibility> {
+	if (order.status !== 'delivered') {
+		return { canReturn: false, deadline: null, reason: 'Only delivered orders can be returned' };
+	}
+
+	const deliveredAt = await getDeliveredAt(executor, order.id);
+	const deadline = deliveredAt
+		? new Date(deliveredAt.getTime() + RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+		: null;
+	if (deadline && deadline.getTime() < Date.now()) {
+		return {
+			canReturn: false,
+			deadline,
+			reason: `Returns are accepted up to ${RETURN_WINDOW_DAYS} days after delivery`
+		};
+	}
+	return { canReturn: true, deadline, reason: null };
+}
+
+export async function getReturnableItems(
+	orderId: string,
+	executor: Executor = db
+): Promise<ReturnableItem[]> {
+	const items = await executor
+		.select()
+		.from(orderItems)
+		.where(eq(orderItems.orderId, orderId))
+		.orderBy(asc(orderItems.id));
+
+	const claimed = await executor
+		.select({
+			orderItemId: orderReturnItems.orderItemId,
+			quantity: sql<number>`COALESCE(SUM(${orderReturnItems.quantity}), 0)`
+		})
+		.from(orderReturnItems)
+		.innerJoin(orderReturns, eq(orderReturns.id, orderReturnItems.returnId))
+		.where(
+			and(eq(orderReturns.orderId, orderId), notInArray(orderReturns.status, CLOSED_UNFULFILLED))
+		)
+		.groupBy(orderReturnItems.orderItemId);
+	const claimedByItem = new Map(claimed.map((row) => [row.orderItemId, Number(row.quantity)]));
+
+	return items.map((item) => ({
+		orderItemId: item.id,
+		productId: item.productId,
+		variantId: item.variantId,
+		name: item.name,
+		variantName: item.variantName,
+		price: parseFloat(item.price),
+		ordered: item.quantity,
+		returnable: Math.max(item.quantity - (claimedByItem.get(item.id) || 0), 0)
+	}));
+}
+
+/**
+ * Open a return request for the customer's own order. The order row is locked so two
+ * requests cannot both claim the last returnable unit.
+ */
+export async function createReturnRequest(input: {
+	orderId: string;
+	userId: number;
+	items: ReturnItemInput[];
+	note: string | null;
+}) {
+	return db.transaction(async (tx) => {
+		const [order] = await tx
+			.select()
+			.from(orders)
+			.where(eq(orders.id, input.orderId))
+			.limit(1)
+			.for('update');
+
+		if (!order || order.userId !== input.userId) {
+			throw error(404, 'Order not found');
+		}
+
+		const eligibility = await getReturnEligibility(order, tx);
+		if (!eligibility.canReturn) {
+			throw error(409, eligibility.reason || 'Order cannot be returned');
+		}
+
+		const returnable = await getReturnableItems(order.id, tx);
+		for (const item of input.items) {
+			const orderItem = returnable.find((entry) => entry.orderItemId === item.orderItemId);
+			if (!orderItem) {
+				throw error(400, 'Item is not part of this order');
+			}
+			if (item.quantity > orderItem.returnable) {
+				throw error(409, `Only ${orderItem.returnable} of ${orderItem.name} can still be returned`);
+			}
+		}
+
+		const [result] = await tx.insert(orderReturns).values({
+			orderId: order.id,
+			userId: input.userId,
+			customerNote: input.note
+		});
+		const returnId = result.insertId;
+
+		await tx.insert(orderReturnItems).values(
+			input.items.map((item) => ({
+				returnId,
+				orderItemId: item.orderItemId,
+				quantity: item.quantity,
+				reason: item.reason
+			}))
+		);
+
+		return returnId;
+	});
+}
+
+async function getReturnItems(
+	returnIds: number[],
+	executor: Executor = db
+): Promise<Map<number, ReturnItem[]>> {
+	if (returnIds.length === 0) return new Map();
+
+	const rows = await executor
+		.select({
+			returnId: orderReturnItems.returnId,
+			orderItemId: orderReturnItems.orderItemId,
+			quantity: orderReturnItems.quantity,
+			reason: orderReturnItems.reason,
+			productId: orderItems.productId,
+			variantId: orderItems.variantId,
+			name: orderItems.name,
+			variantName: orderItems.variantName,
+			price: orderItems.price,
+			warehouseId: orderShipments.warehouseId
+		})
+		.from(orderReturnItems)
+		.innerJoin(orderItems, eq(orderItems.id, orderReturnItems.orderItemId))
+		.leftJoin(orderShipments, eq(orderShipments.id, orderItems.shipmentId))
+		.where(inArray(orderReturnItems.returnId, returnIds))
+		.orderBy(asc(orderReturnItems.id));
+
+	const items = new Map<number, ReturnItem[]>();
+	for (const { returnId, price, ...row } of rows) {
+		if (!items.has(returnId)) items.set(returnId, []);
+		items.get(returnId)!.push({ ...row, price: parseFloat(price) });
+	}
+	return items;
+}
+
+function serializeReturn(row: typeof orderReturns.$inferSelect, items: ReturnItem[]) {
+	const { metadata, refundAmount, ...rest } = row;
+	return {
+		...rest,
+		refundAmount: refundAmount !== null ? parseFloat(refundAmount) : null,
+		refund: JSON.parse(metadata || '{}').refund || null,
+		items,
+		itemsValue: items.reduce((sum, item) => sum + item.price * item.quantity, 0)
+	};
+}
+
+export async function listOrderReturns(orderId: string) {
+	const rows = await db
+		.select()
+		.from(orderReturns)
+		.where(eq(orderReturns.orderId, orderId))
+		.orderBy(desc(orderReturns.createdAt), desc(orderReturns.id));
+
+	const items = await getReturnItems(rows.map((row) => row.id));
+	return rows.map((row) => serializeReturn(row, items.get(row.id) || []));
+}
+
+export async function listReturns(options: {
+	status?: ReturnStatus | null;
+	page: number;
+	perPage: number;
+}) {
+	const where = options.status ? eq(orderReturns.status, options.status) : undefined;
+
+	const [{ count }] = await db
+		.select({ count: sql<number>`COUNT(*)` })
+		.from(orderReturns)
+		.where(where);
+
+	const rows = await db
+		.select({
+			return: orderReturns,
+			orderNumber: orders.orderNumber,
+			orderTotal: orders.total,
+			paymentMethod: orders.paymentMethod,
+			userName: users.name,
+			userEmail: users.email
+		})
+		.from(orderReturns)
+		.innerJoin(orders, eq(orders.id, orderReturns.orderId))
+		.innerJoin(users, eq(users.id, orderReturns.userId))
+		.where(where)
+		.orderBy(desc(orderReturns.createdAt), desc(orderReturns.id))
+		.limit(options.perPage)
+		.offset((options.page - 1) * options.perPage);
+
+	const items = await getReturnItems(rows.map((row) => row.return.id));
+	return {
+		data: rows.map(({ return: row, orderTotal, ...order }) => ({
+			...serializeReturn(row, items.get(row.id) || []),
+			...order,
+			orderTotal: parseFloat(orderTotal)
+		})),
+		total: Number(count)
+	};
+}
+
+/**
+ * Lock a return and move it to `to`, enforcing RETURN_TRANSITIONS. Throws 404 for unknown
+ * returns and 409 for illegal moves.
+ */
+async function moveReturn(
+	tx: Transaction,
+	returnId: number,
+	to: ReturnStatus,
+	values: Partial<typeof orderReturns.$inferInsert>,
+	check?: (row: typeof orderReturns.$inferSelect) => void
+) {
+	const [row] = await tx
+		.select()
+		.from(orderReturns)
+		.where(eq(orderReturns.id, returnId))
+		.limit(1)
+		.for('update');
+
+	if (!row) {
+		throw error(404, 'Return not found');
+	}
+	check?.(row);
+	if (!canTransitionReturn(row.status, to)) {
+		throw error(409, `Cannot change return status from '${row.status}' to '${to}'`);
+	}
+
+	await tx
+		.update(orderReturns)
+		.set({ ...values, status: to })
+		.where(eq(orderReturns.id, returnId));
+	return row;
+}
+
+export async function reviewReturn(
+	returnId: number,
+	decision: 'approved' | 'rejected',
+	adminId: number,
+	note: string | null
+) {
+	await db.transaction((tx) =>
+		moveReturn(tx, returnId, decision, {
+			adminNote: note,
+			reviewedBy: adminId,
+			reviewedAt: new Date()
+		})
+	);
+}
+
+/**
+ * Withdraw a request the customer made, as long as no admin approved it yet
+ */
+export async function cancelReturn(returnId: number, userId: number) {
+	await db.transaction((tx) =>
+		moveReturn(tx, returnId, 'cancelled', {}, (row) => {
+			if (row.userId !== userId) {
+				throw error(404, 'Return not found');
+			}
+		})
+	);
+}
+
+/**
+ * The goods arrived back: put them into stock at the warehouse they shipped from. Runs in
+ * the same transaction as the status change, so a return is restocked exactly once.
+ */
+export async function receiveReturn(returnId: number, adminId: number, note: string | null) {
+	await db.transaction(async (tx) => {
+		await moveReturn(tx, returnId, 'received', {
+			receivedAt: new Date(),
+			reviewedBy: adminId,
+			...(note && { adminNote: note })
+		});
+
+		const items = (await getReturnItems([returnId], tx)).get(returnId) || [];
+		await restockReturnedItems(
+			tx,
+			items.map((item) => ({
+				productId: item.productId,
+				variantId: item.variantId,
+				warehouseId: item.warehouseId,
+				quantity: item.quantity
+			}))
+		);
+	});
+}
+
+async function getRefundedTotal(executor: Executor, orderId: string): Promise<number> {
+	const [{ total }] = await executor
+		.select({ total: sql<string>`COALESCE(SUM(${orderReturns.refundAmount}), 0)` })
+		.from(orderReturns)
+		.where(and(eq(orderReturns.orderId, orderId), eq(orderReturns.status, 'refunded')));
+	return parseFloat(total);
+}
+
+/**
+ * Pay back a received return through the order's payment provider (Midtrans refund API), or
+ * record a refund staff made by hand. The refund key is derived from the return, so retrying
+ * after a failure never pays out twice. Once refunds cover the whole order total the order
+ * itself becomes refunded.
+ * The order row stays locked from computing the refundable amount until the refund is
+ * recorded, so concurrent refunds of one order cannot together pay out more than its total.
+ */
+export async function refundReturn(returnId: number, adminId: number, options: RefundOptions) {
+	const refund = await db.transaction(async (tx) => {
+		const [row] = await tx
+			.select()
+			.from(orderReturns)
+			.where(eq(orderReturns.id, returnId))
+			.limit(1)
+			.for('update');
+		if (!row) {
+			throw error(404, 'Return not found');
+		}
+		if (!canTransitionReturn(row.status, 'refunded')) {
+			throw error(409, `Cannot refund a return that is '${row.status}'`);
+		}
+
+		const [order] = await tx
+			.select()
+			.from(orders)
+			.where(eq(orders.id, row.orderId))
+			.limit(1)
+			.for('update');
+		const items = (await getReturnItems([returnId], tx)).get(returnId) || [];
+		const itemsValue = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+		const orderTotal = toRupiah(parseFloat(order.total));
+		const refundedBefore = await getRefundedTotal(tx, order.id);
+		const remaining = toRupiah(orderTotal - refundedBefore);
+
+		const amount = toRupiah(options.amount ?? Math.min(itemsValue, remaining));
+		if (!Number.isFinite(amount) || amount <= 0) {
+			throw error(400, 'Refund amount must be positive');
+		}
+		if (amount > remaining) {
+			throw error(400, `At most ${remaining} can still be refunded for this order`);
+		}
+
+		const provider = getPaymentProvider(order.paymentMethod);
+		let result: RefundResult;
+		if (options.manual) {
+			result = { manual: true, amount, providerStatus: null };
+		} else {
+			try {
+				result = await provider.refund(order, {
+					refundKey: `RMA-${order.orderNumber}-${returnId}`,
+					amount,
+					reason: options.note || `Return #${returnId}`
+				});
+			} catch (err: any) {
+				console.error(`Refund for return ${returnId} failed:`, err);
+				throw error(502, `Refund failed: ${err.message || 'payment provider error'}`);
+			}
+		}
+
+		const refundedAt = new Date();
+		await moveReturn(tx, returnId, 'refunded', {
+			refundAmount: amount.toFixed(2),
+			refundMethod: result.manual ? 'manual' : 'provider',
+			refundedAt,
+			reviewedBy: adminId,
+			...(options.note && { adminNote: options.note }),
+			metadata: JSON.stringify({
+				refund: {
+					method: order.paymentMethod,
+					manual: result.manual,
+					provider_status: result.providerStatus,
+					response: result.raw ?? null,
+					refunded_by: adminId,
+					refunded_at: refundedAt.toISOString()
+				}
+			})
+		});
+
+		return {
+			orderId: order.id,
+			amount,
+			result,
+			fullyRefunded: refundedBefore + amount >= orderTotal
+		};
+	});
+
+	// Separate from the refund record: money already paid back must stay recorded even when
+	// the order can no longer move to refunded
+	if (refund.fullyRefunded) {
+		try {
+			await transitionOrderStatus(refund.orderId, 'refunded', {
+				actor: { type: 'admin', id: adminId },
+				reason: `Fully refunded through return #${returnId}`
+			});
+		} catch (err: any) {
+			if (err?.status !== 409) throw err;
+			console.warn(`Order ${refund.orderId} refunded in full but kept its status:`, err.body);
+		}
+	}
+
+	return {
+		amount: refund.amount,
+		manual: refund.result.manual,
+		providerStatus: refund.result.providerStatus
+	};
+}
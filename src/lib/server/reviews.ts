@@ -0,0 +1,295 @@
+import { db } from '$lib/server/db';
+import {
+	productReviews,
+	productReviewImages,
+	orders,
+	orderItems,
+	users
+} from '$lib/server/db/schema';
+import { eq, and, asc, desc, inArray, sql, type SQL } from 'drizzle-orm';
+import { error } from '@sveltejs/kit';
+
+export const REVIEW_STATUSES = ['published', 'hidden'] as const;
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number];
+
+export const REVIEW_SORTS = ['newest', 'oldest', 'highest', 'lowest'] as const;
+export type ReviewSort = (typeof REVIEW_SORTS)[number];
+
+export const MAX_REVIEW_IMAGES = 5;
+export const MAX_REVIEW_LENGTH = 2000;
+const MIN_REVIEW_LENGTH = 10;
+
+export interface RatingSummary {
+	/** Average of published ratings, one decimal */
+	rating: number;
+	reviewCount: number;
+}
+
+export interface ReviewEligibility {
+	canReview: boolean;
+	/** Most recent delivered order containing the product */
+	orderId: string | null;
+	/** Set when the user already reviewed the product */
+	reviewId: number | null;
+}
+
+export interface ReviewListOptions {
+	page: number;
+	perPage: number;
+	sort: ReviewSort;
+	/** Only return reviews with this star rating */
+	rating?: number | null;
+}
+
+export interface ReviewInput {
+	productId: number;
+	userId: number;
+	rating: number;
+	body: string;
+	images: string[];
+}
+
+export function isReviewStatus(value: unknown): value is ReviewStatus {
+	return typeof value === 'string' && (REVIEW_STATUSES as readonly string[]).includes(value);
+}
+
+export function isReviewSort(value: unknown): value is ReviewSort {
+	return typeof value === 'string' && (REVIEW_SORTS as readonly string[]).includes(value);
+}
+
+export function parseRating(value: unknown): number {
+	const rating = Number(value);
+	if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+		throw error(400, 'Rating must be a whole number between 1 and 5');
+	}
+	return rating;
+}
+
+export function parseReviewBody(value: unknown): string {
+	const body = typeof value === 'string' ? value.trim() : '';
+	if (body.length < MIN_REVIEW_LENGTH) {
+		throw error(400, `Review must be at least ${MIN_REVIEW_LENGTH} characters`);
+	}
+	if (body.length > MAX_REVIEW_LENGTH) {
+		throw error(400, `Review must be at most ${MAX_REVIEW_LENGTH} characters`);
+	}
+	return body;
+}
+
+/**
+ * Average rating and review count per product, counting published reviews only.
+ * Products without reviews are absent from the map.
+ */
+export async function getRatingSummaries(
+	productIds: number[]
+): Promise<Map<number, RatingSummary>> {
+	if (productIds.length === 0) return new Map();
+
+	const rows = await db
+		.select({
+			productId: productReviews.productId,
+			average: sql<string>`AVG(${productReviews.rating})`,
+			count: sql<number>`COUNT(*)`
+		})
+		.from(productReviews)
+		.where(
+			and(inArray(productReviews.productId, productIds), eq(productReviews.status, 'published'))
+		)
+		.groupBy(productReviews.productId);
+
+	return new Map(
+		rows.map((row) => [
+			row.productId,
+			{
+				rating: Math.round(parseFloat(row.average) * 10) / 10,
+				reviewCount: Number(row.count)
+			}
+		])
+	);
+}
+
+/**
+ * Number of published reviews per star, 1 through 5.
+ */
+export async function getRatingBreakdown(productId: number): Promise<Record<number, number>> {
+	const rows = await db
+		.select({
+			rating: productReviews.rating,
+			count: sql<number>`COUNT(*)`
+		})
+		.from(productReviews)
+		.where(and(eq(productReviews.productId, productId), eq(productReviews.status, 'published')))
+		.groupBy(productReviews.rating);
+
+	const breakdown: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+	rows.forEach((row) => (breakdown[row.rating] = Number(row.count)));
+	return breakdown;
+}
+
+export async function getReviewImages(reviewIds: number[]): Promise<Map<number, string[]>> {
+	const imagesByReview = new Map<number, string[]>();
+	if (reviewIds.length === 0) return imagesByReview;
+
+	const rows = await db
+		.select()
+		.from(productReviewImages)
+		.where(inArray(productReviewImages.reviewId, reviewIds))
+		.orderBy(asc(productReviewImages.id));
+
+	rows.forEach((row) => {
+		if (!imagesByReview.has(row.reviewId)) {
+			imagesByReview.set(row.reviewId, []);
+		}
+		imagesByReview.get(row.reviewId)!.push(row.image);
+	});
+	return imagesByReview;
+}
+
+/**
+ * Published reviews of a product for the storefront.
+ */
+export async function listProductReviews(productId: number, options: ReviewListOptions) {
+	const conditions: SQL[] = [
+		eq(productReviews.productId, productId),
+		eq(productReviews.status, 'published')
+	];
+	if (options.rating) conditions.push(eq(productReviews.rating, options.rating));
+	const where = and(...conditions);
+
+	const orderBy = {
+		newest: [desc(productReviews.createdAt), desc(productReviews.id)],
+		oldest: [asc(productReviews.createdAt), asc(productReviews.id)],
+		highest: [desc(productReviews.rating), desc(productReviews.createdAt)],
+		lowest: [asc(productReviews.rating), desc(productReviews.createdAt)]
+	}[options.sort];
+
+	const [{ count }] = await db
+		.select({ count: sql<number>`COUNT(*)` })
+		.from(productReviews)
+		.where(where);
+
+	const rows = await db
+		.select({
+			id: productReviews.id,
+			rating: productReviews.rating,
+			body: productReviews.body,
+			orderId: productReviews.orderId,
+			createdAt: productReviews.createdAt,
+			userName: users.name
+		})
+		.from(productReviews)
+		.innerJoin(users, eq(productReviews.userId, users.id))
+		.where(where)
+		.orderBy(...orderBy)
+		.limit(options.perPage)
+		.offset((options.page - 1) * options.perPage);
+
+	const images = await getReviewImages(rows.map((row) => row.id));
+
+	return {
+		reviews: rows.map(({ orderId, ...row }) => ({
+			...row,
+			verifiedPurchase: orderId !== null,
+			images: images.get(row.id) || []
+		})),
+		total: Number(count)
+	};
+}
+
+/**
+ * A user may review a product once, after an order containing it has been delivered.
+ */
+export async function getReviewEligibility(
+	userId: number,
+	productId: number
+): Promise<ReviewEligibility> {
+	const [existing] = await db
+		.select({ id: productReviews.id })
+		.from(productReviews)
+		.where(and(eq(productReviews.productId, productId), eq(productReviews.userId, userId)))
+		.limit(1);
+
+	const [order] = await db
+		.select({ id: orders.id })
+		.from(orderItems)
+		.innerJoin(orders, eq(orderItems.orderId, orders.id))
+		.where(
+			and(
+				eq(orders.userId, userId),
+				eq(orders.status, 'delivered'),
+				eq(orderItems.productId, productId)
+			)
+		)
+		.orderBy(desc(orders.createdAt))
+		.limit(1);
+
+	return {
+		canReview: !existing && !!order,
+		orderId: order?.id ?? null,
+		reviewId: existing?.id ?? null
+	};
+}
+
+export async function createReview(input: ReviewInput) {
+	const eligibility = await getReviewEligibility(input.userId, input.productId);
+	if (eligibility.reviewId) {
+		throw error(409, 'You have already reviewed this product');
+	}
+	if (!eligibility.orderId) {
+		throw error(403, 'Only customers who received this product can review it');
+	}
+	if (input.images.length > MAX_REVIEW_IMAGES) {
+		throw error(400, `At most ${MAX_REVIEW_IMAGES} images per review`);
+	}
+
+	try {
+		return await db.transaction(async (tx) => {
+			const [result] = await tx.insert(productReviews).values({
+				productId: input.productId,
+				userId: input.userId,
+				orderId: eligibility.orderId,
+				rating: input.rating,
+				body: input.body
+			});
+			const reviewId = result.insertId;
+
+			if (input.images.length > 0) {
+				await tx
+					.insert(productReviewImages)
+					.values(input.images.map((image) => ({ reviewId, image })));
+			}
+
+			return reviewId;
+		});
+	} catch (err: any) {
+		// Two submissions racing past the eligibility check
+		if (err?.code === 'ER_DUP_ENTRY') {
+			throw error(409, 'You have already reviewed this product');
+		}
+		throw err;
+	}
+}
+
+export async function setReviewStatus(
+	reviewId: number,
+	status: ReviewStatus,
+	adminId: number,
+	note: string | null
+) {
+	const [result] = await db
+		.update(productReviews)
+		.set({ status, moderatedBy: adminId, moderationNote: note })
+		.where(eq(productReviews.id, reviewId));
+
+	if (result.affectedRows === 0) {
+		throw error(404, 'Review not found');
+	}
+}
+
+export async function deleteReview(reviewId: number) {
+	const [result] = await db.delete(productReviews).where(eq(productReviews.id, reviewId));
+
+	if (result.affectedRows === 0) {
+		throw error(404, 'Review not found');
+	}
+}
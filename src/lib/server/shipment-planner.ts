@@ -0,0 +1,279 @@
+import { db } from '$lib/server/db';
+import { warehouses, warehouseStock } from '$lib/server/db/schema';
+import { listActiveWarehouses, type Warehouse } from '$lib/server/warehouses';
+import { OutOfStockError, type OutOfStockItem } from '$lib/server/inventory';
+import { calculateShippingRates, type ShippingRate } from '$lib/server/biteship-utils';
+import { and, eq, inArray } from 'drizzle-orm';
+
+export interface ShipmentLine {
+	productId: number;
+	variantId?: number | null;
+	quantity: number;
+	name?: string;
+	weight: number;
+	height: number;
+	length: number;
+	width: number;
+	/** Unit price, used for the declared package value */
+	value: number;
+}
+
+export interface ShipmentPlan<T extends ShipmentLine = ShipmentLine> {
+	warehouse: Warehouse;
+	/** Lines shipped from this warehouse; a cart line may be split across plans */
+	lines: T[];
+}
+
+export interface ShipmentQuote<T extends ShipmentLine = ShipmentLine> extends ShipmentPlan<T> {
+	rates: ShippingRate[];
+}
+
+function lineKey(line: { productId: number; variantId?: number | null }) {
+	return `${line.productId}:${line.variantId ?? ''}`;
+}
+
+/**
+ * How close a warehouse is to the destination, judged by the shared leading digits of the
+ * postal codes (Indonesian codes are assigned by region, then province, then city).
+ */
+function proximity(warehouse: Warehouse, destinationPostal: string): number {
+	let shared = 0;
+	while (
+		shared < destinationPostal.length &&
+		warehouse.postalCode[shared] === destinationPostal[shared]
+	) {
+		shared++;
+	}
+	return shared;
+}
+
+/**
+ * Active warehouses, closest to the destination first; ties go to the lower priority number.
+ */
+export async function rankWarehouses(destinationPostal: string): Promise<Warehouse[]> {
+	const active = await listActiveWarehouses();
+	return active
+		.map((warehouse, index) => ({
+			warehouse,
+			index,
+			score: proximity(warehouse, destinationPostal)
+		}))
+		.sort((a, b) => b.score - a.score || a.index - b.index)
+		.map(({ warehouse }) => warehouse);
+}
+
+async function loadAvailability(warehouseIds: number[], productIds: number[]) {
+	const rows = await db
+		.select({
+			warehouseId: warehouseStock.warehouseId,
+			productId: warehouseStock.productId,
+			variantId: warehouseStock.variantId,
+			quantity: warehouseStock.quantity
+		})
+		.from(warehouseStock)
+		.innerJoin(warehouses, eq(warehouses.id, warehouseStock.warehouseId))
+		.where(
+			and(
+				inArray(warehouseStock.warehouseId, warehouseIds),
+				inArray(warehouseStock.productId, productIds),
+				eq(warehouses.isActive, true)
+			)
+		);
+
+	// warehouseId -> line key -> units on hand
+	const availability = new Map<number, Map<string, number>>();
+	rows.forEach((row) => {
+		if (!availability.has(row.warehouseId)) availability.set(row.warehouseId, new Map());
+		availability.get(row.warehouseId)!.set(lineKey(row), Math.max(row.quantity, 0));
+	});
+	return availability;
+}
+
+/**
+ * Decide which warehouse ships which units. The closest warehouse that has the whole cart
+ * ships it alone; otherwise the cart is split, each round taking the warehouse that can
+ * cover the most remaining units. Throws OutOfStockError when all warehouses together
+ * cannot cover a line.
+ */
+export async function planShipments<T extends ShipmentLine>(
+	lines: T[],
+	destinationPostal: string
+): Promise<ShipmentPlan<T>[]> {
+	const ranked = await rankWarehouses(destinationPostal);
+	if (ranked.length === 0) {
+		throw new Error('No active warehouse configured');
+	}
+
+	const productIds = [...new Set(lines.map((line) => line.productId))];
+	const availability = await loadAvailability(
+		ranked.map((warehouse) => warehouse.id),
+		productIds
+	);
+	const onHand = (warehouseId: number, key: string) => availability.get(warehouseId)?.get(key) || 0;
+
+	// Same product or variant on several lines counts once
+	const requested = new Map<string, number>();
+	lines.forEach((line) => {
+		requested.set(lineKey(line), (requested.get(lineKey(line)) || 0) + line.quantity);
+	});
+
+	const single = ranked.find((warehouse) =>
+		[...requested].every(([key, quantity]) => onHand(warehouse.id, key) >= quantity)
+	);
+	if (single) {
+		return [{ warehouse: single, lines }];
+	}
+
+	const remaining = new Map(requested);
+	const allocations = new Map<number, Map<string, number>>();
+	const unused = [...ranked];
+
+	while ([...remaining.values()].some((quantity) => quantity > 0) && unused.length > 0) {
+		let chosen: Warehouse | null = null;
+		let bestUnits = 0;
+		for (const warehouse of unused) {
+			let units = 0;
+			remaining.forEach((quantity, key) => {
+				units += Math.min(quantity, onHand(warehouse.id, key));
+			});
+			if (units > bestUnits) {
+				chosen = warehouse;
+				bestUnits = units;
+			}
+		}
+		if (!chosen) break;
+
+		const origin = chosen;
+		const allocation = new Map<string, number>();
+		remaining.forEach((quantity, key) => {
+			const taken = Math.min(quantity, onHand(origin.id, key));
+			if (taken > 0) {
+				allocation.set(key, taken);
+				remaining.set(key, quantity - taken);
+			}
+		});
+		allocations.set(origin.id, allocation);
+		unused.splice(unused.indexOf(origin), 1);
+	}
+
+	const short: OutOfStockItem[] = [];
+	remaining.forEach((quantity, key) => {
+		if (quantity <= 0) return;
+		const line = lines.find((entry) => lineKey(entry) === key)!;
+		short.push({
+			productId: line.productId,
+			variantId: line.variantId ?? null,
+			name: line.name || null,
+			requested: requested.get(key)!,
+			available: ranked.reduce((sum, warehouse) => sum + onHand(warehouse.id, key), 0)
+		});
+	});
+	if (short.length > 0) {
+		throw new OutOfStockError(short);
+	}
+
+	// Hand the allocated units out to the cart lines, closest warehouse first. Duplicate
+	// lines of one product are each filled once.
+	const lineAllocated = new Map<T, number>();
+	return ranked
+		.filter((warehouse) => allocations.has(warehouse.id))
+		.map((warehouse) => {
+			const allocation = allocations.get(warehouse.id)!;
+			const planLines: T[] = [];
+			lines.forEach((line) => {
+				const key = lineKey(line);
+				const filled = lineAllocated.get(line) || 0;
+				const taken = Math.min(allocation.get(key) || 0, line.quantity - filled);
+				if (taken > 0) {
+					planLines.push({ ...line, quantity: taken });
+					allocation.set(key, allocation.get(key)! - taken);
+					lineAllocated.set(line, filled + taken);
+				}
+			});
+			return { warehouse, lines: planLines };
+		});
+}
+
+/**
+ * Rates for every planned shipment, each quoted from its own warehouse. `fresh` bypasses
+ * the rate cache.
+ */
+export async function quoteShipments<T extends ShipmentLine>(
+	plans: ShipmentPlan<T>[],
+	destinationPostal: string,
+	options: { fresh?: boolean } = {}
+): Promise<ShipmentQuote<T>[]> {
+	return Promise.all(
+		plans.map(async (plan) => ({
+			...plan,
+			rates: await calculateShippingRates(
+				plan.warehouse.postalCode,
+				destinationPostal,
+				plan.lines.map((line) => ({
+					weight: line.weight,
+					height: line.height,
+					length: line.length,
+					width: line.width,
+					quantity: line.quantity,
+					value: line.value
+				})),
+				options
+			)
+		}))
+	);
+}
+
+function rateKey(courierName: string, serviceCode: string) {
+	return `${courierName.toLowerCase()}|${serviceCode}`;
+}
+
+// Longest upper bound in a duration like "2 - 3 hari"; unparseable durations count as 0
+function durationDays(duration: string): number {
+	const numbers = (duration.match(/\d+/g) || []).map(Number);
+	return numbers.length > 0 ? Math.max(...numbers) : 0;
+}
+
+/**
+ * Options the customer can choose at checkout. With one shipment these are its rates; with
+ * several, only services every shipment offers are listed, priced as the sum of all
+ * shipments and with the slowest delivery estimate.
+ */
+export function combineShipmentRates(quotes: ShipmentQuote<any>[]): ShippingRate[] {
+	if (quotes.length === 0) return [];
+	if (quotes.length === 1) return quotes[0].rates;
+
+	const combined: ShippingRate[] = [];
+	quotes[0].rates.forEach((rate) => {
+		const matches = quotes.map((quote) =>
+			findShipmentRate(quote, rate.courier_name, rate.courier_service_code)
+		);
+		if (matches.some((match) => !match)) return;
+
+		const slowest = matches.reduce((a, b) =>
+			durationDays(b!.duration) > durationDays(a!.duration) ? b : a
+		)!;
+		combined.push({
+			...rate,
+			price: matches.reduce((sum, match) => sum + match!.price, 0),
+			insurance_fee: matches.reduce((sum, match) => sum + (match!.insurance_fee || 0), 0),
+			duration: slowest.duration,
+			description: `${rate.description} (${quotes.length} paket)`,
+			// The courier can only collect cash for a single package
+			cash_on_delivery: false
+		});
+	});
+
+	return combined.sort((a, b) => a.price - b.price);
+}
+
+export function findShipmentRate(
+	quote: ShipmentQuote<any>,
+	courierName: string,
+	serviceCode: string
+): ShippingRate | null {
+	const key = rateKey(courierName, serviceCode);
+	return (
+		quote.rates.find((rate) => rateKey(rate.courier_name, rate.courier_service_code) === key) ||
+		null
+	);
+}
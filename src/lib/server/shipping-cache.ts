@@ -0,0 +1,190 @@
+import crypto from 'crypto';
+
+/**
+ * Cache for Biteship lookups. Entries live in a pluggable store (in memory by default; a
+ * Redis or database store only has to implement `CacheStore`), with a TTL per kind of data
+ * and hit/miss counters per kind.
+ */
+
+export type CacheKind = 'area' | 'area_search' | 'rates';
+
+export interface CacheStore {
+	get<T>(key: string): Promise<T | undefined>;
+	set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+	delete(key: string): Promise<void>;
+	/** Remove every key starting with `prefix`, or everything without one */
+	clear(prefix?: string): Promise<void>;
+}
+
+export interface CacheMetrics {
+	hits: number;
+	misses: number;
+	/** Lookups that waited for an identical request already in flight */
+	shared: number;
+	errors: number;
+}
+
+// Areas hardly ever change; rates follow courier tariffs and promotions
+export const CACHE_TTL: Record<CacheKind, number> = {
+	area: 7 * 24 * 60 * 60 * 1000, // 7 days
+	area_search: 24 * 60 * 60 * 1000, // 1 day
+	rates: 10 * 60 * 1000 // 10 minutes
+};
+
+const PRUNE_INTERVAL = 2 * 60 * 1000;
+const MAX_MEMORY_ENTRIES = 5000;
+
+export class MemoryCacheStore implements CacheStore {
+	private entries = new Map<string, { value: unknown; expiresAt: number }>();
+	private lastPrune = Date.now();
+
+	async get<T>(key: string): Promise<T | undefined> {
+		const entry = this.entries.get(key);
+		if (!entry) return undefined;
+		if (entry.expiresAt <= Date.now()) {
+			this.entries.delete(key);
+			return undefined;
+		}
+		return entry.value as T;
+	}
+
+	async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+		this.prune();
+		// Map keeps insertion order, so the first key is the oldest
+		if (this.entries.size >= MAX_MEMORY_ENTRIES && !this.entries.has(key)) {
+			this.entries.delete(this.entries.keys().next().value!);
+		}
+		this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+	}
+
+	async delete(key: string): Promise<void> {
+		this.entries.delete(key);
+	}
+
+	async clear(prefix?: string): Promise<void> {
+		if (!prefix) {
+			this.entries.clear();
+			return;
+		}
+		for (const key of [...this.entries.keys()]) {
+			if (key.startsWith(prefix)) this.entries.delete(key);
+		}
+	}
+
+	// Expired entries are dropped lazily on write instead of on a timer
+	private prune() {
+		const now = Date.now();
+		if (now - this.lastPrune < PRUNE_INTERVAL) return;
+		this.lastPrune = now;
+		for (const [key, entry] of this.entries) {
+			if (entry.expiresAt <= now) this.entries.delete(key);
+		}
+	}
+}
+
+let store: CacheStore = new MemoryCacheStore();
+const inFlight = new Map<string, Promise<unknown>>();
+const metrics = new Map<CacheKind, CacheMetrics>();
+
+function metricsFor(kind: CacheKind): CacheMetrics {
+	if (!metrics.has(kind)) metrics.set(kind, { hits: 0, misses: 0, shared: 0, errors: 0 });
+	return metrics.get(kind)!;
+}
+
+/**
+ * Replace the cache store, e.g. with a Redis-backed one shared by several server instances.
+ */
+export function setShippingCacheStore(next: CacheStore) {
+	store = next;
+}
+
+export function cacheKey(kind: CacheKind, ...parts: Array<string | number>): string {
+	return `biteship:${kind}:${parts.join(':')}`;
+}
+
+/**
+ * Short, stable fingerprint of a JSON-serialisable value (a package list, for instance).
+ */
+export function fingerprint(value: unknown): string {
+	return crypto.createHash('sha1').update(JSON.stringify(value)).digest('hex').substring(0, 16);
+}
+
+/**
+ * Return the cached value for `key`, or load, cache and return it. Concurrent misses for
+ * the same key share one load. `fresh` skips the lookup but still stores the new value;
+ * `null`/`undefined` results are not cached so "not found" answers are retried.
+ */
+export async function cached<T>(
+	kind: CacheKind,
+	key: string,
+	load: () => Promise<T>,
+	options: { fresh?: boolean } = {}
+): Promise<T> {
+	const counters = metricsFor(kind);
+
+	if (!options.fresh) {
+		try {
+			const hit = await store.get<T>(key);
+			if (hit !== undefined) {
+				counters.hits++;
+				return hit;
+			}
+		} catch (err) {
+			// A broken cache backend must not break shipping quotes
+			counters.errors++;
+			console.error('Shipping cache read failed:', err);
+		}
+
+		const pending = inFlight.get(key) as Promise<T> | undefined;
+		if (pending) {
+			counters.shared++;
+			return pending;
+		}
+	}
+
+	counters.misses++;
+	const request = (async () => {
+		try {
+			const value = await load();
+			if (value !== null && value !== undefined) {
+				await store.set(key, value, CACHE_TTL[kind]).catch((err) => {
+					counters.errors++;
+					console.error('Shipping cache write failed:', err);
+				});
+			}
+			return value;
+		} finally {
+			inFlight.delete(key);
+		}
+	})();
+
+	inFlight.set(key, request);
+	return request;
+}
+
+/**
+ * Drop cached entries of one kind, or all of them.
+ */
+export async function clearShippingCache(kind?: CacheKind) {
+	await store.clear(kind ? cacheKey(kind) : undefined);
+}
+
+/**
+ * Hit/miss counters per kind since the server started, with the hit ratio.
+ */
+export function getShippingCacheMetrics() {
+	const kinds: CacheKind[] = ['area', 'area_search', 'rates'];
+	return Object.fromEntries(
+		kinds.map((kind) => {
+			const counters = metricsFor(kind);
+			const lookups = counters.hits + counters.misses + counters.shared;
+			return [
+				kind,
+				{
+					...counters,
+					hitRatio: lookups > 0 ? (counters.hits + counters.shared) / lookups : null
+				}
+			];
+		})
+	) as Record<CacheKind, CacheMetrics & { hitRatio: number | null }>;
+}
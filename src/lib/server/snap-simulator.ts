@@ -0,0 +1,261 @@
+import crypto from 'crypto';
+import { signNotification, type MidtransNotification } from './midtrans-utils';
+import type {
+	SnapTransactionParameter,
+	SnapTransaction,
+	GatewayTransactionStatus,
+	GatewayRefundParameter
+} from './payment-gateway';
+
+/**
+ * Offline stand-in for Midtrans Snap, used when MIDTRANS_MODE=simulator. It issues Snap
+ * tokens, serves its own pay/decline page at /payments/simulator/<token> and produces
+ * notifications signed with MIDTRANS_SERVER_KEY, which that page posts to our Midtrans
+ * webhook exactly as Midtrans would.
+ */
+
+export type SimulatedOutcome = 'pay' | 'pending' | 'decline' | 'expire' | 'cancel';
+
+export interface SimulatedSnapTransaction {
+	token: string;
+	transaction_id: string;
+	order_id: string;
+	gross_amount: number;
+	customer_details: Record<string, any>;
+	item_details: NonNullable<SnapTransactionParameter['item_details']>;
+	callbacks: NonNullable<SnapTransactionParameter['callbacks']>;
+	transaction_status: string;
+	/** Set once the customer acted on the page; Midtrans does not know the transaction before */
+	payment_type: string | null;
+	refunds: { refund_key: string; amount: number; reason: string | null; created_at: string }[];
+	created_at: string;
+}
+
+// What each button on the simulator page makes Midtrans report
+const OUTCOMES: Record<
+	SimulatedOutcome,
+	{ transaction_status: string; status_code: string; status_message: string }
+> = {
+	pay: {
+		transaction_status: 'settlement',
+		status_code: '200',
+		status_message: 'Success, transaction is found'
+	},
+	pending: {
+		transaction_status: 'pending',
+		status_code: '201',
+		status_message: 'Success, transaction is created'
+	},
+	decline: {
+		transaction_status: 'deny',
+		status_code: '202',
+		status_message: 'Transaction is denied'
+	},
+	expire: {
+		transaction_status: 'expire',
+		status_code: '407',
+		status_message: 'Transaction is expired'
+	},
+	cancel: {
+		transaction_status: 'cancel',
+		status_code: '200',
+		status_message: 'Transaction is cancelled'
+	}
+};
+
+const transactions = new Map<string, SimulatedSnapTransaction>();
+
+export function isSnapSimulatorMode(): boolean {
+	return (process.env.MIDTRANS_MODE || '').toLowerCase() === 'simulator';
+}
+
+export function isSimulatedOutcome(value: unknown): value is SimulatedOutcome {
+	return typeof value === 'string' && value in OUTCOMES;
+}
+
+/**
+ * Create a Snap transaction, rejecting the same parameters Midtrans rejects
+ */
+export function createSimulatedTransaction(parameter: SnapTransactionParameter): SnapTransaction {
+	const { order_id, gross_amount } = parameter.transaction_details;
+
+	if (findByOrderId(order_id)) {
+		throw new Error('transaction_details.order_id has already been taken');
+	}
+
+	const items = parameter.item_details || [];
+	const itemTotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+	if (items.length > 0 && itemTotal !== gross_amount) {
+		throw new Error('transaction_details.gross_amount is not equal to the sum of item_details');
+	}
+
+	const token = crypto.randomUUID();
+	transactions.set(token, {
+		token,
+		transaction_id: crypto.randomUUID(),
+		order_id,
+		gross_amount,
+		customer_details: parameter.customer_details || {},
+		item_details: items,
+		callbacks: parameter.callbacks || {},
+		transaction_status: 'pending',
+		payment_type: null,
+		refunds: [],
+		created_at: new Date().toISOString()
+	});
+
+	const baseUrl = process.env.FRONTEND_URL || '';
+	return { token, redirect_url: `${baseUrl}/payments/simulator/${token}` };
+}
+
+// Midtrans sends amounts with two decimals, e.g. "150000.00"
+function formatAmount(amount: number): string {
+	return amount.toFixed(2);
+}
+
+// Rejections carry the status code like the errors midtrans-client throws
+function simulatorError(message: string, statusCode: string) {
+	return Object.assign(new Error(message), { httpStatusCode: statusCode });
+}
+
+function findByOrderId(orderId: string): SimulatedSnapTransaction | null {
+	return [...transactions.values()].find((transaction) => transaction.order_id === orderId) || null;
+}
+
+function statusResponse(
+	transaction: SimulatedSnapTransaction,
+	statusCode: string,
+	statusMessage: string
+): GatewayTransactionStatus {
+	const refunded = transaction.refunds.reduce((sum, refund) => sum + refund.amount, 0);
+	return {
+		status_code: statusCode,
+		status_message: statusMessage,
+		transaction_id: transaction.transaction_id,
+		order_id: transaction.order_id,
+		gross_amount: formatAmount(transaction.gross_amount),
+		payment_type: transaction.payment_type,
+		transaction_status: transaction.transaction_status,
+		fraud_status: 'accept',
+		currency: 'IDR',
+		...(refunded > 0 && { refund_amount: formatAmount(refunded) })
+	};
+}
+
+export function getSimulatedTransaction(token: string): SimulatedSnapTransaction | null {
+	return transactions.get(token) || null;
+}
+
+/**
+ * Settle a transaction the way the customer chose on the simulator page. Returns the signed
+ * notification Midtrans would send and the Snap callback URL the customer lands on.
+ */
+export function completeSimulatedTransaction(token: string, outcome: SimulatedOutcome) {
+	const transaction = transactions.get(token);
+	if (!transaction) return null;
+
+	const { transaction_status, status_code, status_message } = OUTCOMES[outcome];
+	transaction.transaction_status = transaction_status;
+	transaction.payment_type = 'bank_transfer';
+
+	const grossAmount = formatAmount(transaction.gross_amount);
+	const now = new Date().toISOString().replace('T', ' ').substring(0, 19);
+	const notification: MidtransNotification = {
+		transaction_id: transaction.transaction_id,
+		transaction_status,
+		transaction_time: now,
+		fraud_status: 'accept',
+		status_code,
+		status_message,
+		signature_key: signNotification(transaction.order_id, status_code, grossAmount),
+		order_id: transaction.order_id,
+		gross_amount: grossAmount,
+		payment_type: transaction.payment_type,
+		currency: 'IDR',
+		...(transaction_status === 'settlement' && { settlement_time: now })
+	};
+
+	// Snap appends the outcome to the callback URL; declines land on the error page
+	const callback =
+		transaction_status === 'settlement'
+			? transaction.callbacks.finish
+			: transaction_status === 'pending'
+				? transaction.callbacks.pending
+				: transaction.callbacks.error;
+	const query = new URLSearchParams({
+		order_id: transaction.order_id,
+		status_code,
+		transaction_status
+	});
+
+	return {
+		notification,
+		redirect_url: callback ? `${callback}?${query}` : null
+	};
+}
+
+/**
+ * Midtrans GET /v2/<order_id>/status
+ */
+export function getSimulatedStatus(orderId: string): GatewayTransactionStatus | null {
+	const transaction = findByOrderId(orderId);
+	if (!transaction?.payment_type) return null;
+	return statusResponse(transaction, '200', 'Success, transaction is found');
+}
+
+/**
+ * Midtrans POST /v2/<order_id>/cancel; settled payments have to be refunded instead
+ */
+export function cancelSimulatedTransaction(orderId: string): GatewayTransactionStatus {
+	const transaction = findByOrderId(orderId);
+	if (!transaction) {
+		throw simulatorError("Transaction doesn't exist.", '404');
+	}
+	if (transaction.transaction_status !== 'pending') {
+		throw simulatorError('Transaction status cannot be updated.', '412');
+	}
+
+	transaction.transaction_status = 'cancel';
+	return statusResponse(transaction, '200', 'Success, transaction is canceled');
+}
+
+/**
+ * Midtrans POST /v2/<order_id>/refund. A repeated refund_key returns the earlier refund.
+ */
+export function refundSimulatedTransaction(
+	orderId: string,
+	parameter: GatewayRefundParameter
+): GatewayTransactionStatus {
+	const transaction = findByOrderId(orderId);
+	if (!transaction) {
+		throw simulatorError("Transaction doesn't exist.", '404');
+	}
+	if (transaction.refunds.some((refund) => refund.refund_key === parameter.refund_key)) {
+		return statusResponse(transaction, '200', 'Success, refund request is approved');
+	}
+	if (!['settlement', 'partial_refund'].includes(transaction.transaction_status)) {
+		throw simulatorError('Transaction status cannot be updated.', '412');
+	}
+
+	const refunded = transaction.refunds.reduce((sum, refund) => sum + refund.amount, 0);
+	if (parameter.amount <= 0 || refunded + parameter.amount > transaction.gross_amount) {
+		throw simulatorError('Refund amount exceeds the refundable amount.', '413');
+	}
+
+	transaction.refunds.push({
+		refund_key: parameter.refund_key,
+		amount: parameter.amount,
+		reason: parameter.reason || null,
+		created_at: new Date().toISOString()
+	});
+	transaction.transaction_status =
+		refunded + parameter.amount === transaction.gross_amount ? 'refund' : 'partial_refund';
+	return statusResponse(transaction, '200', 'Success, refund request is approved');
+}
+
+/**
+ * Forget all simulated transactions (between test runs).
+ */
+export function resetSnapSimulator() {
+	transactions.clear();
+}
@@ -0,0 +1,343 @@
+import { db } from '$lib/server/db';
+import { orders, users } from '$lib/server/db/schema';
+import { recordAdminAction } from '$lib/server/audit-log';
+import { SALES_STATUSES } from '$lib/server/reports/filters';
+import { USER_ROLES, isUserRole, type UserRole } from '$lib/utils/permissions';
+import { and, asc, desc, eq, inArray, isNotNull, isNull, like, ne, or, sql } from 'drizzle-orm';
+import { error } from '@sveltejs/kit';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export { USER_ROLES, isUserRole, type UserRole };
+
+export const USER_STATUSES = ['active', 'suspended'] as const;
+export type UserStatus = (typeof USER_STATUSES)[number];
+
+export const USER_SORTS = ['newest', 'oldest', 'name', 'lifetime_value', 'orders'] as const;
+export type UserSort = (typeof USER_SORTS)[number];
+
+const MAX_REASON_LENGTH = 255;
+const PROFILE_ORDER_LIMIT = 50;
+
+// How long hooks trust a looked-up role/suspension before asking the database again
+const SESSION_CACHE_TTL_MS = 30 * 1000;
+
+export interface SessionUser {
+	id: number;
+	role: UserRole;
+	suspended: boolean;
+	/** Sessions issued before this were signed with the old password and no longer count */
+	passwordChangedAt: Date | null;
+}
+
+export function isUserStatus(value: unknown): value is UserStatus {
+	return typeof value === 'string' && (USER_STATUSES as readonly string[]).includes(value);
+}
+
+export function isUserSort(value: unknown): value is UserSort {
+	return typeof value === 'string' && (USER_SORTS as readonly string[]).includes(value);
+}
+
+export function parseSuspensionReason(value: unknown): string | null {
+	return typeof value === 'string' && value.trim()
+		? value.trim().substring(0, MAX_REASON_LENGTH)
+		: null;
+}
+
+const sessionCache = new Map<number, { user: SessionUser | null; expiresAt: number }>();
+
+// Upper bound on cached users; a full cache drops expired entries first, then the oldest
+const SESSION_CACHE_MAX_ENTRIES = 10000;
+
+function pruneSessionCache(now: number) {
+	for (const [userId, entry] of sessionCache) {
+		if (entry.expiresAt <= now) sessionCache.delete(userId);
+	}
+	// Still full of live entries: forget the oldest (Map keeps insertion order)
+	for (const userId of sessionCache.keys()) {
+		if (sessionCache.size < SESSION_CACHE_MAX_ENTRIES) break;
+		sessionCache.delete(userId);
+	}
+}
+
+/**
+ * The current role, suspension and password change time of a logged-in user. Session tokens
+ * carry the role they were issued with, so hooks check here to make role changes, suspensions
+ * and password resets apply before the token expires. Cached briefly; changes made through this module clear the entry.
+ */
+export async function getSessionUser(userId: number): Promise<SessionUser | null> {
+	const now = Date.now();
+	const cached = sessionCache.get(userId);
+	if (cached && cached.expiresAt > now) {
+		return cached.user;
+	}
+	sessionCache.delete(userId);
+
+	const [row] = await db
+		.select({
+			id: users.id,
+			role: users.role,
+			suspendedAt: users.suspendedAt,
+			passwordChangedAt: users.passwordChangedAt
+		})
+		.from(users)
+		.where(eq(users.id, userId))
+		.limit(1);
+
+	const user = row
+		? {
+				id: row.id,
+				role: row.role ?? 'customer',
+				suspended: row.suspendedAt !== null,
+				passwordChangedAt: row.passwordChangedAt
+			}
+		: null;
+	if (sessionCache.size >= SESSION_CACHE_MAX_ENTRIES) {
+		pruneSessionCache(now);
+	}
+	sessionCache.set(userId, { user, expiresAt: now + SESSION_CACHE_TTL_MS });
+	return user;
+}
+
+export function forgetSessionUser(userId: number) {
+	sessionCache.delete(userId);
+}
+
+// Order count, lifetime value and last order per customer
+function orderStats() {
+	return db
+		.select({
+			userId: orders.userId,
+			orderCount: sql<number>`COUNT(*)`.as('order_count'),
+			lifetimeValue:
+				sql<string>`COALESCE(SUM(CASE WHEN ${inArray(orders.status, SALES_STATUSES)} THEN ${orders.total} ELSE 0 END), 0)`.as(
+					'lifetime_value'
+				),
+			lastOrderAt: sql<Date | null>`MAX(${orders.createdAt})`.as('last_order_at')
+		})
+		.from(orders)
+		.groupBy(orders.userId)
+		.as('order_stats');
+}
+
+// Everything but the password hash
+function serializeUser(row: typeof users.$inferSelect) {
+	return {
+		id: row.id,
+		name: row.name,
+		email: row.email,
+		role: row.role,
+		status: (row.suspendedAt ? 'suspended' : 'active') as UserStatus,
+		suspendedAt: row.suspendedAt,
+		suspendedReason: row.suspendedReason,
+		createdAt: row.createdAt
+	};
+}
+
+/**
+ * Users for the admin list. q matches name or email; lifetime value only counts orders that
+ * brought in money (paid through delivered).
+ */
+export async function listUsers(options: {
+	q?: string | null;
+	role?: UserRole | null;
+	status?: UserStatus | null;
+	sort?: UserSort | null;
+	page: number;
+	perPage: number;
+}) {
+	const conditions = [];
+	if (options.role) conditions.push(eq(users.role, options.role));
+	if (options.status === 'active') conditions.push(isNull(users.suspendedAt));
+	if (options.status === 'suspended') conditions.push(isNotNull(users.suspendedAt));
+	if (options.q) {
+		const term = `%${options.q.toLowerCase()}%`;
+		conditions.push(
+			or(like(sql`LOWER(${users.name})`, term), like(sql`LOWER(${users.email})`, term))
+		);
+	}
+	const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+	const [{ count }] = await db
+		.select({ count: sql<number>`COUNT(*)` })
+		.from(users)
+		.where(where);
+
+	const stats = orderStats();
+	const orderBy = {
+		newest: [desc(users.createdAt), desc(users.id)],
+		oldest: [asc(users.createdAt), asc(users.id)],
+		name: [asc(users.name), asc(users.id)],
+		lifetime_value: [desc(sql`COALESCE(${stats.lifetimeValue}, 0)`), desc(users.id)],
+		orders: [desc(sql`COALESCE(${stats.orderCount}, 0)`), desc(users.id)]
+	}[options.sort || 'newest'];
+
+	const rows = await db
+		.select({
+			user: users,
+			orderCount: stats.orderCount,
+			lifetimeValue: stats.lifetimeValue,
+			lastOrderAt: stats.lastOrderAt
+		})
+		.from(users)
+		.leftJoin(stats, eq(stats.userId, users.id))
+		.where(where)
+		.orderBy(...orderBy)
+		.limit(options.perPage)
+		.offset((options.page - 1) * options.perPage);
+
+	return {
+		data: rows.map((row) => ({
+			...serializeUser(row.user),
+			orderCount: Number(row.orderCount ?? 0),
+			lifetimeValue: parseFloat(row.lifetimeValue ?? '0'),
+			lastOrderAt: row.lastOrderAt
+		})),
+		total: Number(count)
+	};
+}
+
+/** A user with their order totals and most recent orders; throws 404 for unknown users */
+export async function getUserProfile(userId: number) {
+	const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+	if (!user) {
+		throw error(404, 'User not found');
+	}
+
+	const [stats] = await db
+		.select({
+			orderCount: sql<number>`COUNT(*)`,
+			paidOrderCount: sql<number>`COALESCE(SUM(CASE WHEN ${inArray(orders.status, SALES_STATUSES)} THEN 1 ELSE 0 END), 0)`,
+			lifetimeValue: sql<string>`COALESCE(SUM(CASE WHEN ${inArray(orders.status, SALES_STATUSES)} THEN ${orders.total} ELSE 0 END), 0)`,
+			firstOrderAt: sql<Date | null>`MIN(${orders.createdAt})`,
+			lastOrderAt: sql<Date | null>`MAX(${orders.createdAt})`
+		})
+		.from(orders)
+		.where(eq(orders.userId, userId));
+
+	const recentOrders = await db
+		.select({
+			id: orders.id,
+			orderNumber: orders.orderNumber,
+			status: orders.status,
+			paymentMethod: orders.paymentMethod,
+			total: orders.total,
+			createdAt: orders.createdAt
+		})
+		.from(orders)
+		.where(eq(orders.userId, userId))
+		.orderBy(desc(orders.createdAt))
+		.limit(PROFILE_ORDER_LIMIT);
+
+	const lifetimeValue = parseFloat(stats.lifetimeValue);
+	const paidOrderCount = Number(stats.paidOrderCount);
+
+	return {
+		...serializeUser(user),
+		stats: {
+			orderCount: Number(stats.orderCount),
+			paidOrderCount,
+			lifetimeValue,
+			averageOrderValue: paidOrderCount > 0 ? lifetimeValue / paidOrderCount : 0,
+			firstOrderAt: stats.firstOrderAt,
+			lastOrderAt: stats.lastOrderAt
+		},
+		orders: recentOrders.map((order) => ({ ...order, total: parseFloat(order.total) }))
+	};
+}
+
+async function lockUser(tx: Transaction, userId: number) {
+	const [user] = await tx.select().from(users).where(eq(users.id, userId)).limit(1).for('update');
+	if (!user) {
+		throw error(404, 'User not found');
+	}
+	return user;
+}
+
+/**
+ * Give a user another role. Admins cannot demote themselves, and the last active admin
+ * cannot be demoted, so the dashboard always has someone who can get back in.
+ */
+export async function changeUserRole(adminId: number, userId: number, role: UserRole) {
+	await db.transaction(async (tx) => {
+		const user = await lockUser(tx, userId);
+		if (user.role === role) {
+			throw error(409, 'User already has this role');
+		}
+
+		if (user.role === 'admin') {
+			if (user.id === adminId) {
+				throw error(400, 'You cannot remove your own admin role');
+			}
+			const otherAdmins = await tx
+				.select({ id: users.id })
+				.from(users)
+				.where(and(eq(users.role, 'admin'), isNull(users.suspendedAt), ne(users.id, userId)))
+				.for('update');
+			if (otherAdmins.length === 0) {
+				throw error(409, 'At least one active admin is required');
+			}
+		}
+
+		await tx.update(users).set({ role }).where(eq(users.id, userId));
+		await recordAdminAction(tx, {
+			adminId,
+			action: 'user.role_changed',
+			targetType: 'user',
+			targetId: userId,
+			details: { from: user.role, to: role }
+		});
+	});
+
+	forgetSessionUser(userId);
+}
+
+/** Block a user from logging in; their current session stops working too */
+export async function suspendUser(adminId: number, userId: number, reason: string) {
+	await db.transaction(async (tx) => {
+		const user = await lockUser(tx, userId);
+		if (user.id === adminId) {
+			throw error(400, 'You cannot suspend your own account');
+		}
+		if (user.suspendedAt) {
+			throw error(409, 'User is already suspended');
+		}
+
+		await tx
+			.update(users)
+			.set({ suspendedAt: new Date(), suspendedReason: reason })
+			.where(eq(users.id, userId));
+		await recordAdminAction(tx, {
+			adminId,
+			action: 'user.suspended',
+			targetType: 'user',
+			targetId: userId,
+			details: { reason }
+		});
+	});
+
+	forgetSessionUser(userId);
+}
+
+export async function unsuspendUser(adminId: number, userId: number) {
+	await db.transaction(async (tx) => {
+		const user = await lockUser(tx, userId);
+		if (!user.suspendedAt) {
+			throw error(409, 'User is not suspended');
+		}
+
+		await tx
+			.update(users)
+			.set({ suspendedAt: null, suspendedReason: null })
+			.where(eq(users.id, userId));
+		await recordAdminAction(tx, {
+			adminId,
+			action: 'user.unsuspended',
+			targetType: 'user',
+			targetId: userId,
+			details: { previousReason: user.suspendedReason, suspendedAt: user.suspendedAt }
+		});
+	});
+
+	forgetSessionUser(userId);
+}
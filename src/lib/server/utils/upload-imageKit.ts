@@ -5,7 +5,7 @@ import 'dotenv/config';
 
 export async function uploadImageKit(
   file: File,
-  folder: 'categories' | 'products' = 'uploads'
+  folder: 'categories' | 'products' | 'reviews' | 'payment-proofs' = 'uploads'
 ): Promise < string > {
   const buffer = await file.arrayBuffer();
   const base64 = Buffer.from(buffer).toString('base64');
@@ -0,0 +1,473 @@
+import { db } from '$lib/server/db';
+import {
+	products,
+	productOptions,
+	productOptionValues,
+	productVariants,
+	productVariantValues
+} from '$lib/server/db/schema';
+import { eq, and, inArray, sql, asc } from 'drizzle-orm';
+import { error } from '@sveltejs/kit';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | Transaction;
+
+export type ProductVariant = typeof productVariants.$inferSelect;
+
+export const MAX_OPTIONS_PER_PRODUCT = 3;
+export const MAX_VALUES_PER_OPTION = 20;
+export const MAX_VARIANTS_PER_PRODUCT = 100;
+
+const SKU_PATTERN = /^[A-Z0-9._-]{1,64}$/;
+
+export interface VariantOptionInput {
+	name: string;
+	values: string[];
+}
+
+export interface VariantInput {
+	id?: number;
+	sku: string;
+	/** Option name -> value, one entry per product option */
+	options: Record<string, string>;
+	price: number | null;
+	stock: number;
+	height: number | null;
+	length: number | null;
+	weight: number | null;
+	width: number | null;
+}
+
+export interface ProductVariantsInput {
+	options: VariantOptionInput[];
+	variants: VariantInput[];
+}
+
+export interface ProductOptionView {
+	id: number;
+	name: string;
+	values: string[];
+}
+
+export interface ProductVariantView {
+	id: number;
+	sku: string;
+	name: string;
+	price: number | null;
+	stock: number;
+	height: number | null;
+	length: number | null;
+	weight: number | null;
+	width: number | null;
+	options: Record<string, string>;
+}
+
+/**
+ * Display name of a variant: its option values in option order, e.g. "M / Merah".
+ */
+export function variantName(options: VariantOptionInput[], selection: Record<string, string>) {
+	return options
+		.map((option) => selection[option.name])
+		.join(' / ')
+		.substring(0, 100);
+}
+
+function parseOptionalInt(value: unknown, field: string): number | null {
+	if (value === undefined || value === null || value === '') return null;
+	const num = Number(value);
+	if (!Number.isInteger(num) || num <= 0) {
+		throw error(400, `Invalid ${field}`);
+	}
+	return num;
+}
+
+/**
+ * Validate the variants payload sent by the dashboard product form (a JSON string).
+ * Returns null when the field was not sent, meaning the product's variants stay as they are.
+ */
+export function parseVariantsInput(raw: unknown): ProductVariantsInput | null {
+	if (raw === undefined || raw === null || raw === '') return null;
+
+	let body: any;
+	try {
+		body = typeof raw === 'string' ? JSON.parse(raw) : raw;
+	} catch {
+		throw error(400, 'Invalid variants data');
+	}
+	if (!body || !Array.isArray(body.options) || !Array.isArray(body.variants)) {
+		throw error(400, 'Invalid variants data');
+	}
+	if (body.options.length > MAX_OPTIONS_PER_PRODUCT) {
+		throw error(400, `Maximum ${MAX_OPTIONS_PER_PRODUCT} options per product`);
+	}
+	if (body.variants.length > MAX_VARIANTS_PER_PRODUCT) {
+		throw error(400, `Maximum ${MAX_VARIANTS_PER_PRODUCT} variants per product`);
+	}
+
+	const options: VariantOptionInput[] = body.options.map((option: any) => {
+		const name = typeof option?.name === 'string' ? option.name.trim().substring(0, 50) : '';
+		if (!name) throw error(400, 'Option name is required');
+		if (!Array.isArray(option.values) || option.values.length === 0) {
+			throw error(400, `Option "${name}" needs at least one value`);
+		}
+		if (option.values.length > MAX_VALUES_PER_OPTION) {
+			throw error(400, `Maximum ${MAX_VALUES_PER_OPTION} values per option`);
+		}
+
+		const values = option.values.map((value: unknown) =>
+			typeof value === 'string' ? value.trim().substring(0, 50) : ''
+		);
+		if (values.some((value: string) => !value)) {
+			throw error(400, `Option "${name}" has an empty value`);
+		}
+		if (new Set(values).size !== values.length) {
+			throw error(400, `Option "${name}" has duplicate values`);
+		}
+		return { name, values };
+	});
+
+	if (new Set(options.map((option) => option.name)).size !== options.length) {
+		throw error(400, 'Option names must be unique');
+	}
+	if (options.length === 0 && body.variants.length > 0) {
+		throw error(400, 'Variants need at least one option');
+	}
+	if (options.length > 0 && body.variants.length === 0) {
+		throw error(400, 'Add at least one variant or remove the options');
+	}
+
+	const skus = new Set<string>();
+	const combinations = new Set<string>();
+
+	const variants: VariantInput[] = body.variants.map((variant: any, index: number) => {
+		const label = `variant ${index + 1}`;
+		const sku = typeof variant?.sku === 'string' ? variant.sku.trim().toUpperCase() : '';
+		if (!SKU_PATTERN.test(sku)) {
+			throw error(400, `Invalid SKU for ${label}`);
+		}
+		if (skus.has(sku)) throw error(400, `Duplicate SKU ${sku}`);
+		skus.add(sku);
+
+		const selection: Record<string, string> = {};
+		for (const option of options) {
+			const value = variant.options?.[option.name];
+			if (typeof value !== 'string' || !option.values.includes(value.trim())) {
+				throw error(400, `Choose a valid ${option.name} for ${sku}`);
+			}
+			selection[option.name] = value.trim();
+		}
+		const combination = JSON.stringify(options.map((option) => selection[option.name]));
+		if (combinations.has(combination)) {
+			throw error(400, `Duplicate variant ${variantName(options, selection)}`);
+		}
+		combinations.add(combination);
+
+		let price: number | null = null;
+		if (variant.price !== undefined && variant.price !== null && variant.price !== '') {
+			price = Number(variant.price);
+			if (!Number.isFinite(price) || price < 0) throw error(400, `Invalid price for ${sku}`);
+		}
+
+		const stock = Number(variant.stock ?? 0);
+		if (!Number.isInteger(stock) || stock < 0) throw error(400, `Invalid stock for ${sku}`);
+
+		const id = Number(variant.id);
+
+		return {
+			...(Number.isInteger(id) && id > 0 && { id }),
+			sku,
+			options: selection,
+			price,
+			stock,
+			height: parseOptionalInt(variant.height, `height for ${sku}`),
+			length: parseOptionalInt(variant.length, `length for ${sku}`),
+			weight: parseOptionalInt(variant.weight, `weight for ${sku}`),
+			width: parseOptionalInt(variant.width, `width for ${sku}`)
+		};
+	});
+
+	return { options, variants };
+}
+
+/**
+ * Options and active variants of a product, ordered as the admin arranged them.
+ * Both lists are empty for products without variants.
+ */
+export async function getProductVariants(
+	productId: number
+): Promise<{ options: ProductOptionView[]; variants: ProductVariantView[] }> {
+	const optionRows = await db
+		.select({
+			optionId: productOptions.id,
+			name: productOptions.name,
+			valueId: productOptionValues.id,
+			value: productOptionValues.value
+		})
+		.from(productOptions)
+		.innerJoin(productOptionValues, eq(productOptionValues.optionId, productOptions.id))
+		.where(eq(productOptions.productId, productId))
+		.orderBy(asc(productOptions.position), asc(productOptionValues.position));
+
+	const options: ProductOptionView[] = [];
+	const valueLookup = new Map<number, { option: string; value: string }>();
+	for (const row of optionRows) {
+		let option = options.find((entry) => entry.id === row.optionId);
+		if (!option) {
+			option = { id: row.optionId, name: row.name, values: [] };
+			options.push(option);
+		}
+		option.values.push(row.value);
+		valueLookup.set(row.valueId, { option: row.name, value: row.value });
+	}
+
+	const variantRows = await db
+		.select()
+		.from(productVariants)
+		.where(and(eq(productVariants.productId, productId), eq(productVariants.isActive, true)))
+		.orderBy(asc(productVariants.id));
+
+	const links =
+		variantRows.length > 0
+			? await db
+					.select()
+					.from(productVariantValues)
+					.where(
+						inArray(
+							productVariantValues.variantId,
+							variantRows.map((variant) => variant.id)
+						)
+					)
+			: [];
+
+	const variants = variantRows.map((variant) => {
+		const selection: Record<string, string> = {};
+		for (const link of links) {
+			const entry = link.variantId === variant.id ? valueLookup.get(link.optionValueId) : null;
+			if (entry) selection[entry.option] = entry.value;
+		}
+
+		return {
+			id: variant.id,
+			sku: variant.sku,
+			name: variant.name,
+			price: variant.price !== null ? parseFloat(variant.price) : null,
+			stock: variant.stock,
+			height: variant.height,
+			length: variant.length,
+			weight: variant.weight,
+			width: variant.width,
+			options: selection
+		};
+	});
+
+	return { options, variants };
+}
+
+/**
+ * Active variants of the given products. Used by the cart and checkout to resolve variant lines
+ * and to tell which products must be bought through a variant.
+ */
+export async function getActiveVariantsForProducts(
+	productIds: number[],
+	executor: Executor = db
+): Promise<ProductVariant[]> {
+	if (productIds.length === 0) return [];
+
+	return executor
+		.select()
+		.from(productVariants)
+		.where(and(inArray(productVariants.productId, productIds), eq(productVariants.isActive, true)));
+}
+
+interface LineSource {
+	price: string | number;
+	height?: number | null;
+	length?: number | null;
+	weight?: number | null;
+	width?: number | null;
+}
+
+/**
+ * Price and Biteship dimensions of a product line; the variant's own values win where set.
+ */
+export function resolveLineAttributes(product: LineSource, variant?: ProductVariant | null) {
+	return {
+		price: variant?.price != null ? parseFloat(variant.price) : Number(product.price),
+		height: variant?.height ?? product.height,
+		length: variant?.length ?? product.length,
+		weight: variant?.weight ?? product.weight,
+		width: variant?.width ?? product.width
+	};
+}
+
+/**
+ * Keep products.stock equal to the stock of its active variants, so listings and filters
+ * that only look at the product row stay correct. No-op for products without variants.
+ */
+export async function syncProductStock(executor: Executor, productId: number) {
+	const [row] = await executor
+		.select({
+			count: sql<number>`COUNT(*)`,
+			stock: sql<number>`COALESCE(SUM(${productVariants.stock}), 0)`
+		})
+		.from(productVariants)
+		.where(and(eq(productVariants.productId, productId), eq(productVariants.isActive, true)));
+
+	if (Number(row?.count || 0) > 0) {
+		await executor
+			.update(products)
+			.set({ stock: Number(row.stock) })
+			.where(eq(products.id, productId));
+	}
+}
+
+/**
+ * Replace a product's options and variants with the submitted ones.
+ * Variants are matched by id, then by SKU; variants left out are deactivated rather than deleted
+ * because carts, reservations and past orders still point at them.
+ */
+export async function saveProductVariants(productId: number, input: ProductVariantsInput) {
+	await db.transaction(async (tx) => {
+		// Options and their values
+		const existingOptions = await tx
+			.select()
+			.from(productOptions)
+			.where(eq(productOptions.productId, productId));
+
+		const valueIds = new Map<string, Map<string, number>>();
+
+		for (const [position, option] of input.options.entries()) {
+			let optionId = existingOptions.find((entry) => entry.name === option.name)?.id;
+			if (optionId) {
+				await tx.update(productOptions).set({ position }).where(eq(productOptions.id, optionId));
+			} else {
+				const [result] = await tx
+					.insert(productOptions)
+					.values({ productId, name: option.name, position });
+				optionId = result.insertId;
+			}
+
+			const existingValues = await tx
+				.select()
+				.from(productOptionValues)
+				.where(eq(productOptionValues.optionId, optionId));
+
+			const ids = new Map<string, number>();
+			for (const [valuePosition, value] of option.values.entries()) {
+				let valueId = existingValues.find((entry) => entry.value === value)?.id;
+				if (valueId) {
+					await tx
+						.update(productOptionValues)
+						.set({ position: valuePosition })
+						.where(eq(productOptionValues.id, valueId));
+				} else {
+					const [result] = await tx
+						.insert(productOptionValues)
+						.values({ optionId, value, position: valuePosition });
+					valueId = result.insertId;
+				}
+				ids.set(value, valueId);
+			}
+
+			const removedValues = existingValues.filter((entry) => !option.values.includes(entry.value));
+			if (removedValues.length > 0) {
+				await tx.delete(productOptionValues).where(
+					inArray(
+						productOptionValues.id,
+						removedValues.map((entry) => entry.id)
+					)
+				);
+			}
+
+			valueIds.set(option.name, ids);
+		}
+
+		const removedOptions = existingOptions.filter(
+			(entry) => !input.options.some((option) => option.name === entry.name)
+		);
+		if (removedOptions.length > 0) {
+			await tx.delete(productOptions).where(
+				inArray(
+					productOptions.id,
+					removedOptions.map((entry) => entry.id)
+				)
+			);
+		}
+
+		// Variants
+		const existingVariants = await tx
+			.select()
+			.from(productVariants)
+			.where(eq(productVariants.productId, productId));
+
+		const keptIds: number[] = [];
+
+		for (const variant of input.variants) {
+			const data = {
+				sku: variant.sku,
+				name: variantName(input.options, variant.options),
+				price: variant.price !== null ? variant.price.toFixed(2) : null,
+				stock: variant.stock,
+				height: variant.height,
+				length: variant.length,
+				weight: variant.weight,
+				width: variant.width,
+				isActive: true
+			};
+
+			const match =
+				existingVariants.find((entry) => variant.id !== undefined && entry.id === variant.id) ||
+				existingVariants.find((entry) => entry.sku === variant.sku);
+
+			const [skuOwner] = await tx
+				.select({ id: productVariants.id, productId: productVariants.productId })
+				.from(productVariants)
+				.where(eq(productVariants.sku, variant.sku))
+				.limit(1);
+			if (skuOwner && skuOwner.id !== match?.id) {
+				throw error(409, `SKU ${variant.sku} is already used`);
+			}
+
+			let variantId: number;
+			if (match) {
+				variantId = match.id;
+				await tx.update(productVariants).set(data).where(eq(productVariants.id, variantId));
+				await tx.delete(productVariantValues).where(eq(productVariantValues.variantId, variantId));
+			} else {
+				const [result] = await tx.insert(productVariants).values({ productId, ...data });
+				variantId = result.insertId;
+			}
+			keptIds.push(variantId);
+
+			await tx.insert(productVariantValues).values(
+				input.options.map((option) => ({
+					variantId,
+					optionValueId: valueIds.get(option.name)!.get(variant.options[option.name])!
+				}))
+			);
+		}
+
+		const removedVariants = existingVariants.filter((entry) => !keptIds.includes(entry.id));
+		if (removedVariants.length > 0) {
+			await tx
+				.update(productVariants)
+				.set({ isActive: false })
+				.where(
+					inArray(
+						productVariants.id,
+						removedVariants.map((entry) => entry.id)
+					)
+				);
+		}
+
+		await syncProductStock(tx, productId);
+	});
+}
+
+/**
+ * Remove a product's options and variants before the product itself is deleted.
+ */
+export async function deleteProductVariants(executor: Executor, productId: number) {
+	await executor.delete(productVariants).where(eq(productVariants.productId, productId));
+	await executor.delete(productOptions).where(eq(productOptions.productId, productId));
+}
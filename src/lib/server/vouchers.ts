@@ -0,0 +1,200 @@
+import { db } from '$lib/server/db';
+import { vouchers, voucherRedemptions } from '$lib/server/db/schema';
+import { eq, and, sql } from 'drizzle-orm';
+import { error } from '@sveltejs/kit';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | Transaction;
+type Voucher = typeof vouchers.$inferSelect;
+
+export const VOUCHER_TYPES = ['percentage', 'fixed', 'free_shipping'] as const;
+export type VoucherType = (typeof VOUCHER_TYPES)[number];
+
+export interface VoucherCartLine {
+	productId: number;
+	categoryId: number | null;
+	price: number;
+	quantity: number;
+}
+
+export interface VoucherContext {
+	userId: number;
+	items: VoucherCartLine[];
+	subtotal: number;
+	shippingCost: number;
+}
+
+export interface VoucherQuote {
+	voucher: Voucher;
+	/** Amount taken off the items */
+	itemDiscount: number;
+	/** Amount taken off the shipping cost */
+	shippingDiscount: number;
+	/** itemDiscount + shippingDiscount, in whole rupiah so Midtrans amounts stay integral */
+	discount: number;
+}
+
+export function normalizeVoucherCode(code: unknown): string {
+	return typeof code === 'string'
+		? code
+				.trim()
+				.toUpperCase()
+				.replace(/[^A-Z0-9_-]/g, '')
+				.substring(0, 32)
+		: '';
+}
+
+function parseIdList(value: string | null): number[] | null {
+	if (!value) return null;
+	try {
+		const ids = JSON.parse(value);
+		return Array.isArray(ids) && ids.length > 0 ? ids.map(Number) : null;
+	} catch {
+		return null;
+	}
+}
+
+async function countUserRedemptions(executor: Executor, voucherId: number, userId: number) {
+	const [row] = await executor
+		.select({ count: sql<number>`COUNT(*)` })
+		.from(voucherRedemptions)
+		.where(
+			and(
+				eq(voucherRedemptions.voucherId, voucherId),
+				eq(voucherRedemptions.userId, userId),
+				eq(voucherRedemptions.status, 'applied')
+			)
+		);
+	return Number(row?.count || 0);
+}
+
+/**
+ * Check a voucher against a cart and compute the discount.
+ * Throws 404 for unknown codes and 400 with a customer-facing message for every other rule.
+ */
+export async function quoteVoucher(
+	executor: Executor,
+	code: string,
+	context: VoucherContext,
+	options: { lock?: boolean } = {}
+): Promise<VoucherQuote> {
+	const query = executor
+		.select()
+		.from(vouchers)
+		.where(eq(vouchers.code, normalizeVoucherCode(code)))
+		.limit(1);
+	const [voucher] = options.lock ? await query.for('update') : await query;
+
+	if (!voucher || !voucher.isActive) {
+		throw error(404, 'Kode voucher tidak ditemukan');
+	}
+
+	const now = new Date();
+	if (voucher.startsAt && voucher.startsAt > now) {
+		throw error(400, 'Voucher belum dapat digunakan');
+	}
+	if (voucher.endsAt && voucher.endsAt < now) {
+		throw error(400, 'Voucher sudah kedaluwarsa');
+	}
+	if (voucher.usageLimit !== null && voucher.usedCount >= voucher.usageLimit) {
+		throw error(400, 'Kuota voucher sudah habis');
+	}
+	if (voucher.perUserLimit !== null) {
+		const used = await countUserRedemptions(executor, voucher.id, context.userId);
+		if (used >= voucher.perUserLimit) {
+			throw error(400, 'Anda sudah mencapai batas penggunaan voucher ini');
+		}
+	}
+
+	const minSpend = parseFloat(voucher.minSpend);
+	if (context.subtotal < minSpend) {
+		throw error(400, `Minimal belanja Rp${Math.ceil(minSpend).toLocaleString('id-ID')}`);
+	}
+
+	const productIds = parseIdList(voucher.productIds);
+	const categoryIds = parseIdList(voucher.categoryIds);
+	const eligibleLines = context.items.filter(
+		(item) =>
+			(!productIds || productIds.includes(item.productId)) &&
+			(!categoryIds || (item.categoryId !== null && categoryIds.includes(item.categoryId)))
+	);
+
+	if (eligibleLines.length === 0) {
+		throw error(400, 'Voucher tidak berlaku untuk produk di keranjang');
+	}
+
+	const eligibleSubtotal = eligibleLines.reduce((sum, item) => sum + item.price * item.quantity, 0);
+	const value = parseFloat(voucher.value);
+	const maxDiscount = voucher.maxDiscount !== null ? parseFloat(voucher.maxDiscount) : Infinity;
+
+	let itemDiscount = 0;
+	let shippingDiscount = 0;
+
+	switch (voucher.type as VoucherType) {
+		case 'percentage':
+			itemDiscount = Math.min((eligibleSubtotal * value) / 100, maxDiscount);
+			break;
+		case 'fixed':
+			itemDiscount = value;
+			break;
+		case 'free_shipping':
+			shippingDiscount = Math.min(context.shippingCost, maxDiscount);
+			break;
+		default:
+			throw error(400, 'Jenis voucher tidak dikenal');
+	}
+
+	itemDiscount = Math.floor(Math.min(itemDiscount, eligibleSubtotal));
+	shippingDiscount = Math.floor(Math.max(shippingDiscount, 0));
+
+	return {
+		voucher,
+		itemDiscount,
+		shippingDiscount,
+		discount: itemDiscount + shippingDiscount
+	};
+}
+
+/**
+ * Record a voucher use for a new order. Must run inside the order's transaction, with a quote
+ * taken using { lock: true } so the usage limits cannot be overrun by concurrent checkouts.
+ */
+export async function redeemVoucher(
+	tx: Transaction,
+	quote: VoucherQuote,
+	redemption: { orderId: string; userId: number }
+) {
+	await tx
+		.update(vouchers)
+		.set({ usedCount: sql`${vouchers.usedCount} + 1` })
+		.where(eq(vouchers.id, quote.voucher.id));
+
+	await tx.insert(voucherRedemptions).values({
+		voucherId: quote.voucher.id,
+		userId: redemption.userId,
+		orderId: redemption.orderId,
+		discount: quote.discount.toFixed(2),
+		status: 'applied'
+	});
+}
+
+/**
+ * Give the voucher use back when an order ends before it ships. Idempotent.
+ */
+export async function releaseVoucher(executor: Executor, orderId: string) {
+	const redemptions = await executor
+		.select()
+		.from(voucherRedemptions)
+		.where(and(eq(voucherRedemptions.orderId, orderId), eq(voucherRedemptions.status, 'applied')));
+
+	for (const redemption of redemptions) {
+		await executor
+			.update(voucherRedemptions)
+			.set({ status: 'released' })
+			.where(eq(voucherRedemptions.id, redemption.id));
+		await executor
+			.update(vouchers)
+			.set({ usedCount: sql`GREATEST(${vouchers.usedCount} - 1, 0)` })
+			.where(eq(vouchers.id, redemption.voucherId));
+	}
+}
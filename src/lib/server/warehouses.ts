@@ -0,0 +1,505 @@
+import { db } from '$lib/server/db';
+import { warehouses, warehouseStock, products, productVariants } from '$lib/server/db/schema';
+import { syncProductStock } from '$lib/server/variants';
+import { isValidIndonesianPostalCode } from '$lib/server/biteship-utils';
+import { eq, and, asc, inArray, isNull, sql } from 'drizzle-orm';
+import { error } from '@sveltejs/kit';
+import 'dotenv/config';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | Transaction;
+export type Warehouse = typeof warehouses.$inferSelect;
+
+const DEFAULT_WAREHOUSE_CODE = 'main';
+const CODE_PATTERN = /^[a-z0-9-]{2,32}$/;
+const PHONE_PATTERN = /^(\+62|62|0)[0-9]{9,13}$/;
+
+export interface WarehouseInput {
+	code?: string;
+	name?: string;
+	contactName?: string;
+	phone?: string;
+	email?: string;
+	address?: string;
+	note?: string | null;
+	postalCode?: string;
+	city?: string | null;
+	province?: string | null;
+	priority?: number;
+	isActive?: boolean;
+}
+
+export interface StockLevel {
+	productId: number;
+	variantId: number | null;
+	quantity: number;
+}
+
+function parseText(value: unknown, field: string, maxLength: number): string {
+	const text = typeof value === 'string' ? value.trim() : '';
+	if (!text) throw error(400, `${field} is required`);
+	if (text.length > maxLength) throw error(400, `${field} must be at most ${maxLength} characters`);
+	return text;
+}
+
+function parseOptionalText(value: unknown, maxLength: number): string | null {
+	const text = typeof value === 'string' ? value.trim() : '';
+	return text ? text.substring(0, maxLength) : null;
+}
+
+/**
+ * Validate a create/update payload. `partial` skips required fields for updates.
+ */
+export function parseWarehouseInput(body: any, partial: boolean): WarehouseInput {
+	const input: WarehouseInput = {};
+
+	if (!partial || body.code !== undefined) {
+		const code = parseText(body.code, 'Code', 32).toLowerCase();
+		if (!CODE_PATTERN.test(code)) {
+			throw error(400, 'Code may only contain lowercase letters, digits and dashes');
+		}
+		input.code = code;
+	}
+	if (!partial || body.name !== undefined) input.name = parseText(body.name, 'Name', 100);
+	if (!partial || body.contactName !== undefined) {
+		input.contactName = parseText(body.contactName, 'Contact name', 100);
+	}
+	if (!partial || body.phone !== undefined) {
+		const phone = parseText(body.phone, 'Phone', 20).replace(/\s/g, '');
+		if (!PHONE_PATTERN.test(phone)) throw error(400, 'Invalid phone number');
+		input.phone = phone;
+	}
+	if (!partial || body.email !== undefined) {
+		const email = parseText(body.email, 'Email', 100);
+		if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) throw error(400, 'Invalid email');
+		input.email = email;
+	}
+	if (!partial || body.address !== undefined) {
+		input.address = parseText(body.address, 'Address', 255);
+	}
+	if (!partial || body.postalCode !== undefined) {
+		const postalCode = parseText(body.postalCode, 'Postal code', 10);
+		if (!isValidIndonesianPostalCode(postalCode)) {
+			throw error(400, 'Postal code must be 5 digits');
+		}
+		input.postalCode = postalCode;
+	}
+	if (body.note !== undefined) input.note = parseOptionalText(body.note, 255);
+	if (body.city !== undefined) input.city = parseOptionalText(body.city, 100);
+	if (body.province !== undefined) input.province = parseOptionalText(body.province, 100);
+	if (body.priority !== undefined) {
+		const priority = Number(body.priority);
+		if (!Number.isInteger(priority) || priority < 0 || priority > 1000) {
+			throw error(400, 'Priority must be a whole number between 0 and 1000');
+		}
+		input.priority = priority;
+	}
+	if (body.isActive !== undefined) input.isActive = Boolean(body.isActive);
+
+	return input;
+}
+
+/**
+ * Create the first warehouse from the STORE_* environment variables and move all current
+ * stock into it, so a shop that never configured warehouses keeps shipping from where it did.
+ */
+async function bootstrapDefaultWarehouse() {
+	try {
+		await db.transaction(async (tx) => {
+			const [result] = await tx.insert(warehouses).values({
+				code: DEFAULT_WAREHOUSE_CODE,
+				name: process.env.STORE_NAME || 'Gudang Utama',
+				contactName: process.env.STORE_OWNER_NAME || 'Nama Pemilik Toko',
+				phone: process.env.STORE_PHONE || '08123456789',
+				email: process.env.STORE_EMAIL || 'info@tokoonline.com',
+				address: process.env.STORE_ADDRESS || 'Jl. Raya Utama No. 123, Kelurahan ABC',
+				note: process.env.STORE_NOTE || null,
+				postalCode: process.env.STORE_POSTAL_CODE || '12110',
+				city: process.env.STORE_CITY || null,
+				province: process.env.STORE_PROVINCE || null
+			});
+			const warehouseId = result.insertId;
+
+			// Products with variants are stocked per variant, the rest per product
+			await tx.execute(sql`
+				INSERT INTO ${warehouseStock} (warehouse_id, product_id, variant_id, quantity)
+				SELECT ${warehouseId}, ${productVariants.productId}, ${productVariants.id}, GREATEST(${productVariants.stock}, 0)
+				FROM ${productVariants}
+				WHERE ${productVariants.isActive} = true
+			`);
+			await tx.execute(sql`
+				INSERT INTO ${warehouseStock} (warehouse_id, product_id, variant_id, quantity)
+				SELECT ${warehouseId}, ${products.id}, NULL, GREATEST(COALESCE(${products.stock}, 0), 0)
+				FROM ${products}
+				WHERE NOT EXISTS (
+					SELECT 1 FROM ${productVariants}
+					WHERE ${productVariants.productId} = ${products.id} AND ${productVariants.isActive} = true
+				)
+			`);
+		});
+		console.log('Created default warehouse from store configuration');
+	} catch (err: any) {
+		// Another request bootstrapped it first
+		if (err?.code !== 'ER_DUP_ENTRY') throw err;
+	}
+}
+
+/**
+ * Active warehouses, lowest priority number first. Bootstraps the default warehouse on a
+ * fresh install.
+ */
+export async function listActiveWarehouses(): Promise<Warehouse[]> {
+	const rows = await db
+		.select()
+		.from(warehouses)
+		.orderBy(asc(warehouses.priority), asc(warehouses.id));
+	if (rows.length === 0) {
+		await bootstrapDefaultWarehouse();
+		return listActiveWarehouses();
+	}
+	return rows.filter((warehouse) => warehouse.isActive);
+}
+
+export async function listWarehouses(): Promise<Warehouse[]> {
+	return db.select().from(warehouses).orderBy(asc(warehouses.priority), asc(warehouses.id));
+}
+
+export async function getWarehouse(
+	warehouseId: number,
+	executor: Executor = db
+): Promise<Warehouse> {
+	const [warehouse] = await executor
+		.select()
+		.from(warehouses)
+		.where(eq(warehouses.id, warehouseId))
+		.limit(1);
+
+	if (!warehouse) {
+		throw error(404, 'Warehouse not found');
+	}
+	return warehouse;
+}
+
+/**
+ * Warehouse that receives stock entered through the product form: the active one with the
+ * lowest priority number.
+ */
+export async function getPrimaryWarehouse(executor: Executor = db): Promise<Warehouse> {
+	const [warehouse] = await executor
+		.select()
+		.from(warehouses)
+		.where(eq(warehouses.isActive, true))
+		.orderBy(asc(warehouses.priority), asc(warehouses.id))
+		.limit(1);
+
+	if (warehouse) return warehouse;
+
+	const [active] = await listActiveWarehouses();
+	if (!active) {
+		throw error(409, 'No active warehouse configured');
+	}
+	return active;
+}
+
+export async function createWarehouse(input: WarehouseInput): Promise<Warehouse> {
+	// Make sure a fresh install gets its default warehouse (and current stock) first
+	await listActiveWarehouses();
+
+	try {
+		const [result] = await db.insert(warehouses).values(input as typeof warehouses.$inferInsert);
+		return getWarehouse(result.insertId);
+	} catch (err: any) {
+		if (err?.code === 'ER_DUP_ENTRY') {
+			throw error(409, 'Warehouse code already exists');
+		}
+		throw err;
+	}
+}
+
+export async function updateWarehouse(
+	warehouseId: number,
+	input: WarehouseInput
+): Promise<Warehouse> {
+	const current = await getWarehouse(warehouseId);
+
+	if (input.isActive === false && current.isActive) {
+		const active = await listActiveWarehouses();
+		if (active.length === 1 && active[0].id === warehouseId) {
+			throw error(409, 'At least one warehouse must stay active');
+		}
+	}
+
+	if (Object.keys(input).length > 0) {
+		try {
+			await db.update(warehouses).set(input).where(eq(warehouses.id, warehouseId));
+		} catch (err: any) {
+			if (err?.code === 'ER_DUP_ENTRY') {
+				throw error(409, 'Warehouse code already exists');
+			}
+			throw err;
+		}
+	}
+
+	// Stock in an inactive warehouse is not for sale, so the totals change with it
+	if (input.isActive !== undefined && input.isActive !== current.isActive) {
+		const stocked = await db
+			.selectDistinct({ productId: warehouseStock.productId })
+			.from(warehouseStock)
+			.where(eq(warehouseStock.warehouseId, warehouseId));
+		await db.transaction(async (tx) => {
+			for (const row of stocked) {
+				await syncTotalsFromWarehouses(tx, row.productId);
+			}
+		});
+	}
+
+	return getWarehouse(warehouseId);
+}
+
+function variantCondition(variantId: number | null) {
+	return variantId ? eq(warehouseStock.variantId, variantId) : isNull(warehouseStock.variantId);
+}
+
+/**
+ * Add `delta` units to one warehouse's stock row, creating it when missing.
+ * Totals on products/variants are left to the caller.
+ */
+export async function adjustWarehouseStock(
+	executor: Executor,
+	warehouseId: number,
+	productId: number,
+	variantId: number | null,
+	delta: number
+) {
+	const [row] = await executor
+		.select({ id: warehouseStock.id })
+		.from(warehouseStock)
+		.where(
+			and(
+				eq(warehouseStock.warehouseId, warehouseId),
+				eq(warehouseStock.productId, productId),
+				variantCondition(variantId)
+			)
+		)
+		.limit(1);
+
+	if (row) {
+		await executor
+			.update(warehouseStock)
+			.set({ quantity: sql`GREATEST(${warehouseStock.quantity} + ${delta}, 0)` })
+			.where(eq(warehouseStock.id, row.id));
+	} else if (delta > 0) {
+		await executor
+			.insert(warehouseStock)
+			.values({ warehouseId, productId, variantId, quantity: delta });
+	}
+}
+
+/**
+ * Recompute products.stock (and variant stock) from the warehouse rows after per-warehouse
+ * quantities were changed.
+ */
+async function syncTotalsFromWarehouses(executor: Executor, productId: number) {
+	const rows = await executor
+		.select({
+			variantId: warehouseStock.variantId,
+			quantity: sql<number>`COALESCE(SUM(${warehouseStock.quantity}), 0)`
+		})
+		.from(warehouseStock)
+		.innerJoin(warehouses, eq(warehouses.id, warehouseStock.warehouseId))
+		.where(and(eq(warehouseStock.productId, productId), eq(warehouses.isActive, true)))
+		.groupBy(warehouseStock.variantId);
+
+	let productTotal = 0;
+	for (const row of rows) {
+		if (row.variantId) {
+			await executor
+				.update(productVariants)
+				.set({ stock: Number(row.quantity) })
+				.where(eq(productVariants.id, row.variantId));
+		} else {
+			productTotal = Number(row.quantity);
+		}
+	}
+
+	await executor.update(products).set({ stock: productTotal }).where(eq(products.id, productId));
+	// Products with variants carry the sum of their variants instead
+	await syncProductStock(executor, productId);
+}
+
+/**
+ * Bring a product's warehouse rows in line with the totals entered on the product form:
+ * extra units go to the primary warehouse, missing units are taken from the primary
+ * warehouse first and then from the others.
+ */
+export async function reconcileWarehouseStock(productId: number) {
+	const primary = await getPrimaryWarehouse();
+
+	await db.transaction(async (tx) => {
+		const variants = await tx
+			.select({ id: productVariants.id, stock: productVariants.stock })
+			.from(productVariants)
+			.where(and(eq(productVariants.productId, productId), eq(productVariants.isActive, true)));
+
+		let targets: { variantId: number | null; total: number }[];
+		if (variants.length > 0) {
+			targets = variants.map((variant) => ({ variantId: variant.id, total: variant.stock }));
+		} else {
+			const [product] = await tx
+				.select({ stock: products.stock })
+				.from(products)
+				.where(eq(products.id, productId))
+				.limit(1);
+			if (!product) return;
+			targets = [{ variantId: null, total: product.stock || 0 }];
+		}
+
+		for (const target of targets) {
+			const rows = await tx
+				.select({
+					id: warehouseStock.id,
+					warehouseId: warehouseStock.warehouseId,
+					quantity: warehouseStock.quantity
+				})
+				.from(warehouseStock)
+				.innerJoin(warehouses, eq(warehouses.id, warehouseStock.warehouseId))
+				.where(
+					and(
+						eq(warehouseStock.productId, productId),
+						variantCondition(target.variantId),
+						eq(warehouses.isActive, true)
+					)
+				)
+				.orderBy(asc(warehouses.priority), asc(warehouses.id));
+
+			let delta = Math.max(target.total, 0) - rows.reduce((sum, row) => sum + row.quantity, 0);
+			if (delta > 0) {
+				await adjustWarehouseStock(tx, primary.id, productId, target.variantId, delta);
+				continue;
+			}
+
+			const ordered = [
+				...rows.filter((row) => row.warehouseId === primary.id),
+				...rows.filter((row) => row.warehouseId !== primary.id)
+			];
+			for (const row of ordered) {
+				if (delta >= 0) break;
+				const taken = Math.min(row.quantity, -delta);
+				if (taken > 0) {
+					await tx
+						.update(warehouseStock)
+						.set({ quantity: row.quantity - taken })
+						.where(eq(warehouseStock.id, row.id));
+					delta += taken;
+				}
+			}
+		}
+	});
+}
+
+/**
+ * Stock of one warehouse, with product and variant names for the admin screen.
+ */
+export async function getWarehouseStock(warehouseId: number) {
+	await getWarehouse(warehouseId);
+
+	return db
+		.select({
+			productId: warehouseStock.productId,
+			variantId: warehouseStock.variantId,
+			quantity: warehouseStock.quantity,
+			productName: products.name,
+			variantName: productVariants.name,
+			sku: productVariants.sku,
+			updatedAt: warehouseStock.updatedAt
+		})
+		.from(warehouseStock)
+		.innerJoin(products, eq(products.id, warehouseStock.productId))
+		.leftJoin(productVariants, eq(productVariants.id, warehouseStock.variantId))
+		.where(eq(warehouseStock.warehouseId, warehouseId))
+		.orderBy(asc(products.name), asc(productVariants.name));
+}
+
+/**
+ * Set absolute quantities in one warehouse and update the product totals to match.
+ */
+export async function setWarehouseStock(warehouseId: number, levels: StockLevel[]) {
+	await getWarehouse(warehouseId);
+
+	const productIds = [...new Set(levels.map((level) => level.productId))];
+	if (productIds.length === 0) return;
+
+	const variantIds = levels.flatMap((level) => (level.variantId ? [level.variantId] : []));
+	if (variantIds.length > 0) {
+		const found = await db
+			.select({ id: productVariants.id, productId: productVariants.productId })
+			.from(productVariants)
+			.where(inArray(productVariants.id, variantIds));
+		const owners = new Map(found.map((variant) => [variant.id, variant.productId]));
+		const invalid = levels.find(
+			(level) => level.variantId && owners.get(level.variantId) !== level.productId
+		);
+		if (invalid) {
+			throw error(
+				400,
+				`Variant ${invalid.variantId} does not belong to product ${invalid.productId}`
+			);
+		}
+	}
+
+	await db.transaction(async (tx) => {
+		for (const level of levels) {
+			const [row] = await tx
+				.select({ id: warehouseStock.id, quantity: warehouseStock.quantity })
+				.from(warehouseStock)
+				.where(
+					and(
+						eq(warehouseStock.warehouseId, warehouseId),
+						eq(warehouseStock.productId, level.productId),
+						variantCondition(level.variantId)
+					)
+				)
+				.limit(1)
+				.for('update');
+
+			await adjustWarehouseStock(
+				tx,
+				warehouseId,
+				level.productId,
+				level.variantId,
+				level.quantity - (row?.quantity || 0)
+			);
+		}
+
+		for (const productId of productIds) {
+			await syncTotalsFromWarehouses(tx, productId);
+		}
+	});
+}
+
+/**
+ * Validate the `items` array of a stock update.
+ */
+export function parseStockLevels(value: unknown): StockLevel[] {
+	if (!Array.isArray(value) || value.length === 0) {
+		throw error(400, 'items must be a non-empty array');
+	}
+	if (value.length > 500) {
+		throw error(400, 'At most 500 stock rows can be updated at once');
+	}
+
+	return value.map((item: any) => {
+		const productId = Number(item?.productId);
+		const variantId = item?.variantId == null ? null : Number(item.variantId);
+		const quantity = Number(item?.quantity);
+
+		if (!Number.isInteger(productId) || productId <= 0) throw error(400, 'Invalid productId');
+		if (variantId !== null && (!Number.isInteger(variantId) || variantId <= 0)) {
+			throw error(400, 'Invalid variantId');
+		}
+		if (!Number.isInteger(quantity) || quantity < 0) {
+			throw error(400, 'Quantity must be a whole number of 0 or more');
+		}
+		return { productId, variantId, quantity };
+	});
+}
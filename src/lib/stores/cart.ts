@@ -3,11 +3,14 @@ import { browser } from '$app/environment';
 
 export interface CartItem {
 	productId: number;
+	variantId?: number | null;
 	quantity: number;
 	addedAt: number;
 	id: number;
 	name: string;
 	slug: string;
+	variantName?: string | null;
+	sku?: string | null;
 	price: number;
 	stock: number;
 	image?: string;
@@ -39,7 +42,9 @@ const initialState: CartState = {
 	error: null
 };
 
-// Create the cart store
+// Create the cart store.
+// /api/cart serves the account's stored cart when a session exists and the cookie cart otherwise,
+// so the store only needs to reload after login/logout.
 function createCartStore() {
 	const { subscribe, set, update } = writable<CartState>(initialState);
 
@@ -76,7 +81,7 @@ function createCartStore() {
 		},
 
 		// Add item to cart
-		async addItem(productId: number, quantity: number = 1) {
+		async addItem(productId: number, quantity: number = 1, variantId: number | null = null) {
 			if (!browser) return;
 			
 			update(state => ({ ...state, loading: true, error: null }));
@@ -87,7 +92,7 @@ function createCartStore() {
 					headers: {
 						'Content-Type': 'application/json'
 					},
-					body: JSON.stringify({ productId, quantity })
+					body: JSON.stringify({ productId, variantId, quantity })
 				});
 				
 				const result = await response.json();
@@ -114,7 +119,7 @@ function createCartStore() {
 		},
 
 		// Update item quantity
-		async updateItem(productId: number, quantity: number) {
+		async updateItem(productId: number, quantity: number, variantId: number | null = null) {
 			if (!browser) return;
 			
 			update(state => ({ ...state, loading: true, error: null }));
@@ -125,7 +130,7 @@ function createCartStore() {
 					headers: {
 						'Content-Type': 'application/json'
 					},
-					body: JSON.stringify({ productId, quantity })
+					body: JSON.stringify({ productId, variantId, quantity })
 				});
 				
 				const result = await response.json();
@@ -152,13 +157,14 @@ function createCartStore() {
 		},
 
 		// Remove item from cart
-		async removeItem(productId: number) {
+		async removeItem(productId: number, variantId: number | null = null) {
 			if (!browser) return;
 			
 			update(state => ({ ...state, loading: true, error: null }));
 			
 			try {
-				const response = await fetch(`/api/cart?productId=${productId}`, {
+				const variantParam = variantId ? `&variantId=${variantId}` : '';
+				const response = await fetch(`/api/cart?productId=${productId}${variantParam}`, {
 					method: 'DELETE'
 				});
 				
@@ -0,0 +1,86 @@
+// Staff roles and what each may do; used by the API authorization helper and the dashboard menu
+
+export const STAFF_ROLES = ['admin', 'catalog_manager', 'fulfilment', 'finance'] as const;
+export type StaffRole = (typeof STAFF_ROLES)[number];
+
+export const USER_ROLES = [...STAFF_ROLES, 'customer'] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+export const PERMISSIONS = [
+	'manage_products',
+	'manage_vouchers',
+	'manage_orders',
+	'verify_payments',
+	'issue_refunds',
+	'view_reports',
+	'manage_users',
+	'manage_settings'
+] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+	admin: PERMISSIONS,
+	// Products, categories, stock, reviews and vouchers
+	catalog_manager: ['manage_products', 'manage_vouchers'],
+	// Order status, shipping labels and receiving returns
+	fulfilment: ['manage_orders'],
+	// Bank transfer checks, refunds and reports
+	finance: ['verify_payments', 'issue_refunds', 'view_reports'],
+	customer: []
+};
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+	manage_products: 'Kelola produk & stok',
+	manage_vouchers: 'Kelola voucher',
+	manage_orders: 'Kelola pesanan',
+	verify_payments: 'Verifikasi pembayaran',
+	issue_refunds: 'Proses refund',
+	view_reports: 'Lihat laporan',
+	manage_users: 'Kelola user',
+	manage_settings: 'Kelola pengaturan toko'
+};
+
+/**
+ * Dashboard sections and the permissions that open them (any one is enough). Sections not
+ * listed here are open to all staff.
+ */
+export const DASHBOARD_SECTIONS: { path: string; permissions: Permission[] }[] = [
+	{ path: '/dashboard/products', permissions: ['manage_products'] },
+	{ path: '/dashboard/categories', permissions: ['manage_products'] },
+	{ path: '/dashboard/reviews', permissions: ['manage_products'] },
+	{ path: '/dashboard/orders', permissions: ['manage_orders', 'verify_payments'] },
+	{ path: '/dashboard/returns', permissions: ['manage_orders', 'issue_refunds'] },
+	{ path: '/dashboard/reports', permissions: ['view_reports'] },
+	{ path: '/dashboard/users', permissions: ['manage_users'] },
+	{ path: '/dashboard/settings', permissions: ['manage_settings'] }
+];
+
+export function isUserRole(value: unknown): value is UserRole {
+	return typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value);
+}
+
+export function isStaffRole(value: unknown): value is StaffRole {
+	return typeof value === 'string' && (STAFF_ROLES as readonly string[]).includes(value);
+}
+
+export function permissionsFor(role: string | null | undefined): readonly Permission[] {
+	return isUserRole(role) ? ROLE_PERMISSIONS[role] : [];
+}
+
+/** True when the role grants at least one of the permissions */
+export function hasPermission(
+	role: string | null | undefined,
+	...permissions: Permission[]
+): boolean {
+	const granted = permissionsFor(role);
+	return permissions.some((permission) => granted.includes(permission));
+}
+
+/** Whether a staff member with this role may open a dashboard path */
+export function canAccessDashboardPath(role: string | null | undefined, pathname: string): boolean {
+	if (!isStaffRole(role)) return false;
+	const section = DASHBOARD_SECTIONS.find(
+		(entry) => pathname === entry.path || pathname.startsWith(`${entry.path}/`)
+	);
+	return !section || hasPermission(role, ...section.permissions);
+}
@@ -0,0 +1,42 @@
+// Report names and filter options, shared by the report exports and the admin reports page
+
+export const REPORT_TYPES = [
+	'sales-by-day',
+	'sales-by-product',
+	'sales-by-category',
+	'order-ledger',
+	'shipping-by-courier',
+	'stock-valuation'
+] as const;
+
+export type ReportType = (typeof REPORT_TYPES)[number];
+
+export const REPORT_FORMATS = ['csv', 'xlsx', 'pdf'] as const;
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export const REPORT_TYPE_LABELS: Record<ReportType, string> = {
+	'sales-by-day': 'Penjualan per Hari',
+	'sales-by-product': 'Penjualan per Produk',
+	'sales-by-category': 'Penjualan per Kategori',
+	'order-ledger': 'Buku Besar Pesanan (Pajak)',
+	'shipping-by-courier': 'Ongkos Kirim per Kurir',
+	'stock-valuation': 'Nilai Persediaan'
+};
+
+// Same periods as the customer transaction list (GET /api/transactions)
+export const REPORT_PERIOD_LABELS: Record<string, string> = {
+	today: 'Hari ini',
+	week: 'Minggu ini',
+	month: 'Bulan ini',
+	year: 'Tahun ini',
+	all: 'Semua waktu'
+};
+
+export function isReportType(value: unknown): value is ReportType {
+	return typeof value === 'string' && (REPORT_TYPES as readonly string[]).includes(value);
+}
+
+export function isReportFormat(value: unknown): value is ReportFormat {
+	return typeof value === 'string' && (REPORT_FORMATS as readonly string[]).includes(value);
+}
@@ -0,0 +1,18 @@
+// Labels for return requests, shared by the customer return page and the admin dashboard
+
+export const RETURN_STATUS_LABELS: Record<string, string> = {
+	requested: 'Menunggu Persetujuan',
+	approved: 'Disetujui, kirim barang',
+	rejected: 'Ditolak',
+	received: 'Barang Diterima',
+	refunded: 'Dana Dikembalikan',
+	cancelled: 'Dibatalkan'
+};
+
+export const RETURN_REASON_LABELS: Record<string, string> = {
+	damaged: 'Barang rusak',
+	wrong_item: 'Barang tidak sesuai pesanan',
+	not_as_described: 'Tidak sesuai deskripsi',
+	changed_mind: 'Berubah pikiran',
+	other: 'Lainnya'
+};
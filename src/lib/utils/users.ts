@@ -0,0 +1,43 @@
+// Labels for accounts and the admin audit log, shared by the admin user pages
+
+export const ROLE_LABELS: Record<string, string> = {
+	admin: 'Admin',
+	catalog_manager: 'Pengelola Katalog',
+	fulfilment: 'Fulfilment',
+	finance: 'Keuangan',
+	customer: 'Pelanggan'
+};
+
+export const USER_STATUS_LABELS: Record<string, string> = {
+	active: 'Aktif',
+	suspended: 'Ditangguhkan'
+};
+
+export const USER_SORT_LABELS: Record<string, string> = {
+	newest: 'Terbaru',
+	oldest: 'Terlama',
+	name: 'Nama (A-Z)',
+	lifetime_value: 'Total Belanja',
+	orders: 'Jumlah Pesanan'
+};
+
+export const AUDIT_ACTION_LABELS: Record<string, string> = {
+	'user.role_changed': 'Mengubah role',
+	'user.suspended': 'Menangguhkan akun',
+	'user.unsuspended': 'Mengaktifkan kembali akun'
+};
+
+/** One line on what changed, from an audit entry's details */
+export function describeAuditDetails(action: string, details: Record<string, any> | null): string {
+	if (!details) return '';
+	switch (action) {
+		case 'user.role_changed':
+			return `${ROLE_LABELS[details.from] || details.from} → ${ROLE_LABELS[details.to] || details.to}`;
+		case 'user.suspended':
+			return details.reason ? `Alasan: ${details.reason}` : '';
+		case 'user.unsuspended':
+			return details.previousReason ? `Sebelumnya ditangguhkan: ${details.previousReason}` : '';
+		default:
+			return '';
+	}
+}
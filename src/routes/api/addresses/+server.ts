@@ -0,0 +1,46 @@
+// src/routes/api/addresses/+server.ts
+// Address book of the logged-in customer, reused at checkout
+
+import { json, error, type RequestEvent } from '@sveltejs/kit';
+import { createAddress, listAddresses, parseAddressInput } from '$lib/server/addresses';
+import { requireCSRFToken } from '$lib/server/csrf';
+
+function requireUser({ locals }: RequestEvent) {
+	const user = locals?.user;
+	if (!user) {
+		throw error(401, 'Authentication required');
+	}
+	return user;
+}
+
+// GET - List saved addresses, default first
+export async function GET(event: RequestEvent) {
+	const user = requireUser(event);
+
+	try {
+		const addresses = await listAddresses(Number(user.id));
+		return json({ success: true, data: addresses });
+	} catch (err: any) {
+		console.error('Error listing addresses:', err);
+		if (err.status) throw err;
+		throw error(500, 'Failed to list addresses');
+	}
+}
+
+// POST - Save a new address; its Biteship area is looked up from the postal code
+export async function POST(event: RequestEvent) {
+	const user = requireUser(event);
+	requireCSRFToken(event.request);
+
+	try {
+		const body = await event.request.json().catch(() => ({}));
+		const input = parseAddressInput(body, false);
+		const address = await createAddress(Number(user.id), input);
+
+		return json({ success: true, data: address }, { status: 201 });
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Error creating address:', err);
+		throw error(500, 'Failed to save address');
+	}
+}
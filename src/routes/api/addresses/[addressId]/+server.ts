@@ -0,0 +1,63 @@
+// src/routes/api/addresses/[addressId]/+server.ts
+// Single saved address of the logged-in customer
+
+import { json, error, type RequestEvent } from '@sveltejs/kit';
+import { deleteAddress, getAddress, parseAddressInput, updateAddress } from '$lib/server/addresses';
+import { requireCSRFToken } from '$lib/server/csrf';
+
+function requireUser({ locals }: RequestEvent) {
+	const user = locals?.user;
+	if (!user) {
+		throw error(401, 'Authentication required');
+	}
+	return user;
+}
+
+function parseAddressId({ params }: RequestEvent): number {
+	const id = Number(params.addressId);
+	if (!Number.isInteger(id) || id <= 0) {
+		throw error(400, 'Invalid address id');
+	}
+	return id;
+}
+
+// GET - Single address
+export async function GET(event: RequestEvent) {
+	const user = requireUser(event);
+	const address = await getAddress(Number(user.id), parseAddressId(event));
+	return json({ success: true, data: address });
+}
+
+// PUT - Update an address (partial); send isDefault: true to make it the default
+export async function PUT(event: RequestEvent) {
+	const user = requireUser(event);
+	requireCSRFToken(event.request);
+
+	try {
+		const id = parseAddressId(event);
+		const body = await event.request.json().catch(() => ({}));
+		const input = parseAddressInput(body, true);
+		const address = await updateAddress(Number(user.id), id, input);
+
+		return json({ success: true, data: address });
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Error updating address:', err);
+		throw error(500, 'Failed to update address');
+	}
+}
+
+// DELETE - Remove an address; the default moves to another address
+export async function DELETE(event: RequestEvent) {
+	const user = requireUser(event);
+	requireCSRFToken(event.request);
+
+	try {
+		await deleteAddress(Number(user.id), parseAddressId(event));
+		return json({ success: true, message: 'Address deleted' });
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Error deleting address:', err);
+		throw error(500, 'Failed to delete address');
+	}
+}
@@ -0,0 +1,22 @@
+// src/routes/api/admin/analytics/+server.ts
+// Sales, customer and stock figures for the admin dashboard home (/dashboard)
+
+import { json, error, type RequestEvent } from '@sveltejs/kit';
+import { requirePermission } from '$lib/server/authorization';
+import { getDashboardAnalytics, parseAnalyticsRange } from '$lib/server/analytics';
+
+// GET - Analytics for ?range=7d|30d|90d|12m (default 30d) or ?from=YYYY-MM-DD&to=YYYY-MM-DD
+export async function GET(event: RequestEvent) {
+	requirePermission(event, 'view_reports');
+
+	try {
+		const range = parseAnalyticsRange(event.url.searchParams);
+		const data = await getDashboardAnalytics(range);
+
+		return json({ success: true, data });
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Error loading dashboard analytics:', err);
+		throw error(500, 'Failed to load analytics');
+	}
+}
@@ -0,0 +1,48 @@
+// src/routes/api/admin/audit-logs/+server.ts
+// Trail of admin actions (role changes, suspensions), newest first
+
+import { json, error, type RequestEvent } from '@sveltejs/kit';
+import { requirePermission } from '$lib/server/authorization';
+import { isAuditAction, isAuditTargetType, listAuditLogs } from '$lib/server/audit-log';
+
+const MAX_PER_PAGE = 100;
+
+// GET - Filters: action, targetType, targetId, adminId, page, perPage
+export async function GET(event: RequestEvent) {
+	requirePermission(event, 'manage_users');
+	const { url } = event;
+
+	try {
+		const action = url.searchParams.get('action') || '';
+		const targetType = url.searchParams.get('targetType') || '';
+		const targetId = url.searchParams.get('targetId') || '';
+		const adminId = parseInt(url.searchParams.get('adminId') || '', 10);
+		const page = Math.max(parseInt(url.searchParams.get('page') || '1', 10) || 1, 1);
+		const perPage = Math.min(
+			Math.max(parseInt(url.searchParams.get('perPage') || '20', 10) || 20, 1),
+			MAX_PER_PAGE
+		);
+
+		if (action && !isAuditAction(action)) {
+			throw error(400, 'Invalid action parameter');
+		}
+		if (targetType && !isAuditTargetType(targetType)) {
+			throw error(400, 'Invalid targetType parameter');
+		}
+
+		const { data, total } = await listAuditLogs({
+			action: isAuditAction(action) ? action : null,
+			targetType: isAuditTargetType(targetType) ? targetType : null,
+			targetId: targetId || null,
+			adminId: Number.isInteger(adminId) && adminId > 0 ? adminId : null,
+			page,
+			perPage
+		});
+
+		return json({ success: true, data, total, page, perPage });
+	} catch (err: any) {
+		console.error('Error listing audit log:', err);
+		if (err.status) throw err;
+		throw error(500, 'Failed to list audit log');
+	}
+}
@@ -0,0 +1,134 @@
+// src/routes/api/admin/orders/+server.ts
+// Order listing for the admin dashboard (/dashboard/orders)
+
+import { db } from '$lib/server/db';
+import { orders, orderItems } from '$lib/server/db/schema';
+import { and, or, eq, like, gte, lt, desc, inArray, sql, isNotNull } from 'drizzle-orm';
+import { json, error, type RequestEvent } from '@sveltejs/kit';
+import { requirePermission } from '$lib/server/authorization';
+import { isOrderStatus, getAllowedTransitions } from '$lib/server/order-lifecycle';
+import { isPaymentMethod } from '$lib/server/payment-providers';
+
+const MAX_PER_PAGE = 100;
+
+function parseDate(value: string | null): Date | null {
+	if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+	const date = new Date(`${value}T00:00:00`);
+	return isNaN(date.getTime()) ? null : date;
+}
+
+// GET - List orders with filters: status, paymentMethod, dateFrom, dateTo, courier, q, page, perPage
+export async function GET(event: RequestEvent) {
+	requirePermission(event, 'manage_orders', 'verify_payments');
+	const { url } = event;
+
+	try {
+		const status = url.searchParams.get('status') || '';
+		const paymentMethod = url.searchParams.get('paymentMethod') || '';
+		const courier = (url.searchParams.get('courier') || '').trim().substring(0, 50);
+		const q = (url.searchParams.get('q') || '').trim().substring(0, 100);
+		const dateFrom = parseDate(url.searchParams.get('dateFrom'));
+		const dateTo = parseDate(url.searchParams.get('dateTo'));
+		const page = Math.max(parseInt(url.searchParams.get('page') || '1', 10) || 1, 1);
+		const perPage = Math.min(
+			Math.max(parseInt(url.searchParams.get('perPage') || '20', 10) || 20, 1),
+			MAX_PER_PAGE
+		);
+
+		if (status && !isOrderStatus(status)) {
+			throw error(400, 'Invalid status parameter');
+		}
+		if (paymentMethod && !isPaymentMethod(paymentMethod)) {
+			throw error(400, 'Invalid paymentMethod parameter');
+		}
+
+		const conditions = [];
+		if (status) conditions.push(eq(orders.status, status));
+		if (paymentMethod) conditions.push(eq(orders.paymentMethod, paymentMethod));
+		if (courier) conditions.push(eq(orders.courierName, courier));
+		if (dateFrom) conditions.push(gte(orders.createdAt, dateFrom));
+		if (dateTo) {
+			// Inclusive of the whole end day
+			const endExclusive = new Date(dateTo);
+			endExclusive.setDate(endExclusive.getDate() + 1);
+			conditions.push(lt(orders.createdAt, endExclusive));
+		}
+		if (q) {
+			const term = `%${q.toLowerCase()}%`;
+			conditions.push(
+				or(
+					like(sql`LOWER(${orders.orderNumber})`, term),
+					like(sql`LOWER(${orders.recipientName})`, term)
+				)
+			);
+		}
+
+		const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+		const [{ count }] = await db
+			.select({ count: sql<number>`COUNT(*)` })
+			.from(orders)
+			.where(where);
+
+		const rows = await db
+			.select({
+				id: orders.id,
+				orderNumber: orders.orderNumber,
+				recipientName: orders.recipientName,
+				email: orders.email,
+				phone: orders.phone,
+				total: orders.total,
+				courierName: orders.courierName,
+				courierService: orders.courierService,
+				status: orders.status,
+				paymentMethod: orders.paymentMethod,
+				createdAt: orders.createdAt
+			})
+			.from(orders)
+			.where(where)
+			.orderBy(desc(orders.createdAt))
+			.limit(perPage)
+			.offset((page - 1) * perPage);
+
+		const itemCounts = new Map<string, number>();
+		if (rows.length > 0) {
+			const counts = await db
+				.select({
+					orderId: orderItems.orderId,
+					quantity: sql<number>`SUM(${orderItems.quantity})`
+				})
+				.from(orderItems)
+				.where(
+					inArray(
+						orderItems.orderId,
+						rows.map((row) => row.id)
+					)
+				)
+				.groupBy(orderItems.orderId);
+			counts.forEach((row) => itemCounts.set(row.orderId, Number(row.quantity)));
+		}
+
+		const couriers = await db
+			.selectDistinct({ courierName: orders.courierName })
+			.from(orders)
+			.where(isNotNull(orders.courierName));
+
+		return json({
+			success: true,
+			data: rows.map((row) => ({
+				...row,
+				total: parseFloat(row.total),
+				itemCount: itemCounts.get(row.id) || 0,
+				allowedTransitions: getAllowedTransitions(row.status, row.paymentMethod)
+			})),
+			total: Number(count),
+			page,
+			perPage,
+			couriers: couriers.map((row) => row.courierName).filter(Boolean)
+		});
+	} catch (err: any) {
+		console.error('Error listing orders:', err);
+		if (err.status) throw err;
+		throw error(500, 'Failed to list orders');
+	}
+}
@@ -0,0 +1,135 @@
+// src/routes/api/admin/payments/+server.ts
+// Bank transfer verification for admins: review uploaded proofs, then approve or reject
+
+import { db } from '$lib/server/db';
+import { orders } from '$lib/server/db/schema';
+import { and, eq, desc } from 'drizzle-orm';
+import { json, error, type RequestEvent } from '@sveltejs/kit';
+import { requirePermission } from '$lib/server/authorization';
+import { requireCSRFToken } from '$lib/server/csrf';
+import {
+	transitionOrderStatus,
+	createShipmentForPaidOrder,
+	updatePaymentMetadata
+} from '$lib/server/order-lifecycle';
+
+const VERIFICATION_FILTERS = ['awaiting_verification', 'rejected', 'awaiting_payment', 'all'];
+const MAX_NOTE_LENGTH = 255;
+
+// GET - Pending bank transfer orders; ?verification=awaiting_verification (default), rejected,
+// awaiting_payment (no proof yet) or all
+export async function GET(event: RequestEvent) {
+	requirePermission(event, 'verify_payments');
+
+	try {
+		const verification = event.url.searchParams.get('verification') || 'awaiting_verification';
+		if (!VERIFICATION_FILTERS.includes(verification)) {
+			throw error(400, 'Invalid verification parameter');
+		}
+
+		const rows = await db
+			.select({
+				id: orders.id,
+				orderNumber: orders.orderNumber,
+				recipientName: orders.recipientName,
+				email: orders.email,
+				total: orders.total,
+				metadata: orders.metadata,
+				createdAt: orders.createdAt
+			})
+			.from(orders)
+			.where(and(eq(orders.paymentMethod, 'bank_transfer'), eq(orders.status, 'pending')))
+			.orderBy(desc(orders.createdAt));
+
+		const data = rows
+			.map(({ metadata, ...row }) => {
+				const payment = JSON.parse(metadata || '{}').payment || {};
+				return {
+					...row,
+					total: parseFloat(row.total),
+					proof: payment.proof || null,
+					verification: payment.verification?.status || 'awaiting_payment',
+					rejection: payment.verification?.status === 'rejected' ? payment.verification : null
+				};
+			})
+			.filter((row) => verification === 'all' || row.verification === verification);
+
+		return json({ success: true, data });
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Error listing bank transfers:', err);
+		throw error(500, 'Failed to list bank transfers');
+	}
+}
+
+// PUT - Verify a transfer: { orderId, action: 'approve' | 'reject', note }
+// Approving marks the order paid and books its shipment; rejecting keeps it pending so the
+// customer can upload a new proof
+export async function PUT(event: RequestEvent) {
+	const user = requirePermission(event, 'verify_payments');
+	requireCSRFToken(event.request);
+
+	try {
+		const body = await event.request.json();
+		const orderId = typeof body.orderId === 'string' ? body.orderId : '';
+		const note =
+			typeof body.note === 'string' ? body.note.trim().substring(0, MAX_NOTE_LENGTH) : '';
+		if (!orderId) {
+			throw error(400, 'Order ID is required');
+		}
+		if (body.action !== 'approve' && body.action !== 'reject') {
+			throw error(400, 'Action must be approve or reject');
+		}
+		if (body.action === 'reject' && !note) {
+			throw error(400, 'A note for the customer is required when rejecting');
+		}
+
+		const [order] = await db.select().from(orders).where(eq(orders.id, orderId)).limit(1);
+		if (!order) {
+			throw error(404, 'Order not found');
+		}
+		if (order.paymentMethod !== 'bank_transfer') {
+			throw error(400, 'Order is not paid by bank transfer');
+		}
+
+		const actor = { type: 'admin' as const, id: user.id };
+		const verification = {
+			status: body.action === 'approve' ? 'approved' : 'rejected',
+			note: note || null,
+			verified_by: user.id,
+			verified_at: new Date().toISOString()
+		};
+
+		if (body.action === 'reject') {
+			await updatePaymentMetadata(orderId, (payment, locked) => {
+				if (locked.status !== 'pending') {
+					throw error(409, 'Order is no longer awaiting payment');
+				}
+				return { ...payment, verification };
+			});
+			return json({ success: true, data: { orderId, status: order.status, verification } });
+		}
+
+		const payment = JSON.parse(order.metadata || '{}').payment || {};
+		await transitionOrderStatus(orderId, 'paid', {
+			actor,
+			reason: note ? `Bank transfer verified: ${note}` : 'Bank transfer verified',
+			metadata: {
+				payment: {
+					...payment,
+					provider: 'bank_transfer',
+					verification,
+					updated_at: verification.verified_at,
+					updated_by: user.id
+				}
+			}
+		});
+		await createShipmentForPaidOrder(orderId, actor);
+
+		return json({ success: true, data: { orderId, status: 'paid', verification } });
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Error verifying bank transfer:', err);
+		throw error(500, 'Failed to verify bank transfer');
+	}
+}
@@ -0,0 +1,42 @@
+// src/routes/api/admin/reports/[report]/+server.ts
+// Sales, tax, shipping and stock reports for the admin dashboard (/dashboard/reports), as
+// CSV, XLSX or PDF downloads
+
+import { error, type RequestEvent } from '@sveltejs/kit';
+import { requirePermission } from '$lib/server/authorization';
+import { buildReport, renderReport, reportFilename } from '$lib/server/reports';
+import { parseReportFilters } from '$lib/server/reports/filters';
+import { isReportFormat, isReportType } from '$lib/utils/reports';
+
+// GET - Download a report: ?format=csv|xlsx|pdf (default csv), period, status, dateFrom, dateTo
+export async function GET(event: RequestEvent) {
+	requirePermission(event, 'view_reports');
+	const { url, params } = event;
+
+	try {
+		const report = params.report;
+		if (!isReportType(report)) {
+			throw error(404, 'Unknown report');
+		}
+		const format = url.searchParams.get('format') || 'csv';
+		if (!isReportFormat(format)) {
+			throw error(400, 'Invalid format parameter');
+		}
+
+		const filters = parseReportFilters(url.searchParams);
+		const table = await buildReport(report, filters);
+		const { body, contentType } = renderReport(table, format);
+
+		return new Response(new Uint8Array(body), {
+			headers: {
+				'Content-Type': contentType,
+				'Content-Disposition': `attachment; filename="${reportFilename(report, filters, format)}"`,
+				'Cache-Control': 'no-store'
+			}
+		});
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Error exporting report:', err);
+		throw error(500, 'Failed to export report');
+	}
+}
@@ -0,0 +1,103 @@
+// src/routes/api/admin/returns/+server.ts
+// Return handling for the admin dashboard (/dashboard/returns): review, receive, refund
+
+import { json, error, type RequestEvent } from '@sveltejs/kit';
+import { requirePermission } from '$lib/server/authorization';
+import { requireCSRFToken } from '$lib/server/csrf';
+import {
+	isReturnStatus,
+	listReturns,
+	parseReturnNote,
+	receiveReturn,
+	refundReturn,
+	reviewReturn
+} from '$lib/server/returns';
+
+const MAX_PER_PAGE = 100;
+const ACTIONS = ['approve', 'reject', 'receive', 'refund'];
+
+// GET - List returns with filters: status, page, perPage
+export async function GET(event: RequestEvent) {
+	requirePermission(event, 'manage_orders', 'issue_refunds');
+	const { url } = event;
+
+	try {
+		const status = url.searchParams.get('status') || '';
+		const page = Math.max(parseInt(url.searchParams.get('page') || '1', 10) || 1, 1);
+		const perPage = Math.min(
+			Math.max(parseInt(url.searchParams.get('perPage') || '20', 10) || 20, 1),
+			MAX_PER_PAGE
+		);
+
+		if (status && !isReturnStatus(status)) {
+			throw error(400, 'Invalid status parameter');
+		}
+
+		const { data, total } = await listReturns({
+			status: isReturnStatus(status) ? status : null,
+			page,
+			perPage
+		});
+
+		return json({ success: true, data, total, page, perPage });
+	} catch (err: any) {
+		console.error('Error listing returns:', err);
+		if (err.status) throw err;
+		throw error(500, 'Failed to list returns');
+	}
+}
+
+// PUT - Act on a return: { id, action: 'approve' | 'reject' | 'receive' | 'refund', note,
+// amount, manual }. Rejections need a note for the customer; refunds go through the payment
+// provider unless manual is set. Refunds need issue_refunds, the other actions manage_orders.
+export async function PUT(event: RequestEvent) {
+	const admin = requirePermission(event, 'manage_orders', 'issue_refunds');
+	requireCSRFToken(event.request);
+
+	try {
+		const body = await event.request.json();
+		const id = Number(body.id);
+		if (!Number.isInteger(id) || id <= 0) {
+			throw error(400, 'Valid return id is required');
+		}
+		if (!ACTIONS.includes(body.action)) {
+			throw error(400, 'Invalid action');
+		}
+		requirePermission(event, body.action === 'refund' ? 'issue_refunds' : 'manage_orders');
+		const note = parseReturnNote(body.note);
+		const adminId = Number(admin.id);
+
+		switch (body.action) {
+			case 'approve':
+				await reviewReturn(id, 'approved', adminId, note);
+				break;
+			case 'reject':
+				if (!note) {
+					throw error(400, 'A note for the customer is required when rejecting');
+				}
+				await reviewReturn(id, 'rejected', adminId, note);
+				break;
+			case 'receive':
+				await receiveReturn(id, adminId, note);
+				break;
+			case 'refund': {
+				const amount = body.amount != null && body.amount !== '' ? Number(body.amount) : null;
+				if (amount !== null && !Number.isFinite(amount)) {
+					throw error(400, 'Invalid refund amount');
+				}
+				const refund = await refundReturn(id, adminId, {
+					amount,
+					manual: body.manual === true,
+					note
+				});
+				return json({ success: true, data: { id, status: 'refunded', refund } });
+			}
+		}
+
+		return json({ success: true, data: { id, action: body.action } });
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Error updating return:', err);
+		throw error(500, 'Failed to update return');
+	}
+}
@@ -0,0 +1,148 @@
+// src/routes/api/admin/reviews/+server.ts
+// Review moderation for the admin dashboard (/dashboard/reviews)
+
+import { db } from '$lib/server/db';
+import { productReviews, products, users } from '$lib/server/db/schema';
+import { and, or, eq, like, desc, sql } from 'drizzle-orm';
+import { json, error, type RequestEvent } from '@sveltejs/kit';
+import { requirePermission } from '$lib/server/authorization';
+import { requireCSRFToken } from '$lib/server/csrf';
+import {
+	deleteReview,
+	getReviewImages,
+	isReviewStatus,
+	parseRating,
+	setReviewStatus
+} from '$lib/server/reviews';
+
+const MAX_PER_PAGE = 100;
+
+function parseReviewId(value: unknown): number {
+	const id = Number(value);
+	if (!Number.isInteger(id) || id <= 0) {
+		throw error(400, 'Valid review id is required');
+	}
+	return id;
+}
+
+// GET - List reviews with filters: status, rating, q, page, perPage
+export async function GET(event: RequestEvent) {
+	requirePermission(event, 'manage_products');
+	const { url } = event;
+
+	try {
+		const status = url.searchParams.get('status') || '';
+		const ratingParam = url.searchParams.get('rating');
+		const q = (url.searchParams.get('q') || '').trim().substring(0, 100);
+		const page = Math.max(parseInt(url.searchParams.get('page') || '1', 10) || 1, 1);
+		const perPage = Math.min(
+			Math.max(parseInt(url.searchParams.get('perPage') || '20', 10) || 20, 1),
+			MAX_PER_PAGE
+		);
+
+		if (status && !isReviewStatus(status)) {
+			throw error(400, 'Invalid status parameter');
+		}
+
+		const conditions = [];
+		if (status) conditions.push(eq(productReviews.status, status));
+		if (ratingParam) conditions.push(eq(productReviews.rating, parseRating(ratingParam)));
+		if (q) {
+			const term = `%${q.toLowerCase()}%`;
+			conditions.push(
+				or(
+					like(sql`LOWER(${products.name})`, term),
+					like(sql`LOWER(${users.name})`, term),
+					like(sql`LOWER(${productReviews.body})`, term)
+				)
+			);
+		}
+
+		const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+		const [{ count }] = await db
+			.select({ count: sql<number>`COUNT(*)` })
+			.from(productReviews)
+			.innerJoin(products, eq(productReviews.productId, products.id))
+			.innerJoin(users, eq(productReviews.userId, users.id))
+			.where(where);
+
+		const rows = await db
+			.select({
+				id: productReviews.id,
+				rating: productReviews.rating,
+				body: productReviews.body,
+				status: productReviews.status,
+				moderationNote: productReviews.moderationNote,
+				orderId: productReviews.orderId,
+				createdAt: productReviews.createdAt,
+				productId: products.id,
+				productName: products.name,
+				productSlug: products.slug,
+				userName: users.name,
+				userEmail: users.email
+			})
+			.from(productReviews)
+			.innerJoin(products, eq(productReviews.productId, products.id))
+			.innerJoin(users, eq(productReviews.userId, users.id))
+			.where(where)
+			.orderBy(desc(productReviews.createdAt))
+			.limit(perPage)
+			.offset((page - 1) * perPage);
+
+		const images = await getReviewImages(rows.map((row) => row.id));
+
+		return json({
+			success: true,
+			data: rows.map((row) => ({ ...row, images: images.get(row.id) || [] })),
+			total: Number(count),
+			page,
+			perPage
+		});
+	} catch (err: any) {
+		console.error('Error listing reviews:', err);
+		if (err.status) throw err;
+		throw error(500, 'Failed to list reviews');
+	}
+}
+
+// PUT - Publish or hide a review: { id, status, note }
+export async function PUT(event: RequestEvent) {
+	const admin = requirePermission(event, 'manage_products');
+	requireCSRFToken(event.request);
+
+	try {
+		const body = await event.request.json();
+		const id = parseReviewId(body.id);
+		if (!isReviewStatus(body.status)) {
+			throw error(400, 'Invalid status');
+		}
+		const note =
+			typeof body.note === 'string' && body.note.trim() ? body.note.trim().substring(0, 255) : null;
+
+		await setReviewStatus(id, body.status, Number(admin.id), note);
+
+		return json({ success: true, data: { id, status: body.status, moderationNote: note } });
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Error moderating review:', err);
+		throw error(500, 'Failed to update review');
+	}
+}
+
+// DELETE - Remove a review for good (?id=)
+export async function DELETE(event: RequestEvent) {
+	requirePermission(event, 'manage_products');
+	requireCSRFToken(event.request);
+
+	try {
+		const id = parseReviewId(event.url.searchParams.get('id'));
+		await deleteReview(id);
+
+		return json({ success: true, message: 'Review deleted' });
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Error deleting review:', err);
+		throw error(500, 'Failed to delete review');
+	}
+}
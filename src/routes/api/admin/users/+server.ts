@@ -0,0 +1,108 @@
+// src/routes/api/admin/users/+server.ts
+// Customer and staff accounts for the admin dashboard (/dashboard/users): search, role changes, suspension
+
+import { json, error, type RequestEvent } from '@sveltejs/kit';
+import { requirePermission } from '$lib/server/authorization';
+import { requireCSRFToken } from '$lib/server/csrf';
+import {
+	changeUserRole,
+	isUserRole,
+	isUserSort,
+	isUserStatus,
+	listUsers,
+	parseSuspensionReason,
+	suspendUser,
+	unsuspendUser
+} from '$lib/server/users';
+
+const MAX_PER_PAGE = 100;
+const ACTIONS = ['role', 'suspend', 'unsuspend'];
+
+// GET - List users with filters: q (name or email), role, status (active|suspended),
+// sort (newest|oldest|name|lifetime_value|orders), page, perPage
+export async function GET(event: RequestEvent) {
+	requirePermission(event, 'manage_users');
+	const { url } = event;
+
+	try {
+		const q = url.searchParams.get('q')?.trim() || '';
+		const role = url.searchParams.get('role') || '';
+		const status = url.searchParams.get('status') || '';
+		const sort = url.searchParams.get('sort') || 'newest';
+		const page = Math.max(parseInt(url.searchParams.get('page') || '1', 10) || 1, 1);
+		const perPage = Math.min(
+			Math.max(parseInt(url.searchParams.get('perPage') || '20', 10) || 20, 1),
+			MAX_PER_PAGE
+		);
+
+		if (role && !isUserRole(role)) {
+			throw error(400, 'Invalid role parameter');
+		}
+		if (status && !isUserStatus(status)) {
+			throw error(400, 'Invalid status parameter');
+		}
+		if (!isUserSort(sort)) {
+			throw error(400, 'Invalid sort parameter');
+		}
+
+		const { data, total } = await listUsers({
+			q,
+			role: isUserRole(role) ? role : null,
+			status: isUserStatus(status) ? status : null,
+			sort,
+			page,
+			perPage
+		});
+
+		return json({ success: true, data, total, page, perPage });
+	} catch (err: any) {
+		console.error('Error listing users:', err);
+		if (err.status) throw err;
+		throw error(500, 'Failed to list users');
+	}
+}
+
+// PUT - Act on an account: { id, action: 'role' | 'suspend' | 'unsuspend', role, reason }.
+// Suspensions need a reason; every action is written to the admin audit log.
+export async function PUT(event: RequestEvent) {
+	const admin = requirePermission(event, 'manage_users');
+	requireCSRFToken(event.request);
+
+	try {
+		const body = await event.request.json();
+		const id = Number(body.id);
+		if (!Number.isInteger(id) || id <= 0) {
+			throw error(400, 'Valid user id is required');
+		}
+		if (!ACTIONS.includes(body.action)) {
+			throw error(400, 'Invalid action');
+		}
+		const adminId = Number(admin.id);
+
+		switch (body.action) {
+			case 'role':
+				if (!isUserRole(body.role)) {
+					throw error(400, 'Invalid role');
+				}
+				await changeUserRole(adminId, id, body.role);
+				break;
+			case 'suspend': {
+				const reason = parseSuspensionReason(body.reason);
+				if (!reason) {
+					throw error(400, 'A reason is required when suspending an account');
+				}
+				await suspendUser(adminId, id, reason);
+				break;
+			}
+			case 'unsuspend':
+				await unsuspendUser(adminId, id);
+				break;
+		}
+
+		return json({ success: true, data: { id, action: body.action } });
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Error updating user:', err);
+		throw error(500, 'Failed to update user');
+	}
+}
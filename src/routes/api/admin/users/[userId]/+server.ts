@@ -0,0 +1,34 @@
+// src/routes/api/admin/users/[userId]/+server.ts
+// Customer profile for the admin dashboard: account, order totals, recent orders and audit trail
+
+import { json, error, type RequestEvent } from '@sveltejs/kit';
+import { requirePermission } from '$lib/server/authorization';
+import { getUserProfile } from '$lib/server/users';
+import { listAuditLogs } from '$lib/server/audit-log';
+
+const AUDIT_LIMIT = 50;
+
+export async function GET(event: RequestEvent) {
+	requirePermission(event, 'manage_users');
+
+	try {
+		const userId = Number(event.params.userId);
+		if (!Number.isInteger(userId) || userId <= 0) {
+			throw error(400, 'Invalid user id');
+		}
+
+		const profile = await getUserProfile(userId);
+		const { data: auditLog } = await listAuditLogs({
+			targetType: 'user',
+			targetId: userId,
+			page: 1,
+			perPage: AUDIT_LIMIT
+		});
+
+		return json({ success: true, data: { ...profile, auditLog } });
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Error loading user profile:', err);
+		throw error(500, 'Failed to load user');
+	}
+}
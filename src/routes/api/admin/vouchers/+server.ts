@@ -0,0 +1,175 @@
+// src/routes/api/admin/vouchers/+server.ts
+// Voucher management for admins
+
+import { db } from '$lib/server/db';
+import { vouchers } from '$lib/server/db/schema';
+import { eq, desc } from 'drizzle-orm';
+import { json, error, type RequestEvent } from '@sveltejs/kit';
+import { requirePermission } from '$lib/server/authorization';
+import { requireCSRFToken } from '$lib/server/csrf';
+import { normalizeVoucherCode, VOUCHER_TYPES, type VoucherType } from '$lib/server/vouchers';
+
+function parseOptionalNumber(value: unknown, field: string): number | null {
+	if (value === undefined || value === null || value === '') return null;
+	const num = Number(value);
+	if (!Number.isFinite(num) || num < 0) {
+		throw error(400, `Invalid ${field}`);
+	}
+	return num;
+}
+
+function parseOptionalDate(value: unknown, field: string): Date | null {
+	if (value === undefined || value === null || value === '') return null;
+	const date = new Date(String(value));
+	if (isNaN(date.getTime())) {
+		throw error(400, `Invalid ${field}`);
+	}
+	return date;
+}
+
+function parseIdList(value: unknown, field: string): string | null {
+	if (value === undefined || value === null || value === '') return null;
+	if (!Array.isArray(value) || !value.every((id) => Number.isInteger(Number(id)))) {
+		throw error(400, `${field} must be an array of ids`);
+	}
+	return value.length > 0 ? JSON.stringify(value.map(Number)) : null;
+}
+
+/**
+ * Validate a create/update payload. `partial` skips required fields for updates.
+ */
+function parseVoucherInput(body: any, partial: boolean) {
+	const data: Partial<typeof vouchers.$inferInsert> = {};
+
+	if (!partial || body.code !== undefined) {
+		const code = normalizeVoucherCode(body.code);
+		if (code.length < 3) throw error(400, 'Code must be at least 3 characters');
+		data.code = code;
+	}
+	if (!partial || body.name !== undefined) {
+		const name = typeof body.name === 'string' ? body.name.trim().substring(0, 100) : '';
+		if (!name) throw error(400, 'Name is required');
+		data.name = name;
+	}
+	if (!partial || body.type !== undefined) {
+		if (!VOUCHER_TYPES.includes(body.type)) throw error(400, 'Invalid voucher type');
+		data.type = body.type as VoucherType;
+	}
+	if (!partial || body.value !== undefined) {
+		const value = parseOptionalNumber(body.value, 'value') ?? 0;
+		const type = data.type ?? body.type;
+		if (type === 'percentage' && (value <= 0 || value > 100)) {
+			throw error(400, 'Percentage must be between 1 and 100');
+		}
+		if (type === 'fixed' && value <= 0) {
+			throw error(400, 'Fixed discount must be greater than 0');
+		}
+		data.value = value.toFixed(2);
+	}
+	if (body.maxDiscount !== undefined) {
+		const maxDiscount = parseOptionalNumber(body.maxDiscount, 'maxDiscount');
+		data.maxDiscount = maxDiscount === null ? null : maxDiscount.toFixed(2);
+	}
+	if (body.minSpend !== undefined) {
+		data.minSpend = (parseOptionalNumber(body.minSpend, 'minSpend') ?? 0).toFixed(2);
+	}
+	if (body.usageLimit !== undefined) {
+		data.usageLimit = parseOptionalNumber(body.usageLimit, 'usageLimit');
+	}
+	if (body.perUserLimit !== undefined) {
+		data.perUserLimit = parseOptionalNumber(body.perUserLimit, 'perUserLimit');
+	}
+	if (body.startsAt !== undefined) data.startsAt = parseOptionalDate(body.startsAt, 'startsAt');
+	if (body.endsAt !== undefined) data.endsAt = parseOptionalDate(body.endsAt, 'endsAt');
+	if (data.startsAt && data.endsAt && data.startsAt > data.endsAt) {
+		throw error(400, 'startsAt must be before endsAt');
+	}
+	if (body.isActive !== undefined) data.isActive = Boolean(body.isActive);
+	if (body.productIds !== undefined) data.productIds = parseIdList(body.productIds, 'productIds');
+	if (body.categoryIds !== undefined) {
+		data.categoryIds = parseIdList(body.categoryIds, 'categoryIds');
+	}
+
+	return data;
+}
+
+function serializeVoucher(voucher: typeof vouchers.$inferSelect) {
+	return {
+		...voucher,
+		value: parseFloat(voucher.value),
+		maxDiscount: voucher.maxDiscount !== null ? parseFloat(voucher.maxDiscount) : null,
+		minSpend: parseFloat(voucher.minSpend),
+		productIds: voucher.productIds ? JSON.parse(voucher.productIds) : null,
+		categoryIds: voucher.categoryIds ? JSON.parse(voucher.categoryIds) : null
+	};
+}
+
+// GET - List vouchers
+export async function GET(event: RequestEvent) {
+	requirePermission(event, 'manage_vouchers');
+
+	const rows = await db.select().from(vouchers).orderBy(desc(vouchers.createdAt));
+	return json({ success: true, data: rows.map(serializeVoucher) });
+}
+
+// POST - Create voucher
+export async function POST(event: RequestEvent) {
+	requirePermission(event, 'manage_vouchers');
+	requireCSRFToken(event.request);
+
+	try {
+		const data = parseVoucherInput(await event.request.json(), false);
+
+		const [existing] = await db
+			.select({ id: vouchers.id })
+			.from(vouchers)
+			.where(eq(vouchers.code, data.code!))
+			.limit(1);
+		if (existing) {
+			throw error(409, 'Voucher code already exists');
+		}
+
+		await db.insert(vouchers).values(data as typeof vouchers.$inferInsert);
+		const [voucher] = await db.select().from(vouchers).where(eq(vouchers.code, data.code!));
+
+		return json({ success: true, data: serializeVoucher(voucher) }, { status: 201 });
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Error creating voucher:', err);
+		throw error(500, 'Failed to create voucher');
+	}
+}
+
+// PUT - Update voucher (partial); send isActive: false to disable it
+export async function PUT(event: RequestEvent) {
+	requirePermission(event, 'manage_vouchers');
+	requireCSRFToken(event.request);
+
+	try {
+		const body = await event.request.json();
+		const id = Number(body.id);
+		if (!Number.isInteger(id) || id <= 0) {
+			throw error(400, 'Valid voucher id is required');
+		}
+
+		const [current] = await db.select().from(vouchers).where(eq(vouchers.id, id)).limit(1);
+		if (!current) {
+			throw error(404, 'Voucher not found');
+		}
+
+		// Value checks depend on the type, so fall back to the stored one
+		const data = parseVoucherInput({ type: current.type, ...body }, true);
+		delete data.code; // codes are printed on promotions; create a new voucher instead
+
+		if (Object.keys(data).length > 0) {
+			await db.update(vouchers).set(data).where(eq(vouchers.id, id));
+		}
+
+		const [voucher] = await db.select().from(vouchers).where(eq(vouchers.id, id));
+		return json({ success: true, data: serializeVoucher(voucher) });
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Error updating voucher:', err);
+		throw error(500, 'Failed to update voucher');
+	}
+}
@@ -0,0 +1,65 @@
+// src/routes/api/admin/warehouses/+server.ts
+// Warehouse (shipping origin) management for admins
+
+import { json, error, type RequestEvent } from '@sveltejs/kit';
+import { requirePermission } from '$lib/server/authorization';
+import { requireCSRFToken } from '$lib/server/csrf';
+import {
+	createWarehouse,
+	listActiveWarehouses,
+	listWarehouses,
+	parseWarehouseInput,
+	updateWarehouse
+} from '$lib/server/warehouses';
+
+// GET - List warehouses, active and inactive
+export async function GET(event: RequestEvent) {
+	requirePermission(event, 'manage_products');
+
+	try {
+		// Creates the default warehouse on first use
+		await listActiveWarehouses();
+		return json({ success: true, data: await listWarehouses() });
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Error listing warehouses:', err);
+		throw error(500, 'Failed to list warehouses');
+	}
+}
+
+// POST - Create warehouse; its stock starts empty
+export async function POST(event: RequestEvent) {
+	requirePermission(event, 'manage_products');
+	requireCSRFToken(event.request);
+
+	try {
+		const input = parseWarehouseInput(await event.request.json(), false);
+		const warehouse = await createWarehouse(input);
+		return json({ success: true, data: warehouse }, { status: 201 });
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Error creating warehouse:', err);
+		throw error(500, 'Failed to create warehouse');
+	}
+}
+
+// PUT - Update warehouse (partial); send isActive: false to stop shipping from it
+export async function PUT(event: RequestEvent) {
+	requirePermission(event, 'manage_products');
+	requireCSRFToken(event.request);
+
+	try {
+		const body = await event.request.json();
+		const id = Number(body.id);
+		if (!Number.isInteger(id) || id <= 0) {
+			throw error(400, 'Valid warehouse id is required');
+		}
+
+		const warehouse = await updateWarehouse(id, parseWarehouseInput(body, true));
+		return json({ success: true, data: warehouse });
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Error updating warehouse:', err);
+		throw error(500, 'Failed to update warehouse');
+	}
+}
@@ -0,0 +1,47 @@
+// src/routes/api/admin/warehouses/stock/+server.ts
+// Per-warehouse stock levels for admins
+
+import { json, error, type RequestEvent } from '@sveltejs/kit';
+import { requirePermission } from '$lib/server/authorization';
+import { requireCSRFToken } from '$lib/server/csrf';
+import { getWarehouseStock, parseStockLevels, setWarehouseStock } from '$lib/server/warehouses';
+
+function parseWarehouseId(value: unknown): number {
+	const id = Number(value);
+	if (!Number.isInteger(id) || id <= 0) {
+		throw error(400, 'Valid warehouseId is required');
+	}
+	return id;
+}
+
+// GET - ?warehouseId=<id>; stock rows of one warehouse
+export async function GET(event: RequestEvent) {
+	requirePermission(event, 'manage_products');
+
+	try {
+		const warehouseId = parseWarehouseId(event.url.searchParams.get('warehouseId'));
+		return json({ success: true, data: await getWarehouseStock(warehouseId) });
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Error fetching warehouse stock:', err);
+		throw error(500, 'Failed to fetch warehouse stock');
+	}
+}
+
+// PUT - { warehouseId, items: [{ productId, variantId?, quantity }] }; quantities are absolute
+// and the product totals are recalculated from all active warehouses
+export async function PUT(event: RequestEvent) {
+	requirePermission(event, 'manage_products');
+	requireCSRFToken(event.request);
+
+	try {
+		const body = await event.request.json();
+		const warehouseId = parseWarehouseId(body.warehouseId);
+		await setWarehouseStock(warehouseId, parseStockLevels(body.items));
+		return json({ success: true, data: await getWarehouseStock(warehouseId) });
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Error updating warehouse stock:', err);
+		throw error(500, 'Failed to update warehouse stock');
+	}
+}
@@ -6,6 +6,8 @@ import { serialize } from 'cookie';
 import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
 import { eq } from 'drizzle-orm';
+import { mergeGuestCart } from '$lib/server/cart';
+import { isEmailVerificationRequired } from '$lib/server/accounts';
 import 'dotenv/config';
 
 /**
@@ -67,7 +69,7 @@ function generateCSRFToken(): string {
 
 /**
  * Menangani permintaan POST untuk otentikasi pengguna.
- * Proses ini mencakup validasi input, verifikasi kata sandi,
+ * Proses ini mencakup validasi input, verifikasi kata sandi, penggabungan keranjang tamu,
  * pembuatan token JWT, dan pengaturan cookie sesi dan CSRF yang aman.
  * @param {RequestEvent} event - Objek RequestEvent dari SvelteKit.
  * @returns {Promise<Response>} - Respon JSON yang menunjukkan status login.
@@ -101,11 +103,32 @@ export async function POST(event: RequestEvent): Promise<Response> {
       checkRateLimit(clientIP, false);
       throw error(401, 'Invalid email or password');
     }
+
+    // Akun yang ditangguhkan admin tidak boleh login
+    if (user.suspendedAt) {
+      throw error(403, 'This account has been suspended');
+    }
+
+    // Email harus diverifikasi dulu; code dipakai halaman login untuk menawarkan kirim ulang
+    if (isEmailVerificationRequired() && !user.emailVerifiedAt) {
+      return json(
+        { error: 'Please verify your email address before logging in', code: 'email_unverified' },
+        { status: 403 }
+      );
+    }
     
     // --- Langkah 4: Jika login berhasil, reset hitungan rate limit ---
     checkRateLimit(clientIP, true);
 
-    // --- Langkah 5: Generate Token CSRF dan JWT ---
+    // --- Langkah 5: Gabungkan keranjang tamu (cookie) ke keranjang tersimpan ---
+    try {
+      await mergeGuestCart(event.cookies, user.id);
+    } catch (cartErr) {
+      // Login tetap berhasil walaupun penggabungan keranjang gagal
+      console.error('Cart merge error:', cartErr);
+    }
+
+    // --- Langkah 6: Generate Token CSRF dan JWT ---
     const csrfToken = generateCSRFToken();
 
     const jwtPayload = {
@@ -119,7 +142,7 @@ export async function POST(event: RequestEvent): Promise<Response> {
       expiresIn: '7d'
     });
 
-    // --- Langkah 6: Buat dan Atur Cookie yang Aman ---
+    // --- Langkah 7: Buat dan Atur Cookie yang Aman ---
     const sessionCookie = serialize('session', token, {
       httpOnly: true,
       path: '/',
@@ -136,7 +159,7 @@ export async function POST(event: RequestEvent): Promise<Response> {
       secure: isProduction
     });
     
-    // --- Langkah 7: Kirim Respons Berhasil ---
+    // --- Langkah 8: Kirim Respons Berhasil ---
     return new Response(JSON.stringify({ success: true }), {
       headers: {
         'Set-Cookie': [sessionCookie, csrfCookie],
@@ -38,7 +38,9 @@ export async function GET({ cookies }: RequestEvent) {
     const userResult = await db
       .select({
         id: users.id,
-        role: users.role
+        role: users.role,
+        suspendedAt: users.suspendedAt,
+        passwordChangedAt: users.passwordChangedAt
       })
       .from(users)
       .where(eq(users.id, decoded.sub))
@@ -53,6 +55,20 @@ export async function GET({ cookies }: RequestEvent) {
 
     const user = userResult[0];
 
+    if (user.suspendedAt) {
+      // Suspended by an admin
+      cookies.delete('session', { path: '/' });
+      cookies.delete('csrf_token', { path: '/' });
+      throw error(403, 'This account has been suspended');
+    }
+
+    if (user.passwordChangedAt && decoded.iat < Math.floor(user.passwordChangedAt.getTime() / 1000)) {
+      // Issued before the password was reset
+      cookies.delete('session', { path: '/' });
+      cookies.delete('csrf_token', { path: '/' });
+      throw error(401, 'Session expired, please log in again');
+    }
+
     return json({
       success: true,
       user: {
@@ -0,0 +1,18 @@
+// src/routes/api/auth/password-reset/+server.ts
+// Emails a password reset link; answers the same whether or not the address has an account
+
+import { json, error, type RequestEvent } from '@sveltejs/kit';
+import { requestPasswordReset } from '$lib/server/accounts';
+
+// POST - Body: { email }
+export async function POST({ request }: RequestEvent) {
+	try {
+		const body = await request.json().catch(() => ({}));
+		await requestPasswordReset(body.email);
+		return json({ success: true });
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Password reset request error:', err);
+		throw error(500, 'Failed to send password reset email');
+	}
+}
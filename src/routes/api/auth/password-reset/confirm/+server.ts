@@ -0,0 +1,22 @@
+// src/routes/api/auth/password-reset/confirm/+server.ts
+// Sets a new password with the token from the reset link; older sessions stop working
+
+import { json, error, type RequestEvent } from '@sveltejs/kit';
+import { resetPassword } from '$lib/server/accounts';
+
+// POST - Body: { token, password }
+export async function POST({ request, cookies }: RequestEvent) {
+	try {
+		const body = await request.json().catch(() => ({}));
+		await resetPassword(body.token, body.password);
+
+		// A session in this browser predates the new password as well
+		cookies.delete('session', { path: '/' });
+		cookies.delete('csrf_token', { path: '/' });
+		return json({ success: true });
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Password reset error:', err);
+		throw error(500, 'Failed to reset password');
+	}
+}
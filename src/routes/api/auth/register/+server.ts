@@ -5,6 +5,11 @@ import {
   users
 } from '$lib/server/db/schema';
 import * as bcryptjs from 'bcryptjs';
+import {
+  isEmailVerificationRequired,
+  parsePassword,
+  sendVerificationEmail
+} from '$lib/server/accounts';
 import {
   json
 } from '@sveltejs/kit';
@@ -22,6 +27,9 @@ export async function POST({
     password
   } = await request.json();
 
+  // Aturan yang sama dengan reset password (minimal 8 karakter)
+  const validPassword = parsePassword(password);
+
   const existing = await db.select().from(users).where(eq(users.email, email));
   if (existing.length > 0) {
     return json( {
@@ -31,21 +39,35 @@ export async function POST({
     });
   }
 
-  const hashedPassword = await bcryptjs.hash(password, 10);
+  const hashedPassword = await bcryptjs.hash(validPassword, 10);
 
   const countResult = await db.select({
     count: sql < number > `COUNT(*)`
   }).from(users);
   const isFirstUser = countResult[0]?.count === 0;
 
-  await db.insert(users).values({
+  const [result] = await db.insert(users).values({
     name,
     email,
     password: hashedPassword,
     role: isFirstUser ? 'admin': 'customer',
+    // Admin pertama harus bisa login walaupun mail server belum diatur
+    emailVerifiedAt: isFirstUser ? new Date(): null,
   });
 
+  // Pendaftaran tetap berhasil walaupun email gagal terkirim; link bisa diminta ulang
+  if (!isFirstUser) {
+    try {
+      await sendVerificationEmail({
+        id: result.insertId, name, email
+      });
+    } catch (mailErr) {
+      console.error('Verification email error:', mailErr);
+    }
+  }
+
   return json( {
-    success: true
+    success: true,
+    verificationRequired: !isFirstUser && isEmailVerificationRequired()
   });
 }
\ No newline at end of file
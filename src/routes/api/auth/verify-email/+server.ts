@@ -0,0 +1,18 @@
+// src/routes/api/auth/verify-email/+server.ts
+// Confirms an email address with the token from the verification link
+
+import { json, error, type RequestEvent } from '@sveltejs/kit';
+import { verifyEmail } from '$lib/server/accounts';
+
+// POST - Body: { token }
+export async function POST({ request }: RequestEvent) {
+	try {
+		const body = await request.json().catch(() => ({}));
+		await verifyEmail(body.token);
+		return json({ success: true });
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Email verification error:', err);
+		throw error(500, 'Failed to verify email');
+	}
+}
@@ -0,0 +1,18 @@
+// src/routes/api/auth/verify-email/resend/+server.ts
+// Sends a new verification link; answers the same whether or not the address has an account
+
+import { json, error, type RequestEvent } from '@sveltejs/kit';
+import { resendVerificationEmail } from '$lib/server/accounts';
+
+// POST - Body: { email }
+export async function POST({ request }: RequestEvent) {
+	try {
+		const body = await request.json().catch(() => ({}));
+		await resendVerificationEmail(body.email);
+		return json({ success: true });
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Resend verification error:', err);
+		throw error(500, 'Failed to send verification email');
+	}
+}
@@ -2,30 +2,31 @@ import { db } from '$lib/server/db';
 import { products, productImages } from '$lib/server/db/schema';
 import { eq, inArray } from 'drizzle-orm';
 import { json, error, type RequestEvent } from '@sveltejs/kit';
-import crypto from 'crypto';
-import 'dotenv/config';
-
-const JWT_SECRET = process.env.JWT_SECRET!;
-if (!JWT_SECRET) throw new Error('JWT_SECRET is not defined');
-
-interface CartItem {
-	productId: number;
-	quantity: number;
-	addedAt: number;
-}
-
-interface SecureCartSession {
-	items: CartItem[];
-	signature: string;
-	sessionId: string;
-	createdAt: number;
-	updatedAt: number;
-}
+import {
+	getValidatedCartSession,
+	setCartCookie,
+	createSecureCart,
+	updateSecureCart,
+	getStoredCartItems,
+	saveStoredCartItems,
+	isSameCartLine,
+	MAX_QUANTITY_PER_PRODUCT,
+	MAX_CART_ITEMS,
+	type CartItem,
+	type SecureCartSession
+} from '$lib/server/cart';
+import {
+	getActiveVariantsForProducts,
+	resolveLineAttributes,
+	type ProductVariant
+} from '$lib/server/variants';
 
 interface CartItemWithDetails extends CartItem {
 	id: number;
 	name: string;
 	slug: string;
+	variantName: string | null;
+	sku: string | null;
 	price: number;
 	stock: number;
 	images: string[];
@@ -33,140 +34,80 @@ interface CartItemWithDetails extends CartItem {
 	totalPrice: number;
 }
 
-const COOKIE_NAME = 'cart_session';
-const COOKIE_MAX_AGE = 60 * 60 * 24; // 24 hours
-const SESSION_EXPIRY_MS = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
-
-// --- Utility Functions for Security ---
-
-function generateSessionId(): string {
-	return crypto.randomBytes(32).toString('hex');
-}
-
 /**
- * Creates the data string to be signed. This schema must be consistent for signing and verification.
+ * Where the cart lives: logged-in users get their stored cart, guests the signed cookie.
  */
-function createDataToSign(items: CartItem[], timestamp: number): string {
-	return JSON.stringify({ items, timestamp });
-}
-
-/**
- * Creates a secure HMAC signature for the cart data.
- */
-function createSignature(items: CartItem[], timestamp: number, sessionId: string): string {
-	const dataToSign = createDataToSign(items, timestamp);
-	return crypto
-		.createHmac('sha256', JWT_SECRET)
-		.update(`${dataToSign}:${sessionId}`)
-		.digest('hex');
-}
-
-/**
- * Verifies the integrity of the cart session signature.
- */
-function verifySignature(cartSession: SecureCartSession): boolean {
-	const dataToSign = createDataToSign(cartSession.items, cartSession.updatedAt);
-	const expectedSignature = createSignature(
-		cartSession.items,
-		cartSession.updatedAt,
-		cartSession.sessionId
-	);
-	
-	// Use timingSafeEqual to prevent timing attacks
-	return crypto.timingSafeEqual(
-		Buffer.from(cartSession.signature, 'hex'),
-		Buffer.from(expectedSignature, 'hex')
-	);
+interface CartContext {
+	userId: number | null;
+	session: SecureCartSession | null;
+	items: CartItem[];
 }
 
-/**
- * Creates a new secure cart session.
- */
-function createSecureCart(items: CartItem[]): SecureCartSession {
-	const sessionId = generateSessionId();
-	const timestamp = Date.now();
-	const signature = createSignature(items, timestamp, sessionId);
-
-	return {
-		items,
-		signature,
-		sessionId,
-		createdAt: timestamp,
-		updatedAt: timestamp
-	};
-}
+async function loadCart({ locals, cookies }: RequestEvent): Promise<CartContext> {
+	if (locals.user) {
+		const userId = Number(locals.user.id);
+		return { userId, session: null, items: await getStoredCartItems(userId) };
+	}
 
-/**
- * Updates an existing secure cart session.
- */
-function updateSecureCart(existingCart: SecureCartSession, newItems: CartItem[]): SecureCartSession {
-	const timestamp = Date.now();
-	const signature = createSignature(newItems, timestamp, existingCart.sessionId);
-
-	return {
-		...existingCart,
-		items: newItems,
-		signature,
-		updatedAt: timestamp
-	};
+	const session = getValidatedCartSession(cookies);
+	return { userId: null, session, items: session?.items || [] };
 }
 
 /**
- * Validates the entire cart session, including its signature and expiry.
+ * Persist the new items and return the session id to report (null for stored carts).
  */
-function validateCartSession(cartSession: SecureCartSession): boolean {
-	if (!cartSession.items || !cartSession.signature || !cartSession.sessionId) {
-		return false;
+async function saveCart(
+	cart: CartContext,
+	cookies: RequestEvent['cookies'],
+	items: CartItem[]
+): Promise<string | null> {
+	if (cart.userId !== null) {
+		await saveStoredCartItems(cart.userId, items);
+		return null;
 	}
 
-	// Check if session is not too old (24 hours)
-	if (Date.now() - cartSession.createdAt > SESSION_EXPIRY_MS) {
-		return false;
+	if (items.length === 0) {
+		setCartCookie(cookies, null);
+		return null;
 	}
 
-	// Verify the signature
-	return verifySignature(cartSession);
+	const session = cart.session ? updateSecureCart(cart.session, items) : createSecureCart(items);
+	setCartCookie(cookies, session);
+	return session.sessionId;
 }
 
-/**
- * Safely parses the cart cookie, returning a validated SecureCartSession or null.
- */
-function getValidatedCartSession(cookies: RequestEvent['cookies']): SecureCartSession | null {
-	const cartData = cookies.get(COOKIE_NAME);
-	if (!cartData) {
-		return null;
-	}
+function emptyCartData() {
+	return { items: [], totalItems: 0, totalPrice: 0, sessionId: null };
+}
 
-	try {
-		const cartSession = JSON.parse(decodeURIComponent(cartData));
-		if (validateCartSession(cartSession)) {
-			return cartSession;
-		}
-	} catch {
-		// Invalid cart data, will be treated as non-existent
+function parseVariantId(value: unknown): number | null {
+	if (value === undefined || value === null || value === '') return null;
+	const variantId = Number(value);
+	if (!Number.isInteger(variantId) || variantId <= 0) {
+		throw error(400, 'Valid variant ID is required');
 	}
-
-	// If parsing or validation fails, clear the invalid cookie
-	cookies.delete(COOKIE_NAME, { path: '/' });
-	return null;
+	return variantId;
 }
 
 /**
- * Sets the cart session cookie with all necessary security flags.
+ * Variant of a cart line, or null for products without variants.
+ * Products sold in variants must be added through one of them.
  */
-function setCartCookie(cookies: RequestEvent['cookies'], cartSession: SecureCartSession | null) {
-	if (cartSession === null || cartSession.items.length === 0) {
-		cookies.delete(COOKIE_NAME, { path: '/' });
-		return;
+async function resolveLineVariant(productId: number, variantId: number | null) {
+	const variants = await getActiveVariantsForProducts([productId]);
+
+	if (variantId === null) {
+		if (variants.length > 0) {
+			throw error(400, 'Please choose a variant');
+		}
+		return null;
 	}
 
-	cookies.set(COOKIE_NAME, encodeURIComponent(JSON.stringify(cartSession)), {
-		path: '/',
-		httpOnly: true,
-		secure: process.env.NODE_ENV === 'production',
-		sameSite: 'strict',
-		maxAge: COOKIE_MAX_AGE
-	});
+	const variant = variants.find(v => v.id === variantId);
+	if (!variant) {
+		throw error(404, 'Variant not found');
+	}
+	return variant;
 }
 
 // --- Product Data Fetching and Enrichment ---
@@ -195,7 +136,10 @@ async function enrichCartItems(items: CartItem[]): Promise<CartItemWithDetails[]
 		.from(productImages)
 		.where(inArray(productImages.productId, productIds));
 
+	const variantsData = await getActiveVariantsForProducts(productIds);
+
 	const productMap = new Map(productsData.map(p => [p.id, p]));
+	const variantMap = new Map<number, ProductVariant>(variantsData.map(v => [v.id, v]));
 	const imagesMap = new Map<number, string[]>();
 	imagesData.forEach(img => {
 		if (!imagesMap.has(img.productId)) {
@@ -206,14 +150,18 @@ async function enrichCartItems(items: CartItem[]): Promise<CartItemWithDetails[]
 
 	return items.map(item => {
 		const product = productMap.get(item.productId);
+		const variant = item.variantId ? variantMap.get(item.variantId) : null;
 		const images = imagesMap.get(item.productId) || [];
 		
-		if (!product) {
+		// A variant line whose variant was removed can no longer be bought
+		if (!product || (item.variantId && (!variant || variant.productId !== product.id))) {
 			return {
 				...item,
 				id: item.productId,
-				name: 'Product not found',
-				slug: '',
+				name: product?.name || 'Product not found',
+				slug: product?.slug || '',
+				variantName: null,
+				sku: null,
 				price: 0,
 				stock: 0,
 				images: [],
@@ -222,16 +170,20 @@ async function enrichCartItems(items: CartItem[]): Promise<CartItemWithDetails[]
 			};
 		}
 
-		const isAvailable = product.stock >= item.quantity;
-		const totalPrice = isAvailable ? product.price * item.quantity : 0;
+		const { price } = resolveLineAttributes(product, variant);
+		const stock = variant ? variant.stock : (product.stock || 0);
+		const isAvailable = stock >= item.quantity;
+		const totalPrice = isAvailable ? price * item.quantity : 0;
 
 		return {
 			...item,
 			id: product.id,
 			name: product.name,
 			slug: product.slug,
-			price: product.price,
-			stock: product.stock,
+			variantName: variant?.name || null,
+			sku: variant?.sku || null,
+			price,
+			stock,
 			images,
 			isAvailable,
 			totalPrice
@@ -241,18 +193,18 @@ async function enrichCartItems(items: CartItem[]): Promise<CartItemWithDetails[]
 
 // --- API Endpoints ---
 
-export async function GET({ cookies }: RequestEvent) {
+export async function GET(event: RequestEvent) {
 	try {
-		const cartSession = getValidatedCartSession(cookies);
-		
-		if (!cartSession) {
+		const cart = await loadCart(event);
+
+		if (cart.items.length === 0) {
 			return json({
 				success: true,
-				data: { items: [], totalItems: 0, totalPrice: 0, sessionId: null }
+				data: emptyCartData()
 			});
 		}
 
-		const enrichedItems = await enrichCartItems(cartSession.items);
+		const enrichedItems = await enrichCartItems(cart.items);
 		const totalItems = enrichedItems.reduce((sum, item) => sum + item.quantity, 0);
 		const totalPrice = enrichedItems.reduce((sum, item) => sum + item.totalPrice, 0);
 
@@ -262,7 +214,7 @@ export async function GET({ cookies }: RequestEvent) {
 				items: enrichedItems,
 				totalItems,
 				totalPrice,
-				sessionId: cartSession.sessionId
+				sessionId: cart.session?.sessionId || null
 			}
 		});
 	} catch (err) {
@@ -271,16 +223,19 @@ export async function GET({ cookies }: RequestEvent) {
 	}
 }
 
-export async function POST({ request, cookies }: RequestEvent) {
+export async function POST(event: RequestEvent) {
+	const { request, cookies } = event;
 	try {
-		const { productId, quantity = 1 } = await request.json();
+		const body = await request.json();
+		const { productId, quantity = 1 } = body;
 
 		if (!productId || typeof productId !== 'number') {
 			throw error(400, 'Valid product ID is required');
 		}
+		const variantId = parseVariantId(body.variantId);
 
-		if (typeof quantity !== 'number' || quantity < 1 || quantity > 10) {
-			throw error(400, 'Quantity must be between 1 and 10');
+		if (typeof quantity !== 'number' || quantity < 1 || quantity > MAX_QUANTITY_PER_PRODUCT) {
+			throw error(400, `Quantity must be between 1 and ${MAX_QUANTITY_PER_PRODUCT}`);
 		}
 
 		const productData = await db
@@ -294,46 +249,49 @@ export async function POST({ request, cookies }: RequestEvent) {
 			throw error(404, 'Product not found');
 		}
 
-		let cartSession = getValidatedCartSession(cookies);
-		let existingItems = cartSession?.items || [];
+		const variant = await resolveLineVariant(productId, variantId);
+		const stock = variant ? variant.stock : (productData.stock || 0);
+		const line = { productId, variantId };
 
-		const existingItemIndex = existingItems.findIndex(item => item.productId === productId);
+		const cart = await loadCart(event);
+		const existingItems = cart.items;
+
+		const existingItemIndex = existingItems.findIndex(item => isSameCartLine(item, line));
 		let newItems: CartItem[];
 
 		if (existingItemIndex >= 0) {
 			const newQuantity = existingItems[existingItemIndex].quantity + quantity;
 			
-			if (newQuantity > productData.stock) {
-				throw error(400, `Only ${productData.stock - existingItems[existingItemIndex].quantity} more available`);
+			if (newQuantity > stock) {
+				throw error(400, `Only ${stock - existingItems[existingItemIndex].quantity} more available`);
 			}
-			if (newQuantity > 10) {
-				throw error(400, 'Maximum 10 items per product allowed');
+			if (newQuantity > MAX_QUANTITY_PER_PRODUCT) {
+				throw error(400, `Maximum ${MAX_QUANTITY_PER_PRODUCT} items per product allowed`);
 			}
 
 			newItems = [...existingItems];
 			newItems[existingItemIndex] = { ...newItems[existingItemIndex], quantity: newQuantity, addedAt: Date.now() };
 		} else {
-			if (quantity > productData.stock) {
-				throw error(400, `Only ${productData.stock} items available in stock`);
+			if (quantity > stock) {
+				throw error(400, `Only ${stock} items available in stock`);
 			}
-			newItems = [...existingItems, { productId, quantity, addedAt: Date.now() }];
+			newItems = [...existingItems, { ...line, quantity, addedAt: Date.now() }];
 		}
 
 		const totalItems = newItems.reduce((sum, item) => sum + item.quantity, 0);
-		if (totalItems > 50) {
-			throw error(400, 'Maximum 50 items allowed in cart');
+		if (totalItems > MAX_CART_ITEMS) {
+			throw error(400, `Maximum ${MAX_CART_ITEMS} items allowed in cart`);
 		}
 
-		const newCartSession = cartSession ? updateSecureCart(cartSession, newItems) : createSecureCart(newItems);
-		setCartCookie(cookies, newCartSession);
+		const sessionId = await saveCart(cart, cookies, newItems);
 
 		const enrichedItems = await enrichCartItems(newItems);
 		const totalPrice = enrichedItems.reduce((sum, item) => sum + item.totalPrice, 0);
 
 		return json({
 			success: true,
-			message: `${productData.name} added to cart`,
-			data: { items: enrichedItems, totalItems, totalPrice, sessionId: newCartSession.sessionId }
+			message: `${variant ? `${productData.name} (${variant.name})` : productData.name} added to cart`,
+			data: { items: enrichedItems, totalItems, totalPrice, sessionId }
 		});
 	} catch (err: any) {
 		console.error('Error adding to cart:', err);
@@ -342,30 +300,33 @@ export async function POST({ request, cookies }: RequestEvent) {
 	}
 }
 
-export async function PUT({ request, cookies }: RequestEvent) {
+export async function PUT(event: RequestEvent) {
+	const { request, cookies } = event;
 	try {
-		const { productId, quantity } = await request.json();
+		const body = await request.json();
+		const { productId, quantity } = body;
 
 		if (!productId || typeof productId !== 'number') {
 			throw error(400, 'Valid product ID is required');
 		}
-		if (typeof quantity !== 'number' || quantity < 0 || quantity > 10) {
-			throw error(400, 'Quantity must be between 0 and 10');
+		const line = { productId, variantId: parseVariantId(body.variantId) };
+		if (typeof quantity !== 'number' || quantity < 0 || quantity > MAX_QUANTITY_PER_PRODUCT) {
+			throw error(400, `Quantity must be between 0 and ${MAX_QUANTITY_PER_PRODUCT}`);
 		}
 
-		const cartSession = getValidatedCartSession(cookies);
-		if (!cartSession) {
+		const cart = await loadCart(event);
+		if (cart.items.length === 0) {
 			throw error(404, 'Cart not found');
 		}
 
-		const itemIndex = cartSession.items.findIndex(item => item.productId === productId);
+		const itemIndex = cart.items.findIndex(item => isSameCartLine(item, line));
 		if (itemIndex === -1) {
 			throw error(404, 'Product not found in cart');
 		}
 
 		let newItems: CartItem[];
 		if (quantity === 0) {
-			newItems = cartSession.items.filter(item => item.productId !== productId);
+			newItems = cart.items.filter(item => !isSameCartLine(item, line));
 		} else {
 			const product = await db
 				.select({ stock: products.stock })
@@ -377,21 +338,22 @@ export async function PUT({ request, cookies }: RequestEvent) {
 			if (!product) {
 				throw error(404, 'Product not found');
 			}
-			if (product.stock < quantity) {
-				throw error(400, `Only ${product.stock} items available in stock`);
+			const variant = await resolveLineVariant(productId, line.variantId);
+			const stock = variant ? variant.stock : (product.stock || 0);
+			if (stock < quantity) {
+				throw error(400, `Only ${stock} items available in stock`);
 			}
 
-			newItems = [...cartSession.items];
+			newItems = [...cart.items];
 			newItems[itemIndex] = { ...newItems[itemIndex], quantity, addedAt: Date.now() };
 		}
 		
 		const totalItems = newItems.reduce((sum, item) => sum + item.quantity, 0);
-		if (totalItems > 50) {
-			throw error(400, 'Maximum 50 items allowed in cart');
+		if (totalItems > MAX_CART_ITEMS) {
+			throw error(400, `Maximum ${MAX_CART_ITEMS} items allowed in cart`);
 		}
 
-		const newCartSession = newItems.length > 0 ? updateSecureCart(cartSession, newItems) : null;
-		setCartCookie(cookies, newCartSession);
+		const sessionId = await saveCart(cart, cookies, newItems);
 
 		const enrichedItems = await enrichCartItems(newItems);
 		const totalPrice = enrichedItems.reduce((sum, item) => sum + item.totalPrice, 0);
@@ -399,7 +361,7 @@ export async function PUT({ request, cookies }: RequestEvent) {
 		return json({
 			success: true,
 			message: quantity === 0 ? 'Item removed from cart' : 'Cart updated',
-			data: { items: enrichedItems, totalItems, totalPrice, sessionId: newCartSession?.sessionId }
+			data: { items: enrichedItems, totalItems, totalPrice, sessionId }
 		});
 	} catch (err: any) {
 		console.error('Error updating cart:', err);
@@ -408,18 +370,19 @@ export async function PUT({ request, cookies }: RequestEvent) {
 	}
 }
 
-export async function DELETE({ request, cookies }: RequestEvent) {
+export async function DELETE(event: RequestEvent) {
+	const { request, cookies } = event;
 	try {
 		const url = new URL(request.url);
 		const productIdParam = url.searchParams.get('productId');
 		const clearAll = url.searchParams.get('clearAll') === 'true';
 
 		if (clearAll) {
-			setCartCookie(cookies, null);
+			await saveCart(await loadCart(event), cookies, []);
 			return json({
 				success: true,
 				message: 'Cart cleared',
-				data: { items: [], totalItems: 0, totalPrice: 0, sessionId: null }
+				data: emptyCartData()
 			});
 		}
 
@@ -427,21 +390,23 @@ export async function DELETE({ request, cookies }: RequestEvent) {
 			throw error(400, 'Valid product ID is required');
 		}
 
-		const productIdNum = parseInt(productIdParam);
+		const line = {
+			productId: parseInt(productIdParam),
+			variantId: parseVariantId(url.searchParams.get('variantId'))
+		};
 
-		const cartSession = getValidatedCartSession(cookies);
-		if (!cartSession) {
+		const cart = await loadCart(event);
+		if (cart.items.length === 0) {
 			throw error(404, 'Cart not found');
 		}
 
-		const newItems = cartSession.items.filter(item => item.productId !== productIdNum);
+		const newItems = cart.items.filter(item => !isSameCartLine(item, line));
 
-		if (newItems.length === cartSession.items.length) {
+		if (newItems.length === cart.items.length) {
 			throw error(404, 'Product not found in cart');
 		}
 
-		const newCartSession = newItems.length > 0 ? updateSecureCart(cartSession, newItems) : null;
-		setCartCookie(cookies, newCartSession);
+		const sessionId = await saveCart(cart, cookies, newItems);
 
 		const enrichedItems = await enrichCartItems(newItems);
 		const totalItems = enrichedItems.reduce((sum, item) => sum + item.quantity, 0);
@@ -450,7 +415,7 @@ export async function DELETE({ request, cookies }: RequestEvent) {
 		return json({
 			success: true,
 			message: 'Item removed from cart',
-			data: { items: enrichedItems, totalItems, totalPrice, sessionId: newCartSession?.sessionId }
+			data: { items: enrichedItems, totalItems, totalPrice, sessionId }
 		});
 	} catch (err: any) {
 		console.error('Error removing from cart:', err);
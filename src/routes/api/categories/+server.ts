@@ -2,8 +2,10 @@ import { db } from '$lib/server/db';
 import { categories } from '$lib/server/db/schema';
 import { like, eq, sql } from 'drizzle-orm';
 import { json, error, type RequestEvent } from '@sveltejs/kit';
+import { requirePermission } from '$lib/server/authorization';
 import slugify from 'slugify';
 import { uploadImageKit } from '$lib/server/utils/upload-imageKit';
+import { invalidateSearchIndex } from '$lib/server/product-search';
 import jwt from 'jsonwebtoken';
 import 'dotenv/config';
 
@@ -42,20 +44,6 @@ function validateCSRFToken(request: Request): boolean {
   }
 }
 
-/**
- * Ensures the user is an admin before processing the request.
- * @param {RequestEvent} event - The SvelteKit request event.
- * @returns {object} The user object if they are an admin.
- * @throws {Error} An error if the user is not an admin.
- */
-function requireAdmin(event: RequestEvent) {
-	const user = event.locals?.user;
-	if (!user || user.role !== 'admin') {
-		throw error(401, 'Unauthorized');
-	}
-	return user;
-}
-
 /**
  * Generates a unique slug for a category based on its name.
  * @param {string} base - The base name for the slug.
@@ -126,7 +114,7 @@ export async function GET({ url }) {
  */
 export async function POST(event: RequestEvent) {
 	const { request } = event;
-	requireAdmin(event);
+	requirePermission(event, 'manage_products');
 
 	// --- Perbaikan: Verifikasi CSRF ---
 	if (!validateCSRFToken(request)) {
@@ -185,6 +173,8 @@ export async function POST(event: RequestEvent) {
 			.from(categories)
 			.where(eq(categories.slug, slug))
 			.limit(1);
+
+		invalidateSearchIndex();
 			
 		return json({
 			success: true,
@@ -4,8 +4,10 @@ import { db } from '$lib/server/db';
 import { categories } from '$lib/server/db/schema';
 import { eq, like, and, not, sql } from 'drizzle-orm';
 import { json, error, type RequestEvent } from '@sveltejs/kit';
+import { requirePermission } from '$lib/server/authorization';
 import slugify from 'slugify';
 import { uploadImageKit } from '$lib/server/utils/upload-imageKit';
+import { invalidateSearchIndex } from '$lib/server/product-search';
 import jwt from 'jsonwebtoken';
 import 'dotenv/config';
 
@@ -45,20 +47,6 @@ function validateCSRFToken(request: Request): boolean {
   }
 }
 
-/**
- * Ensures the user is an admin before processing the request.
- * @param {RequestEvent} event - The SvelteKit request event.
- * @returns {object} The user object if they are an admin.
- * @throws {Error} An error if the user is not an admin.
- */
-function requireAdmin(event: RequestEvent) {
-  const user = event.locals?.user;
-  if (!user || user.role !== 'admin') {
-    throw error(401, 'Unauthorized');
-  }
-  return user;
-}
-
 /**
  * Generates a unique slug for a category, ensuring it doesn't conflict with existing slugs.
  * It can also exclude a specific slug during the check, which is useful for updates.
@@ -124,7 +112,7 @@ export async function GET(event: RequestEvent): Promise<Response> {
  */
 export async function PUT(event: RequestEvent): Promise<Response> {
   const { request } = event;
-  requireAdmin(event);
+  requirePermission(event, 'manage_products');
 
   if (!validateCSRFToken(request)) {
     throw error(403, 'Invalid CSRF token');
@@ -181,6 +169,7 @@ export async function PUT(event: RequestEvent): Promise<Response> {
     await db.update(categories).set(updateData).where(eq(categories.slug, currentSlug));
     
     const updated = await db.select().from(categories).where(eq(categories.slug, slug));
+    invalidateSearchIndex();
 
     return json({
       success: true,
@@ -206,7 +195,7 @@ export async function PUT(event: RequestEvent): Promise<Response> {
  */
 export async function DELETE(event: RequestEvent): Promise<Response> {
   const { request } = event;
-  requireAdmin(event);
+  requirePermission(event, 'manage_products');
 
   if (!validateCSRFToken(request)) {
     throw error(403, 'Invalid CSRF token');
@@ -239,6 +228,7 @@ export async function DELETE(event: RequestEvent): Promise<Response> {
     }
 
     await db.delete(categories).where(eq(categories.slug, slug));
+    invalidateSearchIndex();
 
     return json({
       success: true,
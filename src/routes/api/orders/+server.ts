@@ -1,22 +1,45 @@
 import { db } from '$lib/server/db';
-import { orders, orderItems, products, productImages } from '$lib/server/db/schema';
+import { orders, orderItems, orderShipments, products, productImages } from '$lib/server/db/schema';
 import { eq, and, inArray } from 'drizzle-orm';
 import { json, error, type RequestEvent } from '@sveltejs/kit';
 import { ulid } from 'ulid';
 import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import 'dotenv/config';
-import midtransClient from 'midtrans-client';
-import { 
-  calculateShippingRates, 
-  calculatePackageDimensions,
-  isValidIndonesianPostalCode 
-} from '$lib/server/biteship-utils';
-
-const MIDTRANS_SERVER_KEY = process.env.MIDTRANS_SERVER_KEY!;
-const MIDTRANS_CLIENT_KEY = process.env.MIDTRANS_CLIENT_KEY!;
-const MIDTRANS_IS_PRODUCTION = process.env.MIDTRANS_IS_PRODUCTION === 'true';
-const BITESHIP_API_KEY = process.env.BITESHIP_API_KEY!;
+import { isValidIndonesianPostalCode } from '$lib/server/biteship-utils';
+import {
+  planShipments,
+  quoteShipments,
+  combineShipmentRates,
+  findShipmentRate,
+  rankWarehouses,
+  type ShipmentPlan
+} from '$lib/server/shipment-planner';
+import {
+  isOrderStatus,
+  recordStatusChange,
+  transitionOrderStatus,
+  createShipmentForPaidOrder
+} from '$lib/server/order-lifecycle';
+import { reserveStock, OutOfStockError, type OutOfStockItem } from '$lib/server/inventory';
+import { getStoredCartItems, clearStoredCart } from '$lib/server/cart';
+import { getActiveVariantsForProducts, resolveLineAttributes } from '$lib/server/variants';
+import { hasPermission } from '$lib/utils/permissions';
+import {
+  normalizeVoucherCode,
+  quoteVoucher,
+  redeemVoucher,
+  type VoucherContext,
+  type VoucherQuote
+} from '$lib/server/vouchers';
+import {
+  getPaymentProvider,
+  getAvailablePaymentMethods,
+  isPaymentMethod,
+  PAYMENT_METHOD_LABELS,
+  type CreatedPayment
+} from '$lib/server/payment-providers';
+
 const JWT_SECRET = process.env.JWT_SECRET!;
 
 // SECURITY: Rate limiting configuration
@@ -35,13 +58,6 @@ const MAX_STRING_LENGTH = 1000;
 // SECURITY: In-memory rate limiting (production should use Redis)
 const rateLimitStore = new Map<string, { count: number; resetTime: number; orders: number; shipping: number }>();
 
-// Initialize Midtrans
-const snap = new midtransClient.Snap({
-  isProduction: MIDTRANS_IS_PRODUCTION,
-  serverKey: MIDTRANS_SERVER_KEY,
-  clientKey: MIDTRANS_CLIENT_KEY
-});
-
 // Store config
 const STORE_CONFIG = {
   name: process.env.STORE_NAME! || 'Toko Online Anda',
@@ -55,8 +71,6 @@ const STORE_CONFIG = {
   note: process.env.STORE_NOTE! || 'Dekat dengan minimarket atau patokan lainnya'
 };
 
-const BITESHIP_BASE_URL = 'https://api.biteship.com/v1';
-
 // SECURITY: Rate limiting middleware
 function checkRateLimit(ip: string, type: 'general' | 'orders' | 'shipping' = 'general'): boolean {
   const now = Date.now();
@@ -166,6 +180,11 @@ function validateOrderInput(input: any): { isValid: boolean; errors: string[] }
     errors.push('Courier service is required');
   }
   
+  // Payment method validation (defaults to Midtrans)
+  if (input.paymentMethod != null && !isPaymentMethod(input.paymentMethod)) {
+    errors.push('Invalid payment method');
+  }
+  
   // Items validation if provided
   if (input.items && Array.isArray(input.items)) {
     if (input.items.length > MAX_ITEMS_PER_ORDER) {
@@ -177,6 +196,9 @@ function validateOrderInput(input: any): { isValid: boolean; errors: string[] }
       if (!Number.isInteger(item.productId) || item.productId <= 0) {
         errors.push(`Invalid product ID at item ${i + 1}`);
       }
+      if (item.variantId != null && (!Number.isInteger(item.variantId) || item.variantId <= 0)) {
+        errors.push(`Invalid variant ID at item ${i + 1}`);
+      }
       if (!Number.isInteger(item.quantity) || item.quantity <= 0 || item.quantity > 100) {
         errors.push(`Invalid quantity at item ${i + 1} (must be 1-100)`);
       }
@@ -312,207 +334,12 @@ function formatPrice(value: any): string {
   return num.toFixed(2);
 }
 
-// Helper function to format currency for Midtrans (integer)
-function formatPriceForMidtrans(value: any): number {
-  const num = ensureNumber(value);
-  return Math.round(num);
-}
-
-// Helper function to format date for Midtrans
-function formatDateForMidtrans(date: Date = new Date()): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  const hours = String(date.getHours()).padStart(2, '0');
-  const minutes = String(date.getMinutes()).padStart(2, '0');
-  const seconds = String(date.getSeconds()).padStart(2, '0');
-  
-  return `${year}-${month}-${day} ${hours}:${minutes}:${seconds} +0700`;
-}
-
 function generateOrderNumber(): string {
   const timestamp = Date.now().toString();
   const random = Math.random().toString(36).substring(2, 8).toUpperCase();
   return `ORD-${timestamp.slice(-8)}-${random}`;
 }
 
-// SECURITY: Enhanced Biteship order creation with input validation
-async function createBiteshipOrder(orderData: any) {
-  try {
-    console.log('Creating Biteship order...');
-    
-    // Validate required fields
-    if (!orderData.recipientName || !orderData.phone || !orderData.address) {
-      throw new Error('Missing required recipient information');
-    }
-    
-    const packageData = calculatePackageDimensions(
-      orderData.items.map((item: any) => ({
-        weight: ensureNumber(item.weight, 100),
-        height: ensureNumber(item.height, 5),
-        length: ensureNumber(item.length, 10),
-        width: ensureNumber(item.width, 10),
-        quantity: ensureNumber(item.quantity, 1),
-        value: ensureNumber(item.price)
-      }))
-    );
-
-    const requestBody = {
-      origin_contact_name: sanitizeString(STORE_CONFIG.ownerName, 100),
-      origin_contact_phone: sanitizeString(STORE_CONFIG.phone, 20),
-      origin_address: sanitizeString(STORE_CONFIG.address, 500),
-      origin_note: sanitizeString(STORE_CONFIG.note, 200),
-      origin_postal_code: STORE_CONFIG.postalCode,
-      
-      destination_contact_name: sanitizeString(orderData.recipientName, 100),
-      destination_contact_phone: sanitizeString(orderData.phone, 20),
-      destination_contact_email: sanitizeString(orderData.email, 100),
-      destination_address: sanitizeString(orderData.address, 500),
-      destination_postal_code: orderData.postalCode,
-      destination_note: sanitizeString(orderData.orderNote || "", 200),
-      
-      courier_company: orderData.courierName.toLowerCase(),
-      courier_type: orderData.courierService,
-      delivery_type: orderData.deliveryType || "now",
-      
-      items: [{
-        name: "Package",
-        description: `Order ${orderData.orderNumber} from ${STORE_CONFIG.name}`,
-        category: "fashion",
-        value: packageData.value,
-        weight: packageData.weight,
-        height: packageData.height,
-        length: packageData.length,
-        width: packageData.width,
-        quantity: 1
-      }],
-      
-      reference_id: orderData.orderNumber,
-      
-      ...(orderData.courierInsurance && ensureNumber(orderData.courierInsurance) > 0 && {
-        courier_insurance: Math.round(ensureNumber(orderData.courierInsurance))
-      })
-    };
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000);
-
-    try {
-      const response = await fetch(`${BITESHIP_BASE_URL}/orders`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${BITESHIP_API_KEY}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(requestBody),
-        signal: controller.signal
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        const errorData = await response.text();
-        throw new Error(`Failed to create shipping order: ${response.status} - ${errorData}`);
-      }
-
-      const data = await response.json();
-      
-      if (!data.success) {
-        throw new Error('Biteship order creation failed: ' + JSON.stringify(data));
-      }
-
-      return data;
-    } catch (fetchError) {
-      clearTimeout(timeoutId);
-      throw fetchError;
-    }
-  } catch (err) {
-    console.error('Error creating Biteship order:', err);
-    throw err;
-  }
-}
-
-// SECURITY: Enhanced Midtrans payment creation with validation
-async function createMidtransPayment(orderData: any) {
-  try {
-    const orderId = sanitizeString(orderData.orderNumber, 50);
-    const grossAmount = formatPriceForMidtrans(orderData.total);
-    
-    // Validate amount
-    if (grossAmount < 1000 || grossAmount > 999999999) {
-      throw new Error('Invalid payment amount');
-    }
-    
-    const startTime = formatDateForMidtrans();
-    
-    const parameter = {
-      transaction_details: {
-        order_id: orderId,
-        gross_amount: grossAmount
-      },
-      customer_details: {
-        first_name: sanitizeString(orderData.recipientName.split(' ')[0], 50),
-        last_name: sanitizeString(orderData.recipientName.split(' ').slice(1).join(' ') || '', 50),
-        email: sanitizeString(orderData.email, 100),
-        phone: sanitizeString(orderData.phone, 20),
-        shipping_address: {
-          first_name: sanitizeString(orderData.recipientName.split(' ')[0], 50),
-          last_name: sanitizeString(orderData.recipientName.split(' ').slice(1).join(' ') || '', 50),
-          email: sanitizeString(orderData.email, 100),
-          phone: sanitizeString(orderData.phone, 20),
-          address: sanitizeString(orderData.address, 500),
-          city: sanitizeString(orderData.city, 100),
-          postal_code: orderData.postalCode
-        }
-      },
-      item_details: [
-        ...orderData.items.map((item: any) => ({
-          id: String(item.productId),
-          price: formatPriceForMidtrans(item.price),
-          quantity: ensureNumber(item.quantity, 1),
-          name: sanitizeString(item.name, 50),
-          category: sanitizeString(item.category || 'general', 50)
-        })),
-        {
-          id: 'SHIPPING',
-          price: formatPriceForMidtrans(orderData.shippingCost),
-          quantity: 1,
-          name: sanitizeString(`Shipping via ${orderData.courierName} ${orderData.courierService}`, 50),
-          category: 'shipping'
-        }
-      ],
-      enabled_payments: [
-        "credit_card", "bca_va", "bni_va", "bri_va", "echannel", "permata_va",
-        "other_va", "gopay", "shopeepay", "qris", "cstore", "akulaku"
-      ],
-      credit_card: {
-        secure: true
-      },
-      expiry: {
-        start_time: startTime,
-        unit: "hours",
-        duration: 24
-      },
-      callbacks: {
-        finish: `${process.env.FRONTEND_URL}/orders/${orderData.id}/payment-success`,
-        error: `${process.env.FRONTEND_URL}/orders/${orderData.id}/payment-error`,
-        pending: `${process.env.FRONTEND_URL}/orders/${orderData.id}/payment-pending`
-      }
-    };
-
-    console.log('Creating Midtrans transaction with:');
-    console.log('- Order ID:', orderId);
-    console.log('- Gross Amount:', grossAmount);
-    console.log('- Start Time:', startTime);
-    
-    const transaction = await snap.createTransaction(parameter);
-    return transaction;
-  } catch (err) {
-    console.error('Error creating Midtrans payment:', err);
-    throw err;
-  }
-}
-
 // GET - Get shipping rates
 export async function GET({ url, locals, getClientAddress }: RequestEvent) {
   try {
@@ -536,7 +363,7 @@ export async function GET({ url, locals, getClientAddress }: RequestEvent) {
       throw error(400, 'Invalid postal code format. Please use 5-digit postal code.');
     }
 
-    let items = [];
+    let items: any[] = [];
     if (itemsParam) {
       try {
         const parsedItems = JSON.parse(itemsParam);
@@ -560,9 +387,11 @@ export async function GET({ url, locals, getClientAddress }: RequestEvent) {
           return item.productId;
         });
         
+        const uniqueProductIds = [...new Set<number>(productIds)];
         const productsData = await db
           .select({
             id: products.id,
+            name: products.name,
             price: products.price,
             weight: products.weight,
             height: products.height,
@@ -570,27 +399,34 @@ export async function GET({ url, locals, getClientAddress }: RequestEvent) {
             width: products.width
           })
           .from(products)
-          .where(inArray(products.id, productIds));
+          .where(inArray(products.id, uniqueProductIds));
 
-        if (productsData.length !== productIds.length) {
+        if (productsData.length !== uniqueProductIds.length) {
           throw new Error('Some products not found');
         }
 
         const productMap = new Map(productsData.map(p => [p.id, p]));
+        const variantMap = new Map(
+          (await getActiveVariantsForProducts(uniqueProductIds)).map(v => [v.id, v])
+        );
 
         items = parsedItems.map((item: any) => {
           const product = productMap.get(item.productId);
           if (!product) {
             throw new Error(`Product ${item.productId} not found`);
           }
+          const line = resolveLineAttributes(product, item.variantId ? variantMap.get(item.variantId) : null);
           
           return {
-            weight: Math.max(ensureNumber(product.weight, 100), 100),
-            height: Math.max(ensureNumber(product.height, 5), 5),
-            length: Math.max(ensureNumber(product.length, 10), 10),
-            width: Math.max(ensureNumber(product.width, 10), 10),
+            productId: product.id,
+            variantId: item.variantId ?? null,
+            name: product.name,
+            weight: Math.max(ensureNumber(line.weight, 100), 100),
+            height: Math.max(ensureNumber(line.height, 5), 5),
+            length: Math.max(ensureNumber(line.length, 10), 10),
+            width: Math.max(ensureNumber(line.width, 10), 10),
             quantity: ensureNumber(item.quantity, 1),
-            value: Math.max(ensureNumber(product.price, 10000), 10000)
+            value: Math.max(ensureNumber(line.price, 10000), 10000)
           };
         });
       } catch (parseError: any) {
@@ -609,24 +445,49 @@ export async function GET({ url, locals, getClientAddress }: RequestEvent) {
     }
 
     console.log(`Processing ${items.length} items for shipping calculation`);
-    
-    const shippingRates = await calculateShippingRates(
-      STORE_CONFIG.postalCode,
-      destinationPostal,
-      items
-    );
 
-    console.log(`Returning ${shippingRates.length} shipping rates`);
+    // Without product ids there is no stock to allocate; quote from the nearest warehouse
+    let plans: ShipmentPlan<any>[];
+    if (itemsParam) {
+      plans = await planShipments(items, destinationPostal);
+    } else {
+      const [nearest] = await rankWarehouses(destinationPostal);
+      plans = [{ warehouse: nearest, lines: items }];
+    }
+
+    const quotes = await quoteShipments(plans, destinationPostal);
+    const shippingRates = combineShipmentRates(quotes);
+
+    console.log(`Returning ${shippingRates.length} shipping rates from ${quotes.length} warehouse(s)`);
 
     return json({
       success: true,
       data: shippingRates,
       store_info: {
         name: STORE_CONFIG.name,
-        city: STORE_CONFIG.city,
-        province: STORE_CONFIG.province,
-        postal_code: STORE_CONFIG.postalCode
+        city: quotes[0].warehouse.city,
+        province: quotes[0].warehouse.province,
+        postal_code: quotes[0].warehouse.postalCode
       },
+      shipments: quotes.map(quote => ({
+        warehouse: {
+          id: quote.warehouse.id,
+          code: quote.warehouse.code,
+          name: quote.warehouse.name,
+          city: quote.warehouse.city,
+          postal_code: quote.warehouse.postalCode
+        },
+        items: quote.lines.map((line: any) => ({
+          product_id: line.productId ?? null,
+          variant_id: line.variantId ?? null,
+          quantity: line.quantity
+        }))
+      })),
+      // COD is offered only with rates that have cash_on_delivery set
+      payment_methods: getAvailablePaymentMethods({
+        cashOnDelivery: shippingRates.some(rate => rate.cash_on_delivery),
+        packages: quotes.length
+      }).map(method => ({ method, label: PAYMENT_METHOD_LABELS[method] })),
       request_info: {
         destination_postal: destinationPostal,
         total_items: items.length,
@@ -638,6 +499,14 @@ export async function GET({ url, locals, getClientAddress }: RequestEvent) {
   } catch (err: any) {
     console.error('Error getting shipping rates:', err);
     if (err.status) throw err;
+    if (err instanceof OutOfStockError) {
+      return json({
+        success: false,
+        message: err.message,
+        data: { out_of_stock: err.items },
+        error_type: 'out_of_stock'
+      }, { status: 409 });
+    }
     throw error(500, `Failed to get shipping rates: ${err.message}`);
   }
 }
@@ -697,7 +566,12 @@ export async function POST(event: RequestEvent) {
     // Get items from cart or direct items
     let cartItems: any[] = [];
     
-    if (sanitizedRequest.useCart) {
+    if (sanitizedRequest.useCart && user) {
+      cartItems = await getStoredCartItems(Number(user.id));
+      if (cartItems.length === 0) {
+        throw error(400, 'Cart is empty');
+      }
+    } else if (sanitizedRequest.useCart) {
       const cartData = cookies.get('cart_session');
       if (!cartData) {
         throw error(400, 'Cart is empty');
@@ -725,6 +599,7 @@ export async function POST(event: RequestEvent) {
       
       cartItems = sanitizedRequest.items.map((item: any) => ({
         productId: item.productId,
+        variantId: item.variantId ?? null,
         quantity: ensureNumber(item.quantity, 1),
         addedAt: Date.now()
       }));
@@ -755,9 +630,12 @@ export async function POST(event: RequestEvent) {
       .where(inArray(products.id, productIds));
 
     const productMap = new Map(productsData.map(p => [p.id, p]));
+    const activeVariants = await getActiveVariantsForProducts(productIds);
+    const variantMap = new Map(activeVariants.map(v => [v.id, v]));
 
     // Validate stock and prepare order items
     const orderItemsData: any[] = [];
+    const outOfStock: OutOfStockItem[] = [];
     let subtotal = 0;
 
     for (const cartItem of cartItems) {
@@ -766,46 +644,71 @@ export async function POST(event: RequestEvent) {
         throw error(400, `Product with ID ${cartItem.productId} not found`);
       }
 
-      if (product.stock < cartItem.quantity) {
-        throw error(400, `Insufficient stock for ${product.name}. Available: ${product.stock}, Requested: ${cartItem.quantity}`);
+      // Products sold in variants can only be ordered through one of their active variants
+      const variant = cartItem.variantId ? variantMap.get(cartItem.variantId) : null;
+      if (cartItem.variantId && (!variant || variant.productId !== product.id)) {
+        throw error(400, `Variant of ${product.name} is no longer available`);
+      }
+      if (!variant && activeVariants.some(v => v.productId === product.id)) {
+        throw error(400, `Please choose a variant for ${product.name}`);
       }
 
-      const productPrice = ensureNumber(product.price);
+      const line = resolveLineAttributes(product, variant);
+      const available = variant ? variant.stock : (product.stock || 0);
+      const displayName = variant ? `${product.name} (${variant.name})` : product.name;
+
+      // Early check against the current stock; the reservation below is the authoritative one
+      if (available < cartItem.quantity) {
+        outOfStock.push({
+          productId: product.id,
+          variantId: variant?.id ?? null,
+          name: displayName,
+          requested: cartItem.quantity,
+          available: Math.max(available, 0)
+        });
+      }
+
+      const productPrice = ensureNumber(line.price);
       const quantity = ensureNumber(cartItem.quantity, 1);
       const itemTotal = productPrice * quantity;
       subtotal += itemTotal;
 
       orderItemsData.push({
         productId: product.id,
+        variantId: variant?.id ?? null,
+        variantName: variant?.name ?? null,
+        sku: variant?.sku ?? null,
         name: sanitizeString(product.name, 200),
         description: sanitizeString(product.description || '', 500),
         category: 'general',
+        categoryId: product.categoryId,
         price: productPrice,
         quantity: quantity,
-        weight: ensureNumber(product.weight, 100),
-        height: ensureNumber(product.height, 5),
-        length: ensureNumber(product.length, 10),
-        width: ensureNumber(product.width, 10)
+        weight: ensureNumber(line.weight, 100),
+        height: ensureNumber(line.height, 5),
+        length: ensureNumber(line.length, 10),
+        width: ensureNumber(line.width, 10)
       });
     }
 
-    // Calculate shipping cost using the new function
-    const shippingItems = orderItemsData.map(item => ({
-      weight: item.weight,
-      height: item.height,
-      length: item.length,
-      width: item.width,
-      quantity: item.quantity,
-      value: item.price
-    }));
+    if (outOfStock.length > 0) {
+      throw new OutOfStockError(outOfStock);
+    }
 
-    console.log('✅ Using cached shipping rates');
-    const shippingRates = await calculateShippingRates(
-      STORE_CONFIG.postalCode,
-      sanitizedRequest.postalCode,
-      shippingItems
+    // Split the order over the warehouses that hold its stock; each one ships its own package
+    const shipmentPlans = await planShipments(
+      orderItemsData.map(item => ({
+        ...item,
+        productName: item.name,
+        name: item.variantName ? `${item.name} (${item.variantName})` : item.name,
+        value: item.price
+      })),
+      sanitizedRequest.postalCode
     );
 
+    const shipmentQuotes = await quoteShipments(shipmentPlans, sanitizedRequest.postalCode);
+    const shippingRates = combineShipmentRates(shipmentQuotes);
+
     // Find the selected shipping rate
     const selectedRate = shippingRates.find((rate: any) => 
       rate.courier_name.toLowerCase() === sanitizedRequest.courierName.toLowerCase() &&
@@ -816,9 +719,48 @@ export async function POST(event: RequestEvent) {
       throw error(400, 'Selected shipping method not available');
     }
 
+    const shipments = shipmentQuotes.map(quote => ({
+      ...quote,
+      rate: findShipmentRate(quote, sanitizedRequest.courierName, sanitizedRequest.courierService)!
+    }));
+
     const shippingCost = ensureNumber(selectedRate.price);
     const insuranceFee = ensureNumber(selectedRate.insurance_fee);
-    const total = subtotal + shippingCost + insuranceFee;
+
+    // COD depends on the courier and on the order shipping as a single package
+    const paymentMethod = orderRequest.paymentMethod || 'midtrans';
+    const availableMethods = getAvailablePaymentMethods({
+      cashOnDelivery: selectedRate.cash_on_delivery,
+      packages: shipments.length
+    });
+    if (!availableMethods.includes(paymentMethod)) {
+      throw error(400, 'Selected payment method is not available for this order');
+    }
+
+    // Apply voucher; re-checked under lock when the order is saved
+    const voucherCode = normalizeVoucherCode(orderRequest.voucherCode);
+    let voucherContext: VoucherContext | null = null;
+    let voucherQuote: VoucherQuote | null = null;
+    if (voucherCode) {
+      if (!user) {
+        throw error(401, 'Login required to use a voucher');
+      }
+      voucherContext = {
+        userId: Number(user.id),
+        items: orderItemsData.map(item => ({
+          productId: item.productId,
+          categoryId: item.categoryId,
+          price: item.price,
+          quantity: item.quantity
+        })),
+        subtotal,
+        shippingCost
+      };
+      voucherQuote = await quoteVoucher(db, voucherCode, voucherContext);
+    }
+    const discount = voucherQuote?.discount || 0;
+
+    const total = subtotal + shippingCost + insuranceFee - discount;
 
     // SECURITY: Validate total amount
     if (total < 1000 || total > 999999999) {
@@ -828,6 +770,8 @@ export async function POST(event: RequestEvent) {
     // Create order
     const orderId = ulid();
     const orderNumber = generateOrderNumber();
+    // Order-level origin fields describe the first package, for readers unaware of shipments
+    const origin = shipments[0].warehouse;
 
     const orderData = {
       id: orderId,
@@ -835,6 +779,8 @@ export async function POST(event: RequestEvent) {
       userId: user?.id || null,
       subtotal: formatPrice(subtotal),
       shippingCost: formatPrice(shippingCost),
+      discount: formatPrice(discount),
+      voucherCode: voucherQuote?.voucher.code || null,
       total: formatPrice(total),
       recipientName: sanitizedRequest.recipientName,
       phone: sanitizedRequest.phone,
@@ -843,20 +789,28 @@ export async function POST(event: RequestEvent) {
       city: sanitizedRequest.city,
       province: sanitizedRequest.province,
       postalCode: sanitizedRequest.postalCode,
-      shipperName: STORE_CONFIG.ownerName,
-      shipperPhone: STORE_CONFIG.phone,
-      shipperEmail: STORE_CONFIG.email,
-      originAddress: STORE_CONFIG.address,
-      originNote: STORE_CONFIG.note,
-      originPostal: STORE_CONFIG.postalCode,
+      shipperName: origin.contactName,
+      shipperPhone: origin.phone,
+      shipperEmail: origin.email,
+      originAddress: origin.address,
+      originNote: origin.note || '',
+      originPostal: origin.postalCode,
       courierName: sanitizedRequest.courierName,
       courierService: sanitizedRequest.courierService,
       courierInsurance: formatPrice(insuranceFee),
       deliveryType: sanitizedRequest.deliveryType || 'now',
       orderNote: sanitizedRequest.orderNote || null,
+      paymentMethod,
       metadata: JSON.stringify({
         biteship_rate: selectedRate,
         store_config: STORE_CONFIG,
+        warehouses: shipments.map(shipment => shipment.warehouse.code),
+        voucher: voucherQuote ? {
+          code: voucherQuote.voucher.code,
+          type: voucherQuote.voucher.type,
+          item_discount: voucherQuote.itemDiscount,
+          shipping_discount: voucherQuote.shippingDiscount
+        } : null,
         created_from: 'web',
         client_ip: clientIP,
         user_agent: request.headers.get('user-agent')
@@ -868,46 +822,92 @@ export async function POST(event: RequestEvent) {
     await db.transaction(async (tx) => {
       // Insert order
       await tx.insert(orders).values(orderData);
+      await recordStatusChange(tx, {
+        orderId,
+        from: null,
+        to: 'pending',
+        actor: user ? { type: 'customer', id: user.id } : { type: 'system' },
+        reason: 'Order created'
+      });
 
-      // Insert order items and update stock
-      for (const item of orderItemsData) {
-        await tx.insert(orderItems).values({
+      // Insert one shipment per origin warehouse, with the items it ships
+      for (const shipment of shipments) {
+        const [shipmentResult] = await tx.insert(orderShipments).values({
           orderId,
-          productId: item.productId,
-          name: item.name,
-          description: item.description,
-          category: item.category,
-          price: formatPrice(item.price),
-          quantity: item.quantity,
-          weight: item.weight,
-          height: item.height,
-          length: item.length,
-          width: item.width
+          warehouseId: shipment.warehouse.id,
+          originPostal: shipment.warehouse.postalCode,
+          courierName: sanitizedRequest.courierName,
+          courierService: sanitizedRequest.courierService,
+          shippingCost: formatPrice(ensureNumber(shipment.rate.price)),
+          courierInsurance: formatPrice(ensureNumber(shipment.rate.insurance_fee)),
+          metadata: JSON.stringify({ biteship_rate: shipment.rate })
         });
 
-        // Update product stock
-        const product = productMap.get(item.productId);
-        if (product) {
-          await tx
-            .update(products)
-            .set({ 
-              stock: product.stock - item.quantity,
-              updatedAt: new Date()
-            })
-            .where(eq(products.id, item.productId));
+        for (const item of shipment.lines) {
+          await tx.insert(orderItems).values({
+            orderId,
+            shipmentId: shipmentResult.insertId,
+            productId: item.productId,
+            variantId: item.variantId,
+            variantName: item.variantName,
+            sku: item.sku,
+            name: item.productName,
+            description: item.description,
+            category: item.category,
+            price: formatPrice(item.price),
+            quantity: item.quantity,
+            weight: item.weight,
+            height: item.height,
+            length: item.length,
+            width: item.width
+          });
         }
       }
-    });
 
-    // Create Midtrans payment
-    const midtransData = await createMidtransPayment({
-      ...orderData,
-      items: orderItemsData,
-      total: total
+      // Reserve stock from each shipment's warehouse; rolls back the whole order if any
+      // product ran out meanwhile
+      await reserveStock(tx, orderId, shipments.flatMap(shipment =>
+        shipment.lines.map(item => ({ ...item, warehouseId: shipment.warehouse.id }))
+      ));
+
+      if (voucherContext) {
+        const lockedQuote = await quoteVoucher(tx, voucherCode, voucherContext, { lock: true });
+        if (lockedQuote.discount !== discount) {
+          throw error(409, 'Voucher changed during checkout, please try again');
+        }
+        await redeemVoucher(tx, lockedQuote, { orderId, userId: voucherContext.userId });
+      }
     });
 
+    // Create the payment; without one the order can never be paid, so give its stock back
+    let payment: CreatedPayment;
+    try {
+      payment = await getPaymentProvider(paymentMethod).create({
+        ...orderData,
+        items: orderItemsData,
+        total,
+        shippingCost,
+        courierInsurance: insuranceFee,
+        discount,
+        voucherCode: orderData.voucherCode
+      });
+    } catch (paymentErr) {
+      await transitionOrderStatus(orderId, 'failed', {
+        actor: { type: 'system' },
+        reason: 'Payment could not be created'
+      });
+      throw paymentErr;
+    }
+
+    // Cash on delivery orders are not waiting for a payment, so they ship right away
+    if (paymentMethod === 'cod') {
+      await createShipmentForPaidOrder(orderId, { type: 'system' });
+    }
+
     // Clear cart if using cart
-    if (sanitizedRequest.useCart) {
+    if (sanitizedRequest.useCart && user) {
+      await clearStoredCart(Number(user.id));
+    } else if (sanitizedRequest.useCart) {
       cookies.delete('cart_session', { path: '/' });
     }
 
@@ -919,16 +919,23 @@ export async function POST(event: RequestEvent) {
       data: {
         orderId,
         orderNumber,
+        discount: formatPrice(discount),
         total: formatPrice(total),
         store_info: STORE_CONFIG,
-        payment: {
-          token: midtransData.token,
-          redirect_url: midtransData.redirect_url
-        }
+        payment
       }
     });
 
   } catch (err: any) {
+    if (err instanceof OutOfStockError) {
+      return json({
+        success: false,
+        message: err.message,
+        data: { out_of_stock: err.items },
+        error_type: 'out_of_stock'
+      }, { status: 409 });
+    }
+
     console.error('Error creating order:', err);
     if (err.status) throw err;
     throw error(500, 'Failed to create order: ' + err.message);
@@ -973,11 +980,23 @@ export async function PUT(event: RequestEvent) {
     }
     
     // SECURITY: Validate status values
-    const allowedStatuses = ['pending', 'paid', 'processing', 'shipped', 'delivered', 'cancelled', 'failed'];
-    if (!allowedStatuses.includes(status)) {
+    if (!isOrderStatus(status)) {
       throw error(400, 'Invalid status value');
     }
 
+    // SECURITY: Authorization check - status changes are a staff action (manage_orders);
+    // customers cancel through /api/transactions and payments settle through the Midtrans webhook
+    // or bank transfer verification (/api/admin/payments)
+    if (!user || !hasPermission(user.role, 'manage_orders')) {
+      throw error(403, 'Not authorized to update this order');
+    }
+
+    // Marking an order paid or editing its payment details settles money: verify_payments too
+    const touchesPayment = status === 'paid' || (requestBody.paymentData && typeof requestBody.paymentData === 'object');
+    if (touchesPayment && !hasPermission(user.role, 'verify_payments')) {
+      throw error(403, 'Not authorized to confirm payments');
+    }
+
     const existingOrder = await db
       .select()
       .from(orders)
@@ -987,85 +1006,56 @@ export async function PUT(event: RequestEvent) {
     if (existingOrder.length === 0) {
       throw error(404, 'Order not found');
     }
-    
-    // SECURITY: Authorization check - only allow user to update their own orders or admin
-    if (user && existingOrder[0].userId !== user.id && !user.isAdmin) {
-      throw error(403, 'Not authorized to update this order');
-    }
-
-    const updateData: any = {
-      status,
-      updatedAt: new Date()
-    };
 
     // SECURITY: Sanitize and validate optional data
-    if (requestBody.paymentData && typeof requestBody.paymentData === 'object') {
-      const existingMetadata = JSON.parse(existingOrder[0].metadata || '{}');
-      updateData.metadata = JSON.stringify({
-        ...existingMetadata,
-        payment: {
-          ...requestBody.paymentData,
+    const paymentData =
+      requestBody.paymentData && typeof requestBody.paymentData === 'object' ? requestBody.paymentData : null;
+    const shippingData =
+      requestBody.shippingData && typeof requestBody.shippingData === 'object' ? requestBody.shippingData : null;
+
+    // Merged into the metadata read under the order lock, so a payment notification that
+    // lands meanwhile is not overwritten
+    const buildMetadataPatch = (metadata: Record<string, any>) => {
+      const patch: Record<string, any> = {};
+      if (paymentData) {
+        patch.payment = {
+          ...metadata.payment,
+          ...paymentData,
           updated_at: new Date().toISOString(),
-          updated_by: user?.id || 'system'
-        }
-      });
-    }
-
-    if (requestBody.shippingData && typeof requestBody.shippingData === 'object') {
-      const existingMetadata = JSON.parse(existingOrder[0].metadata || '{}');
-      updateData.metadata = JSON.stringify({
-        ...existingMetadata,
-        shipping: {
-          ...requestBody.shippingData,
+          updated_by: user.id
+        };
+      }
+      if (shippingData) {
+        patch.shipping = {
+          ...metadata.shipping,
+          ...shippingData,
           updated_at: new Date().toISOString(),
-          updated_by: user?.id || 'system'
-        }
-      });
-    }
+          updated_by: user.id
+        };
+      }
+      return patch;
+    };
 
-    await db
-      .update(orders)
-      .set(updateData)
-      .where(eq(orders.id, orderId));
+    const actor = { type: 'admin' as const, id: user.id };
+    const transition = await transitionOrderStatus(orderId, status, {
+      actor,
+      reason: sanitizeString(requestBody.reason || '', 255) || null,
+      metadata: paymentData || shippingData ? buildMetadataPatch : undefined
+    });
 
     // Create shipping order when payment is confirmed
-    if (status === 'paid' && !JSON.parse(existingOrder[0].metadata || '{}').shipping) {
-      try {
-        const orderItemsData = await db
-          .select()
-          .from(orderItems)
-          .where(eq(orderItems.orderId, orderId));
-
-        const biteshipData = await createBiteshipOrder({
-          ...existingOrder[0],
-          items: orderItemsData
-        });
-
-        await db
-          .update(orders)
-          .set({
-            metadata: JSON.stringify({
-              ...JSON.parse(existingOrder[0].metadata || '{}'),
-              shipping: {
-                ...biteshipData,
-                created_at: new Date().toISOString(),
-                created_by: user?.id || 'system'
-              }
-            }),
-            status: 'processing'
-          })
-          .where(eq(orders.id, orderId));
-
-        console.log('Shipping order created successfully:', biteshipData.id);
-      } catch (shippingErr) {
-        console.error('Error creating shipping order:', shippingErr);
-        // Don't fail the whole request if shipping creation fails
-      }
+    if (status === 'paid' && !JSON.parse(transition.order.metadata || '{}').shipping) {
+      await createShipmentForPaidOrder(orderId, actor);
     }
 
     return json({
       success: true,
-      message: 'Order updated successfully'
+      message: 'Order updated successfully',
+      data: {
+        orderId,
+        from: transition.from,
+        to: transition.to
+      }
     });
 
   } catch (err: any) {
@@ -1074,54 +1064,3 @@ export async function PUT(event: RequestEvent) {
     throw error(500, 'Failed to update order: ' + err.message);
   }
 }
-
-// SECURITY: Additional security middleware for webhook endpoints
-export async function PATCH(event: RequestEvent) {
-  const { request, getClientAddress } = event;
-  const clientIP = getClientAddress();
-  
-  try {
-    // SECURITY: Webhook signature validation (for Midtrans/Biteship webhooks)
-    const signature = request.headers.get('x-signature') || request.headers.get('signature');
-    const webhookSecret = process.env.WEBHOOK_SECRET;
-    
-    if (!signature || !webhookSecret) {
-      throw error(401, 'Missing webhook signature');
-    }
-    
-    const body = await request.text();
-    
-    // Verify webhook signature
-    const expectedSignature = crypto
-      .createHmac('sha256', webhookSecret)
-      .update(body)
-      .digest('hex');
-    
-    if (!crypto.timingSafeEqual(
-      Buffer.from(signature, 'hex'),
-      Buffer.from(expectedSignature, 'hex')
-    )) {
-      throw error(401, 'Invalid webhook signature');
-    }
-    
-    // SECURITY: Rate limiting for webhooks
-    if (!checkRateLimit(clientIP, 'general')) {
-      throw error(429, 'Too many webhook requests');
-    }
-    
-    const webhookData = JSON.parse(body);
-    
-    console.log('Webhook received:', webhookData);
-    
-    return json({
-      success: true,
-      message: 'Webhook processed successfully'
-    });
-    
-  } catch (err: any) {
-    console.error('Error processing webhook:', err);
-    if (err.status) throw err;
-    throw error(500, 'Failed to process webhook');
-  }
-}
-
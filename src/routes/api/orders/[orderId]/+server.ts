@@ -1,9 +1,12 @@
 // src/routes/api/orders/[orderId]/+server.ts
 
 import { db } from '$lib/server/db';
-import { orders, orderItems, products, productImages } from '$lib/server/db/schema';
-import { eq, inArray } from 'drizzle-orm';
+import { orders, orderItems, orderShipments, products, productImages, warehouses } from '$lib/server/db/schema';
+import { eq, asc, inArray } from 'drizzle-orm';
 import { json, error, type RequestEvent } from '@sveltejs/kit';
+import { getAllowedTransitions, getOrderStatusHistory } from '$lib/server/order-lifecycle';
+import { getBankAccounts } from '$lib/server/payment-providers';
+import { hasPermission } from '$lib/utils/permissions';
 
 // GET - Get order details by ID
 export async function GET({ params, locals }: RequestEvent) {
@@ -29,7 +32,11 @@ export async function GET({ params, locals }: RequestEvent) {
     }
 
     // 2. Check authorization
-    if (user && order.userId !== user.id && !user.isAdmin) {
+    if (!user) {
+      throw error(401, 'Authentication required');
+    }
+    const isStaffViewer = hasPermission(user.role, 'manage_orders', 'verify_payments', 'issue_refunds');
+    if (order.userId !== Number(user.id) && !isStaffViewer) {
       console.log('❌ Unauthorized access attempt for order:', orderId, 'by user:', user.id);
       throw error(403, 'Not authorized to view this order');
     }
@@ -83,27 +90,64 @@ export async function GET({ params, locals }: RequestEvent) {
       console.log('⚠️ Failed to parse order metadata:', err);
     }
 
-    // 7. Prepare final response data
+    // 7. Get status history
+    const statusHistory = await getOrderStatusHistory(orderId);
+
+    // 8. Packages per origin warehouse (empty for orders placed before warehouses existed)
+    const shipmentRows = await db
+      .select({
+        id: orderShipments.id,
+        warehouseName: warehouses.name,
+        warehouseCity: warehouses.city,
+        originPostal: orderShipments.originPostal,
+        courierName: orderShipments.courierName,
+        courierService: orderShipments.courierService,
+        shippingCost: orderShipments.shippingCost,
+        biteshipOrderId: orderShipments.biteshipOrderId,
+        waybillId: orderShipments.waybillId
+      })
+      .from(orderShipments)
+      .innerJoin(warehouses, eq(warehouses.id, orderShipments.warehouseId))
+      .where(eq(orderShipments.orderId, orderId))
+      .orderBy(asc(orderShipments.id));
+
+    const shipments = shipmentRows.map(shipment => ({
+      ...shipment,
+      shippingCost: parseFloat(shipment.shippingCost),
+      itemIds: items.filter(item => item.shipmentId === shipment.id).map(item => item.id)
+    }));
+
+    // 9. Prepare final response data
     const responseData = {
       ...order,
       subtotal: parseFloat(order.subtotal),
       shippingCost: parseFloat(order.shippingCost),
+      discount: parseFloat(order.discount),
       total: parseFloat(order.total),
       courierInsurance: parseFloat(order.courierInsurance || '0'),
       
       items: combinedItems,
+      shipments,
       metadata: metadata,
       
       // Computed fields
       itemCount: combinedItems.reduce((sum, item) => sum + item.quantity, 0),
       hasShippingData: !!(metadata.shipping && metadata.shipping.id),
       hasPaymentData: !!(metadata.payment),
+      // Where to transfer to, while a bank transfer order waits for payment
+      paymentInstructions: order.paymentMethod === 'bank_transfer' && order.status === 'pending' ? {
+        accounts: getBankAccounts(),
+        amount: parseFloat(order.total),
+        reference: order.orderNumber
+      } : null,
       
       // Status helpers
       isPending: order.status === 'pending',
       isPaid: ['paid', 'processing', 'shipped', 'delivered'].includes(order.status),
       isCompleted: order.status === 'delivered',
-      isCancelled: ['cancelled', 'failed'].includes(order.status),
+      isCancelled: ['cancelled', 'failed', 'expired'].includes(order.status),
+      allowedTransitions: getAllowedTransitions(order.status, order.paymentMethod),
+      statusHistory,
       
       // Tracking info
       trackingInfo: metadata.shipping ? {
@@ -0,0 +1,76 @@
+// src/routes/api/orders/[orderId]/payment-proof/+server.ts
+// Proof of payment for bank transfer orders, checked by an admin in /api/admin/payments
+
+import { db } from '$lib/server/db';
+import { orders } from '$lib/server/db/schema';
+import { eq } from 'drizzle-orm';
+import { json, error, type RequestEvent } from '@sveltejs/kit';
+import { uploadImageKit } from '$lib/server/utils/upload-imageKit';
+import { updatePaymentMetadata } from '$lib/server/order-lifecycle';
+import { requireCSRFToken } from '$lib/server/csrf';
+
+const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+const MAX_NOTE_LENGTH = 255;
+
+function assertAwaitingTransfer(order: typeof orders.$inferSelect) {
+	if (order.paymentMethod !== 'bank_transfer') {
+		throw error(400, 'Order is not paid by bank transfer');
+	}
+	if (order.status !== 'pending') {
+		throw error(409, 'Order is no longer awaiting payment');
+	}
+}
+
+// POST - Upload a transfer receipt (multipart: proof, note)
+export async function POST({ request, params, locals }: RequestEvent) {
+	const user = locals?.user;
+	if (!user) {
+		throw error(401, 'Authentication required');
+	}
+	requireCSRFToken(request);
+
+	try {
+		const [order] = await db.select().from(orders).where(eq(orders.id, params.orderId!)).limit(1);
+
+		if (!order || order.userId !== Number(user.id)) {
+			throw error(404, 'Order not found');
+		}
+		assertAwaitingTransfer(order);
+
+		const formData = await request.formData();
+		const file = formData.get('proof');
+		const note = String(formData.get('note') || '')
+			.trim()
+			.substring(0, MAX_NOTE_LENGTH);
+
+		if (!(file instanceof File) || file.size === 0) {
+			throw error(400, 'Proof of payment is required');
+		}
+		if (!ALLOWED_IMAGE_TYPES.includes(file.type)) throw error(400, 'Invalid image type');
+		if (file.size > MAX_IMAGE_SIZE) throw error(400, 'Image too large');
+
+		const url = await uploadImageKit(file, 'payment-proofs');
+
+		// A new proof replaces a rejected one and goes back into the verification queue
+		const payment = await updatePaymentMetadata(order.id, (current, locked) => {
+			assertAwaitingTransfer(locked);
+			return {
+				...current,
+				provider: 'bank_transfer',
+				proof: { url, note: note || null, uploaded_at: new Date().toISOString() },
+				verification: { status: 'awaiting_verification' }
+			};
+		});
+
+		return json({
+			success: true,
+			message: 'Bukti transfer berhasil diunggah',
+			data: { proof: payment.proof, verification: payment.verification }
+		});
+	} catch (err: any) {
+		console.error('Error uploading payment proof:', err);
+		if (err.status) throw err;
+		throw error(500, 'Failed to upload payment proof');
+	}
+}
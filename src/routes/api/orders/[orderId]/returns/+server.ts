@@ -0,0 +1,111 @@
+// src/routes/api/orders/[orderId]/returns/+server.ts
+// Return requests for a delivered order, reviewed by an admin in /api/admin/returns
+
+import { db } from '$lib/server/db';
+import { orders } from '$lib/server/db/schema';
+import { eq } from 'drizzle-orm';
+import { json, error, type RequestEvent } from '@sveltejs/kit';
+import {
+	cancelReturn,
+	createReturnRequest,
+	getReturnEligibility,
+	getReturnableItems,
+	listOrderReturns,
+	parseReturnItems,
+	parseReturnNote
+} from '$lib/server/returns';
+import { requireCSRFToken } from '$lib/server/csrf';
+
+function requireUser(event: RequestEvent) {
+	const user = event.locals?.user;
+	if (!user) {
+		throw error(401, 'Authentication required');
+	}
+	return user;
+}
+
+async function getOwnOrder(orderId: string, userId: number) {
+	const [order] = await db.select().from(orders).where(eq(orders.id, orderId)).limit(1);
+	if (!order || order.userId !== userId) {
+		throw error(404, 'Order not found');
+	}
+	return order;
+}
+
+// GET - Returns of the order, plus whether (and which items) can still be returned
+export async function GET(event: RequestEvent) {
+	const user = requireUser(event);
+
+	try {
+		const order = await getOwnOrder(event.params.orderId!, Number(user.id));
+		const [eligibility, items, returns] = await Promise.all([
+			getReturnEligibility(order),
+			getReturnableItems(order.id),
+			listOrderReturns(order.id)
+		]);
+
+		return json({
+			success: true,
+			data: {
+				orderId: order.id,
+				orderNumber: order.orderNumber,
+				status: order.status,
+				eligibility,
+				items,
+				returns
+			}
+		});
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Error loading returns:', err);
+		throw error(500, 'Failed to load returns');
+	}
+}
+
+// POST - Ask for a return: { items: [{ orderItemId, quantity, reason }], note }
+export async function POST(event: RequestEvent) {
+	const user = requireUser(event);
+	requireCSRFToken(event.request);
+
+	try {
+		const body = await event.request.json();
+		const items = parseReturnItems(body.items);
+		const returnId = await createReturnRequest({
+			orderId: event.params.orderId!,
+			userId: Number(user.id),
+			items,
+			note: parseReturnNote(body.note)
+		});
+
+		return json(
+			{ success: true, message: 'Permintaan retur berhasil dikirim', data: { id: returnId } },
+			{ status: 201 }
+		);
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Error creating return:', err);
+		throw error(500, 'Failed to create return');
+	}
+}
+
+// DELETE - Withdraw a request that has not been approved yet (?id=)
+export async function DELETE(event: RequestEvent) {
+	const user = requireUser(event);
+	requireCSRFToken(event.request);
+
+	try {
+		const id = Number(event.url.searchParams.get('id'));
+		if (!Number.isInteger(id) || id <= 0) {
+			throw error(400, 'Valid return id is required');
+		}
+
+		await getOwnOrder(event.params.orderId!, Number(user.id));
+		await cancelReturn(id, Number(user.id));
+
+		return json({ success: true, message: 'Permintaan retur dibatalkan' });
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Error cancelling return:', err);
+		throw error(500, 'Failed to cancel return');
+	}
+}
@@ -4,6 +4,11 @@ import { orders } from '$lib/server/db/schema';
 import { eq } from 'drizzle-orm';
 import { json, error, type RequestEvent } from '@sveltejs/kit';
 import { trackOrder, getOrderLabel } from '$lib/server/biteship-utils';
+import {
+  canTransition,
+  transitionOrderStatus,
+  type OrderStatus
+} from '$lib/server/order-lifecycle';
 
 // GET - Handle both tracking and label requests
 export async function GET({ params, url }: RequestEvent) {
@@ -80,44 +85,30 @@ export async function GET({ params, url }: RequestEvent) {
       });
     }
 
-    // Update order status based on tracking data if needed
-    const biteshipStatus = trackingData.status;
+    // Update order status based on tracking data if the state machine allows it
     let newOrderStatus = order.status;
-
-    switch (biteshipStatus) {
-      case 'confirmed':
-        newOrderStatus = 'processing';
-        break;
-      case 'allocated':
-      case 'picking_up':
-        newOrderStatus = 'pickup_scheduled';
-        break;
-      case 'picked':
-        newOrderStatus = 'shipped';
-        break;
-      case 'dropping_off':
-        newOrderStatus = 'out_for_delivery';
-        break;
-      case 'delivered':
-        newOrderStatus = 'delivered';
-        break;
-      case 'cancelled':
-        newOrderStatus = 'cancelled';
-        break;
-      case 'rejected':
-        newOrderStatus = 'failed';
-        break;
-    }
-
-    // Update order status if changed
-    if (newOrderStatus !== order.status) {
-      await db
-        .update(orders)
-        .set({ 
-          status: newOrderStatus,
-          updatedAt: new Date()
-        })
-        .where(eq(orders.id, orderId));
+    const targetStatus = mapBiteshipStatus(trackingData.status);
+
+    if (targetStatus && targetStatus !== order.status) {
+      // A shipment can be delivered before we ever saw it in transit
+      const path: OrderStatus[] =
+        targetStatus === 'delivered' && order.status === 'processing'
+          ? ['shipped', 'delivered']
+          : [targetStatus];
+
+      try {
+        for (const status of path) {
+          if (!canTransition(newOrderStatus, status, order.paymentMethod)) break;
+          const result = await transitionOrderStatus(orderId, status, {
+            actor: { type: 'biteship' },
+            reason: `Biteship ${trackingData.status}`
+          });
+          newOrderStatus = result.to;
+        }
+      } catch (transitionErr) {
+        // The order changed concurrently; tracking data is still worth returning
+        console.error('Error updating order status from tracking:', transitionErr);
+      }
     }
 
     return json({
@@ -151,6 +142,23 @@ export async function GET({ params, url }: RequestEvent) {
   }
 }
 
+// Biteship statuses before pickup (confirmed, allocated, picking_up) leave the order in processing
+function mapBiteshipStatus(status: string): OrderStatus | null {
+  switch (status) {
+    case 'picked':
+    case 'dropping_off':
+      return 'shipped';
+    case 'delivered':
+      return 'delivered';
+    case 'cancelled':
+      return 'cancelled';
+    case 'rejected':
+      return 'failed';
+    default:
+      return null;
+  }
+}
+
 function getStatusDescription(status: string): string {
   const statusDescriptions: Record<string, string> = {
     'confirmed': 'Pesanan dikonfirmasi, menunggu penjemputan',
@@ -0,0 +1,147 @@
+// src/routes/api/payments/midtrans/+server.ts
+// Midtrans HTTP notification endpoint (Settings > Configuration > Payment Notification URL)
+
+import { db } from '$lib/server/db';
+import { orders } from '$lib/server/db/schema';
+import { eq } from 'drizzle-orm';
+import { json, error, type RequestEvent } from '@sveltejs/kit';
+import {
+	mapTransactionStatus,
+	getNotificationKey,
+	type MidtransNotification
+} from '$lib/server/midtrans-utils';
+import { midtransProvider } from '$lib/server/payment-providers';
+import {
+	canTransition,
+	transitionOrderStatus,
+	createShipmentForPaidOrder,
+	type OrderActor
+} from '$lib/server/order-lifecycle';
+
+// Keep the last few notification keys so redelivered notifications are skipped
+const MAX_PROCESSED_NOTIFICATIONS = 20;
+
+const MIDTRANS_ACTOR: OrderActor = { type: 'midtrans' };
+
+// POST - Receive Midtrans payment notification
+export async function POST({ request }: RequestEvent) {
+	try {
+		let notification: MidtransNotification;
+		try {
+			notification = await request.json();
+		} catch {
+			throw error(400, 'Invalid notification payload');
+		}
+
+		if (!midtransProvider.verifyNotification(notification)) {
+			console.warn('Midtrans notification rejected: invalid signature for', notification?.order_id);
+			throw error(401, 'Invalid signature');
+		}
+
+		// Midtrans order_id is our order number
+		const [order] = await db
+			.select()
+			.from(orders)
+			.where(eq(orders.orderNumber, notification.order_id))
+			.limit(1);
+
+		if (!order) {
+			throw error(404, 'Order not found');
+		}
+
+		if (order.paymentMethod !== 'midtrans') {
+			console.warn('Midtrans notification for an order paid by', order.paymentMethod);
+			throw error(400, 'Order is not paid through Midtrans');
+		}
+
+		if (Math.round(parseFloat(notification.gross_amount)) !== Math.round(parseFloat(order.total))) {
+			console.warn('Midtrans notification amount mismatch for', order.orderNumber);
+			throw error(400, 'Gross amount does not match order total');
+		}
+
+		const mappedStatus = mapTransactionStatus(
+			notification.transaction_status,
+			notification.fraud_status
+		);
+		const notificationKey = getNotificationKey(notification);
+
+		// The order row is locked while the notification is applied, so concurrent
+		// deliveries of the same notification are serialized and the second one is skipped
+		const result = await db.transaction(async (tx) => {
+			const [current] = await tx
+				.select()
+				.from(orders)
+				.where(eq(orders.id, order.id))
+				.limit(1)
+				.for('update');
+
+			const metadata = JSON.parse(current.metadata || '{}');
+			const processed: string[] = metadata.payment?.processed_notifications || [];
+
+			if (processed.includes(notificationKey)) {
+				return { duplicate: true, status: current.status, hadShipping: !!metadata.shipping };
+			}
+
+			const payment = {
+				...metadata.payment,
+				provider: 'midtrans',
+				transaction_id: notification.transaction_id,
+				transaction_status: notification.transaction_status,
+				fraud_status: notification.fraud_status || null,
+				payment_type: notification.payment_type || null,
+				status_code: notification.status_code,
+				gross_amount: notification.gross_amount,
+				transaction_time: notification.transaction_time || null,
+				settlement_time: notification.settlement_time || null,
+				updated_at: new Date().toISOString(),
+				updated_by: 'midtrans_notification',
+				processed_notifications: [...processed, notificationKey].slice(-MAX_PROCESSED_NOTIFICATIONS)
+			};
+
+			if (mappedStatus && canTransition(current.status, mappedStatus, current.paymentMethod)) {
+				await transitionOrderStatus(current.id, mappedStatus, {
+					actor: MIDTRANS_ACTOR,
+					reason: `Midtrans ${notification.transaction_status}`,
+					metadata: { payment },
+					tx
+				});
+				return { duplicate: false, status: mappedStatus, hadShipping: !!metadata.shipping };
+			}
+
+			// Record the notification without changing the order status
+			await tx
+				.update(orders)
+				.set({ metadata: JSON.stringify({ ...metadata, payment }) })
+				.where(eq(orders.id, current.id));
+
+			return { duplicate: false, status: current.status, hadShipping: !!metadata.shipping };
+		});
+
+		if (result.duplicate) {
+			return json({
+				success: true,
+				message: 'Notification already processed',
+				data: { orderNumber: order.orderNumber, status: result.status }
+			});
+		}
+
+		const status = result.status;
+		console.log(
+			`Midtrans notification for ${order.orderNumber}: ${notification.transaction_status} -> ${status}`
+		);
+
+		if (status === 'paid' && status !== order.status && !result.hadShipping) {
+			await createShipmentForPaidOrder(order.id, MIDTRANS_ACTOR);
+		}
+
+		return json({
+			success: true,
+			message: 'Notification processed',
+			data: { orderNumber: order.orderNumber, status }
+		});
+	} catch (err: any) {
+		console.error('Error processing Midtrans notification:', err);
+		if (err.status) throw err;
+		throw error(500, 'Failed to process notification');
+	}
+}
@@ -0,0 +1,79 @@
+// src/routes/api/payments/simulator/+server.ts
+// Backend of the Snap simulator page (MIDTRANS_MODE=simulator only)
+
+import { json, error, type RequestEvent } from '@sveltejs/kit';
+import {
+	isSnapSimulatorMode,
+	isSimulatedOutcome,
+	getSimulatedTransaction,
+	completeSimulatedTransaction
+} from '$lib/server/snap-simulator';
+
+function requireSimulator() {
+	if (!isSnapSimulatorMode()) {
+		throw error(404, 'Not found');
+	}
+}
+
+// GET - Transaction shown on the simulator page
+export async function GET({ url }: RequestEvent) {
+	try {
+		requireSimulator();
+
+		const transaction = getSimulatedTransaction(url.searchParams.get('token') || '');
+		if (!transaction) {
+			throw error(404, 'Transaction not found');
+		}
+
+		return json({ success: true, data: transaction });
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Error loading simulated transaction:', err);
+		throw error(500, 'Failed to load transaction');
+	}
+}
+
+// POST - Pay, decline, expire or cancel a transaction and notify our Midtrans webhook
+export async function POST({ request, fetch }: RequestEvent) {
+	try {
+		requireSimulator();
+
+		const { token, outcome } = await request.json();
+		if (!isSimulatedOutcome(outcome)) {
+			throw error(400, 'Invalid outcome');
+		}
+
+		const transaction = getSimulatedTransaction(token);
+		if (!transaction) {
+			throw error(404, 'Transaction not found');
+		}
+		if (transaction.transaction_status !== 'pending') {
+			throw error(409, 'Transaction is already completed');
+		}
+
+		const result = completeSimulatedTransaction(token, outcome)!;
+
+		// Delivered like a Midtrans HTTP notification, so the webhook verifies the signature as usual
+		const response = await fetch('/api/payments/midtrans', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify(result.notification)
+		});
+		const notificationResult = await response.json().catch(() => null);
+
+		return json({
+			success: response.ok,
+			message: response.ok ? 'Notification delivered' : 'Notification was rejected',
+			data: {
+				transaction_status: result.notification.transaction_status,
+				notification_status: response.status,
+				notification_result: notificationResult,
+				redirect_url: result.redirect_url
+			}
+		});
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Error completing simulated transaction:', err);
+		throw error(500, 'Failed to complete transaction');
+	}
+}
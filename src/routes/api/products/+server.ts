@@ -1,9 +1,25 @@
 import { db } from '$lib/server/db';
-import { products, productImages, orders, orderItems } from '$lib/server/db/schema';
-import { like, eq, sql, and, inArray } from 'drizzle-orm';
+import { products, productImages, orderItems } from '$lib/server/db/schema';
+import { like, eq, sql, inArray } from 'drizzle-orm';
 import { json, error, type RequestEvent } from '@sveltejs/kit';
+import { requirePermission } from '$lib/server/authorization';
 import slugify from 'slugify';
 import { uploadImageKit } from '$lib/server/utils/upload-imageKit';
+import {
+	getProductVariants,
+	parseVariantsInput,
+	saveProductVariants,
+	deleteProductVariants
+} from '$lib/server/variants';
+import { getRatingSummaries } from '$lib/server/reviews';
+import { getSoldCountForProducts } from '$lib/server/analytics';
+import { invalidateSearchIndex } from '$lib/server/product-search';
+import { reconcileWarehouseStock } from '$lib/server/warehouses';
+import {
+	buildProductConditions,
+	getProductFacets,
+	parseProductFilters
+} from '$lib/server/product-filters';
 import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import 'dotenv/config';
@@ -43,20 +59,6 @@ function validateCSRFToken(request: Request): boolean {
   }
 }
 
-/**
- * Ensures the user is an admin before processing the request.
- * @param {RequestEvent} event - The SvelteKit request event.
- * @returns {object} The user object if they are an admin.
- * @throws {Error} An error if the user is not an admin.
- */
-function requireAdmin(event: RequestEvent) {
-	const user = event.locals?.user;
-	if (!user || user.role !== 'admin') {
-		throw error(401, 'Unauthorized');
-	}
-	return user;
-}
-
 async function generateUniqueSlug(base: string, excludeId?: number): Promise<string> {
 	let slug = slugify(base, { lower: true, strict: true });
 	let uniqueSlug = slug;
@@ -88,38 +90,7 @@ async function generateUniqueSlug(base: string, excludeId?: number): Promise<str
 	return uniqueSlug;
 }
 
-// Helper function to get sold count for products
-async function getSoldCountForProducts(productIds: number[]): Promise<Map<number, number>> {
-	if (productIds.length === 0) return new Map();
-
-	try {
-		// Query untuk mendapatkan total quantity yang terjual per produk
-		// Hanya menghitung order dengan status yang sudah selesai
-		const soldCountQuery = await db
-			.select({
-				productId: orderItems.productId,
-				totalSold: sql<number>`COALESCE(SUM(${orderItems.quantity}), 0)`.as('totalSold')
-			})
-			.from(orderItems)
-			.innerJoin(orders, eq(orderItems.orderId, orders.id))
-			.where(
-				and(
-					inArray(orderItems.productId, productIds),
-					inArray(orders.status, ['completed', 'shipped', 'delivered'])
-				)
-			)
-			.groupBy(orderItems.productId);
-
-		return new Map(
-			soldCountQuery.map(item => [item.productId, Number(item.totalSold)])
-		);
-	} catch (err) {
-		console.error('Error fetching sold counts:', err);
-		return new Map();
-	}
-}
-
-// Helper function to attach images and sold count to products
+// Helper function to attach images, rating and sold count to products
 async function enrichProductsData(productsData: any[], withSoldCount: boolean = false) {
 	const productIds = productsData.map(product => product.id);
 
@@ -138,29 +109,36 @@ async function enrichProductsData(productsData: any[], withSoldCount: boolean =
 		imagesByProduct.get(img.productId)!.push(img.image);
 	});
 
+	const ratings = await getRatingSummaries(productIds);
+
 	// Get sold count if requested
 	let soldCountMap = new Map<number, number>();
 	if (withSoldCount) {
 		soldCountMap = await getSoldCountForProducts(productIds);
 	}
 
-	// Enrich products with images and sold count
+	// Enrich products with images, rating and sold count
 	return productsData.map(product => ({
 		...product,
 		images: imagesByProduct.get(product.id) || [],
+		rating: ratings.get(product.id)?.rating ?? 0,
+		reviewCount: ratings.get(product.id)?.reviewCount ?? 0,
 		...(withSoldCount && { soldCount: soldCountMap.get(product.id) || 0 })
 	}));
 }
 
-// GET - Fetch all products with search and pagination
+// GET - Fetch all products with search, filters and pagination
+// Filters: q, categoryId/categoryIds (subcategories included), minPrice, maxPrice, priceRange,
+// inStock
+// With q, results default to sortBy=relevance and meta.suggestion carries a "did you mean"
 export async function GET({ url }) {
-	const q = url.searchParams.get('q') || '';
 	const page = parseInt(url.searchParams.get('page') || '1', 10);
 	const perPage = parseInt(url.searchParams.get('perPage') || '10', 10);
-	const categoryId = url.searchParams.get('categoryId');
 	const slug = url.searchParams.get('slug');
 	const withSoldCount = url.searchParams.get('withSoldCount') === 'true';
-	const sortBy = url.searchParams.get('sortBy') || 'id'; // id, name, price, soldCount
+	const withFacets = url.searchParams.get('withFacets') === 'true';
+	// relevance, id, name, price, soldCount
+	const sortBy = url.searchParams.get('sortBy') || (url.searchParams.get('q') ? 'relevance' : 'id');
 	const sortOrder = url.searchParams.get('sortOrder') || 'desc'; // asc, desc
 	const offset = (page - 1) * perPage;
 
@@ -179,32 +157,30 @@ export async function GET({ url }) {
 
 			// Enrich single product data
 			const enrichedProduct = await enrichProductsData([product[0]], withSoldCount);
+			const { options, variants } = await getProductVariants(product[0].id);
 
 			return json({
 				success: true,
-				data: enrichedProduct[0]
+				data: { ...enrichedProduct[0], options, variants }
 			});
 		}
 
 		// Build where conditions
-		let whereConditions = sql`1=1`;
-		
-		if (q) {
-			whereConditions = sql`${whereConditions} AND (${products.name} LIKE ${`%${q}%`} OR ${products.description} LIKE ${`%${q}%`})`;
-		}
-		
-		if (categoryId) {
-			const categoryIdNum = parseInt(categoryId, 10);
-			if (!isNaN(categoryIdNum)) {
-				whereConditions = sql`${whereConditions} AND ${products.categoryId} = ${categoryIdNum}`;
-			}
-		}
+		const filters = await parseProductFilters(url.searchParams);
+		const whereConditions = buildProductConditions(filters);
 
 		// Determine order by clause
 		let orderByClause;
 		const isAsc = sortOrder.toLowerCase() === 'asc';
 		
 		switch (sortBy) {
+			case 'relevance':
+				// Keep the order the search index ranked them in
+				orderByClause =
+					filters.searchIds && filters.searchIds.length > 0
+						? sql`FIELD(${products.id}, ${sql.join(filters.searchIds.map((id) => sql`${id}`), sql`, `)})`
+						: sql`${products.id} DESC`;
+				break;
 			case 'name':
 				orderByClause = isAsc ? products.name : sql`${products.name} DESC`;
 				break;
@@ -258,9 +234,15 @@ export async function GET({ url }) {
 				perPage,
 				totalPages: Math.ceil(Number(total) / perPage)
 			},
+			...(withFacets && { facets: await getProductFacets(filters) }),
 			meta: {
-				query: q,
-				categoryId,
+				query: filters.q,
+				suggestion: filters.suggestion,
+				categoryIds: filters.categoryIds,
+				minPrice: filters.minPrice,
+				maxPrice: filters.maxPrice,
+				priceRange: filters.priceRange?.id ?? null,
+				inStock: filters.inStock,
 				sortBy,
 				sortOrder,
 				withSoldCount
@@ -276,7 +258,7 @@ export async function GET({ url }) {
 // POST - Create new product
 export async function POST(event: RequestEvent) {
 	const { request } = event;
-	const user = requireAdmin(event);
+	const user = requirePermission(event, 'manage_products');
 
   if (!validateCSRFToken(request)) {
 		throw error(403, 'Invalid CSRF token');
@@ -300,6 +282,7 @@ export async function POST(event: RequestEvent) {
 		if (!name) throw error(400, 'Name is required');
 		if (!price || isNaN(parseFloat(price))) throw error(400, 'Valid price is required');
 		if (!categoryId || isNaN(parseInt(categoryId))) throw error(400, 'Valid category ID is required');
+		const variantsInput = parseVariantsInput(formData.get('variants')?.toString());
 
 		// Check if product already exists
 		const existing = await db
@@ -333,6 +316,11 @@ export async function POST(event: RequestEvent) {
 		const result = await db.insert(products).values(insertData);
 		const productId = result[0].insertId;
 
+		// Variants also set the product's stock to their total
+		if (variantsInput) {
+			await saveProductVariants(productId, variantsInput);
+		}
+
 		// Handle multiple images
 		const imageFiles: File[] = [];
 		const entries = Array.from(formData.entries());
@@ -367,11 +355,16 @@ export async function POST(event: RequestEvent) {
 			.where(eq(products.id, productId))
 			.limit(1);
 
+		// Stock entered on the form lands in the primary warehouse
+		await reconcileWarehouseStock(productId);
+		invalidateSearchIndex();
+
 		return json({
 			success: true,
 			message: 'Product created successfully',
 			data: {
 				...createdProduct[0],
+				...(await getProductVariants(productId)),
 				images: uploadedImages,
 				soldCount: 0
 			}
@@ -386,7 +379,7 @@ export async function POST(event: RequestEvent) {
 // PUT - Update product
 export async function PUT(event: RequestEvent) {
 	const { request, url } = event;
-	const user = requireAdmin(event);
+	const user = requirePermission(event, 'manage_products');
 	const productId = url.searchParams.get('id');
 
 	if (!productId || isNaN(parseInt(productId))) {
@@ -428,6 +421,7 @@ export async function PUT(event: RequestEvent) {
 		if (!name) throw error(400, 'Name is required');
 		if (!price || isNaN(parseFloat(price))) throw error(400, 'Valid price is required');
 		if (!categoryId || isNaN(parseInt(categoryId))) throw error(400, 'Valid category ID is required');
+		const variantsInput = parseVariantsInput(formData.get('variants')?.toString());
 
 		// Check if another product with same name exists (excluding current)
 		const nameConflict = await db
@@ -466,6 +460,10 @@ export async function PUT(event: RequestEvent) {
 			.set(updateData)
 			.where(eq(products.id, id));
 
+		if (variantsInput) {
+			await saveProductVariants(id, variantsInput);
+		}
+
 		// Handle new images
 		const imageFiles: File[] = [];
 		const entries = Array.from(formData.entries());
@@ -502,10 +500,13 @@ export async function PUT(event: RequestEvent) {
 
 		const enrichedProduct = await enrichProductsData([updatedProduct[0]], true);
 
+		await reconcileWarehouseStock(id);
+		invalidateSearchIndex();
+
 		return json({
 			success: true,
 			message: 'Product updated successfully',
-			data: enrichedProduct[0]
+			data: { ...enrichedProduct[0], ...(await getProductVariants(id)) }
 		});
 	} catch (err: any) {
 		console.error('PUT /api/products error:', err);
@@ -517,7 +518,7 @@ export async function PUT(event: RequestEvent) {
 // DELETE - Delete product
 export async function DELETE(event: RequestEvent) {
 	const { request, url } = event;
-	const user = requireAdmin(event);
+	const user = requirePermission(event, 'manage_products');
 	const productId = url.searchParams.get('id');
 
 	if (!productId || isNaN(parseInt(productId))) {
@@ -553,16 +554,19 @@ export async function DELETE(event: RequestEvent) {
 			throw error(400, 'Cannot delete product that has been ordered. Consider marking it as inactive instead.');
 		}
 
-		// Delete product images first (foreign key constraint)
+		// Delete product images and variants first (foreign key constraint)
 		await db
 			.delete(productImages)
 			.where(eq(productImages.productId, id));
+		await deleteProductVariants(db, id);
 
 		// Delete product
 		await db
 			.delete(products)
 			.where(eq(products.id, id));
 
+		invalidateSearchIndex();
+
 		return json({
 			success: true,
 			message: 'Product deleted successfully'
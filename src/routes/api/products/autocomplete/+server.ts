@@ -0,0 +1,26 @@
+// src/routes/api/products/autocomplete/+server.ts
+// Suggestions for the navbar search box
+
+import { json, error } from '@sveltejs/kit';
+import { autocompleteProducts } from '$lib/server/product-search';
+
+const DEFAULT_LIMIT = 6;
+const MAX_LIMIT = 10;
+
+// GET - ?q=<partial query>&limit=<n>; returns matching products, categories and a "did you mean"
+export async function GET({ url }) {
+	const q = (url.searchParams.get('q') || '').trim().substring(0, 100);
+	const limit = Math.min(
+		Math.max(parseInt(url.searchParams.get('limit') || `${DEFAULT_LIMIT}`, 10) || DEFAULT_LIMIT, 1),
+		MAX_LIMIT
+	);
+
+	try {
+		const result = await autocompleteProducts(q, limit);
+		return json({ success: true, query: q, data: result });
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Error fetching autocomplete suggestions:', err);
+		throw error(500, 'Failed to fetch suggestions');
+	}
+}
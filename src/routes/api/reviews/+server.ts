@@ -0,0 +1,160 @@
+// src/routes/api/reviews/+server.ts
+// Product reviews for the storefront; only buyers with a delivered order may post
+
+import { db } from '$lib/server/db';
+import { products } from '$lib/server/db/schema';
+import { eq } from 'drizzle-orm';
+import { json, error, type RequestEvent } from '@sveltejs/kit';
+import { uploadImageKit } from '$lib/server/utils/upload-imageKit';
+import {
+	createReview,
+	getRatingBreakdown,
+	getRatingSummaries,
+	getReviewEligibility,
+	isReviewSort,
+	listProductReviews,
+	parseRating,
+	parseReviewBody,
+	MAX_REVIEW_IMAGES
+} from '$lib/server/reviews';
+import { requireCSRFToken } from '$lib/server/csrf';
+
+const MAX_PER_PAGE = 50;
+const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const MAX_IMAGE_SIZE = 2 * 1024 * 1024;
+
+function parseProductId(value: unknown): number {
+	const productId = Number(value);
+	if (!Number.isInteger(productId) || productId <= 0) {
+		throw error(400, 'Valid productId is required');
+	}
+	return productId;
+}
+
+async function assertProductExists(productId: number) {
+	const [product] = await db
+		.select({ id: products.id })
+		.from(products)
+		.where(eq(products.id, productId))
+		.limit(1);
+
+	if (!product) {
+		throw error(404, 'Product not found');
+	}
+}
+
+// GET - Published reviews of a product: productId, page, perPage, sort, rating
+export async function GET({ url, locals }: RequestEvent) {
+	try {
+		const productId = parseProductId(url.searchParams.get('productId'));
+		const page = Math.max(parseInt(url.searchParams.get('page') || '1', 10) || 1, 1);
+		const perPage = Math.min(
+			Math.max(parseInt(url.searchParams.get('perPage') || '10', 10) || 10, 1),
+			MAX_PER_PAGE
+		);
+		const sort = url.searchParams.get('sort') || 'newest';
+		const ratingParam = url.searchParams.get('rating');
+
+		if (!isReviewSort(sort)) {
+			throw error(400, 'Invalid sort parameter');
+		}
+		const rating = ratingParam ? parseRating(ratingParam) : null;
+
+		await assertProductExists(productId);
+
+		const { reviews, total } = await listProductReviews(productId, { page, perPage, sort, rating });
+		const summary = (await getRatingSummaries([productId])).get(productId);
+		const breakdown = await getRatingBreakdown(productId);
+
+		// Lets the product page decide whether to show the review form
+		let viewer = null;
+		if (locals.user) {
+			const eligibility = await getReviewEligibility(Number(locals.user.id), productId);
+			viewer = {
+				canReview: eligibility.canReview,
+				hasReviewed: eligibility.reviewId !== null
+			};
+		}
+
+		return json({
+			success: true,
+			data: reviews,
+			summary: {
+				rating: summary?.rating ?? 0,
+				reviewCount: summary?.reviewCount ?? 0,
+				breakdown
+			},
+			viewer,
+			pagination: {
+				total,
+				page,
+				perPage,
+				totalPages: Math.ceil(total / perPage)
+			}
+		});
+	} catch (err: any) {
+		console.error('Error fetching reviews:', err);
+		if (err.status) throw err;
+		throw error(500, 'Failed to fetch reviews');
+	}
+}
+
+// POST - Create a review (multipart: productId, rating, body, images)
+export async function POST({ request, locals }: RequestEvent) {
+	const user = locals?.user;
+	if (!user) {
+		throw error(401, 'Authentication required');
+	}
+	requireCSRFToken(request);
+
+	try {
+		const formData = await request.formData();
+		const productId = parseProductId(formData.get('productId'));
+		const rating = parseRating(formData.get('rating'));
+		const body = parseReviewBody(formData.get('body'));
+		const userId = Number(user.id);
+
+		const imageFiles = formData
+			.getAll('images')
+			.filter((value): value is File => value instanceof File && value.size > 0);
+
+		if (imageFiles.length > MAX_REVIEW_IMAGES) {
+			throw error(400, `At most ${MAX_REVIEW_IMAGES} images per review`);
+		}
+		for (const file of imageFiles) {
+			if (!ALLOWED_IMAGE_TYPES.includes(file.type)) throw error(400, 'Invalid image type');
+			if (file.size > MAX_IMAGE_SIZE) throw error(400, 'Image too large');
+		}
+
+		await assertProductExists(productId);
+
+		// Check before uploading so rejected reviews leave no files behind
+		const eligibility = await getReviewEligibility(userId, productId);
+		if (eligibility.reviewId) {
+			throw error(409, 'You have already reviewed this product');
+		}
+		if (!eligibility.orderId) {
+			throw error(403, 'Only customers who received this product can review it');
+		}
+
+		const images: string[] = [];
+		for (const file of imageFiles) {
+			images.push(await uploadImageKit(file, 'reviews'));
+		}
+
+		const reviewId = await createReview({ productId, userId, rating, body, images });
+
+		return json(
+			{
+				success: true,
+				message: 'Ulasan berhasil dikirim',
+				data: { id: reviewId, productId, rating, body, images, verifiedPurchase: true }
+			},
+			{ status: 201 }
+		);
+	} catch (err: any) {
+		console.error('Error creating review:', err);
+		if (err.status) throw err;
+		throw error(500, 'Failed to create review');
+	}
+}
@@ -2,11 +2,26 @@ import { json, error, type RequestEvent } from '@sveltejs/kit';
 import { db } from '$lib/server/db';
 import { products } from '$lib/server/db/schema';
 import { inArray } from 'drizzle-orm';
+import {
+  getActiveVariantsForProducts,
+  resolveLineAttributes,
+  type ProductVariant
+} from '$lib/server/variants';
 import { 
-  calculateShippingRates,
   isValidIndonesianPostalCode,
   getAreaByPostalCode 
 } from '$lib/server/biteship-utils';
+import {
+  planShipments,
+  quoteShipments,
+  combineShipmentRates,
+  rankWarehouses,
+  type ShipmentPlan,
+  type ShipmentQuote
+} from '$lib/server/shipment-planner';
+import { OutOfStockError } from '$lib/server/inventory';
+import { clearShippingCache, getShippingCacheMetrics } from '$lib/server/shipping-cache';
+import { hasPermission } from '$lib/utils/permissions';
 import crypto from 'crypto';
 
 const JWT_SECRET = process.env.JWT_SECRET!;
@@ -182,7 +197,11 @@ function ensureNumber(value: any, defaultValue: number = 0): number {
 }
 
 // ORIGINAL BUSINESS LOGIC: Validate and process items
-function validateAndProcessItems(itemsParam: string | null, productsData?: any[]): any[] {
+function validateAndProcessItems(
+  itemsParam: string | null,
+  productsData?: any[],
+  variantsData: ProductVariant[] = []
+): any[] {
   let items = [];
   
   if (itemsParam) {
@@ -195,6 +214,7 @@ function validateAndProcessItems(itemsParam: string | null, productsData?: any[]
 
       if (productsData && productsData.length > 0) {
         const productMap = new Map(productsData.map(p => [p.id, p]));
+        const variantMap = new Map(variantsData.map(v => [v.id, v]));
 
         items = parsedItems.map(item => {
           if (!item.productId || !item.quantity || item.quantity <= 0) {
@@ -204,6 +224,8 @@ function validateAndProcessItems(itemsParam: string | null, productsData?: any[]
           const product = productMap.get(item.productId);
           if (!product) {
             return {
+              productId: item.productId,
+              variantId: item.variantId ?? null,
               weight: 500,
               height: 10,
               length: 15,
@@ -213,13 +235,19 @@ function validateAndProcessItems(itemsParam: string | null, productsData?: any[]
             };
           }
           
+          // Variants may have their own price and dimensions
+          const line = resolveLineAttributes(product, item.variantId ? variantMap.get(item.variantId) : null);
+          
           return {
-            weight: Math.max(product.weight || 100, 100),
-            height: Math.max(product.height || 5, 5),
-            length: Math.max(product.length || 10, 10),
-            width: Math.max(product.width || 10, 10),
+            productId: product.id,
+            variantId: item.variantId ?? null,
+            name: product.name,
+            weight: Math.max(line.weight || 100, 100),
+            height: Math.max(line.height || 5, 5),
+            length: Math.max(line.length || 10, 10),
+            width: Math.max(line.width || 10, 10),
             quantity: item.quantity,
-            value: Math.max(parseFloat(product.price) || 10000, 10000)
+            value: Math.max(line.price || 10000, 10000)
           };
         });
       } else {
@@ -249,19 +277,55 @@ function validateAndProcessItems(itemsParam: string | null, productsData?: any[]
   return items;
 }
 
+// Decide the origin warehouses for a set of items. Items tied to products are allocated by
+// warehouse stock (nearest warehouse with everything, or split shipments); anonymous items
+// (dimensions only) ship from the nearest active warehouse.
+async function planItemShipments(destinationPostal: string, items: any[]): Promise<ShipmentPlan[]> {
+  if (items.length > 0 && items.every(item => item.productId)) {
+    return planShipments(items, destinationPostal);
+  }
+
+  const [nearest] = await rankWarehouses(destinationPostal);
+  if (!nearest) {
+    throw new Error('No active warehouse configured');
+  }
+  return [{ warehouse: nearest, lines: items }];
+}
+
+function summarizeShipments(quotes: ShipmentQuote[]) {
+  return quotes.map(quote => ({
+    warehouse: {
+      id: quote.warehouse.id,
+      code: quote.warehouse.code,
+      name: quote.warehouse.name,
+      city: quote.warehouse.city,
+      province: quote.warehouse.province,
+      postal_code: quote.warehouse.postalCode
+    },
+    items: quote.lines.map(line => ({
+      product_id: line.productId ?? null,
+      variant_id: line.variantId ?? null,
+      quantity: line.quantity
+    })),
+    rates_available: quote.rates.length
+  }));
+}
+
 // ORIGINAL BUSINESS LOGIC: Handle shipping calculation
 async function handleShippingCalculation(destinationPostal: string, items: any[], forceFresh: boolean = false) {
   const startTime = Date.now();
+  const plans = await planItemShipments(destinationPostal, items);
   
   // Pre-validate postal codes
   try {
-    const [originArea, destinationArea] = await Promise.all([
-      getAreaByPostalCode(STORE_CONFIG.postalCode),
-      getAreaByPostalCode(destinationPostal)
+    const [destinationArea, ...originAreas] = await Promise.all([
+      getAreaByPostalCode(destinationPostal, { fresh: forceFresh }),
+      ...plans.map(plan => getAreaByPostalCode(plan.warehouse.postalCode, { fresh: forceFresh }))
     ]);
 
-    if (!originArea) {
-      throw new Error(`Origin postal code ${STORE_CONFIG.postalCode} not found. Please check store configuration.`);
+    const missingOrigin = plans.find((plan, index) => !originAreas[index]);
+    if (missingOrigin) {
+      throw new Error(`Origin postal code ${missingOrigin.warehouse.postalCode} of warehouse ${missingOrigin.warehouse.code} not found. Please check warehouse configuration.`);
     }
 
     if (!destinationArea) {
@@ -271,13 +335,11 @@ async function handleShippingCalculation(destinationPostal: string, items: any[]
     throw areaError;
   }
 
-  // Calculate shipping rates
+  // Calculate shipping rates, one quote per origin warehouse
   try {
-    const shippingRates = await calculateShippingRates(
-      STORE_CONFIG.postalCode,
-      destinationPostal,
-      items
-    );
+    const quotes = await quoteShipments(plans, destinationPostal, { fresh: forceFresh });
+    const shippingRates = combineShipmentRates(quotes);
+    const shipments = summarizeShipments(quotes);
     
     const endTime = Date.now();
     const calculationTime = endTime - startTime;
@@ -286,8 +348,11 @@ async function handleShippingCalculation(destinationPostal: string, items: any[]
       return {
         success: true,
         data: [],
-        message: 'No shipping options available for this destination at the moment.',
+        message: quotes.length > 1
+          ? 'No courier can deliver every package of this order at the moment.'
+          : 'No shipping options available for this destination at the moment.',
         calculationTime,
+        shipments,
         hasRates: false
       };
     }
@@ -305,6 +370,7 @@ async function handleShippingCalculation(destinationPostal: string, items: any[]
       success: true,
       data: shippingRates,
       calculationTime,
+      shipments,
       hasRates: true,
       availableCouriers: Object.keys(ratesByCourier),
       ratesByCourier
@@ -378,6 +444,7 @@ export async function GET({ url, locals, getClientAddress }: RequestEvent) {
 
     let items = [];
     let productsData = [];
+    let variantsData: ProductVariant[] = [];
 
     // Fetch product data if items provided
     if (itemsParam) {
@@ -405,6 +472,7 @@ export async function GET({ url, locals, getClientAddress }: RequestEvent) {
                 })
                 .from(products)
                 .where(inArray(products.id, sanitizedProductIds));
+              variantsData = await getActiveVariantsForProducts(sanitizedProductIds);
             }
           }
         }
@@ -414,7 +482,7 @@ export async function GET({ url, locals, getClientAddress }: RequestEvent) {
     }
 
     // ORIGINAL BUSINESS LOGIC: Process items
-    items = validateAndProcessItems(itemsParam, productsData);
+    items = validateAndProcessItems(itemsParam, productsData, variantsData);
 
     // ORIGINAL BUSINESS LOGIC: Calculate shipping
     const shippingResult = await handleShippingCalculation(sanitizedPostalCode, items, forceFresh);
@@ -425,10 +493,11 @@ export async function GET({ url, locals, getClientAddress }: RequestEvent) {
       message: shippingResult.message,
       store_info: {
         name: STORE_CONFIG.name,
-        city: STORE_CONFIG.city,
-        province: STORE_CONFIG.province,
-        postal_code: STORE_CONFIG.postalCode
+        city: shippingResult.shipments[0]?.warehouse.city,
+        province: shippingResult.shipments[0]?.warehouse.province,
+        postal_code: shippingResult.shipments[0]?.warehouse.postal_code
       },
+      shipments: shippingResult.shipments,
       request_info: {
         destination_postal: sanitizedPostalCode,
         total_items: items.length,
@@ -449,6 +518,15 @@ export async function GET({ url, locals, getClientAddress }: RequestEvent) {
   } catch (err: any) {
     if (err.status) throw err;
 
+    if (err instanceof OutOfStockError) {
+      return json({
+        success: false,
+        message: err.message,
+        data: { out_of_stock: err.items },
+        error_type: 'out_of_stock'
+      }, { status: 409 });
+    }
+
     const errorType = 
       err.message?.includes('timeout') ? 'timeout' :
       err.message?.includes('not found') || err.message?.includes('Area not found') ? 'area_not_found' :
@@ -563,10 +641,11 @@ export async function POST({ request, locals, getClientAddress }: RequestEvent)
       message: shippingResult.message,
       store_info: {
         name: STORE_CONFIG.name,
-        city: STORE_CONFIG.city,
-        province: STORE_CONFIG.province,
-        postal_code: STORE_CONFIG.postalCode
+        city: shippingResult.shipments[0]?.warehouse.city,
+        province: shippingResult.shipments[0]?.warehouse.province,
+        postal_code: shippingResult.shipments[0]?.warehouse.postal_code
       },
+      shipments: shippingResult.shipments,
       request_info: {
         destination_postal: destinationPostal,
         total_items: processedItems.length,
@@ -587,6 +666,15 @@ export async function POST({ request, locals, getClientAddress }: RequestEvent)
   } catch (err: any) {
     if (err.status) throw err;
 
+    if (err instanceof OutOfStockError) {
+      return json({
+        success: false,
+        message: err.message,
+        data: { out_of_stock: err.items },
+        error_type: 'out_of_stock'
+      }, { status: 409 });
+    }
+
     const errorType = 
       err.message?.includes('timeout') ? 'timeout' :
       err.message?.includes('not found') || err.message?.includes('Area not found') ? 'area_not_found' :
@@ -657,18 +745,20 @@ export async function PATCH({ getClientAddress }: RequestEvent) {
     services: {
       database: 'connected',
       shipping_api: 'available'
-    }
+    },
+    cache: getShippingCacheMetrics()
   }, {
     status: 200,
     headers: { 'X-Content-Type-Options': 'nosniff', 'X-Frame-Options': 'DENY' }
   });
 }
 
-// DELETE - Clear rate limit (admin only)
+// DELETE - Clear rate limit for { targetIP } and/or cached Biteship data for
+// { cache: 'area' | 'area_search' | 'rates' | 'all' } (admin only)
 export async function DELETE({ request, locals }: RequestEvent) {
   const user = locals?.user;
   
-  if (!user || user.role !== 'admin') {
+  if (!user || !hasPermission(user.role, 'manage_settings')) {
     throw error(403, 'Admin access required');
   }
   
@@ -676,18 +766,30 @@ export async function DELETE({ request, locals }: RequestEvent) {
     throw error(403, 'Invalid CSRF token');
   }
   
-  const { targetIP } = await request.json();
+  const { targetIP, cache } = await request.json();
+  const cacheKinds = ['area', 'area_search', 'rates', 'all'];
   
-  if (!targetIP || typeof targetIP !== 'string') {
+  if (!targetIP && !cache) {
+    throw error(400, 'Target IP or cache is required');
+  }
+  if (targetIP !== undefined && (!targetIP || typeof targetIP !== 'string')) {
     throw error(400, 'Target IP is required');
   }
+  if (cache !== undefined && !cacheKinds.includes(cache)) {
+    throw error(400, `cache must be one of ${cacheKinds.join(', ')}`);
+  }
   
-  const sanitizedIP = sanitizeString(targetIP, 45);
-  rateLimitStore.delete(sanitizedIP);
+  if (targetIP) {
+    const sanitizedIP = sanitizeString(targetIP, 45);
+    rateLimitStore.delete(sanitizedIP);
+  }
+  if (cache) {
+    await clearShippingCache(cache === 'all' ? undefined : cache);
+  }
   
   return json({
     success: true,
-    message: 'Rate limit cleared',
+    message: [targetIP && 'Rate limit cleared', cache && 'Shipping cache cleared'].filter(Boolean).join(', '),
     timestamp: new Date().toISOString()
   });
 }
@@ -696,7 +798,7 @@ export async function DELETE({ request, locals }: RequestEvent) {
 export async function PUT({ request, locals }: RequestEvent) {
   const user = locals?.user;
   
-  if (!user || user.role !== 'admin') {
+  if (!user || !hasPermission(user.role, 'manage_settings')) {
     throw error(403, 'Admin access required');
   }
   
@@ -1,7 +1,10 @@
 import { db } from '$lib/server/db';
-import { orders, orderItems, products, users } from '$lib/server/db/schema';
+import { orders, orderItems, users } from '$lib/server/db/schema';
 import { eq, and, inArray, desc, asc, sql, gte, lte, like, or } from 'drizzle-orm';
 import { json, error, type RequestEvent } from '@sveltejs/kit';
+import { isOrderStatus, transitionOrderStatus } from '$lib/server/order-lifecycle';
+import { getPaymentProvider } from '$lib/server/payment-providers';
+import { getPeriodRange, isReportPeriod } from '$lib/server/reports/filters';
 import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
 import 'dotenv/config';
@@ -133,41 +136,6 @@ function validateRequestSize(request: Request): boolean {
   return !contentLength || parseInt(contentLength) <= MAX_REQUEST_SIZE;
 }
 
-// Helper function to get date range filters
-function getDateRangeFilter(period: string) {
-  const now = new Date();
-  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-  
-  switch (period) {
-    case 'today':
-      return {
-        start: today,
-        end: new Date(today.getTime() + 24 * 60 * 60 * 1000 - 1)
-      };
-    case 'week':
-      const weekStart = new Date(today);
-      weekStart.setDate(today.getDate() - today.getDay());
-      const weekEnd = new Date(weekStart);
-      weekEnd.setDate(weekStart.getDate() + 6);
-      weekEnd.setHours(23, 59, 59, 999);
-      return { start: weekStart, end: weekEnd };
-    case 'month':
-      const monthStart = new Date(today.getFullYear(), today.getMonth(), 1);
-      const monthEnd = new Date(today.getFullYear(), today.getMonth() + 1, 0);
-      monthEnd.setHours(23, 59, 59, 999);
-      return { start: monthStart, end: monthEnd };
-    case 'year':
-      const yearStart = new Date(today.getFullYear(), 0, 1);
-      const yearEnd = new Date(today.getFullYear(), 11, 31);
-      yearEnd.setHours(23, 59, 59, 999);
-      return { start: yearStart, end: yearEnd };
-    default:
-      const thirtyDaysAgo = new Date(today);
-      thirtyDaysAgo.setDate(today.getDate() - 30);
-      return { start: thirtyDaysAgo, end: now };
-  }
-}
-
 // SECURITY: Input validation for query parameters
 function validateQueryParams(url: URL): { isValid: boolean; errors: string[] } {
   const errors: string[] = [];
@@ -183,12 +151,12 @@ function validateQueryParams(url: URL): { isValid: boolean; errors: string[] } {
   }
   
   const period = url.searchParams.get('period');
-  if (period && !['today', 'week', 'month', 'year', 'all'].includes(period)) {
+  if (period && !isReportPeriod(period)) {
     errors.push('Invalid period parameter');
   }
   
   const status = url.searchParams.get('status');
-  if (status && !['pending', 'paid', 'processing', 'shipped', 'delivered', 'cancelled', 'failed'].includes(status)) {
+  if (status && !isOrderStatus(status)) {
     errors.push('Invalid status parameter');
   }
   
@@ -258,7 +226,7 @@ export async function GET({ url, request, getClientAddress }: RequestEvent) {
     
     // Add filters
     if (period !== 'all') {
-      const dateRange = getDateRangeFilter(period);
+      const dateRange = getPeriodRange(period);
       whereConditions.push(
         gte(orders.createdAt, dateRange.start),
         lte(orders.createdAt, dateRange.end)
@@ -316,6 +284,9 @@ export async function GET({ url, request, getClientAddress }: RequestEvent) {
         .select({
           orderId: orderItems.orderId,
           productId: orderItems.productId,
+          variantId: orderItems.variantId,
+          variantName: orderItems.variantName,
+          sku: orderItems.sku,
           name: orderItems.name,
           description: orderItems.description,
           category: orderItems.category,
@@ -467,41 +438,28 @@ export async function POST({ request, getClientAddress }: RequestEvent) {
         throw error(400, errorMessages[order.status] || `Pesanan dengan status '${order.status}' tidak dapat dibatalkan`);
       }
       
-      // Update order status to cancelled
-      await db
-        .update(orders)
-        .set({
-          status: 'cancelled',
-          updatedAt: new Date(),
-          metadata: JSON.stringify({
-            ...JSON.parse(order.metadata || '{}'),
-            cancelled: {
-              cancelled_at: new Date().toISOString(),
-              cancelled_by: auth.userId,
-              reason: 'User cancellation',
-              previous_status: order.status
-            }
-          })
-        })
-        .where(eq(orders.id, orderId));
-      
-      // Restore product stock
-      if (['processing', 'pending'].includes(order.status)) {
-        const orderItemsData = await db
-          .select()
-          .from(orderItems)
-          .where(eq(orderItems.orderId, orderId));
-        
-        for (const item of orderItemsData) {
-          await db
-            .update(products)
-            .set({
-              stock: sql`${products.stock} + ${item.quantity}`,
-              updatedAt: new Date()
-            })
-            .where(eq(products.id, item.productId));
+      // Stop the unpaid payment so it can no longer be completed after cancelling
+      if (order.status === 'pending') {
+        try {
+          await getPaymentProvider(order.paymentMethod).cancel(order);
+        } catch (paymentErr) {
+          console.error('Error cancelling payment for', order.orderNumber, paymentErr);
         }
       }
+
+      // Reserved stock is released by the status transition
+      await transitionOrderStatus(orderId, 'cancelled', {
+        actor: { type: 'customer', id: auth.userId },
+        reason: 'User cancellation',
+        metadata: {
+          cancelled: {
+            cancelled_at: new Date().toISOString(),
+            cancelled_by: auth.userId,
+            reason: 'User cancellation',
+            previous_status: order.status
+          }
+        }
+      });
       
       return json({
         success: true,
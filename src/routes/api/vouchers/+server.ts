@@ -0,0 +1,82 @@
+// src/routes/api/vouchers/+server.ts
+// Voucher preview for checkout; the order endpoint re-validates and redeems the voucher
+
+import { db } from '$lib/server/db';
+import { products } from '$lib/server/db/schema';
+import { inArray } from 'drizzle-orm';
+import { json, error, type RequestEvent } from '@sveltejs/kit';
+import { getStoredCartItems } from '$lib/server/cart';
+import { requireCSRFToken } from '$lib/server/csrf';
+import { normalizeVoucherCode, quoteVoucher } from '$lib/server/vouchers';
+
+// POST - Check a voucher code against the current user's cart
+export async function POST({ request, locals }: RequestEvent) {
+	const user = locals?.user;
+	if (!user) {
+		throw error(401, 'Authentication required');
+	}
+	requireCSRFToken(request);
+
+	try {
+		const body = await request.json().catch(() => ({}));
+		const code = normalizeVoucherCode(body.code);
+		const shippingCost = Math.max(Number(body.shippingCost) || 0, 0);
+
+		if (!code) {
+			throw error(400, 'Kode voucher wajib diisi');
+		}
+
+		const cartItems = await getStoredCartItems(Number(user.id));
+		if (cartItems.length === 0) {
+			throw error(400, 'Keranjang kosong');
+		}
+
+		const productsData = await db
+			.select({ id: products.id, price: products.price, categoryId: products.categoryId })
+			.from(products)
+			.where(
+				inArray(
+					products.id,
+					cartItems.map((item) => item.productId)
+				)
+			);
+		const productMap = new Map(productsData.map((product) => [product.id, product]));
+
+		const items = cartItems
+			.filter((item) => productMap.has(item.productId))
+			.map((item) => {
+				const product = productMap.get(item.productId)!;
+				return {
+					productId: item.productId,
+					categoryId: product.categoryId,
+					price: parseFloat(product.price),
+					quantity: item.quantity
+				};
+			});
+		const subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+
+		const quote = await quoteVoucher(db, code, {
+			userId: Number(user.id),
+			items,
+			subtotal,
+			shippingCost
+		});
+
+		return json({
+			success: true,
+			message: 'Voucher berhasil diterapkan',
+			data: {
+				code: quote.voucher.code,
+				name: quote.voucher.name,
+				type: quote.voucher.type,
+				itemDiscount: quote.itemDiscount,
+				shippingDiscount: quote.shippingDiscount,
+				discount: quote.discount
+			}
+		});
+	} catch (err: any) {
+		if (err.status) throw err;
+		console.error('Error applying voucher:', err);
+		throw error(500, 'Failed to apply voucher');
+	}
+}
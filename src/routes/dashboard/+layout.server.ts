@@ -4,15 +4,27 @@ import type {
 import {
   redirect
 } from '@sveltejs/kit';
+import {
+  canAccessDashboardPath,
+  isStaffRole,
+  permissionsFor
+} from '$lib/utils/permissions';
 
 export const load: LayoutServerLoad = async ({
-  locals
+  locals,
+  url
 }) => {
-  if (!locals.user || locals.user.role !== 'admin') {
+  if (!locals.user || !isStaffRole(locals.user.role)) {
     throw redirect(302, '/unauthorized');
   }
 
+  // Staf hanya bisa membuka bagian dashboard yang sesuai izin role-nya
+  if (!canAccessDashboardPath(locals.user.role, url.pathname)) {
+    throw redirect(302, '/dashboard');
+  }
+
   return {
-    user: locals.user
+    user: locals.user,
+    permissions: permissionsFor(locals.user.role)
   };
-};
\ No newline at end of file
+};
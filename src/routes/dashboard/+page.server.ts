@@ -4,14 +4,20 @@ import type {
 import {
   redirect
 } from '@sveltejs/kit';
+import {
+  hasPermission,
+  isStaffRole
+} from '$lib/utils/permissions';
 
 export const load: PageServerLoad = async ({
   locals
 }) => {
-  if (!locals.user || locals.user.role !== 'admin') {
+  if (!locals.user || !isStaffRole(locals.user.role)) {
     throw redirect(302, '/login');
   }
 
-  // Bisa ambil data dari DB di sini nanti
-  return {};
-};
\ No newline at end of file
+  // Ringkasan analitik hanya untuk role yang boleh melihat laporan
+  return {
+    canViewAnalytics: hasPermission(locals.user.role, 'view_reports')
+  };
+};
@@ -0,0 +1,20 @@
+import type { PageServerLoad } from './$types';
+import { error } from '@sveltejs/kit';
+
+export const load: PageServerLoad = async ({ fetch, params }) => {
+  const { orderId } = params;
+
+  const orderRes = await fetch(`/api/orders/${orderId}`);
+  if (orderRes.status === 404) {
+    throw error(404, 'Pesanan tidak ditemukan.');
+  }
+  if (!orderRes.ok) {
+    throw error(orderRes.status, 'Gagal memuat data pesanan.');
+  }
+
+  const orderData = await orderRes.json();
+
+  return {
+    order: orderData.data
+  };
+};
@@ -0,0 +1,46 @@
+// Shared labels and formatters for the admin order pages
+
+export const STATUS_LABELS: Record<string, string> = {
+  pending: 'Menunggu Pembayaran',
+  paid: 'Sudah Dibayar',
+  processing: 'Diproses',
+  shipped: 'Dikirim',
+  delivered: 'Diterima',
+  cancelled: 'Dibatalkan',
+  failed: 'Gagal',
+  expired: 'Kedaluwarsa',
+  refunded: 'Dana Dikembalikan'
+};
+
+export const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  midtrans: 'Midtrans',
+  bank_transfer: 'Transfer Bank',
+  cod: 'Bayar di Tempat (COD)'
+};
+
+export const VERIFICATION_LABELS: Record<string, string> = {
+  awaiting_payment: 'Belum ada bukti',
+  awaiting_verification: 'Menunggu verifikasi',
+  approved: 'Disetujui',
+  rejected: 'Ditolak'
+};
+
+export function formatPrice(price: number | string) {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  }).format(Number(price) || 0);
+}
+
+export function formatDate(date: string | Date | null) {
+  if (!date) return '-';
+  return new Date(date).toLocaleString('id-ID', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
@@ -20,7 +20,7 @@ export const load: PageServerLoad = async ({ fetch, params }) => {
     
     // Kembalikan kedua data untuk digunakan di komponen Svelte
     return {
-      product: productData,
+      product: productData.data,
       categories: categoriesData.data || []
     };
   } catch (e) {
@@ -0,0 +1,21 @@
+import type { PageServerLoad } from './$types';
+import { error } from '@sveltejs/kit';
+
+export const load: PageServerLoad = async ({ fetch, params, locals }) => {
+  const { userId } = params;
+
+  const userRes = await fetch(`/api/admin/users/${userId}`);
+  if (userRes.status === 404) {
+    throw error(404, 'User tidak ditemukan.');
+  }
+  if (!userRes.ok) {
+    throw error(userRes.status, 'Gagal memuat data user.');
+  }
+
+  const userData = await userRes.json();
+
+  return {
+    profile: userData.data,
+    currentUserId: locals.user?.id
+  };
+};